@@ -5,6 +5,22 @@
  * It also manages the connection to the MCP server.
  */
 
+// Delay before retrying to poll for actions after an error
+const ACTION_POLL_RETRY_DELAY = 5000;
+
+// URL of the MCP server currently polled for actions
+let actionPollingServerUrl = null;
+
+// Last state sent to the MCP server for each tab, used to send differential updates
+const lastSentStates = new Map();
+
+// Resume polling for actions when the service worker starts
+chrome.storage.sync.get(['serverUrl'], function(result) {
+  if (result.serverUrl) {
+    startActionPolling(result.serverUrl);
+  }
+});
+
 // Listen for messages from the popup
 chrome.runtime.onMessage.addListener(function(request, sender, sendResponse) {
   if (request.action === 'captureUIState') {
@@ -38,7 +54,10 @@ async function captureUIState(tabId, serverUrl, captureMode) {
     const uiState = result[0].result;
     
     // Send the UI state to the MCP server
-    const response = await sendToMCPServer(serverUrl, uiState);
+    const response = await sendToMCPServer(serverUrl, uiState, tabId);
+    
+    // Start receiving actions from the server
+    startActionPolling(serverUrl);
     
     return {
       success: true,
@@ -55,12 +74,114 @@ async function captureUIState(tabId, serverUrl, captureMode) {
 }
 
 /**
- * Send UI state to the MCP server
+ * Get the ID identifying this browser to the MCP server
+ * 
+ * The server keeps a separate session for every client and tab, so the ID is
+ * generated once and stored for later captures.
+ * 
+ * @returns {Promise<string>} - Client ID
+ */
+async function getClientId() {
+  const result = await chrome.storage.local.get(['clientId']);
+  if (result.clientId) {
+    return result.clientId;
+  }
+  
+  const clientId = crypto.randomUUID();
+  await chrome.storage.local.set({ clientId });
+  return clientId;
+}
+
+/**
+ * Poll the MCP server for actions and execute them
+ * 
+ * Actions are requested through long-polling. Each action is executed by the
+ * content script of its tab, and the result is reported back to the server.
+ * Only actions for this client's tabs are received, and only one server is
+ * polled at a time.
  * 
  * @param {string} serverUrl - URL of the MCP server
- * @param {object} uiState - UI state to send
- * @returns {Promise<object>} - Server response
  */
+async function startActionPolling(serverUrl) {
+  if (actionPollingServerUrl === serverUrl) {
+    return;
+  }
+  
+  actionPollingServerUrl = serverUrl;
+  
+  while (actionPollingServerUrl === serverUrl) {
+    try {
+      const clientId = await getClientId();
+      const response = await fetch(`${serverUrl}/api/actions/next?clientId=${encodeURIComponent(clientId)}`);
+      
+      // No action was queued while waiting
+      if (response.status === 204) {
+        continue;
+      }
+      
+      if (!response.ok) {
+        throw new Error(`Server responded with status ${response.status}`);
+      }
+      
+      const queuedAction = await response.json();
+      const result = await executeActionInTab(queuedAction);
+      await reportActionResult(serverUrl, queuedAction, result);
+    } catch (error) {
+      console.error('Error polling for actions:', error);
+      await new Promise(resolve => setTimeout(resolve, ACTION_POLL_RETRY_DELAY));
+    }
+  }
+}
+
+/**
+ * Execute a queued action in its tab
+ * 
+ * @param {object} queuedAction - Action received from the MCP server
+ * @returns {Promise<object>} - Action result
+ */
+async function executeActionInTab(queuedAction) {
+  try {
+    const result = await chrome.tabs.sendMessage(Number(queuedAction.tabId), {
+      action: 'executeAction',
+      actionType: queuedAction.action.type,
+      targetId: queuedAction.action.targetId,
+      data: queuedAction.action.data
+    });
+    
+    return result || { success: false, error: 'No response from content script' };
+  } catch (error) {
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Report the result of an action to the MCP server
+ * 
+ * @param {string} serverUrl - URL of the MCP server
+ * @param {object} queuedAction - Action received from the MCP server
+ * @param {object} result - Action result
+ * @returns {Promise<void>}
+ */
+async function reportActionResult(serverUrl, queuedAction, result) {
+  const actionId = encodeURIComponent(queuedAction.id);
+  const tabId = encodeURIComponent(queuedAction.tabId);
+  const response = await fetch(`${serverUrl}/api/actions/${actionId}/result?tabId=${tabId}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Client-Id': await getClientId()
+    },
+    body: JSON.stringify(result)
+  });
+  
+  if (!response.ok) {
+    throw new Error(`Server responded with status ${response.status}`);
+  }
+}
+
 /**
  * Filter UI state to only include relevant elements for browsing
  *
@@ -140,34 +261,158 @@ function filterRelevantElements(uiState) {
   return filteredState;
 }
 
-async function sendToMCPServer(serverUrl, uiState) {
+/**
+ * Send UI state to the MCP server
+ * 
+ * The first state of a page is sent in full. Later states are sent as
+ * differential updates against the last state the server received, falling back
+ * to a full state when the server asks the extension to resync.
+ * 
+ * @param {string} serverUrl - URL of the MCP server
+ * @param {object} uiState - UI state to send
+ * @param {number} tabId - ID of the tab the state was captured from
+ * @returns {Promise<object>} - Server response
+ */
+async function sendToMCPServer(serverUrl, uiState, tabId) {
   try {
     // Filter the UI state to only include relevant elements
     const filteredState = filterRelevantElements(uiState);
+    filteredState.version = crypto.randomUUID();
     
     // Log the reduction in elements
     const originalCount = Object.keys(uiState.elements).length;
     const filteredCount = Object.keys(filteredState.elements).length;
     console.log(`Filtered UI state: ${filteredCount} elements (reduced from ${originalCount}, ${Math.round((1 - filteredCount/originalCount) * 100)}% reduction)`);
-    const response = await fetch(`${serverUrl}/api/ui-state`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(filteredState)
-    });
     
-    if (!response.ok) {
-      throw new Error(`Server responded with status ${response.status}`);
+    let result = null;
+    
+    // Send only the changes if the server already has a state for this page
+    const lastSent = lastSentStates.get(tabId);
+    if (lastSent &&
+        lastSent.serverUrl === serverUrl &&
+        lastSent.state.url === filteredState.url &&
+        lastSent.state.title === filteredState.title) {
+      result = await postToMCPServer(
+        serverUrl,
+        `/api/ui-state/diff?tabId=${tabId}`,
+        computeStateDiff(lastSent.state, filteredState)
+      );
     }
     
-    return await response.json();
+    // Send the full state for the first capture, or when the server has lost track of the tab
+    if (!result) {
+      result = await postToMCPServer(serverUrl, `/api/ui-state?tabId=${tabId}`, filteredState);
+    }
+    
+    lastSentStates.set(tabId, { serverUrl, state: filteredState });
+    return result;
   } catch (error) {
+    lastSentStates.delete(tabId);
     console.error('Error sending UI state to MCP server:', error);
     throw error;
   }
 }
 
+/**
+ * Post a UI state or differential update to the MCP server
+ * 
+ * @param {string} serverUrl - URL of the MCP server
+ * @param {string} path - Path of the endpoint
+ * @param {object} body - State or update to send
+ * @returns {Promise<object|null>} - Server response, or null if the server asks for a full state
+ */
+async function postToMCPServer(serverUrl, path, body) {
+  const response = await fetch(`${serverUrl}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Client-Id': await getClientId()
+    },
+    body: JSON.stringify(body)
+  });
+  
+  if (response.status === 409) {
+    const error = await response.json();
+    if (error.resync) {
+      return null;
+    }
+  }
+  
+  if (!response.ok) {
+    throw new Error(`Server responded with status ${response.status}`);
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Compute the differential update between two UI states
+ * 
+ * @param {object} oldState - State last sent to the server
+ * @param {object} newState - Newly captured state
+ * @returns {object} - Differential update
+ */
+function computeStateDiff(oldState, newState) {
+  const added = {};
+  const modified = {};
+  const removed = [];
+  
+  for (const [id, element] of Object.entries(newState.elements)) {
+    const oldElement = oldState.elements[id];
+    
+    if (!oldElement) {
+      added[id] = element;
+      continue;
+    }
+    
+    // Only include the properties that changed, clearing properties that were removed
+    const changes = {};
+    for (const key of new Set([...Object.keys(oldElement), ...Object.keys(element)])) {
+      if (JSON.stringify(oldElement[key]) !== JSON.stringify(element[key])) {
+        changes[key] = element[key] === undefined ? null : element[key];
+      }
+    }
+    
+    if (Object.keys(changes).length > 0) {
+      modified[id] = changes;
+    }
+  }
+  
+  for (const id of Object.keys(oldState.elements)) {
+    if (!newState.elements[id]) {
+      removed.push(id);
+    }
+  }
+  
+  const update = {
+    timestamp: newState.timestamp,
+    baseVersion: oldState.version,
+    version: newState.version
+  };
+  
+  if (Object.keys(added).length > 0) {
+    update.added = added;
+  }
+  
+  if (Object.keys(modified).length > 0) {
+    update.modified = modified;
+  }
+  
+  if (removed.length > 0) {
+    update.removed = removed;
+  }
+  
+  if (oldState.focus !== newState.focus) {
+    update.focus = newState.focus || null;
+  }
+  
+  if (oldState.hover !== newState.hover) {
+    update.hover = newState.hover || null;
+  }
+  
+  return update;
+}
+
 /**
  * Function to be injected into the page to capture UI state
  * 
@@ -175,9 +420,24 @@ async function sendToMCPServer(serverUrl, uiState) {
  * @returns {object} - Captured UI state
  */
 function captureUIStateInPage(captureMode) {
-  // Create a unique ID for elements
-  function generateElementId() {
-    return 'e' + Math.random().toString(36).substring(2, 10);
+  // Registry of captured elements by ID, shared with the content script
+  // so actions can be executed on them
+  const elementRegistry = new Map();
+  window.__modelEyesElements = elementRegistry;
+  
+  // IDs of the elements captured before on this page, so every element keeps
+  // its ID across captures and differential updates only carry real changes
+  const elementIds = window.__modelEyesElementIds || new WeakMap();
+  window.__modelEyesElementIds = elementIds;
+  
+  // Get the ID of an element, creating a unique one on its first capture
+  function getElementId(element) {
+    let id = elementIds.get(element);
+    if (!id) {
+      id = 'e' + Math.random().toString(36).substring(2, 10);
+      elementIds.set(element, id);
+    }
+    return id;
   }
   
   // Check if an element is visible
@@ -251,8 +511,9 @@ function captureUIStateInPage(captureMode) {
       return {};
     }
     
-    // Generate an ID for this element
-    const id = generateElementId();
+    // Get the ID of this element
+    const id = getElementId(element);
+    elementRegistry.set(id, element);
     
     // Create the element object
     const elementObj = {
@@ -342,15 +603,11 @@ function captureUIStateInPage(captureMode) {
     version: '1.0'
   };
   
-  // Add focus information if available
+  // Add focus information if the focused element was captured
   if (document.activeElement && document.activeElement !== document.body) {
-    for (const [id, element] of Object.entries(uiState.elements)) {
-      if (element.type === document.activeElement.tagName.toLowerCase()) {
-        // This is a simple heuristic - in a real implementation, we would need
-        // to check if this is actually the active element
-        uiState.focus = id;
-        break;
-      }
+    const focusId = elementIds.get(document.activeElement);
+    if (focusId && uiState.elements[focusId]) {
+      uiState.focus = focusId;
     }
   }
   
@@ -132,6 +132,9 @@ function captureUIState() {
   const elements = {};
   const idCounter = { value: 0 };
   
+  // Start a fresh element registry for this capture
+  window.__modelEyesElements = new Map();
+  
   // Capture the document element
   captureElement(document.documentElement, null, elements, idCounter);
   
@@ -173,6 +176,7 @@ function captureElement(element, parentId, elements, idCounter) {
   
   // Generate a unique ID for the element
   const id = `e${idCounter.value++}`;
+  getElementRegistry().set(id, element);
   
   // Get element bounds
   const rect = element.getBoundingClientRect();
@@ -280,6 +284,594 @@ function isElementInteractable(element) {
   return false;
 }
 
+/**
+ * Get the registry of captured elements by ID
+ * 
+ * The registry is filled by the last capture, whether it was made by this
+ * script or injected by the background script.
+ * 
+ * @returns {Map<string, Element>} The element registry
+ */
+function getElementRegistry() {
+  if (!window.__modelEyesElements) {
+    window.__modelEyesElements = new Map();
+  }
+  
+  return window.__modelEyesElements;
+}
+
+/**
+ * Get the center of an element in the viewport
+ * 
+ * @param {Element} element - DOM element
+ * @returns {Object} The clientX and clientY of the center
+ */
+function getCenter(element) {
+  const rect = element.getBoundingClientRect();
+  return { clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2 };
+}
+
+/**
+ * Dispatch pointer and mouse events at the center of an element
+ * 
+ * @param {Element} element - Element to dispatch the events on
+ * @param {string[]} types - Event types, pointer events first
+ * @param {Object} init - Additional event properties
+ * @returns {boolean} Whether no event was cancelled
+ */
+function dispatchPointerEvents(element, types, init = {}) {
+  let proceed = true;
+  for (const type of types) {
+    const EventClass = type.startsWith('pointer') ? PointerEvent : MouseEvent;
+    const bubbles = !type.endsWith('enter') && !type.endsWith('leave');
+    proceed = element.dispatchEvent(new EventClass(type, {
+      bubbles,
+      cancelable: bubbles,
+      composed: true,
+      view: window,
+      pointerId: 1,
+      pointerType: 'mouse',
+      isPrimary: true,
+      ...getCenter(element),
+      ...init
+    })) && proceed;
+  }
+  
+  return proceed;
+}
+
+/**
+ * Dispatch the input and change events of a form control whose value changed
+ * 
+ * @param {Element} element - Form control
+ */
+function dispatchChangeEvents(element) {
+  element.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
+  element.dispatchEvent(new Event('change', { bubbles: true }));
+}
+
+/**
+ * Move the pointer onto an element, leaving the element hovered before
+ * 
+ * @param {Element} element - Element to hover
+ */
+function hoverElement(element) {
+  const previous = window.__modelEyesHovered;
+  window.__modelEyesHovered = element;
+  
+  if (previous && previous !== element && previous.isConnected) {
+    dispatchPointerEvents(previous, ['pointerout', 'mouseout'], { relatedTarget: element });
+    for (let left = previous; left && !left.contains(element); left = left.parentElement) {
+      dispatchPointerEvents(left, ['pointerleave', 'mouseleave'], { relatedTarget: element });
+    }
+  }
+  
+  if (previous !== element) {
+    dispatchPointerEvents(element, ['pointerover', 'mouseover'], { relatedTarget: previous || null });
+    const entered = [];
+    for (let ancestor = element; ancestor && !(previous && ancestor.contains(previous)); ancestor = ancestor.parentElement) {
+      entered.unshift(ancestor);
+    }
+    entered.forEach(ancestor => dispatchPointerEvents(ancestor, ['pointerenter', 'mouseenter'], { relatedTarget: previous || null }));
+  }
+  
+  dispatchPointerEvents(element, ['pointermove', 'mousemove']);
+}
+
+/**
+ * Choose options of a select element by value or label
+ * 
+ * @param {Element} element - Select element
+ * @param {Object} data - Values or labels of the options to choose
+ * @returns {string[]} Values of the chosen options
+ */
+function selectOptions(element, data) {
+  if (!(element instanceof HTMLSelectElement)) {
+    throw new Error('Element is not a select');
+  }
+  if (element.disabled) {
+    throw new Error('Element is disabled');
+  }
+  
+  const byLabel = data.label !== undefined;
+  const wanted = [].concat(byLabel ? data.label : data.value);
+  if (wanted.length !== 1 && !element.multiple) {
+    throw new Error('Exactly one option must be chosen in a single select');
+  }
+  
+  const options = Array.from(element.options);
+  const chosen = wanted.map(choice => {
+    const option = options.find(candidate => byLabel
+      ? candidate.label.replace(/\s+/g, ' ').trim() === choice
+      : candidate.value === choice);
+    if (!option) {
+      throw new Error(`No option with ${byLabel ? 'label' : 'value'} "${choice}"`);
+    }
+    if (option.disabled || (option.parentElement && option.parentElement.disabled)) {
+      throw new Error(`Option "${choice}" is disabled`);
+    }
+    return option;
+  });
+  
+  options.forEach(option => {
+    option.selected = chosen.includes(option);
+  });
+  dispatchChangeEvents(element);
+  
+  return chosen.map(option => option.value);
+}
+
+/**
+ * Check or uncheck a checkbox or radio button by clicking it
+ * 
+ * @param {Element} element - Checkbox or radio button
+ * @param {boolean} checked - Whether the element should be checked
+ */
+function setChecked(element, checked) {
+  if (!(element instanceof HTMLInputElement) || (element.type !== 'checkbox' && element.type !== 'radio')) {
+    throw new Error('Element is not a checkbox or radio button');
+  }
+  if (!checked && element.type === 'radio') {
+    throw new Error('Radio buttons cannot be unchecked, check another button of the group instead');
+  }
+  if (element.disabled) {
+    throw new Error('Element is disabled');
+  }
+  
+  if (element.checked !== checked) {
+    clickElement(element);
+  }
+  if (element.checked !== checked) {
+    throw new Error(`The page prevented the element from being ${checked ? 'checked' : 'unchecked'}`);
+  }
+}
+
+/**
+ * Press a key on an element, activating buttons and links and submitting
+ * forms as the key would unless the page cancels the keydown event
+ * 
+ * @param {Element} element - Element to press the key on
+ * @param {Object} data - Key and modifiers to press
+ */
+function pressKey(element, data) {
+  const modifiers = data.modifiers || [];
+  const init = {
+    key: data.key,
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+    altKey: modifiers.includes('Alt'),
+    ctrlKey: modifiers.includes('Control'),
+    metaKey: modifiers.includes('Meta'),
+    shiftKey: modifiers.includes('Shift')
+  };
+  
+  element.focus();
+  const proceed = element.dispatchEvent(new KeyboardEvent('keydown', init));
+  if (proceed && (data.key.length === 1 || data.key === 'Enter') && !init.ctrlKey && !init.metaKey) {
+    element.dispatchEvent(new KeyboardEvent('keypress', init));
+  }
+  element.dispatchEvent(new KeyboardEvent('keyup', init));
+  if (!proceed) {
+    return;
+  }
+  
+  const tag = element.tagName.toLowerCase();
+  if (data.key === 'Enter') {
+    if (tag === 'button' || (tag === 'a' && element.hasAttribute('href')) || isSubmitButton(element)) {
+      element.click();
+    } else if (element instanceof HTMLInputElement && element.form &&
+        !['button', 'checkbox', 'color', 'file', 'hidden', 'image', 'radio', 'range', 'reset', 'submit'].includes(element.type)) {
+      submitForm(element);
+    }
+  } else if (data.key === ' ') {
+    if (tag === 'button' || (element instanceof HTMLInputElement && ['button', 'checkbox', 'radio', 'reset', 'submit'].includes(element.type))) {
+      element.click();
+    }
+  }
+}
+
+/**
+ * Drag an element and drop it onto another
+ * 
+ * @param {Element} source - Element to drag
+ * @param {Element} target - Element to drop onto
+ * @returns {boolean} Whether the target accepted the drop
+ */
+function dragAndDrop(source, target) {
+  const dataTransfer = new DataTransfer();
+  const dispatchDrag = (element, type) => element.dispatchEvent(new DragEvent(type, {
+    bubbles: true,
+    cancelable: type !== 'dragleave' && type !== 'dragend',
+    composed: true,
+    dataTransfer,
+    ...getCenter(element)
+  }));
+  
+  hoverElement(source);
+  dispatchPointerEvents(source, ['pointerdown', 'mousedown'], { buttons: 1 });
+  if (!dispatchDrag(source, 'dragstart')) {
+    dispatchPointerEvents(source, ['pointerup', 'mouseup']);
+    throw new Error('The page prevented the element from being dragged');
+  }
+  dispatchDrag(source, 'drag');
+  
+  // The drop event is only dispatched if the target cancels the dragover event
+  hoverElement(target);
+  dispatchDrag(target, 'dragenter');
+  const accepted = !dispatchDrag(target, 'dragover');
+  dispatchDrag(target, accepted ? 'drop' : 'dragleave');
+  dispatchDrag(source, 'dragend');
+  dispatchPointerEvents(target, ['pointerup', 'mouseup']);
+  
+  return accepted;
+}
+
+/**
+ * Navigate the page, or the frame shown by an iframe element
+ * 
+ * @param {Element} element - Element whose window to navigate
+ * @param {string} url - URL to navigate to
+ * @returns {string} The resolved URL
+ */
+function navigate(element, url) {
+  const resolved = new URL(url, element.baseURI);
+  if (resolved.protocol === 'javascript:') {
+    throw new Error('Navigating to javascript: URLs is not allowed');
+  }
+  
+  const target = element instanceof HTMLIFrameElement ? element.contentWindow : window;
+  target.location.href = resolved.href;
+  
+  return resolved.href;
+}
+
+/**
+ * Check whether an element is a button that submits its form
+ * 
+ * @param {Element} element - DOM element
+ * @returns {boolean} Whether the element is a submit button
+ */
+function isSubmitButton(element) {
+  return (element instanceof HTMLButtonElement && element.type === 'submit') ||
+    (element instanceof HTMLInputElement && (element.type === 'submit' || element.type === 'image'));
+}
+
+/**
+ * Submit a form, or the form of a field or button, as the user would
+ * 
+ * @param {Element} element - Form, or an element of a form
+ */
+function submitForm(element) {
+  const form = element instanceof HTMLFormElement ? element : element.form;
+  if (!form) {
+    throw new Error('Element is not a form or part of one');
+  }
+  
+  form.requestSubmit(isSubmitButton(element) ? element : null);
+}
+
+/**
+ * Clear the value of a text field, select, file input or editable element
+ * 
+ * Fields are cleared with beforeinput, input and change events, unless the
+ * page cancels the beforeinput event.
+ * 
+ * @param {Element} element - Element to clear
+ */
+function clearElement(element) {
+  if ((element instanceof HTMLInputElement &&
+      !['button', 'checkbox', 'color', 'hidden', 'image', 'radio', 'range', 'reset', 'submit'].includes(element.type)) ||
+      element instanceof HTMLTextAreaElement) {
+    if (element.disabled || element.readOnly) {
+      throw new Error('Element is disabled or read-only');
+    }
+    if (element.value !== '' && dispatchInputEvent(element, 'beforeinput', 'deleteContentBackward')) {
+      setNativeValue(element, '');
+      dispatchInputEvent(element, 'input', 'deleteContentBackward');
+      element.dispatchEvent(new Event('change', { bubbles: true }));
+    }
+    if (element.value !== '') {
+      throw new Error('The page did not let the element be cleared');
+    }
+  } else if (element instanceof HTMLSelectElement) {
+    if (element.disabled) {
+      throw new Error('Element is disabled');
+    }
+    if (element.selectedIndex !== -1) {
+      element.selectedIndex = -1;
+      dispatchChangeEvents(element);
+    }
+  } else if (element.isContentEditable) {
+    if (element.textContent !== '' && dispatchInputEvent(element, 'beforeinput', 'deleteContent')) {
+      element.textContent = '';
+      dispatchInputEvent(element, 'input', 'deleteContent');
+    }
+  } else {
+    throw new Error('Element cannot be cleared');
+  }
+}
+
+/**
+ * Choose the files of a file input
+ * 
+ * @param {Element} element - File input
+ * @param {Object[]} files - Files with a name, content, encoding and MIME type
+ * @returns {string[]} Names of the chosen files
+ */
+function uploadFiles(element, files) {
+  if (!(element instanceof HTMLInputElement) || element.type !== 'file') {
+    throw new Error('Element is not a file input');
+  }
+  if (element.disabled) {
+    throw new Error('Element is disabled');
+  }
+  if (files.length > 1 && !element.multiple) {
+    throw new Error('File input accepts a single file');
+  }
+  
+  const transfer = new DataTransfer();
+  for (const file of files) {
+    const content = file.encoding === 'base64'
+      ? Uint8Array.from(atob(file.content), char => char.charCodeAt(0))
+      : file.content;
+    transfer.items.add(new File([content], file.name, { type: file.mimeType || '' }));
+  }
+  element.files = transfer.files;
+  dispatchChangeEvents(element);
+  
+  return files.map(file => file.name);
+}
+
+/**
+ * Click an element as the user would with a mouse: the pointer is moved onto
+ * the element and pressed, focusing it unless the page cancels the mousedown
+ * event, and released
+ * 
+ * @param {Element} element - Element to click
+ */
+function clickElement(element) {
+  hoverElement(element);
+  const proceed = dispatchPointerEvents(element, ['pointerdown', 'mousedown'], { button: 0, buttons: 1, detail: 1 });
+  if (proceed) {
+    const focusable = element.closest('a[href], button, input, select, textarea, summary, iframe, [tabindex], [contenteditable]');
+    if (focusable) {
+      focusable.focus();
+    } else if (document.activeElement) {
+      document.activeElement.blur();
+    }
+  }
+  dispatchPointerEvents(element, ['pointerup', 'mouseup'], { button: 0, detail: 1 });
+  if (element.isConnected) {
+    dispatchPointerEvents(element, ['click'], { button: 0, detail: 1 });
+  }
+}
+
+/**
+ * Set the value of a field through the native value setter, which frameworks
+ * tracking the value of the field do not intercept
+ * 
+ * @param {Element} element - Input or textarea element
+ * @param {string} value - New value
+ */
+function setNativeValue(element, value) {
+  const prototype = element instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  Object.getOwnPropertyDescriptor(prototype, 'value').set.call(element, value);
+}
+
+/**
+ * Dispatch an input event as typing or deleting text would
+ * 
+ * @param {Element} element - Element receiving the input
+ * @param {string} type - Event type, beforeinput or input
+ * @param {string} inputType - Kind of change, e.g. insertText
+ * @param {string|null} data - Inserted text
+ * @returns {boolean} Whether the page let the change happen
+ */
+function dispatchInputEvent(element, type, inputType, data = null) {
+  return element.dispatchEvent(new InputEvent(type, {
+    bubbles: true,
+    cancelable: type === 'beforeinput',
+    composed: true,
+    inputType,
+    data
+  }));
+}
+
+/**
+ * Type text into a text field character by character, replacing its value
+ * 
+ * Each character is typed with its keydown, keypress, beforeinput, input and
+ * keyup events, and inserted unless the page cancels the keydown or beforeinput
+ * event. The field is re-read afterwards to check that the page accepted the
+ * text.
+ * 
+ * @param {Element} element - Input or textarea element
+ * @param {string} text - Text to type
+ * @param {number} delay - Delay in milliseconds between characters
+ */
+async function typeText(element, text, delay = 0) {
+  if (!(element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement)) {
+    throw new Error('Element is not a text input');
+  }
+  if (element.disabled || element.readOnly) {
+    throw new Error('Element is disabled or read-only');
+  }
+  
+  const initialValue = element.value;
+  const multiline = element instanceof HTMLTextAreaElement;
+  const input = (type, inputType, value = null) => dispatchInputEvent(element, type, inputType, value);
+  const key = (type, name, shiftKey) => element.dispatchEvent(new KeyboardEvent(type, {
+    key: name,
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+    shiftKey
+  }));
+  
+  if (document.activeElement !== element) {
+    element.focus();
+  }
+  if (element.value !== '' && input('beforeinput', 'deleteContentBackward')) {
+    setNativeValue(element, '');
+    input('input', 'deleteContentBackward');
+  }
+  
+  let expected = '';
+  const characters = Array.from(text.replace(/\r\n?/g, '\n'));
+  for (let index = 0; index < characters.length; index++) {
+    if (index > 0 && delay) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+    
+    const character = characters[index];
+    const name = character === '\n' ? 'Enter' : character;
+    const shiftKey = character !== character.toLowerCase();
+    const insertable = (character !== '\n' || multiline) && (element.maxLength < 0 || expected.length < element.maxLength);
+    if (insertable) {
+      expected += character;
+    }
+    
+    if (key('keydown', name, shiftKey)) {
+      key('keypress', name, shiftKey);
+      const inputType = character === '\n' ? 'insertLineBreak' : 'insertText';
+      const data = character === '\n' ? null : character;
+      if (insertable && input('beforeinput', inputType, data)) {
+        setNativeValue(element, element.value + character);
+        input('input', inputType, data);
+      }
+    }
+    key('keyup', name, shiftKey);
+  }
+  
+  if (element.value !== initialValue) {
+    element.dispatchEvent(new Event('change', { bubbles: true }));
+  }
+  if (element.value !== expected) {
+    throw new Error('The page did not accept the typed text');
+  }
+}
+
+/**
+ * Execute an action on a captured element
+ * 
+ * @param {string} actionType - Type of action to execute
+ * @param {string} targetId - ID of the target element
+ * @param {*} data - Additional data for the action
+ * @returns {Promise<Object>} The action result
+ */
+async function executeAction(actionType, targetId, data) {
+  const element = getElementRegistry().get(targetId);
+  if (!element || !element.isConnected) {
+    return {
+      success: false,
+      error: `Element with ID ${targetId} not found`
+    };
+  }
+  
+  try {
+    switch (actionType) {
+      case 'click':
+        clickElement(element);
+        break;
+        
+      case 'focus':
+        element.focus();
+        break;
+        
+      case 'hover':
+        hoverElement(element);
+        break;
+        
+      case 'type':
+        if (data && typeof data === 'object') {
+          await typeText(element, data.text, data.delay);
+        } else {
+          await typeText(element, data || '');
+        }
+        break;
+        
+      case 'scroll':
+        if (data && typeof data === 'object') {
+          element.scrollTo(data.x || 0, data.y || 0);
+        } else {
+          element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+        break;
+        
+      case 'select':
+        return { success: true, data: { selected: selectOptions(element, data) } };
+        
+      case 'check':
+      case 'uncheck':
+        setChecked(element, actionType === 'check');
+        break;
+        
+      case 'pressKey':
+        pressKey(element, data);
+        break;
+        
+      case 'dragAndDrop': {
+        const dropTarget = getElementRegistry().get(data.targetId);
+        if (!dropTarget || !dropTarget.isConnected) {
+          return {
+            success: false,
+            error: `Element with ID ${data.targetId} not found`
+          };
+        }
+        return { success: true, data: { dropped: dragAndDrop(element, dropTarget) } };
+      }
+        
+      case 'navigate':
+        return { success: true, data: { url: navigate(element, data.url) } };
+        
+      case 'submit':
+        submitForm(element);
+        break;
+        
+      case 'clear':
+        clearElement(element);
+        break;
+        
+      case 'uploadFile':
+        return { success: true, data: { files: uploadFiles(element, data.files) } };
+        
+      default:
+        return {
+          success: false,
+          error: `Unsupported action type: ${actionType}`
+        };
+    }
+    
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
 /**
  * Send the UI state to the server
  * 
@@ -336,6 +928,19 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     // Return true to indicate that sendResponse will be called asynchronously
     return true;
   }
+  
+  if (message.action === 'executeAction') {
+    executeAction(message.actionType, message.targetId, message.data).then(result => {
+      if (config.debug) {
+        console.log(`Executed ${message.actionType} on ${message.targetId}:`, result);
+      }
+      
+      sendResponse(result);
+    });
+    
+    // Return true to indicate that sendResponse will be called asynchronously
+    return true;
+  }
 });
 
 // Log that the content script has loaded
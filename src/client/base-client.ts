@@ -1,12 +1,19 @@
 import {
   UIState,
+  UIElement,
   DifferentialUpdate,
   MCPClientConfig,
   ActionResult,
-  Subscription
+  Subscription,
+  WaitCondition,
+  WaitResult
 } from '../common/types';
 import { UIStateCache, ElementCache } from '../common/cache';
 import { computeDiff } from '../common/optimization';
+import { validateAction } from '../common/actions';
+import { ModelEyesError } from '../common/errors';
+import { waitForCondition, WaitSnapshot } from '../common/wait';
+import { WebSocketClientTransport, WebSocketClientTransportOptions } from './websocket-transport';
 
 /**
  * Base interface for all MCP client implementations
@@ -24,6 +31,12 @@ export interface IMCPClient {
    */
   captureState(): Promise<UIState>;
   
+  /**
+   * Get the most recently captured or updated UI state
+   * @returns The current UI state, or null if no state was captured yet
+   */
+  getCurrentState(): UIState | null;
+  
   /**
    * Subscribe to UI state changes
    * @param callback Function to call when the state changes
@@ -36,9 +49,20 @@ export interface IMCPClient {
    * @param actionType Type of action to execute
    * @param targetId ID of the target element
    * @param data Additional data for the action
+   * @param signal Signal that cancels the action, e.g. when the requester gives up on it
    * @returns Promise resolving to the result of the action
    */
-  executeAction(actionType: string, targetId: string, data?: any): Promise<ActionResult>;
+  executeAction(actionType: string, targetId: string, data?: any, signal?: AbortSignal): Promise<ActionResult>;
+  
+  /**
+   * Wait for a condition on the UI state or the activity of the page
+   * @param condition Condition to wait for
+   * @param timeout Time in milliseconds to wait (default 5000)
+   * @param signal Signal that cancels the wait
+   * @returns Promise resolving to the result once the condition is met, or
+   * rejecting with a `TimeoutError` if it is not met in time
+   */
+  waitFor(condition: WaitCondition, timeout?: number, signal?: AbortSignal): Promise<WaitResult>;
   
   /**
    * Clean up resources used by the client
@@ -62,12 +86,21 @@ export abstract class BaseMCPClient implements IMCPClient {
   /** Last version identifier */
   protected lastVersion = '0';
   
+  /** Timestamp of the last update notified to subscribers */
+  protected lastUpdateTime = 0;
+  
+  /** Listeners of the pending waits, called when the page changes without a state update */
+  private waitListeners: Set<() => void> = new Set();
+  
   /** State cache for storing and retrieving UI states */
   protected stateCache: UIStateCache = new UIStateCache(10);
   
   /** Element cache for storing and retrieving UI elements */
   protected elementCache: ElementCache = new ElementCache(1000);
   
+  /** WebSocket connections to ModelEyes servers */
+  protected transports: WebSocketClientTransport[] = [];
+  
   /**
    * Initialize the client with the provided configuration
    * @param config Client configuration options
@@ -109,6 +142,9 @@ export abstract class BaseMCPClient implements IMCPClient {
     this.currentState = state;
     this.lastVersion = state.version;
     
+    // Pending waits check their conditions against the new state
+    this.notifyWaiters();
+    
     return state;
   }
   
@@ -117,6 +153,14 @@ export abstract class BaseMCPClient implements IMCPClient {
    */
   protected abstract capturePlatformState(): Promise<UIState>;
   
+  /**
+   * Get the most recently captured or updated UI state
+   * @returns The current UI state, or null if no state was captured yet
+   */
+  getCurrentState(): UIState | null {
+    return this.currentState;
+  }
+  
   /**
    * Subscribe to UI state changes
    * @param callback Function to call when the state changes
@@ -140,7 +184,10 @@ export abstract class BaseMCPClient implements IMCPClient {
    * @param update Differential update to notify about
    */
   protected notifySubscribers(update: DifferentialUpdate): void {
-    for (const subscriber of this.subscribers) {
+    this.lastUpdateTime = Date.now();
+    
+    // Subscribers may unsubscribe when notified, e.g. waits that are met
+    for (const subscriber of Array.from(this.subscribers)) {
       try {
         subscriber(update);
       } catch (error) {
@@ -156,12 +203,25 @@ export abstract class BaseMCPClient implements IMCPClient {
   
   /**
    * Execute an action on a UI element
+   * 
+   * The action type and data are validated and the target is checked for
+   * actionability before the platform executes the action, and actions that
+   * fail these checks do not touch the UI. After a successful action, the UI is
+   * left to settle, and the update of the UI state caused by the action is
+   * attached to the result as `data.update`.
+   * 
+   * A cancelled action stops waiting for its target and is not executed, unless
+   * the platform already started executing it.
+   * 
    * @param actionType Type of action to execute
    * @param targetId ID of the target element
    * @param data Additional data for the action
+   * @param signal Signal that cancels the action
    * @returns Promise resolving to the result of the action
+   * @throws ModelEyesError with code `AccessError` if the action is cancelled
+   * before it is executed
    */
-  async executeAction(actionType: string, targetId: string, data?: any): Promise<ActionResult> {
+  async executeAction(actionType: string, targetId: string, data?: any, signal?: AbortSignal): Promise<ActionResult> {
     if (!this.config) {
       throw new Error('Client not initialized');
     }
@@ -170,6 +230,15 @@ export abstract class BaseMCPClient implements IMCPClient {
       throw new Error('No current state available');
     }
     
+    try {
+      validateAction(actionType, data);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+    
     const element = this.currentState.elements[targetId];
     if (!element) {
       return {
@@ -178,7 +247,160 @@ export abstract class BaseMCPClient implements IMCPClient {
       };
     }
     
-    return this.executePlatformAction(actionType, element, data);
+    // Elements dropped onto must be part of the state too
+    if (actionType === 'dragAndDrop' && !this.currentState.elements[data.targetId]) {
+      return {
+        success: false,
+        error: `Element with ID ${data.targetId} not found`
+      };
+    }
+    
+    try {
+      await this.checkActionability(actionType, element, data, signal);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        data: error instanceof ModelEyesError ? error.details : undefined
+      };
+    }
+    
+    if (signal?.aborted) {
+      throw new ModelEyesError('AccessError', `Action ${actionType} was cancelled`, { actionType, targetId });
+    }
+    
+    // Elements are updated in place, so the state before the action is copied
+    const before = copyState(this.currentState);
+    
+    const result = await this.executePlatformAction(actionType, element, data);
+    if (!result.success) {
+      return result;
+    }
+    
+    await this.waitForSettledState();
+    const update = computeDiff(before, this.currentState ?? before);
+    
+    return { ...result, data: { ...result.data, update } };
+  }
+  
+  /**
+   * Wait for a condition on the UI state or the activity of the page
+   * 
+   * The condition is checked against the current state, capturing one first
+   * if there is none, and again whenever subscribers are notified of an update
+   * or the platform reports a change of the page.
+   * 
+   * @param condition Condition to wait for
+   * @param timeout Time in milliseconds to wait (default 5000)
+   * @param signal Signal that cancels the wait
+   * @returns Promise resolving to the result once the condition is met
+   * @throws ModelEyesError with code `TimeoutError` if the condition is not met in
+   * time, `ValidationError` for malformed conditions, `UnsupportedError` for
+   * conditions the platform cannot tell, or `AccessError` if the wait is cancelled
+   */
+  async waitFor(condition: WaitCondition, timeout?: number, signal?: AbortSignal): Promise<WaitResult> {
+    if (!this.config) {
+      throw new Error('Client not initialized');
+    }
+    
+    if (!this.currentState) {
+      await this.captureState();
+    }
+    
+    return waitForCondition(condition, {
+      getSnapshot: () => this.getWaitSnapshot(),
+      subscribe: listener => {
+        const subscription = this.subscribeToStateChanges(listener);
+        this.waitListeners.add(listener);
+        
+        return () => {
+          subscription.unsubscribe();
+          this.waitListeners.delete(listener);
+        };
+      }
+    }, timeout, signal);
+  }
+  
+  /**
+   * Get the state and activity that wait conditions are checked against
+   * 
+   * Platforms that track the URL or network activity of the page as it
+   * changes override this snapshot.
+   * 
+   * @returns Snapshot of the current state and activity
+   */
+  protected getWaitSnapshot(): WaitSnapshot {
+    return {
+      state: this.currentState,
+      url: this.currentState?.url,
+      lastChangeTime: this.lastUpdateTime
+    };
+  }
+  
+  /**
+   * Notify pending waits of a change of the page that is not part of a state
+   * update, such as a URL change or a finished request
+   */
+  protected notifyWaiters(): void {
+    for (const listener of Array.from(this.waitListeners)) {
+      listener();
+    }
+  }
+  
+  /**
+   * Check that an element can receive an action, waiting for it if needed
+   * 
+   * Platforms that can inspect the live UI override this check. By default,
+   * every element that is part of the state is actionable.
+   * 
+   * @param actionType Type of action to execute
+   * @param element Target element
+   * @param data Additional data for the action
+   * @param signal Signal that stops waiting for the element
+   * @throws ModelEyesError with code `AccessError` if the element does not
+   * become actionable
+   */
+  protected async checkActionability(actionType: string, element: UIElement, data?: any, signal?: AbortSignal): Promise<void> {
+    // Every element is actionable unless the platform checks otherwise
+  }
+  
+  /**
+   * Wait for the UI to settle after an action, and bring the current state up
+   * to date with it
+   * 
+   * Platforms that track changes to the UI as they happen override this wait.
+   * By default, the current state is left as it is.
+   */
+  protected async waitForSettledState(): Promise<void> {
+    // The state only changes with the next capture unless the platform tracks changes
+  }
+  
+  /**
+   * Connect to a ModelEyes server over WebSocket
+   * 
+   * The server receives the current UI state and all later updates, and can
+   * request actions on this client. The connection is closed when the client
+   * is disposed.
+   * 
+   * @param url WebSocket URL of the server, e.g. `ws://localhost:3000/ws`
+   * @param options Transport options
+   * @returns Promise resolving to the connected transport
+   */
+  async connectWebSocket(url: string, options?: WebSocketClientTransportOptions): Promise<WebSocketClientTransport> {
+    if (!this.config) {
+      throw new Error('Client not initialized');
+    }
+    
+    const transport = new WebSocketClientTransport(this, url, options);
+    try {
+      await transport.connect();
+    } catch (error) {
+      transport.close();
+      throw error;
+    }
+    this.transports.push(transport);
+    
+    return transport;
   }
   
   /**
@@ -194,6 +416,10 @@ export abstract class BaseMCPClient implements IMCPClient {
    * Clean up resources used by the client
    */
   dispose(): void {
+    // Close server connections
+    this.transports.forEach(transport => transport.close());
+    this.transports = [];
+    
     this.subscribers = [];
     
     // Clear caches
@@ -250,4 +476,20 @@ export abstract class BaseMCPClient implements IMCPClient {
   protected computeStateDiff(oldState: UIState, newState: UIState): DifferentialUpdate {
     return computeDiff(oldState, newState);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Copy a UI state, so that updates applied to its elements in place do not
+ * change the copy
+ * 
+ * @param state UI state to copy
+ * @returns Copy of the state with copies of its elements
+ */
+function copyState(state: UIState): UIState {
+  const elements: Record<string, UIElement> = {};
+  for (const [id, element] of Object.entries(state.elements)) {
+    elements[id] = { ...element };
+  }
+  
+  return { ...state, elements };
+}
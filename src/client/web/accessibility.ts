@@ -0,0 +1,690 @@
+/**
+ * Accessibility semantics for the web client
+ *
+ * This module computes the ARIA role, accessible name, description and states
+ * of DOM elements, following the HTML role mappings and the accessible name
+ * computation of the ARIA specifications, and decides which elements are
+ * wrappers without semantics that an accessibility capture leaves out.
+ */
+
+import { ElementStates } from '../../common/types';
+import { getElementRole } from '../../common/search';
+
+/**
+ * Accessibility semantics of a DOM element
+ */
+export interface AccessibilityInfo {
+  /** ARIA role, explicit or implied by the element */
+  role?: string;
+
+  /** Accessible name */
+  name?: string;
+
+  /** Accessible description */
+  description?: string;
+
+  /** ARIA states that apply to the element */
+  states?: ElementStates;
+}
+
+/**
+ * Roles an explicit `role` attribute may use
+ */
+const ARIA_ROLES = new Set([
+  'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption', 'cell',
+  'checkbox', 'code', 'columnheader', 'combobox', 'complementary', 'contentinfo', 'definition', 'deletion',
+  'dialog', 'document', 'emphasis', 'feed', 'figure', 'form', 'generic', 'grid', 'gridcell', 'group',
+  'heading', 'img', 'insertion', 'link', 'list', 'listbox', 'listitem', 'log', 'main', 'marquee', 'math',
+  'menu', 'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'meter', 'navigation', 'none',
+  'note', 'option', 'paragraph', 'presentation', 'progressbar', 'radio', 'radiogroup', 'region', 'row',
+  'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox', 'separator', 'slider', 'spinbutton',
+  'status', 'strong', 'subscript', 'superscript', 'switch', 'tab', 'table', 'tablist', 'tabpanel', 'term',
+  'textbox', 'time', 'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem'
+]);
+
+/**
+ * Roles of elements without semantics of their own
+ */
+const PRESENTATIONAL_ROLES = new Set(['none', 'presentation', 'generic']);
+
+/**
+ * Roles whose accessible name comes from their content
+ */
+const NAME_FROM_CONTENT_ROLES = new Set([
+  'button', 'cell', 'checkbox', 'columnheader', 'gridcell', 'heading', 'link', 'menuitem',
+  'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'row', 'rowheader', 'switch', 'tab',
+  'tooltip', 'treeitem'
+]);
+
+/**
+ * Roles that support the `checked` state
+ */
+const CHECKABLE_ROLES = new Set(['checkbox', 'radio', 'switch', 'menuitemcheckbox', 'menuitemradio']);
+
+/**
+ * Roles whose elements are always `selected` or not
+ */
+const SELECTABLE_ROLES = new Set(['option', 'tab']);
+
+/**
+ * Roles of controls whose value names them when they are embedded in another element's name
+ */
+const VALUE_ROLES = new Set(['textbox', 'searchbox', 'combobox', 'listbox', 'slider', 'spinbutton', 'progressbar', 'meter']);
+
+/**
+ * Elements that can be associated with a label element
+ */
+const LABELABLE_TAGS = new Set(['button', 'input', 'meter', 'output', 'progress', 'select', 'textarea']);
+
+/**
+ * Elements that can be disabled with the `disabled` attribute
+ */
+const DISABLEABLE_TAGS = new Set(['button', 'fieldset', 'input', 'optgroup', 'option', 'select', 'textarea']);
+
+/**
+ * Elements whose content is not rendered
+ */
+const NON_RENDERED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'meta', 'link', 'title', 'base']);
+
+/**
+ * Elements rendered inline, whose text joins that of their siblings without a space
+ */
+const INLINE_TAGS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'cite', 'code', 'data', 'dfn', 'em', 'i', 'kbd', 'label', 'mark', 'q',
+  's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var'
+]);
+
+/**
+ * Computes the accessibility semantics of a DOM element
+ *
+ * @param element DOM element
+ * @returns The element's role, name, description and states, leaving out those it does not have
+ */
+export function getAccessibilityInfo(element: Element): AccessibilityInfo {
+  const info: AccessibilityInfo = {};
+  const role = getAccessibleRole(element);
+  if (role) {
+    info.role = role;
+  }
+
+  const name = computeAccessibleName(element);
+  if (name) {
+    info.name = name;
+  }
+
+  const description = computeAccessibleDescription(element, name);
+  if (description) {
+    info.description = description;
+  }
+
+  const states = getAccessibleStates(element, role);
+  if (states) {
+    info.states = states;
+  }
+
+  return info;
+}
+
+/**
+ * Computes the ARIA role of a DOM element
+ *
+ * The first valid token of the `role` attribute wins over the role implied by
+ * the element. A presentational role is ignored on focusable elements and on
+ * elements with a label or description, as the specification requires.
+ *
+ * @param element DOM element
+ * @returns The role, or undefined if the element has none
+ */
+export function getAccessibleRole(element: Element): string | undefined {
+  const tokens = (element.getAttribute('role') ?? '').trim().toLowerCase().split(/\s+/);
+  for (const token of tokens) {
+    if (!ARIA_ROLES.has(token)) {
+      continue;
+    }
+    if ((token === 'none' || token === 'presentation') && (isFocusable(element) || hasGlobalAriaAttributes(element))) {
+      break;
+    }
+    return token;
+  }
+
+  return getImplicitRole(element);
+}
+
+/**
+ * Computes the accessible name of a DOM element
+ *
+ * The name is taken from, in order: `aria-labelledby`, `aria-label`, the
+ * element's native labels (label elements, `alt`, legends, captions), its
+ * content for roles named by their content, and its `title` or `placeholder`.
+ *
+ * @param element DOM element
+ * @returns The name with whitespace collapsed, or undefined if it is empty
+ */
+export function computeAccessibleName(element: Element): string | undefined {
+  return normalizeText(computeName(element, new Set(), {}));
+}
+
+/**
+ * Computes the accessible description of a DOM element
+ *
+ * @param element DOM element
+ * @param name Accessible name of the element, which the `title` only describes if it differs from
+ * @returns The description with whitespace collapsed, or undefined if it is empty
+ */
+export function computeAccessibleDescription(element: Element, name?: string): string | undefined {
+  const describedBy = getReferencedElements(element, 'aria-describedby');
+  if (describedBy.length > 0) {
+    const description = normalizeText(
+      describedBy.map(reference => computeName(reference, new Set(), { referenced: true })).join(' ')
+    );
+    if (description) {
+      return description;
+    }
+  }
+
+  const description = normalizeText(element.getAttribute('aria-description') ?? '');
+  if (description) {
+    return description;
+  }
+
+  const title = normalizeText(element.getAttribute('title') ?? '');
+  return title && title !== name ? title : undefined;
+}
+
+/**
+ * Gets the ARIA states of a DOM element that apply to its role
+ *
+ * @param element DOM element
+ * @param role ARIA role of the element
+ * @returns The states, or undefined if none apply
+ */
+export function getAccessibleStates(element: Element, role?: string): ElementStates | undefined {
+  const tag = element.tagName.toLowerCase();
+  const states: ElementStates = {};
+
+  if (isDisabled(element)) {
+    states.disabled = true;
+  }
+
+  if (role && CHECKABLE_ROLES.has(role)) {
+    if (tag === 'input' && ['checkbox', 'radio'].includes((element as HTMLInputElement).type)) {
+      const input = element as HTMLInputElement;
+      states.checked = input.indeterminate ? 'mixed' : input.checked;
+    } else {
+      states.checked = parseTristate(element.getAttribute('aria-checked'));
+    }
+  }
+
+  if (tag === 'option') {
+    states.selected = (element as HTMLOptionElement).selected;
+  } else if (element.hasAttribute('aria-selected')) {
+    states.selected = element.getAttribute('aria-selected') === 'true';
+  } else if (role && SELECTABLE_ROLES.has(role)) {
+    states.selected = false;
+  }
+
+  if (element.hasAttribute('aria-expanded')) {
+    states.expanded = element.getAttribute('aria-expanded') === 'true';
+  } else if (tag === 'summary' && element.parentElement?.tagName.toLowerCase() === 'details') {
+    states.expanded = element.parentElement.hasAttribute('open');
+  }
+
+  if (element.hasAttribute('aria-pressed')) {
+    states.pressed = parseTristate(element.getAttribute('aria-pressed'));
+  }
+
+  if (element.getAttribute('aria-required') === 'true' ||
+      (['input', 'select', 'textarea'].includes(tag) && element.hasAttribute('required'))) {
+    states.required = true;
+  }
+
+  if (element.getAttribute('aria-readonly') === 'true' ||
+      (['input', 'textarea'].includes(tag) && element.hasAttribute('readonly'))) {
+    states.readonly = true;
+  }
+
+  return Object.keys(states).length > 0 ? states : undefined;
+}
+
+/**
+ * Checks whether a DOM element is a wrapper without semantics
+ *
+ * Such elements have no role, or a presentational one, and are neither
+ * focusable nor labelled. Elements with click handlers are kept, as they can
+ * still be acted on.
+ *
+ * @param element DOM element
+ * @returns Whether an accessibility capture leaves the element out
+ */
+export function isPresentational(element: Element): boolean {
+  const role = getAccessibleRole(element);
+  if (role && !PRESENTATIONAL_ROLES.has(role)) {
+    return false;
+  }
+
+  return element.tagName.toLowerCase() !== 'iframe' &&
+    !isFocusable(element) &&
+    !hasGlobalAriaAttributes(element) &&
+    !element.hasAttribute('title') &&
+    !element.hasAttribute('onclick');
+}
+
+/**
+ * Gets the text of a DOM element that an accessibility capture attributes to it
+ *
+ * This is the text of the element's own text nodes and of its presentational
+ * descendants, which are left out of the capture. The text of the descendants
+ * that are kept belongs to them.
+ *
+ * @param element DOM element
+ * @returns The text with whitespace collapsed, or undefined if it is empty
+ */
+export function getStaticText(element: Element): string | undefined {
+  let text = '';
+  for (const child of getRenderedChildNodes(element)) {
+    if (child.nodeType === 3) { // Node.TEXT_NODE
+      text += child.textContent ?? '';
+    } else if (child.nodeType === 1 && !isHiddenFromAccessibility(child as Element) && isPresentational(child as Element)) {
+      text += spaceBlock(child as Element, getStaticText(child as Element) ?? '');
+    }
+  }
+
+  return normalizeText(text);
+}
+
+/**
+ * Gets the label elements of a form control
+ *
+ * The labels are looked up directly rather than through the `labels` property,
+ * which some DOM implementations resolve by scanning the whole document.
+ *
+ * @param element Form control
+ * @returns Labels referencing the control by ID, then the label enclosing it
+ */
+export function getLabels(element: Element): Element[] {
+  const labels: Element[] = [];
+
+  if (element.id) {
+    const id = element.id.replace(/["\\]/g, '\\$&');
+    labels.push(...Array.from(element.ownerDocument.querySelectorAll(`label[for="${id}"]`)));
+  }
+
+  const enclosing = element.closest('label');
+  if (enclosing && !enclosing.hasAttribute('for')) {
+    labels.push(enclosing);
+  }
+
+  return labels;
+}
+
+/**
+ * Checks whether an element can receive focus
+ *
+ * @param element DOM element
+ * @returns Whether the element is focusable by its tag, tabindex or editability
+ */
+export function isFocusable(element: Element): boolean {
+  if (element.hasAttribute('tabindex')) {
+    return true;
+  }
+
+  const contentEditable = element.getAttribute('contenteditable');
+  if (contentEditable === '' || contentEditable === 'true') {
+    return true;
+  }
+
+  switch (element.tagName.toLowerCase()) {
+    case 'a':
+    case 'area':
+      return element.hasAttribute('href');
+    
+    case 'input':
+      return element.getAttribute('type') !== 'hidden' && !element.hasAttribute('disabled');
+    
+    case 'button':
+    case 'select':
+    case 'textarea':
+      return !element.hasAttribute('disabled');
+    
+    case 'iframe':
+    case 'summary':
+      return true;
+  }
+
+  return false;
+}
+
+/**
+ * Checks whether an element is disabled, itself or through a disabled fieldset
+ *
+ * @param element DOM element
+ * @returns Whether the element is disabled natively or with `aria-disabled`
+ */
+export function isDisabled(element: Element): boolean {
+  if (element.getAttribute('aria-disabled') === 'true') {
+    return true;
+  }
+
+  const tag = element.tagName.toLowerCase();
+  if (!DISABLEABLE_TAGS.has(tag)) {
+    return false;
+  }
+
+  if (element.hasAttribute('disabled')) {
+    return true;
+  }
+
+  // Options are only disabled through their own group
+  if (tag === 'option' || tag === 'optgroup') {
+    return tag === 'option' && element.parentElement?.tagName.toLowerCase() === 'optgroup' &&
+      element.parentElement.hasAttribute('disabled');
+  }
+
+  // Controls in the first legend of a disabled fieldset stay enabled
+  const fieldset = element.parentElement?.closest('fieldset[disabled]');
+  if (!fieldset) {
+    return false;
+  }
+
+  let legend = fieldset.firstElementChild;
+  while (legend && legend.tagName.toLowerCase() !== 'legend') {
+    legend = legend.nextElementSibling;
+  }
+  return !legend || !legend.contains(element);
+}
+
+/**
+ * Options of a step of the accessible name computation
+ */
+interface NameComputation {
+  /** Whether the element is referenced by `aria-labelledby` or `aria-describedby` */
+  referenced?: boolean;
+
+  /** Whether the element is part of the content of an element being named */
+  content?: boolean;
+}
+
+/**
+ * Compute the text alternative of an element, without normalizing whitespace
+ *
+ * @param element Element to name
+ * @param visited Elements already named in this computation, which are skipped to avoid cycles
+ * @param options Step of the computation the element is named in
+ */
+function computeName(element: Element, visited: Set<Element>, options: NameComputation): string {
+  if (visited.has(element)) {
+    return '';
+  }
+  visited.add(element);
+
+  // Hidden elements are only named when referenced directly
+  if (!options.referenced && isHiddenFromAccessibility(element)) {
+    return '';
+  }
+
+  if (!options.referenced) {
+    const labelledBy = getReferencedElements(element, 'aria-labelledby');
+    const name = labelledBy.map(reference => computeName(reference, visited, { referenced: true })).join(' ');
+    if (name.trim()) {
+      return name;
+    }
+  }
+
+  const role = getAccessibleRole(element);
+
+  // Controls inside a name contribute their value
+  if (options.content && role && VALUE_ROLES.has(role)) {
+    return getControlValue(element);
+  }
+
+  const label = element.getAttribute('aria-label');
+  if (label && label.trim()) {
+    return label;
+  }
+
+  // Presentational images and tables are not named by their alternative text or caption
+  if (role !== 'none' && role !== 'presentation') {
+    const native = getNativeName(element, visited);
+    if (native.trim()) {
+      return native;
+    }
+  }
+
+  if (options.content || options.referenced || (role && NAME_FROM_CONTENT_ROLES.has(role))) {
+    const content = getContentName(element, visited);
+    if (content.trim()) {
+      return content;
+    }
+  }
+
+  return element.getAttribute('title') || element.getAttribute('placeholder') || '';
+}
+
+/**
+ * Get the name an element has from the host language: labels, alternative texts, legends and captions
+ */
+function getNativeName(element: Element, visited: Set<Element>): string {
+  const tag = element.tagName.toLowerCase();
+
+  if (tag === 'input') {
+    const input = element as HTMLInputElement;
+    switch (input.type) {
+      case 'button':
+        return input.value;
+      case 'submit':
+        return input.value || 'Submit';
+      case 'reset':
+        return input.value || 'Reset';
+      case 'image':
+        return input.alt || input.value;
+    }
+  }
+
+  if (LABELABLE_TAGS.has(tag)) {
+    return getLabels(element)
+      .map(label => computeName(label, visited, { content: true }))
+      .join(' ');
+  }
+
+  switch (tag) {
+    case 'img':
+    case 'area':
+      return element.getAttribute('alt') ?? '';
+    
+    case 'fieldset':
+      return getNamingChild(element, 'legend', visited);
+    
+    case 'table':
+      return getNamingChild(element, 'caption', visited);
+    
+    case 'figure':
+      return getNamingChild(element, 'figcaption', visited);
+    
+    case 'svg':
+      return getNamingChild(element, 'title', visited);
+  }
+
+  return '';
+}
+
+/**
+ * Get the name of an element from the content of its first child of a tag
+ */
+function getNamingChild(element: Element, tag: string, visited: Set<Element>): string {
+  for (let child = element.firstElementChild; child; child = child.nextElementSibling) {
+    if (child.tagName.toLowerCase() === tag) {
+      return computeName(child, visited, { content: true });
+    }
+  }
+
+  return '';
+}
+
+/**
+ * Get the name of an element from its content, in document order
+ */
+function getContentName(element: Element, visited: Set<Element>): string {
+  let name = '';
+  for (const child of getRenderedChildNodes(element)) {
+    if (child.nodeType === 3) { // Node.TEXT_NODE
+      name += child.textContent ?? '';
+    } else if (child.nodeType === 1) { // Node.ELEMENT_NODE
+      name += spaceBlock(child as Element, computeName(child as Element, visited, { content: true }));
+    }
+  }
+
+  return name;
+}
+
+/**
+ * Get the nodes rendered as children of an element: those of its open shadow
+ * root, those assigned to a slot, or else its own. Siblings are walked
+ * directly, as indexing `childNodes` can cost time proportional to their number.
+ */
+function getRenderedChildNodes(element: Element): Node[] {
+  if (element.tagName.toLowerCase() === 'slot' && typeof (element as HTMLSlotElement).assignedNodes === 'function') {
+    const assigned = (element as HTMLSlotElement).assignedNodes();
+    if (assigned.length > 0) {
+      return assigned;
+    }
+  }
+
+  const nodes: Node[] = [];
+  const parent: Node = element.shadowRoot ?? element;
+  for (let child = parent.firstChild; child; child = child.nextSibling) {
+    nodes.push(child);
+  }
+
+  return nodes;
+}
+
+/**
+ * Get the value of a form control as shown to the user
+ */
+function getControlValue(element: Element): string {
+  const tag = element.tagName.toLowerCase();
+
+  if (tag === 'select') {
+    return Array.from((element as HTMLSelectElement).selectedOptions ?? [])
+      .map(option => option.textContent ?? '')
+      .join(' ');
+  }
+
+  if (tag === 'input' || tag === 'textarea') {
+    return (element as HTMLInputElement).value;
+  }
+
+  return element.getAttribute('aria-valuetext') ?? element.getAttribute('aria-valuenow') ?? element.textContent ?? '';
+}
+
+/**
+ * Get the elements referenced by an ID reference list attribute
+ */
+function getReferencedElements(element: Element, attribute: string): Element[] {
+  const ids = (element.getAttribute(attribute) ?? '').trim();
+  if (!ids) {
+    return [];
+  }
+
+  return ids.split(/\s+/)
+    .map(id => element.ownerDocument.getElementById(id))
+    .filter((reference): reference is HTMLElement => reference !== null);
+}
+
+/**
+ * Get the implicit ARIA role of an element, taking its context into account
+ */
+function getImplicitRole(element: Element): string | undefined {
+  const tag = element.tagName.toLowerCase();
+
+  switch (tag) {
+    case 'header':
+    case 'footer':
+      // Headers and footers are only landmarks outside of sectioning content
+      return element.parentElement?.closest('article, aside, main, nav, section')
+        ? undefined
+        : tag === 'header' ? 'banner' : 'contentinfo';
+    
+    case 'section':
+      // Sections are only regions when they are named
+      return element.hasAttribute('aria-label') || element.hasAttribute('aria-labelledby') || element.hasAttribute('title')
+        ? 'region'
+        : undefined;
+    
+    case 'img':
+      return element.getAttribute('alt') === '' ? 'presentation' : 'img';
+    
+    case 'input': {
+      const type = (element.getAttribute('type') ?? 'text').toLowerCase();
+      if (element.hasAttribute('list') && ['text', 'search', 'email', 'tel', 'url'].includes(type)) {
+        return 'combobox';
+      }
+      break;
+    }
+    
+    case 'select':
+      return element.hasAttribute('multiple') || Number(element.getAttribute('size')) > 1 ? 'listbox' : 'combobox';
+    
+    case 'th':
+      return element.getAttribute('scope') === 'row' ? 'rowheader' : 'columnheader';
+    
+    case 'summary':
+      return 'button';
+  }
+
+  const attributes: Record<string, string> = {};
+  for (const name of ['type', 'href']) {
+    const value = element.getAttribute(name);
+    if (value !== null) {
+      attributes[name] = value;
+    }
+  }
+
+  return getElementRole({ type: tag, attributes });
+}
+
+/**
+ * Check whether an element has ARIA attributes that give it meaning regardless of its role
+ */
+function hasGlobalAriaAttributes(element: Element): boolean {
+  return ['aria-label', 'aria-labelledby', 'aria-describedby', 'aria-description', 'aria-live']
+    .some(attribute => element.hasAttribute(attribute));
+}
+
+/**
+ * Check whether an element is hidden from assistive technologies by its attributes or inline style
+ */
+function isHiddenFromAccessibility(element: Element): boolean {
+  if (NON_RENDERED_TAGS.has(element.tagName.toLowerCase()) ||
+      element.hasAttribute('hidden') ||
+      element.getAttribute('aria-hidden') === 'true') {
+    return true;
+  }
+
+  const style = (element as HTMLElement).style;
+  return !!style && (style.display === 'none' || style.visibility === 'hidden');
+}
+
+/**
+ * Parse the value of a tristate ARIA attribute such as `aria-checked`
+ */
+function parseTristate(value: string | null): boolean | 'mixed' {
+  return value === 'mixed' ? 'mixed' : value === 'true';
+}
+
+/**
+ * Surround the text of a block element with spaces, separating it from the text of its siblings
+ */
+function spaceBlock(element: Element, text: string): string {
+  return INLINE_TAGS.has(element.tagName.toLowerCase()) ? text : ` ${text} `;
+}
+
+/**
+ * Collapse whitespace in a text
+ *
+ * @returns The normalized text, or undefined if it is empty
+ */
+function normalizeText(text: string): string | undefined {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  return normalized || undefined;
+}
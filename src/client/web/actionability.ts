@@ -0,0 +1,298 @@
+/**
+ * Actionability checks for the web client
+ *
+ * This module checks that an element can receive an action the way a user
+ * would perform it: the element is visible and enabled, scrolled into the
+ * viewport, no longer moving, and not covered by another element at the point
+ * the pointer would press. Checks that fail are retried on every frame until
+ * they pass or the time to wait runs out, so actions wait for animations and
+ * loading overlays to finish.
+ */
+
+import { ModelEyesError } from '../../common/errors';
+import { isDisabled, getLabels } from './accessibility';
+import { ElementIdResolver } from './form-controls';
+import { getCenter, getView, View } from './input-events';
+
+/**
+ * Condition an element must meet to receive an action
+ */
+export type ActionabilityCheck = 'visible' | 'enabled' | 'inViewport' | 'stable' | 'receivesEvents';
+
+/**
+ * Options for waiting for an element to become actionable
+ */
+export interface ActionabilityOptions {
+  /** Time in milliseconds to wait for the checks to pass (default 1000) */
+  timeout?: number;
+
+  /** Resolves the ID of an element covering the target, for the error details */
+  getId?: ElementIdResolver;
+
+  /** Signal that stops the wait, e.g. when the action is cancelled */
+  signal?: AbortSignal;
+}
+
+/**
+ * Checks of the actions that use the pointer
+ */
+const POINTER_CHECKS: ActionabilityCheck[] = ['visible', 'enabled', 'inViewport', 'stable', 'receivesEvents'];
+
+/**
+ * Checks made before each action type; actions that are not listed, such as
+ * navigating or scrolling, need none
+ */
+const ACTION_CHECKS: Record<string, ActionabilityCheck[]> = {
+  click: POINTER_CHECKS,
+  check: POINTER_CHECKS,
+  uncheck: POINTER_CHECKS,
+  hover: POINTER_CHECKS.filter(check => check !== 'enabled'),
+  dragAndDrop: POINTER_CHECKS.filter(check => check !== 'enabled'),
+  type: ['visible', 'enabled'],
+  clear: ['visible', 'enabled'],
+  select: ['visible', 'enabled'],
+  pressKey: ['visible', 'enabled'],
+  uploadFile: ['enabled']
+};
+
+/**
+ * Messages of the failed checks
+ */
+const CHECK_MESSAGES: Record<ActionabilityCheck, string> = {
+  visible: 'is not visible',
+  enabled: 'is disabled',
+  inViewport: 'is not in the viewport',
+  stable: 'is still moving',
+  receivesEvents: 'is covered by another element'
+};
+
+/**
+ * Default time in milliseconds to wait for an element to become actionable
+ */
+const DEFAULT_TIMEOUT = 1000;
+
+/**
+ * Delay standing in for an animation frame where there are none
+ */
+const FRAME_DELAY = 16;
+
+/**
+ * Gets the checks made before an action
+ *
+ * @param actionType Type of action
+ * @returns The conditions the target element must meet
+ */
+export function getActionabilityChecks(actionType: string): ActionabilityCheck[] {
+  return ACTION_CHECKS[actionType] ?? [];
+}
+
+/**
+ * Waits for an element to pass actionability checks
+ *
+ * An element outside the viewport is scrolled into view. Geometric checks are
+ * skipped in documents without layout, such as those of jsdom, where every
+ * element has empty bounds.
+ *
+ * @param element Target element
+ * @param checks Conditions the element must meet
+ * @param options Waiting options
+ * @throws ModelEyesError with code `AccessError` naming the check that still
+ * failed when the time ran out or the wait was cancelled
+ */
+export async function waitForActionable(
+  element: Element,
+  checks: ActionabilityCheck[],
+  options: ActionabilityOptions = {}
+): Promise<void> {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const deadline = Date.now() + timeout;
+
+  if (!element.isConnected) {
+    throw new ModelEyesError('AccessError', 'Element is no longer attached to the page', { check: 'visible' });
+  }
+
+  for (;;) {
+    const failure = await findFailedCheck(element, checks, options.getId);
+    if (!failure) {
+      return;
+    }
+    
+    if (Date.now() >= deadline || !element.isConnected) {
+      throw new ModelEyesError('AccessError', `Element ${CHECK_MESSAGES[failure.check]} after ${timeout}ms`, {
+        ...failure,
+        timeout
+      });
+    }
+    
+    if (options.signal?.aborted) {
+      throw new ModelEyesError('AccessError', `Element ${CHECK_MESSAGES[failure.check]} and the action was cancelled`, failure);
+    }
+    
+    if (failure.check === 'inViewport') {
+      element.scrollIntoView({ block: 'center', inline: 'center' });
+    }
+    await nextFrame(getView(element));
+  }
+}
+
+/**
+ * Checks whether an element is rendered visibly
+ *
+ * The element and the elements containing it, across shadow roots and frames,
+ * must be displayed, and the element must not be invisible or, in documents
+ * with layout, empty.
+ *
+ * @param element DOM element
+ * @returns Whether the element is visible
+ */
+export function isVisible(element: Element): boolean {
+  const style = getView(element).getComputedStyle(element);
+  if (style.visibility === 'hidden' || style.visibility === 'collapse') {
+    return false;
+  }
+
+  for (let current: Element | null = element; current; current = getContainer(current)) {
+    if (getView(current).getComputedStyle(current).display === 'none') {
+      return false;
+    }
+  }
+
+  if (!hasLayout(element)) {
+    return true;
+  }
+
+  const rect = element.getBoundingClientRect();
+  return rect.width > 0 && rect.height > 0;
+}
+
+/**
+ * Find the first check an element fails
+ */
+async function findFailedCheck(
+  element: Element,
+  checks: ActionabilityCheck[],
+  getId?: ElementIdResolver
+): Promise<{ check: ActionabilityCheck; coveredBy?: string } | undefined> {
+  if (checks.includes('visible') && !isVisible(element)) {
+    return { check: 'visible' };
+  }
+
+  if (checks.includes('enabled') && isDisabled(element)) {
+    return { check: 'enabled' };
+  }
+
+  // Bounds only mean something in documents with layout
+  if (!hasLayout(element)) {
+    return undefined;
+  }
+
+  if (checks.includes('inViewport') && !isInViewport(element)) {
+    return { check: 'inViewport' };
+  }
+
+  if (checks.includes('stable') && !(await isStable(element))) {
+    return { check: 'stable' };
+  }
+
+  if (checks.includes('receivesEvents')) {
+    const hit = getElementAtCenter(element);
+    if (hit !== undefined && !receivesEventsFrom(element, hit)) {
+      const coveredBy = hit ? getId?.(hit) : undefined;
+      return coveredBy !== undefined ? { check: 'receivesEvents', coveredBy } : { check: 'receivesEvents' };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether the document of an element has layout, i.e. its root element
+ * has bounds
+ */
+function hasLayout(element: Element): boolean {
+  const root = element.ownerDocument.documentElement.getBoundingClientRect();
+  return root.width > 0 || root.height > 0;
+}
+
+/**
+ * Check whether an element's bounds intersect the viewport of its window
+ */
+function isInViewport(element: Element): boolean {
+  const view = getView(element);
+  const rect = element.getBoundingClientRect();
+  return rect.right > 0 && rect.bottom > 0 && rect.left < view.innerWidth && rect.top < view.innerHeight;
+}
+
+/**
+ * Check whether an element's bounds stay the same across an animation frame
+ */
+async function isStable(element: Element): Promise<boolean> {
+  const before = element.getBoundingClientRect();
+  await nextFrame(getView(element));
+  const after = element.getBoundingClientRect();
+
+  return before.left === after.left && before.top === after.top &&
+    before.width === after.width && before.height === after.height;
+}
+
+/**
+ * Get the element the pointer would hit at the center of an element
+ *
+ * @returns The hit element, null if there is none, or undefined if the
+ * document cannot tell
+ */
+function getElementAtCenter(element: Element): Element | null | undefined {
+  const root = element.getRootNode() as Document | ShadowRoot;
+  if (typeof root.elementFromPoint !== 'function') {
+    return undefined;
+  }
+
+  const { clientX, clientY } = getCenter(element);
+  return root.elementFromPoint(clientX, clientY);
+}
+
+/**
+ * Check whether pressing the pointer on a hit element reaches an element: the
+ * hit element is the element, one of its descendants or one of its labels
+ */
+function receivesEventsFrom(element: Element, hit: Element | null): boolean {
+  if (!hit) {
+    return false;
+  }
+
+  return element.contains(hit) || getLabels(element).some(label => label.contains(hit));
+}
+
+/**
+ * Get the element containing an element, across shadow roots and frames
+ */
+function getContainer(element: Element): Element | null {
+  if (element.parentElement) {
+    return element.parentElement;
+  }
+
+  const root = element.getRootNode() as Node & { host?: Element };
+  if (root.host) {
+    return root.host;
+  }
+
+  try {
+    return getView(element).frameElement;
+  } catch (error) {
+    // Frames of other origins are not accessible
+    return null;
+  }
+}
+
+/**
+ * Wait for the next animation frame of a window
+ */
+function nextFrame(view: View): Promise<void> {
+  return new Promise(resolve => {
+    if (typeof view.requestAnimationFrame === 'function') {
+      view.requestAnimationFrame(() => resolve());
+    } else {
+      setTimeout(resolve, FRAME_DELAY);
+    }
+  });
+}
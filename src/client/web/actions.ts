@@ -0,0 +1,524 @@
+/**
+ * Actions of the web client
+ *
+ * This module performs the actions that go beyond a plain focus or scroll:
+ * typing, choosing options, checking boxes, pressing keys, dragging and
+ * dropping, navigating, submitting forms, clearing fields and choosing files.
+ * Actions dispatch the events a user's interaction would through the input
+ * event synthesis, so that pages react to them as they would to the user, and
+ * re-read the element afterwards to check that the page accepted the change.
+ * Elements that do not support an action are rejected with a `ValidationError`,
+ * and changes the page prevents or reverts with an `AccessError`.
+ */
+
+import {
+  PressKeyActionData,
+  SelectActionData,
+  UploadFileData
+} from '../../common/types';
+import { ModelEyesError } from '../../common/errors';
+import {
+  View,
+  Point,
+  TypingOptions,
+  getView,
+  getCenter,
+  dispatchPointerEvents,
+  movePointer,
+  clickElement,
+  dispatchKeyEvent,
+  dispatchInputEvent,
+  dispatchChangeEvents,
+  setNativeValue,
+  selectAll,
+  typeText
+} from './input-events';
+
+/**
+ * Input types without text that can be typed
+ */
+const NON_TYPEABLE_INPUT_TYPES = new Set([
+  'button', 'checkbox', 'color', 'date', 'datetime-local', 'file', 'hidden', 'image',
+  'month', 'radio', 'range', 'reset', 'submit', 'time', 'week'
+]);
+
+/**
+ * Input types whose value is not text that can be cleared
+ */
+const NON_TEXT_INPUT_TYPES = new Set(['button', 'checkbox', 'color', 'hidden', 'image', 'radio', 'range', 'reset', 'submit']);
+
+/**
+ * Types text into a text field, replacing its value
+ *
+ * @param element Input or textarea element
+ * @param text Text to type
+ * @param options Typing options
+ * @returns The value of the field after typing
+ */
+export async function typeInto(element: Element, text: string, options: TypingOptions = {}): Promise<string> {
+  const tag = element.tagName.toLowerCase();
+  const field = element as HTMLInputElement | HTMLTextAreaElement;
+  if (tag !== 'textarea' && (tag !== 'input' || NON_TYPEABLE_INPUT_TYPES.has(field.type))) {
+    throw new ModelEyesError('ValidationError', 'Element is not a text input');
+  }
+
+  if (field.disabled || field.readOnly) {
+    throw new ModelEyesError('ValidationError', 'Element is disabled or read-only');
+  }
+
+  await typeText(field, text, options);
+
+  // The page may reject characters or rewrite the value, e.g. a controlled
+  // field whose state was not updated
+  const expected = getTypedValue(field, text);
+  if (field.value !== expected) {
+    throw new ModelEyesError('AccessError', 'The page did not accept the typed text', {
+      value: field.type === 'password' ? '*'.repeat(field.value.length) : field.value
+    });
+  }
+
+  return field.value;
+}
+
+/**
+ * Chooses options of a select element
+ *
+ * @param element Select element
+ * @param data Values or labels of the options to choose
+ * @returns Values of the chosen options
+ */
+export function selectOptions(element: Element, data: SelectActionData): string[] {
+  if (element.tagName.toLowerCase() !== 'select') {
+    throw new ModelEyesError('ValidationError', 'Element is not a select');
+  }
+
+  const select = element as HTMLSelectElement;
+  requireEnabled(select);
+
+  const byLabel = data.label !== undefined;
+  const wanted = ([] as string[]).concat((byLabel ? data.label : data.value) ?? []);
+  if (wanted.length !== 1 && !select.multiple) {
+    throw new ModelEyesError('ValidationError', 'Exactly one option must be chosen in a single select');
+  }
+
+  const options = Array.from(select.options);
+  const chosen = wanted.map(choice => {
+    const option = options.find(candidate => byLabel
+      ? candidate.label.replace(/\s+/g, ' ').trim() === choice
+      : candidate.value === choice);
+    if (!option) {
+      throw new ModelEyesError('ValidationError', `No option with ${byLabel ? 'label' : 'value'} "${choice}"`);
+    }
+    if (option.disabled || (option.parentElement as HTMLOptGroupElement | null)?.disabled) {
+      throw new ModelEyesError('ValidationError', `Option "${choice}" is disabled`);
+    }
+    return option;
+  });
+
+  options.forEach(option => {
+    option.selected = chosen.includes(option);
+  });
+  dispatchChangeEvents(select);
+
+  const selected = options.filter(option => option.selected);
+  if (selected.length !== chosen.length || !chosen.every(option => selected.includes(option))) {
+    throw new ModelEyesError('AccessError', 'The page changed the selection', { selected: selected.map(option => option.value) });
+  }
+
+  return chosen.map(option => option.value);
+}
+
+/**
+ * Checks or unchecks a checkbox or radio button
+ *
+ * The element is clicked if its state differs, so that the page sees the click
+ * and can prevent the change.
+ *
+ * @param element Checkbox or radio button
+ * @param checked Whether the element should be checked
+ */
+export function setChecked(element: Element, checked: boolean): void {
+  const input = element as HTMLInputElement;
+  if (element.tagName.toLowerCase() !== 'input' || (input.type !== 'checkbox' && input.type !== 'radio')) {
+    throw new ModelEyesError('ValidationError', 'Element is not a checkbox or radio button');
+  }
+
+  if (!checked && input.type === 'radio') {
+    throw new ModelEyesError('ValidationError', 'Radio buttons cannot be unchecked, check another button of the group instead');
+  }
+
+  requireEnabled(input);
+  if (input.checked !== checked) {
+    clickElement(input);
+  }
+
+  if (input.checked !== checked) {
+    throw new ModelEyesError('AccessError', `The page prevented the element from being ${checked ? 'checked' : 'unchecked'}`);
+  }
+}
+
+/**
+ * Presses a key on an element
+ *
+ * The element is focused and receives the keydown, keypress and keyup events.
+ * Unless the keydown event is cancelled, Enter and Space activate buttons,
+ * links, checkboxes and radio buttons, and Enter submits the form of a single
+ * line text field. Characters are not inserted into text fields, which is what
+ * `type` actions are for.
+ *
+ * @param element Element to press the key on
+ * @param data Key and modifiers to press
+ */
+export function pressKey(element: Element, data: PressKeyActionData): void {
+  const modifiers = data.modifiers ?? [];
+  if (element.ownerDocument.activeElement !== element) {
+    (element as HTMLElement).focus?.();
+  }
+
+  const proceed = dispatchKeyEvent(element, 'keydown', data.key, modifiers);
+  if (proceed && (data.key.length === 1 || data.key === 'Enter') && !modifiers.includes('Control') && !modifiers.includes('Meta')) {
+    dispatchKeyEvent(element, 'keypress', data.key, modifiers);
+  }
+  dispatchKeyEvent(element, 'keyup', data.key, modifiers);
+
+  if (proceed) {
+    activateByKey(element, data.key);
+  }
+}
+
+/**
+ * Drags an element and drops it onto another
+ *
+ * The pointer is pressed on the source, moved onto the target and released,
+ * and the drag and drop events are dispatched in between. As in a browser, the
+ * drop event is only dispatched if the target accepts the drop by cancelling
+ * the dragover event.
+ *
+ * @param source Element to drag
+ * @param target Element to drop onto
+ * @returns Whether the target accepted the drop
+ */
+export function dragAndDrop(source: Element, target: Element): boolean {
+  if (source.ownerDocument !== target.ownerDocument) {
+    throw new ModelEyesError('ValidationError', 'Elements can only be dropped onto elements of the same document');
+  }
+
+  const view = getView(source);
+  const from = getCenter(source);
+  const to = getCenter(target);
+  const dataTransfer = view.DataTransfer ? new view.DataTransfer() : new SimpleDataTransfer() as unknown as DataTransfer;
+
+  movePointer(source);
+  dispatchPointerEvents(source, ['pointerdown', 'mousedown'], from, { buttons: 1 });
+
+  if (!dispatchDragEvent(source, 'dragstart', from, dataTransfer)) {
+    dispatchPointerEvents(source, ['pointerup', 'mouseup'], from);
+    throw new ModelEyesError('AccessError', 'The page prevented the element from being dragged');
+  }
+  dispatchDragEvent(source, 'drag', from, dataTransfer);
+
+  movePointer(target);
+  dispatchDragEvent(target, 'dragenter', to, dataTransfer);
+  const accepted = !dispatchDragEvent(target, 'dragover', to, dataTransfer);
+  dispatchDragEvent(target, accepted ? 'drop' : 'dragleave', to, dataTransfer);
+  dispatchDragEvent(source, 'dragend', to, dataTransfer);
+  dispatchPointerEvents(target, ['pointerup', 'mouseup'], to);
+
+  return accepted;
+}
+
+/**
+ * Navigates the window of an element, or the frame an iframe element shows
+ *
+ * @param element Element whose window to navigate
+ * @param url URL to navigate to, resolved against the element's base URL
+ * @returns The resolved URL
+ */
+export function navigate(element: Element, url: string): string {
+  let resolved: URL;
+  try {
+    resolved = new URL(url, element.baseURI);
+  } catch (error) {
+    throw new ModelEyesError('ValidationError', `Invalid URL: ${url}`);
+  }
+
+  if (resolved.protocol === 'javascript:') {
+    throw new ModelEyesError('ValidationError', 'Navigating to javascript: URLs is not allowed');
+  }
+
+  const tag = element.tagName.toLowerCase();
+  const target = tag === 'iframe' || tag === 'frame'
+    ? (element as HTMLIFrameElement).contentWindow
+    : element.ownerDocument.defaultView;
+  if (!target) {
+    throw new ModelEyesError('AccessError', 'Element has no window to navigate');
+  }
+
+  // Setting the URL is allowed even for cross-origin frames
+  target.location.href = resolved.href;
+
+  return resolved.href;
+}
+
+/**
+ * Submits a form, or the form of a field or button
+ *
+ * The form is submitted as if by the user, so the submit event is dispatched
+ * and constraint validation applies. A submit button is used as the submitter.
+ *
+ * @param element Form, or an element of a form
+ */
+export function submitForm(element: Element): void {
+  const form = element.tagName.toLowerCase() === 'form'
+    ? element as HTMLFormElement
+    : (element as HTMLInputElement).form;
+  if (!form) {
+    throw new ModelEyesError('ValidationError', 'Element is not a form or part of one');
+  }
+
+  const submitter = isSubmitButton(element) ? element as HTMLElement : undefined;
+  if (typeof form.requestSubmit === 'function') {
+    // Some DOM implementations reject a null submitter, so none is passed instead
+    if (submitter) {
+      form.requestSubmit(submitter);
+    } else {
+      form.requestSubmit();
+    }
+  } else if (submitter) {
+    submitter.click();
+  } else if (form.dispatchEvent(new (getView(form).Event)('submit', { bubbles: true, cancelable: true }))) {
+    form.submit();
+  }
+}
+
+/**
+ * Clears the value of a text field, select, file input or editable element
+ *
+ * @param element Element to clear
+ */
+export function clearElement(element: Element): void {
+  const tag = element.tagName.toLowerCase();
+  const input = element as HTMLInputElement;
+
+  if ((tag === 'input' && !NON_TEXT_INPUT_TYPES.has(input.type)) || tag === 'textarea') {
+    requireEnabled(input);
+    if (input.readOnly) {
+      throw new ModelEyesError('ValidationError', 'Element is read-only');
+    }
+    const hadFiles = input.type === 'file' && (input.files?.length ?? 0) > 0;
+    if (Object.prototype.hasOwnProperty.call(input, 'files')) {
+      // Drop the files chosen without a DataTransfer, see setFiles
+      delete (input as any).files;
+    }
+    if (input.value !== '' || hadFiles) {
+      selectAll(input);
+      if (dispatchInputEvent(input, 'beforeinput', 'deleteContentBackward')) {
+        setNativeValue(input, '');
+        dispatchInputEvent(input, 'input', 'deleteContentBackward');
+        input.dispatchEvent(new (getView(input).Event)('change', { bubbles: true }));
+      }
+    }
+    
+    if (input.value !== '') {
+      throw new ModelEyesError('AccessError', 'The page did not let the element be cleared');
+    }
+  } else if (tag === 'select') {
+    const select = element as HTMLSelectElement;
+    requireEnabled(select);
+    if (select.selectedIndex !== -1) {
+      select.selectedIndex = -1;
+      dispatchChangeEvents(select);
+    }
+    
+    if (select.selectedIndex !== -1) {
+      throw new ModelEyesError('AccessError', 'The page did not let the element be cleared');
+    }
+  } else if (isContentEditable(element)) {
+    if (element.textContent !== '' && dispatchInputEvent(element, 'beforeinput', 'deleteContent')) {
+      element.textContent = '';
+      dispatchInputEvent(element, 'input', 'deleteContent');
+    }
+  } else {
+    throw new ModelEyesError('ValidationError', 'Element cannot be cleared');
+  }
+}
+
+/**
+ * Chooses the files of a file input
+ *
+ * @param element File input
+ * @param files Files to choose
+ * @returns Names of the chosen files
+ */
+export function uploadFiles(element: Element, files: UploadFileData[]): string[] {
+  const input = element as HTMLInputElement;
+  if (element.tagName.toLowerCase() !== 'input' || input.type !== 'file') {
+    throw new ModelEyesError('ValidationError', 'Element is not a file input');
+  }
+
+  requireEnabled(input);
+  if (files.length > 1 && !input.multiple) {
+    throw new ModelEyesError('ValidationError', 'File input accepts a single file');
+  }
+
+  const view = getView(element);
+  setFiles(input, files.map(file => new view.File([decodeContent(file, view)], file.name, { type: file.mimeType ?? '' })), view);
+  dispatchChangeEvents(input);
+
+  return files.map(file => file.name);
+}
+
+/**
+ * Minimal DataTransfer for windows that do not provide one, carrying the data
+ * set by drag event listeners from one event to the next
+ */
+class SimpleDataTransfer {
+  dropEffect = 'none';
+  effectAllowed = 'all';
+  readonly files: File[] = [];
+  readonly items: unknown[] = [];
+  private data = new Map<string, string>();
+
+  get types(): string[] {
+    return Array.from(this.data.keys());
+  }
+
+  getData(format: string): string {
+    return this.data.get(format.toLowerCase()) ?? '';
+  }
+
+  setData(format: string, data: string): void {
+    this.data.set(format.toLowerCase(), data);
+  }
+
+  clearData(format?: string): void {
+    if (format === undefined) {
+      this.data.clear();
+    } else {
+      this.data.delete(format.toLowerCase());
+    }
+  }
+
+  setDragImage(): void {
+    // Drag images are not rendered
+  }
+}
+
+/**
+ * Dispatch a drag event carrying a data transfer
+ *
+ * @returns Whether the event was not cancelled
+ */
+function dispatchDragEvent(element: Element, type: string, point: Point, dataTransfer: DataTransfer): boolean {
+  const view = getView(element);
+  const init = { bubbles: true, cancelable: type !== 'dragleave' && type !== 'dragend', composed: true, view, ...point };
+
+  let event: Event;
+  if (view.DragEvent) {
+    event = new view.DragEvent(type, { ...init, dataTransfer });
+  } else {
+    // Without drag events, mouse events carry the data transfer
+    event = new view.MouseEvent(type, init);
+    Object.defineProperty(event, 'dataTransfer', { value: dataTransfer });
+  }
+
+  return element.dispatchEvent(event);
+}
+
+/**
+ * Perform the default action of a key on an element
+ */
+function activateByKey(element: Element, key: string): void {
+  const tag = element.tagName.toLowerCase();
+  const type = (element as HTMLInputElement).type;
+
+  if (key === 'Enter') {
+    if (tag === 'button' || (tag === 'a' && element.hasAttribute('href')) || isSubmitButton(element)) {
+      (element as HTMLElement).click();
+    } else if (tag === 'input' && !NON_TEXT_INPUT_TYPES.has(type) && type !== 'file' && (element as HTMLInputElement).form) {
+      submitForm(element);
+    }
+  } else if (key === ' ') {
+    if (tag === 'button' || (tag === 'input' && ['button', 'checkbox', 'radio', 'reset', 'submit'].includes(type))) {
+      (element as HTMLElement).click();
+    }
+  }
+}
+
+/**
+ * Check whether an element is a button that submits its form
+ */
+function isSubmitButton(element: Element): boolean {
+  const tag = element.tagName.toLowerCase();
+  const type = (element as HTMLInputElement).type;
+  return (tag === 'button' && type === 'submit') || (tag === 'input' && (type === 'submit' || type === 'image'));
+}
+
+/**
+ * Check whether the content of an element can be edited
+ */
+function isContentEditable(element: Element): boolean {
+  if ((element as HTMLElement).isContentEditable !== undefined) {
+    return (element as HTMLElement).isContentEditable;
+  }
+
+  // Windows without editing support only have the attribute
+  const editable = element.closest('[contenteditable]')?.getAttribute('contenteditable');
+  return editable === '' || editable === 'true' || editable === 'plaintext-only';
+}
+
+/**
+ * Check that a form control can be interacted with
+ */
+function requireEnabled(element: HTMLInputElement | HTMLSelectElement): void {
+  if (element.disabled) {
+    throw new ModelEyesError('ValidationError', 'Element is disabled');
+  }
+}
+
+/**
+ * Get the value a text field should have after typing text into it
+ */
+function getTypedValue(field: HTMLInputElement | HTMLTextAreaElement, text: string): string {
+  let value = text.replace(/\r\n?/g, '\n');
+  if (field.tagName.toLowerCase() !== 'textarea') {
+    value = value.replace(/\n/g, '');
+  }
+
+  return field.maxLength >= 0 ? Array.from(value).slice(0, field.maxLength).join('') : value;
+}
+
+/**
+ * Decode the content of a file to upload
+ */
+function decodeContent(file: UploadFileData, view: View): string | Uint8Array {
+  if (file.encoding !== 'base64') {
+    return file.content;
+  }
+
+  const binary = view.atob(file.content);
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Set the files of a file input
+ *
+ * A FileList can only be created through a DataTransfer. Windows without one
+ * get the files as an own property of the input that shadows its list.
+ */
+function setFiles(input: HTMLInputElement, files: File[], view: View): void {
+  if (view.DataTransfer) {
+    const transfer = new view.DataTransfer();
+    files.forEach(file => transfer.items.add(file));
+    input.files = transfer.files;
+    return;
+  }
+
+  const list = Object.create(view.FileList.prototype, {
+    length: { value: files.length },
+    item: { value: (index: number) => files[index] ?? null },
+    [Symbol.iterator]: { value: () => files[Symbol.iterator]() }
+  });
+  files.forEach((file, index) => Object.defineProperty(list, index, { value: file, enumerable: true }));
+  Object.defineProperty(input, 'files', { configurable: true, value: list });
+}
@@ -0,0 +1,564 @@
+/**
+ * Stable element identity for the web client
+ *
+ * This module derives element IDs from a fingerprint of each element (tag,
+ * role, accessible name, DOM path and nearest landmark) instead of a counter,
+ * so that the same element keeps its ID across captures and re-renders. When
+ * DOM nodes are replaced, elements are re-identified by matching their
+ * fingerprints against those of the previous capture.
+ */
+
+import { getElementRole } from '../../common/search';
+import { hashString } from '../../common/optimization';
+
+/**
+ * Identifying features of a DOM element
+ */
+export interface ElementFingerprint {
+  /** Lowercase tag name */
+  tag: string;
+
+  /** ARIA role, explicit or implied by the tag */
+  role?: string;
+
+  /** Accessible name, normalized and truncated */
+  name?: string;
+
+  /** Value of the `id` attribute */
+  domId?: string;
+
+  /** Path of `tag:index` segments from the document root, the index counting siblings of the same tag */
+  path: string;
+
+  /** Nearest enclosing landmark, e.g. `form#login` or `navigation` */
+  landmark?: string;
+}
+
+/**
+ * Position of an element in the DOM, known to a traversal reaching it from its parent
+ */
+export interface FingerprintContext {
+  /** Path of the element from the document root */
+  path: string;
+
+  /** Nearest enclosing landmark */
+  landmark?: string;
+}
+
+/**
+ * Roles of the elements that act as landmarks for their descendants
+ */
+const LANDMARK_ROLES = new Set([
+  'banner', 'navigation', 'main', 'complementary', 'contentinfo', 'form', 'region', 'search', 'dialog'
+]);
+
+/**
+ * Roles whose accessible name comes from their content
+ */
+const NAME_FROM_CONTENT_ROLES = new Set([
+  'button', 'link', 'heading', 'option', 'tab', 'menuitem', 'listitem', 'cell', 'columnheader', 'checkbox', 'radio'
+]);
+
+/**
+ * Maximum length of the accessible name kept in a fingerprint
+ */
+const MAX_NAME_LENGTH = 64;
+
+/**
+ * Minimum similarity score for re-identifying an element with a changed fingerprint
+ */
+const MIN_MATCH_SCORE = 5;
+
+/**
+ * Maximum number of fingerprint pairs compared when re-identifying elements
+ */
+const MAX_FUZZY_COMPARISONS = 250000;
+
+/**
+ * Computes the fingerprint of a DOM element
+ *
+ * Without a context, the path and landmark are found by walking up the DOM,
+ * which costs time proportional to the element's depth and preceding siblings.
+ * Traversals pass the context derived from the parent with `getChildContext`.
+ *
+ * @param element DOM element
+ * @param context Path and landmark of the element, if already known
+ * @returns The element's fingerprint
+ */
+export function fingerprintElement(element: Element, context?: FingerprintContext): ElementFingerprint {
+  const tag = element.tagName.toLowerCase();
+  const role = getDomRole(element);
+
+  return {
+    tag,
+    role,
+    name: getAccessibleName(element, role),
+    domId: element.id || undefined,
+    path: context ? context.path : getDomPath(element),
+    landmark: context ? context.landmark : getLandmark(element)
+  };
+}
+
+/**
+ * Derives the fingerprint context of a child element from its parent's fingerprint
+ *
+ * @param parent Fingerprint of the parent element
+ * @param child The child element
+ * @param index Position of the child among its siblings of the same tag, from 1
+ * (found by scanning the preceding siblings if omitted)
+ * @returns The child's path and landmark
+ */
+export function getChildContext(parent: ElementFingerprint, child: Element, index?: number): FingerprintContext {
+  return {
+    path: `${parent.path}/${child.tagName.toLowerCase()}:${index ?? getSiblingIndex(child)}`,
+    landmark: describeLandmark(parent.role, parent.domId) ?? parent.landmark
+  };
+}
+
+/**
+ * Assigns stable IDs to the elements of successive captures
+ */
+export class ElementIdentityTracker {
+  /** IDs of the identified DOM nodes */
+  private nodeIds: WeakMap<object, string> = new WeakMap();
+
+  /** Fingerprints of the elements of the latest capture, by ID */
+  private previous: Map<string, ElementFingerprint> = new Map();
+
+  /**
+   * Assign IDs to the elements of a capture
+   *
+   * Elements keep the ID they had in the previous capture when their DOM node
+   * is unchanged, when their fingerprint is unchanged, or when their fingerprint
+   * is similar enough to that of an element that is gone. Other elements get an
+   * ID derived from their fingerprint.
+   *
+   * @param fingerprints Fingerprints of the captured elements, in document order
+   * @param nodes DOM nodes of the captured elements, in the same order
+   * @returns IDs of the elements, in the same order
+   */
+  assignIds(fingerprints: ElementFingerprint[], nodes: object[] = []): string[] {
+    const ids = this.matchIds(fingerprints, nodes, this.previous);
+    
+    this.previous = new Map();
+    this.remember(fingerprints, nodes, ids);
+    
+    return ids;
+  }
+
+  /**
+   * Assign IDs to the elements of a partial capture
+   *
+   * Only the added and updated elements are passed, and the elements that are
+   * not passed keep their IDs. Added elements are matched against the removed
+   * ones as in `assignIds`, so that replaced DOM nodes keep their IDs.
+   *
+   * @param fingerprints Fingerprints of the added and updated elements
+   * @param nodes DOM nodes of the added and updated elements, in the same order
+   * @param removedIds IDs of the elements that may have been removed
+   * @returns IDs of the elements, in the same order
+   */
+  updateIds(fingerprints: ElementFingerprint[], nodes: object[], removedIds: Iterable<string>): string[] {
+    const removed = new Map<string, ElementFingerprint>();
+    for (const id of removedIds) {
+      const fingerprint = this.previous.get(id);
+      if (fingerprint) {
+        removed.set(id, fingerprint);
+      }
+    }
+    
+    const ids = this.matchIds(fingerprints, nodes, removed);
+    
+    removed.forEach((_, id) => this.previous.delete(id));
+    this.remember(fingerprints, nodes, ids);
+    
+    return ids;
+  }
+
+  /**
+   * Get the fingerprint of an identified element
+   *
+   * @param id Element ID
+   * @returns The fingerprint from the latest capture of the element, or undefined if unknown
+   */
+  getFingerprint(id: string): ElementFingerprint | undefined {
+    return this.previous.get(id);
+  }
+
+  /**
+   * Forget all previously identified elements
+   */
+  reset(): void {
+    this.nodeIds = new WeakMap();
+    this.previous = new Map();
+  }
+
+  /**
+   * Match elements to the IDs of known elements, creating IDs for the others
+   *
+   * @param fingerprints Fingerprints of the elements
+   * @param nodes DOM nodes of the elements, in the same order
+   * @param candidates Fingerprints of the known elements whose IDs may be taken over
+   * @returns IDs of the elements, in the same order
+   */
+  private matchIds(
+    fingerprints: ElementFingerprint[],
+    nodes: object[],
+    candidates: Map<string, ElementFingerprint>
+  ): string[] {
+    const ids: (string | undefined)[] = new Array(fingerprints.length);
+    const claimed = new Set<string>();
+    const claim = (index: number, id: string) => {
+      ids[index] = id;
+      claimed.add(id);
+    };
+    
+    // Elements whose DOM node survived keep their ID
+    fingerprints.forEach((_, index) => {
+      const id = nodes[index] ? this.nodeIds.get(nodes[index]) : undefined;
+      if (id && this.previous.has(id) && !claimed.has(id)) {
+        claim(index, id);
+      }
+    });
+    
+    // Elements with an unchanged fingerprint take the ID of their predecessor
+    const previousByKey = new Map<string, string[]>();
+    for (const [id, fingerprint] of candidates) {
+      if (!claimed.has(id)) {
+        const key = fingerprintKey(fingerprint);
+        if (!previousByKey.has(key)) {
+          previousByKey.set(key, []);
+        }
+        previousByKey.get(key)!.push(id);
+      }
+    }
+    
+    fingerprints.forEach((fingerprint, index) => {
+      if (ids[index] === undefined) {
+        const id = previousByKey.get(fingerprintKey(fingerprint))?.find(candidate => !claimed.has(candidate));
+        if (id) {
+          claim(index, id);
+        }
+      }
+    });
+    
+    // Remaining elements are matched to the most similar unclaimed predecessors
+    const unmatched = fingerprints.map((_, index) => index).filter(index => ids[index] === undefined);
+    const remaining = Array.from(candidates.keys()).filter(id => !claimed.has(id));
+    const pairs: { index: number; id: string; score: number }[] = [];
+    const addPair = (index: number, id: string) => {
+      const score = scoreSimilarity(fingerprints[index], candidates.get(id)!);
+      if (score >= MIN_MATCH_SCORE) {
+        pairs.push({ index, id, score });
+      }
+    };
+    
+    if (unmatched.length * remaining.length <= MAX_FUZZY_COMPARISONS) {
+      for (const index of unmatched) {
+        remaining.forEach(id => addPair(index, id));
+      }
+    } else {
+      // Too many pairs to compare, so only predecessors sharing the tag and
+      // the name, ID or path are considered
+      const previousByFeature = new Map<string, string[]>();
+      for (const id of remaining) {
+        for (const feature of getMatchFeatures(candidates.get(id)!)) {
+          if (!previousByFeature.has(feature)) {
+            previousByFeature.set(feature, []);
+          }
+          previousByFeature.get(feature)!.push(id);
+        }
+      }
+      
+      for (const index of unmatched) {
+        const matches = new Set(getMatchFeatures(fingerprints[index]).flatMap(feature => previousByFeature.get(feature) ?? []));
+        matches.forEach(id => addPair(index, id));
+      }
+    }
+    
+    pairs.sort((a, b) => b.score - a.score);
+    for (const { index, id } of pairs) {
+      if (ids[index] === undefined && !claimed.has(id)) {
+        claim(index, id);
+      }
+    }
+    
+    // New elements get an ID derived from their fingerprint
+    fingerprints.forEach((fingerprint, index) => {
+      if (ids[index] === undefined) {
+        claim(index, this.createId(fingerprint, claimed));
+      }
+    });
+    
+    return ids as string[];
+  }
+
+  /**
+   * Record the IDs and fingerprints of identified elements
+   *
+   * @param fingerprints Fingerprints of the elements
+   * @param nodes DOM nodes of the elements, in the same order
+   * @param ids IDs of the elements, in the same order
+   */
+  private remember(fingerprints: ElementFingerprint[], nodes: object[], ids: string[]): void {
+    fingerprints.forEach((fingerprint, index) => {
+      this.previous.set(ids[index], fingerprint);
+      if (nodes[index]) {
+        this.nodeIds.set(nodes[index], ids[index]);
+      }
+    });
+  }
+
+  /**
+   * Create an ID for a new element
+   *
+   * The ID is derived from the element's fingerprint without its DOM path, so
+   * it does not change when siblings are inserted. Elements that share those
+   * features are told apart by their path, and by a counter as a last resort.
+   * IDs of elements from the previous capture are not reused.
+   *
+   * @param fingerprint Fingerprint of the element
+   * @param claimed IDs already assigned in this capture
+   * @returns The new ID
+   */
+  private createId(fingerprint: ElementFingerprint, claimed: Set<string>): string {
+    const isFree = (id: string) => !claimed.has(id) && !this.previous.has(id);
+    
+    if (fingerprint.domId && isFree(`id-${fingerprint.domId}`)) {
+      return `id-${fingerprint.domId}`;
+    }
+    
+    const semanticId = `${fingerprint.tag}-${hashString(fingerprintKey({ ...fingerprint, path: '' }))}`;
+    if (isFree(semanticId)) {
+      return semanticId;
+    }
+    
+    const pathId = `${fingerprint.tag}-${hashString(fingerprintKey(fingerprint))}`;
+    if (isFree(pathId)) {
+      return pathId;
+    }
+    
+    let counter = 2;
+    while (!isFree(`${pathId}-${counter}`)) {
+      counter++;
+    }
+    return `${pathId}-${counter}`;
+  }
+}
+
+/**
+ * Serialize a fingerprint for exact comparison and hashing
+ */
+function fingerprintKey(fingerprint: ElementFingerprint): string {
+  const { tag, role, name, domId, path, landmark } = fingerprint;
+  return [tag, role ?? '', name ?? '', domId ?? '', path, landmark ?? ''].join('\u0000');
+}
+
+/**
+ * Features of a fingerprint that a likely predecessor shares with it
+ */
+function getMatchFeatures(fingerprint: ElementFingerprint): string[] {
+  const { tag, name, domId, path } = fingerprint;
+  const features = [`${tag}\u0000path\u0000${path}`];
+  if (name) {
+    features.push(`${tag}\u0000name\u0000${name}`);
+  }
+  if (domId) {
+    features.push(`${tag}\u0000id\u0000${domId}`);
+  }
+  return features;
+}
+
+/**
+ * Score how likely two fingerprints describe the same element
+ *
+ * Role, landmark and a partly shared path only support a match: without a
+ * shared DOM ID, name or position the score stays below MIN_MATCH_SCORE, so
+ * an item added next to a removed sibling is not mistaken for it.
+ *
+ * @returns 0 for elements of different tags, higher scores for more shared features
+ */
+function scoreSimilarity(a: ElementFingerprint, b: ElementFingerprint): number {
+  if (a.tag !== b.tag) {
+    return 0;
+  }
+
+  let score = 0;
+
+  if (a.domId && a.domId === b.domId) {
+    score += 4;
+  }
+  if (a.role && a.role === b.role) {
+    score += 2;
+  }
+  if (a.name && b.name) {
+    if (a.name === b.name) {
+      score += 3;
+    } else if (a.name.includes(b.name) || b.name.includes(a.name)) {
+      score += 1;
+    }
+  }
+  if (a.landmark === b.landmark) {
+    score += 1;
+  }
+
+  if (a.path === b.path) {
+    score += 3;
+  } else {
+    // Share of leading path segments in common
+    const aSegments = a.path.split('/');
+    const bSegments = b.path.split('/');
+    let common = 0;
+    while (common < aSegments.length && common < bSegments.length && aSegments[common] === bSegments[common]) {
+      common++;
+    }
+    score += common / Math.max(aSegments.length, bSegments.length);
+  }
+
+  return score;
+}
+
+/**
+ * Get the ARIA role of a DOM element
+ */
+function getDomRole(element: Element): string | undefined {
+  const attributes: Record<string, string> = {};
+  for (const name of ['role', 'type', 'href']) {
+    const value = element.getAttribute(name);
+    if (value !== null) {
+      attributes[name] = value;
+    }
+  }
+
+  return getElementRole({ type: element.tagName.toLowerCase(), attributes });
+}
+
+/**
+ * Approximate the accessible name of a DOM element
+ */
+function getAccessibleName(element: Element, role?: string): string | undefined {
+  const document = element.ownerDocument;
+  let name = element.getAttribute('aria-label');
+
+  if (!name) {
+    const labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      name = labelledBy.split(/\s+/)
+        .map(id => document.getElementById(id)?.textContent ?? '')
+        .join(' ');
+    }
+  }
+
+  if (!name && 'labels' in element) {
+    name = getLabelText(element);
+  }
+
+  if (!name) {
+    name = element.getAttribute('alt') || element.getAttribute('title') || element.getAttribute('placeholder');
+  }
+
+  if (!name && role && NAME_FROM_CONTENT_ROLES.has(role)) {
+    name = element.textContent;
+  }
+
+  if (!name) {
+    // Other elements are named by their own text, not that of their descendants
+    name = Array.from(element.childNodes)
+      .filter(node => node.nodeType === 3)
+      .map(node => node.textContent ?? '')
+      .join(' ');
+  }
+
+  const normalized = (name ?? '').replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH);
+  return normalized || undefined;
+}
+
+/**
+ * Get the text of the labels of a form control
+ *
+ * The labels are looked up directly rather than through the `labels` property,
+ * which some DOM implementations resolve by scanning the whole document.
+ */
+function getLabelText(element: Element): string | null {
+  const labels: Element[] = [];
+
+  if (element.id) {
+    const id = element.id.replace(/["\\]/g, '\\$&');
+    labels.push(...Array.from(element.ownerDocument.querySelectorAll(`label[for="${id}"]`)));
+  }
+
+  const enclosing = element.closest('label');
+  if (enclosing && !enclosing.hasAttribute('for')) {
+    labels.push(enclosing);
+  }
+
+  return labels.length > 0 ? labels.map(label => label.textContent ?? '').join(' ') : null;
+}
+
+/**
+ * Get the path of a DOM element from the document root, continuing through same-origin iframes
+ */
+function getDomPath(element: Element): string {
+  const segments: string[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    segments.push(`${current.tagName.toLowerCase()}:${getSiblingIndex(current)}`);
+    
+    current = current.parentElement ?? getFrameElement(current);
+  }
+
+  return segments.reverse().join('/');
+}
+
+/**
+ * Get the position of an element among its siblings of the same tag, from 1
+ */
+function getSiblingIndex(element: Element): number {
+  let index = 1;
+  for (let sibling = element.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+    if (sibling.tagName === element.tagName) {
+      index++;
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Get the iframe containing the document of an element, if it is accessible
+ */
+function getFrameElement(element: Element): Element | null {
+  try {
+    return element.ownerDocument?.defaultView?.frameElement ?? null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Describe the nearest landmark enclosing a DOM element
+ */
+function getLandmark(element: Element): string | undefined {
+  for (let ancestor = element.parentElement; ancestor; ancestor = ancestor.parentElement) {
+    const landmark = describeLandmark(getDomRole(ancestor), ancestor.id);
+    if (landmark) {
+      return landmark;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Describe an element as a landmark
+ *
+ * @returns The description, or undefined if the role is not a landmark role
+ */
+function describeLandmark(role?: string, domId?: string): string | undefined {
+  if (!role || !LANDMARK_ROLES.has(role)) {
+    return undefined;
+  }
+
+  return domId ? `${role}#${domId}` : role;
+}
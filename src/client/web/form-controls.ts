@@ -0,0 +1,217 @@
+/**
+ * Form controls for the web client
+ *
+ * This module reads the live state of form controls, which the DOM keeps in
+ * properties rather than attributes: values, checked and selected states and
+ * constraint validation. It also associates controls with their forms and
+ * labels, and finds the controls whose state changes together, such as the
+ * buttons of a radio group.
+ */
+
+import { FormControlOption, FormControlState } from '../../common/types';
+import { getLabels } from './accessibility';
+
+/**
+ * Resolves the ID of a captured element, or undefined if it was not captured
+ */
+export type ElementIdResolver = (element: Element) => string | undefined;
+
+/**
+ * Elements whose live state is captured
+ */
+const FORM_CONTROL_TAGS = new Set(['input', 'select', 'textarea']);
+
+/**
+ * Elements listed as the fields of a form
+ */
+const FIELD_TAGS = new Set(['button', 'input', 'select', 'textarea']);
+
+/**
+ * Checks whether a DOM element is a form control with a live state
+ *
+ * @param element DOM element
+ * @returns Whether the element is an input, select or textarea
+ */
+export function isFormControl(element: Element): boolean {
+  return FORM_CONTROL_TAGS.has(element.tagName.toLowerCase());
+}
+
+/**
+ * Reads the live state of a form control
+ *
+ * @param element Input, select or textarea element
+ * @param getId Resolves the IDs of the control's form and labels
+ * @returns The control's state
+ */
+export function getFormControlState(element: Element, getId: ElementIdResolver): FormControlState {
+  const tag = element.tagName.toLowerCase();
+  const input = element as HTMLInputElement;
+  const state: FormControlState = {};
+
+  if (tag === 'select') {
+    const select = element as HTMLSelectElement;
+    state.value = select.value;
+    state.options = getOptions(select);
+    if (select.multiple) {
+      state.multiple = true;
+    }
+  } else if (tag === 'input' && (input.type === 'checkbox' || input.type === 'radio')) {
+    state.checked = input.checked;
+    if (input.hasAttribute('value')) {
+      state.value = input.value;
+    }
+  } else if (tag === 'input' && input.type === 'file') {
+    state.value = Array.from(input.files ?? []).map(file => file.name).join(', ');
+  } else {
+    // Password values are only revealed by their length
+    state.value = input.type === 'password' ? '*'.repeat(input.value.length) : input.value;
+  }
+
+  const placeholder = element.getAttribute('placeholder');
+  if (placeholder) {
+    state.placeholder = placeholder;
+  }
+
+  if (input.required) {
+    state.required = true;
+  }
+
+  // Controls that are not validated, e.g. disabled ones, are never invalid
+  const invalid = input.willValidate && input.validity && !input.validity.valid;
+  if (invalid || element.getAttribute('aria-invalid') === 'true') {
+    state.invalid = true;
+    if (input.validationMessage) {
+      state.validationMessage = input.validationMessage;
+    }
+  }
+
+  const labels = getLabels(element);
+  if (labels.length > 0) {
+    const label = labels.map(getLabelText).join(' ').replace(/\s+/g, ' ').trim();
+    if (label) {
+      state.label = label;
+    }
+    
+    const labelIds = labels.map(getId).filter((id): id is string => id !== undefined);
+    if (labelIds.length > 0) {
+      state.labelIds = labelIds;
+    }
+  }
+
+  const formId = input.form ? getId(input.form) : undefined;
+  if (formId !== undefined) {
+    state.formId = formId;
+  }
+
+  return state;
+}
+
+/**
+ * Gets the IDs of the captured fields of a form
+ *
+ * @param form Form element
+ * @param getId Resolves the IDs of the fields
+ * @returns The IDs of the form's buttons, inputs, selects and textareas, or
+ * undefined if none of them were captured
+ */
+export function getFormFields(form: HTMLFormElement, getId: ElementIdResolver): string[] | undefined {
+  const ids: string[] = [];
+  for (const field of Array.from(form.elements)) {
+    if (FIELD_TAGS.has(field.tagName.toLowerCase())) {
+      const id = getId(field);
+      if (id !== undefined) {
+        ids.push(id);
+      }
+    }
+  }
+
+  return ids.length > 0 ? ids : undefined;
+}
+
+/**
+ * Gets the elements whose state may change with that of a form control
+ *
+ * Checking a radio button unchecks the others of its group, changing a select
+ * changes its options, and resetting a form changes all its controls.
+ *
+ * @param element Element that received an input, change or reset event
+ * @returns The element and the elements linked to it
+ */
+export function getLinkedControls(element: Element): Element[] {
+  const tag = element.tagName.toLowerCase();
+
+  if (tag === 'form') {
+    return [element, ...Array.from((element as HTMLFormElement).elements)];
+  }
+
+  if (tag === 'select') {
+    return [element, ...getOptionElements(element as HTMLSelectElement)];
+  }
+
+  const input = element as HTMLInputElement;
+  if (tag === 'input' && input.type === 'radio' && input.name) {
+    const scope = (input.form ?? input.getRootNode()) as ParentNode;
+    const name = input.name.replace(/["\\]/g, '\\$&');
+    return Array.from(scope.querySelectorAll(`input[type="radio"][name="${name}"]`))
+      .filter(radio => (radio as HTMLInputElement).form === input.form);
+  }
+
+  return [element];
+}
+
+/**
+ * Get the options of a select element, including those in option groups
+ */
+function getOptions(select: HTMLSelectElement): FormControlOption[] {
+  return getOptionElements(select).map(option => {
+    const result: FormControlOption = {
+      value: option.value,
+      text: option.text.replace(/\s+/g, ' ').trim(),
+      selected: option.selected
+    };
+    if (option.disabled || (option.parentElement as HTMLOptGroupElement | null)?.disabled) {
+      result.disabled = true;
+    }
+    return result;
+  });
+}
+
+/**
+ * Get the option elements of a select element in order
+ *
+ * Children are walked directly, as indexing the `options` collection can cost
+ * time proportional to its length.
+ */
+function getOptionElements(select: HTMLSelectElement): HTMLOptionElement[] {
+  const options: HTMLOptionElement[] = [];
+  for (let child = select.firstElementChild; child; child = child.nextElementSibling) {
+    const tag = child.tagName.toLowerCase();
+    if (tag === 'option') {
+      options.push(child as HTMLOptionElement);
+    } else if (tag === 'optgroup') {
+      for (let option = child.firstElementChild; option; option = option.nextElementSibling) {
+        if (option.tagName.toLowerCase() === 'option') {
+          options.push(option as HTMLOptionElement);
+        }
+      }
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Get the text of a label, leaving out that of the controls it encloses
+ */
+function getLabelText(label: Element): string {
+  let text = '';
+  for (let child = label.firstChild; child; child = child.nextSibling) {
+    if (child.nodeType === 3) { // Node.TEXT_NODE
+      text += child.textContent ?? '';
+    } else if (child.nodeType === 1 && !isFormControl(child as Element)) { // Node.ELEMENT_NODE
+      text += getLabelText(child as Element);
+    }
+  }
+
+  return text;
+}
@@ -0,0 +1,391 @@
+/**
+ * Input event synthesis for the web client
+ *
+ * This module dispatches the events a browser dispatches for a user's pointer
+ * and keyboard input, in the order the browser dispatches them: pointer and
+ * mouse events at the center of the element, focus changes, and keyboard,
+ * beforeinput, input and change events around each typed character. Values are
+ * written through the native value setters, so that frameworks which track
+ * the value of a control, such as React, see the change.
+ */
+
+import { KeyModifier } from '../../common/types';
+import { isFocusable } from './accessibility';
+
+/**
+ * Window of an element, whose classes differ from those of the top-level
+ * window for elements in frames
+ */
+export type View = Window & typeof globalThis;
+
+/**
+ * Point in the viewport of an element's window
+ */
+export interface Point {
+  clientX: number;
+  clientY: number;
+}
+
+/**
+ * Options for typing text
+ */
+export interface TypingOptions {
+  /** Delay in milliseconds between typed characters (default 0) */
+  delay?: number;
+}
+
+/**
+ * Event properties of the modifier keys
+ */
+const MODIFIER_PROPERTIES: Record<KeyModifier, 'altKey' | 'ctrlKey' | 'metaKey' | 'shiftKey'> = {
+  Alt: 'altKey',
+  Control: 'ctrlKey',
+  Meta: 'metaKey',
+  Shift: 'shiftKey'
+};
+
+/**
+ * Element under the pointer of each document, left when another is hovered
+ */
+const hoveredElements = new WeakMap<Document, Element>();
+
+/**
+ * Gets the window of an element
+ *
+ * @param element DOM element
+ * @returns The window of the element's document
+ */
+export function getView(element: Element): View {
+  return (element.ownerDocument.defaultView ?? window) as View;
+}
+
+/**
+ * Gets the center of an element in the viewport of its window
+ *
+ * The bounds are read when the events are dispatched, so the point follows
+ * layout changes since the last capture.
+ *
+ * @param element DOM element
+ * @returns The center of the element's bounds
+ */
+export function getCenter(element: Element): Point {
+  const rect = element.getBoundingClientRect();
+  return {
+    clientX: rect.left + rect.width / 2,
+    clientY: rect.top + rect.height / 2
+  };
+}
+
+/**
+ * Dispatches pointer and mouse events at a point
+ *
+ * Pointer events fall back to mouse events in windows without them. Enter and
+ * leave events do not bubble.
+ *
+ * @param element Element to dispatch the events on
+ * @param types Event types, in dispatch order
+ * @param point Point of the events
+ * @param init Additional event properties
+ * @returns Whether no event was cancelled
+ */
+export function dispatchPointerEvents(element: Element, types: string[], point: Point, init: MouseEventInit = {}): boolean {
+  const view = getView(element);
+  let proceed = true;
+
+  for (const type of types) {
+    const pointer = type.startsWith('pointer');
+    const EventClass = pointer ? view.PointerEvent ?? view.MouseEvent : view.MouseEvent;
+    const bubbles = !type.endsWith('enter') && !type.endsWith('leave');
+    const event = new EventClass(type, {
+      bubbles,
+      cancelable: bubbles,
+      composed: true,
+      view,
+      ...point,
+      ...(pointer ? { pointerId: 1, pointerType: 'mouse', isPrimary: true } : {}),
+      ...init
+    });
+    proceed = element.dispatchEvent(event) && proceed;
+  }
+
+  return proceed;
+}
+
+/**
+ * Moves the pointer onto an element
+ *
+ * The element hovered before receives the out and leave events, and the newly
+ * hovered element and its ancestors the over, enter and move events.
+ *
+ * @param element Element to move the pointer onto
+ */
+export function movePointer(element: Element): void {
+  const point = getCenter(element);
+  const previous = hoveredElements.get(element.ownerDocument);
+  hoveredElements.set(element.ownerDocument, element);
+
+  if (previous && previous !== element && previous.isConnected) {
+    dispatchPointerEvents(previous, ['pointerout', 'mouseout'], point, { relatedTarget: element });
+    for (const left of getAncestors(previous).filter(ancestor => !ancestor.contains(element))) {
+      dispatchPointerEvents(left, ['pointerleave', 'mouseleave'], point, { relatedTarget: element });
+    }
+  }
+
+  if (previous !== element) {
+    dispatchPointerEvents(element, ['pointerover', 'mouseover'], point, { relatedTarget: previous ?? null });
+    for (const entered of getAncestors(element).filter(ancestor => !previous || !ancestor.contains(previous)).reverse()) {
+      dispatchPointerEvents(entered, ['pointerenter', 'mouseenter'], point, { relatedTarget: previous ?? null });
+    }
+  }
+
+  dispatchPointerEvents(element, ['pointermove', 'mousemove'], point);
+}
+
+/**
+ * Clicks an element as the user would with a mouse
+ *
+ * The pointer moves onto the element and is pressed, which focuses the
+ * element or its nearest focusable ancestor unless the page cancels the
+ * mousedown event, and released. The click event then runs the element's
+ * activation behavior, such as following a link or toggling a checkbox.
+ *
+ * @param element Element to click
+ */
+export function clickElement(element: Element): void {
+  const point = getCenter(element);
+
+  movePointer(element);
+  const proceed = dispatchPointerEvents(element, ['pointerdown', 'mousedown'], point, { button: 0, buttons: 1, detail: 1 });
+  if (proceed) {
+    moveFocus(element);
+  }
+
+  dispatchPointerEvents(element, ['pointerup', 'mouseup'], point, { button: 0, detail: 1 });
+  if (element.isConnected) {
+    dispatchPointerEvents(element, ['click'], point, { button: 0, detail: 1 });
+  }
+}
+
+/**
+ * Dispatches a keyboard event
+ *
+ * @param element Element to dispatch the event on
+ * @param type Event type
+ * @param key Key, as a `KeyboardEvent.key` value
+ * @param modifiers Modifier keys held
+ * @returns Whether the event was not cancelled
+ */
+export function dispatchKeyEvent(
+  element: Element,
+  type: 'keydown' | 'keypress' | 'keyup',
+  key: string,
+  modifiers: KeyModifier[] = []
+): boolean {
+  const view = getView(element);
+  const init: KeyboardEventInit = { key, code: getKeyCode(key), bubbles: true, cancelable: true, composed: true, view };
+  for (const modifier of modifiers) {
+    init[MODIFIER_PROPERTIES[modifier]] = true;
+  }
+
+  return element.dispatchEvent(new view.KeyboardEvent(type, init));
+}
+
+/**
+ * Dispatches a beforeinput or input event
+ *
+ * @param element Element to dispatch the event on
+ * @param type Event type
+ * @param inputType Kind of edit, e.g. `insertText`
+ * @param data Inserted text
+ * @returns Whether the event was not cancelled
+ */
+export function dispatchInputEvent(
+  element: Element,
+  type: 'beforeinput' | 'input',
+  inputType: string,
+  data: string | null = null
+): boolean {
+  const view = getView(element);
+  const init = { bubbles: true, cancelable: type === 'beforeinput', composed: true, inputType, data };
+  const event = view.InputEvent ? new view.InputEvent(type, init) : new view.Event(type, init);
+
+  return element.dispatchEvent(event);
+}
+
+/**
+ * Dispatches the input and change events of a form control whose value
+ * changed at once, e.g. by choosing an option
+ *
+ * @param element Form control
+ */
+export function dispatchChangeEvents(element: Element): void {
+  const view = getView(element);
+  dispatchInputEvent(element, 'input', 'insertReplacementText');
+  element.dispatchEvent(new view.Event('change', { bubbles: true }));
+}
+
+/**
+ * Sets the value of a form control through the native value setter
+ *
+ * Frameworks that track the value of a control replace its `value` property,
+ * and ignore values set through it.
+ *
+ * @param element Input, textarea or select element
+ * @param value New value
+ */
+export function setNativeValue(element: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement, value: string): void {
+  const view = getView(element);
+  const prototype = element.tagName.toLowerCase() === 'textarea'
+    ? view.HTMLTextAreaElement.prototype
+    : element.tagName.toLowerCase() === 'select' ? view.HTMLSelectElement.prototype : view.HTMLInputElement.prototype;
+  const setter = Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+
+  if (setter) {
+    setter.call(element, value);
+  } else {
+    element.value = value;
+  }
+}
+
+/**
+ * Selects the whole value of a text field, where the field has a selection
+ *
+ * @param element Input or textarea element
+ */
+export function selectAll(element: HTMLInputElement | HTMLTextAreaElement): void {
+  try {
+    element.setSelectionRange(0, element.value.length);
+  } catch (error) {
+    // Fields like email and number inputs have no selection
+  }
+}
+
+/**
+ * Types text into a text field, replacing its value
+ *
+ * The field is focused and its value is deleted as if selected and erased.
+ * Each character is then typed with its keydown, keypress, beforeinput, input
+ * and keyup events, and inserted at the caret unless the page cancels the
+ * keydown or beforeinput event. A change event follows if the value changed.
+ *
+ * @param element Input or textarea element
+ * @param text Text to type
+ * @param options Typing options
+ */
+export async function typeText(element: HTMLInputElement | HTMLTextAreaElement, text: string, options: TypingOptions = {}): Promise<void> {
+  const initialValue = element.value;
+  const multiline = element.tagName.toLowerCase() === 'textarea';
+
+  if (element.ownerDocument.activeElement !== element) {
+    element.focus();
+  }
+
+  if (element.value !== '') {
+    selectAll(element);
+    if (dispatchInputEvent(element, 'beforeinput', 'deleteContentBackward')) {
+      setNativeValue(element, '');
+      dispatchInputEvent(element, 'input', 'deleteContentBackward');
+    }
+  }
+
+  const characters = Array.from(text.replace(/\r\n?/g, '\n'));
+  for (let index = 0; index < characters.length; index++) {
+    if (index > 0 && options.delay) {
+      await new Promise(resolve => setTimeout(resolve, options.delay));
+    }
+    
+    const character = characters[index];
+    const key = character === '\n' ? 'Enter' : character;
+    const modifiers: KeyModifier[] = character !== character.toLowerCase() ? ['Shift'] : [];
+    
+    if (dispatchKeyEvent(element, 'keydown', key, modifiers)) {
+      dispatchKeyEvent(element, 'keypress', key, modifiers);
+      
+      // Single-line fields do not take line breaks
+      const inputType = character === '\n' ? 'insertLineBreak' : 'insertText';
+      if ((character !== '\n' || multiline) && dispatchInputEvent(element, 'beforeinput', inputType, character === '\n' ? null : character)) {
+        if (insertText(element, character)) {
+          dispatchInputEvent(element, 'input', inputType, character === '\n' ? null : character);
+        }
+      }
+    }
+    
+    dispatchKeyEvent(element, 'keyup', key, modifiers);
+  }
+
+  if (element.value !== initialValue) {
+    element.dispatchEvent(new (getView(element).Event)('change', { bubbles: true }));
+  }
+}
+
+/**
+ * Get an element and its ancestors, from the element up
+ */
+function getAncestors(element: Element): Element[] {
+  const ancestors: Element[] = [];
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    ancestors.push(current);
+  }
+
+  return ancestors;
+}
+
+/**
+ * Focus the nearest focusable ancestor of a pressed element, or blur the
+ * focused element if there is none
+ */
+function moveFocus(element: Element): void {
+  const focusable = getAncestors(element).find(isFocusable) as HTMLElement | undefined;
+  if (focusable) {
+    focusable.focus();
+  } else {
+    (element.ownerDocument.activeElement as HTMLElement | null)?.blur?.();
+  }
+}
+
+/**
+ * Get the physical key code of a key, for the keys that have an obvious one
+ */
+function getKeyCode(key: string): string {
+  if (/^[a-z]$/i.test(key)) {
+    return `Key${key.toUpperCase()}`;
+  }
+  if (/^[0-9]$/.test(key)) {
+    return `Digit${key}`;
+  }
+  if (key === ' ') {
+    return 'Space';
+  }
+
+  return key.length > 1 ? key : '';
+}
+
+/**
+ * Insert a character at the caret of a text field, within its maximum length
+ *
+ * @returns Whether the character was inserted
+ */
+function insertText(element: HTMLInputElement | HTMLTextAreaElement, text: string): boolean {
+  const value = element.value;
+  if (element.maxLength >= 0 && value.length >= element.maxLength) {
+    return false;
+  }
+
+  let start = value.length;
+  let end = value.length;
+  try {
+    start = element.selectionStart ?? start;
+    end = element.selectionEnd ?? end;
+  } catch (error) {
+    // Fields without a selection are typed into at the end
+  }
+
+  setNativeValue(element, value.slice(0, start) + text + value.slice(end));
+  try {
+    element.setSelectionRange(start + text.length, start + text.length);
+  } catch (error) {
+    // Fields without a selection keep the caret at the end
+  }
+
+  return true;
+}
@@ -0,0 +1,128 @@
+/**
+ * Network activity tracking for the web client
+ *
+ * This module counts the requests a page has in flight, so that clients can
+ * wait for the network to go idle. Requests are counted by wrapping the
+ * `fetch` function and the `send` method of `XMLHttpRequest` of the page's
+ * window while the tracker runs.
+ */
+
+import { NetworkActivity } from '../../common/types';
+import { View } from './input-events';
+
+/**
+ * Counts the requests a window has in flight
+ */
+export class NetworkActivityTracker {
+  /** Window whose requests are counted */
+  private view: View;
+
+  /** Called whenever a request starts or ends */
+  private onChange: () => void;
+
+  /** Number of requests waiting for their response */
+  private pending = 0;
+
+  /** Timestamp of when the last request started or ended */
+  private lastActivityTime = 0;
+
+  /** Functions restoring the wrapped functions */
+  private restorers: (() => void)[] = [];
+
+  /**
+   * Create a new tracker
+   *
+   * @param view Window whose requests are counted
+   * @param onChange Called whenever a request starts or ends
+   */
+  constructor(view: View, onChange: () => void) {
+    this.view = view;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Starts counting requests
+   */
+  start(): void {
+    if (this.restorers.length > 0) {
+      return;
+    }
+    
+    const tracker = this;
+    const view = this.view;
+    
+    const originalFetch = view.fetch;
+    if (typeof originalFetch === 'function') {
+      const trackedFetch = function (this: unknown, ...args: Parameters<typeof fetch>): Promise<Response> {
+        tracker.begin();
+        return originalFetch.apply(this, args).finally(() => tracker.end());
+      };
+      view.fetch = trackedFetch as typeof fetch;
+      this.restorers.push(() => {
+        // Leave wrappers installed by the page after the tracker in place
+        if (view.fetch === trackedFetch) {
+          view.fetch = originalFetch;
+        }
+      });
+    }
+    
+    const prototype = view.XMLHttpRequest?.prototype;
+    const originalSend = prototype?.send;
+    if (prototype && typeof originalSend === 'function') {
+      const trackedSend = function (this: XMLHttpRequest, ...args: Parameters<XMLHttpRequest['send']>): void {
+        tracker.begin();
+        this.addEventListener('loadend', () => tracker.end(), { once: true });
+        try {
+          originalSend.apply(this, args);
+        } catch (error) {
+          tracker.end();
+          throw error;
+        }
+      };
+      prototype.send = trackedSend;
+      this.restorers.push(() => {
+        if (prototype.send === trackedSend) {
+          prototype.send = originalSend;
+        }
+      });
+    }
+  }
+
+  /**
+   * Stops counting requests and restores the wrapped functions
+   */
+  stop(): void {
+    for (const restore of this.restorers) {
+      restore();
+    }
+    this.restorers = [];
+    this.pending = 0;
+  }
+
+  /**
+   * Gets the current network activity
+   *
+   * @returns The number of pending requests and the time of the last activity
+   */
+  getActivity(): NetworkActivity {
+    return { pending: this.pending, lastActivityTime: this.lastActivityTime };
+  }
+
+  /**
+   * Record the start of a request
+   */
+  private begin(): void {
+    this.pending++;
+    this.lastActivityTime = Date.now();
+    this.onChange();
+  }
+
+  /**
+   * Record the end of a request
+   */
+  private end(): void {
+    this.pending = Math.max(0, this.pending - 1);
+    this.lastActivityTime = Date.now();
+    this.onChange();
+  }
+}
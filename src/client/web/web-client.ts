@@ -2,11 +2,165 @@ import {
   UIState,
   UIElement,
   DifferentialUpdate,
+  ElementChanges,
   ActionResult,
   MCPClientConfig
 } from '../../common/types';
-import { computeDiff, compressState, filterElements } from '../../common/optimization';
+import {
+  applyElementChanges,
+  computeDiff,
+  computeElementChanges,
+  compressElement,
+  compressState,
+  filterElements
+} from '../../common/optimization';
 import { BaseMCPClient } from '../base-client';
+import { ModelEyesError } from '../../common/errors';
+import {
+  ElementIdentityTracker,
+  ElementFingerprint,
+  FingerprintContext,
+  fingerprintElement,
+  getChildContext
+} from './element-identity';
+import { getAccessibilityInfo, getStaticText, isPresentational } from './accessibility';
+import {
+  typeInto,
+  selectOptions,
+  setChecked,
+  pressKey,
+  dragAndDrop,
+  navigate,
+  submitForm,
+  clearElement,
+  uploadFiles
+} from './actions';
+import { clickElement, movePointer } from './input-events';
+import { getActionabilityChecks, waitForActionable } from './actionability';
+import { NetworkActivityTracker } from './network-activity';
+import { WaitSnapshot } from '../../common/wait';
+import {
+  ElementIdResolver,
+  getFormControlState,
+  getFormFields,
+  getLinkedControls,
+  isFormControl
+} from './form-controls';
+
+/**
+ * DOM element selected for capture
+ */
+interface CapturedNode {
+  /** The DOM element */
+  element: Element;
+
+  /** Index of the captured parent element */
+  parentIndex?: number;
+
+  /** Fingerprint identifying the element */
+  fingerprint: ElementFingerprint;
+
+  /** Depth of the element below the root */
+  depth: number;
+
+  /** Computed style, if it was read to check the element's visibility */
+  style?: CSSStyleDeclaration;
+}
+
+/**
+ * DOM element waiting to be visited during capture
+ */
+interface PendingNode {
+  /** The DOM element */
+  element: Element;
+
+  /** Depth of the element below the root */
+  depth: number;
+
+  /** Index of the captured parent element */
+  parentIndex?: number;
+
+  /** Path and landmark of the element, derived from its parent */
+  context?: FingerprintContext;
+}
+
+/**
+ * Elements that are never rendered, skipped without reading their style
+ */
+const NON_RENDERED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'meta', 'link', 'title', 'base']);
+
+/**
+ * Default time in milliseconds a capture runs before yielding to the event loop
+ */
+const DEFAULT_CAPTURE_TIME_SLICE = 50;
+
+/**
+ * Delay in milliseconds standing in for an animation frame where frames are not available
+ */
+const FRAME_DELAY = 16;
+
+/**
+ * Default time in milliseconds without DOM changes after which the page is
+ * considered settled after an action
+ */
+const DEFAULT_SETTLE_TIME = 100;
+
+/**
+ * Default maximum time in milliseconds to wait for the page to settle after
+ * an action
+ */
+const DEFAULT_SETTLE_TIMEOUT = 2000;
+
+/**
+ * Attributes whose changes can affect the visibility or fingerprints of an element's descendants
+ */
+const SUBTREE_ATTRIBUTES = new Set(['class', 'style', 'hidden', 'id', 'role', 'open']);
+
+/**
+ * Mutations observed in the document, its open shadow roots and same-origin frames
+ */
+const OBSERVER_OPTIONS: MutationObserverInit = {
+  childList: true,
+  attributes: true,
+  characterData: true,
+  subtree: true,
+  attributeOldValue: true,
+  characterDataOldValue: true
+};
+
+/**
+ * Events after which the live state of form controls is captured again
+ */
+const CONTROL_EVENTS = ['input', 'change', 'reset'];
+
+/**
+ * Splits long-running work into slices, yielding to the event loop between them
+ */
+class TimeSlicer {
+  /** Duration of a slice in milliseconds, or 0 to never yield */
+  private sliceDuration: number;
+
+  /** Start time of the current slice */
+  private sliceStart: number = performance.now();
+
+  /**
+   * Create a new time slicer
+   * @param sliceDuration Duration of a slice in milliseconds, or 0 to never yield
+   */
+  constructor(sliceDuration: number) {
+    this.sliceDuration = sliceDuration;
+  }
+
+  /**
+   * Yield to the event loop if the current slice is used up
+   */
+  async next(): Promise<void> {
+    if (this.sliceDuration > 0 && performance.now() - this.sliceStart >= this.sliceDuration) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      this.sliceStart = performance.now();
+    }
+  }
+}
 
 /**
  * MCP client implementation for web browsers
@@ -21,15 +175,48 @@ export class WebMCPClient extends BaseMCPClient {
   /** Map of element IDs to DOM elements */
   private elementMap: Map<string, Element> = new Map();
   
-  /** Counter for generating unique element IDs */
-  private idCounter = 0;
+  /** Map of DOM elements to their IDs */
+  private elementIds: WeakMap<Element, string> = new WeakMap();
   
-  /** Previous state for differential updates */
-  private previousState: UIState | null = null;
+  /** Depths of the captured DOM elements below the root */
+  private elementDepths: WeakMap<Element, number> = new WeakMap();
+  
+  /** Assigns element IDs that stay stable across captures */
+  private identity: ElementIdentityTracker = new ElementIdentityTracker();
   
   /** Element hash cache for quick comparison */
   private elementHashCache: Map<string, string> = new Map();
   
+  /** Last capture started, which the next one waits for */
+  private captureQueue: Promise<unknown> = Promise.resolve();
+  
+  /** DOM mutations waiting to be captured */
+  private pendingMutations: MutationRecord[] = [];
+  
+  /** Timer or animation frame of the next capture of pending mutations */
+  private mutationTimer: { cancel: () => void } | null = null;
+  
+  /** Time of the last DOM mutation or form control change */
+  private lastChangeTime = 0;
+  
+  /** Counts the requests of the page, for waits on network activity */
+  private networkActivity: NetworkActivityTracker | null = null;
+  
+  /** Removes the listeners for URL changes */
+  private urlListenerCleanup: (() => void) | null = null;
+  
+  /** Shadow roots and frame bodies observed in addition to the root element */
+  private observedTrees: WeakSet<Node> = new WeakSet();
+  
+  /** Form controls whose live state changed, waiting to be captured */
+  private pendingControls: Set<Element> = new Set();
+  
+  /** Functions removing the listeners for form control events */
+  private controlListenerCleanups: (() => void)[] = [];
+  
+  /** Offsets of frame viewports from the top-level viewport, during a capture */
+  private frameOffsets: Map<Document, { x: number; y: number }> = new Map();
+  
   /**
    * Platform-specific initialization
    */
@@ -43,6 +230,22 @@ export class WebMCPClient extends BaseMCPClient {
     
     // Initialize mutation observer
     this.initializeMutationObserver();
+    this.listenForControlEvents(this.rootElement);
+    
+    // Pending waits check for URL changes and finished requests, which cause
+    // no DOM mutations
+    const notify = () => this.notifyWaiters();
+    for (const type of ['hashchange', 'popstate']) {
+      window.addEventListener(type, notify);
+    }
+    this.urlListenerCleanup = () => {
+      for (const type of ['hashchange', 'popstate']) {
+        window.removeEventListener(type, notify);
+      }
+    };
+    
+    this.networkActivity = new NetworkActivityTracker(window as Window & typeof globalThis, notify);
+    this.networkActivity.start();
   }
   
   /**
@@ -57,18 +260,65 @@ export class WebMCPClient extends BaseMCPClient {
       this.handleDomMutations(mutations);
     });
     
-    this.mutationObserver.observe(this.rootElement, {
-      childList: true,
-      attributes: true,
-      characterData: true,
-      subtree: true,
-      attributeOldValue: true,
-      characterDataOldValue: true
+    this.mutationObserver.observe(this.rootElement, OBSERVER_OPTIONS);
+  }
+  
+  /**
+   * Observe the mutations of a shadow root or frame body found during a capture
+   *
+   * Mutation observers do not see into shadow roots and frames of the nodes
+   * they observe, so each one is observed on its own.
+   *
+   * @param tree Shadow root or frame body
+   */
+  private observeTree(tree: Node): void {
+    if (!this.mutationObserver || this.observedTrees.has(tree)) {
+      return;
+    }
+    
+    this.mutationObserver.observe(tree, OBSERVER_OPTIONS);
+    this.observedTrees.add(tree);
+    
+    // Events in shadow roots reach the listeners of the page as long as they
+    // are composed, as input events are, but events in frames do not
+    if (!isShadowRoot(tree)) {
+      this.listenForControlEvents(tree);
+    }
+  }
+  
+  /**
+   * Listen for the events that change the live state of form controls
+   *
+   * Values typed or selected by the user change properties of the controls,
+   * not attributes, so they cause no DOM mutations.
+   *
+   * @param target Root element or frame body to listen on
+   */
+  private listenForControlEvents(target: Node): void {
+    const listener = (event: Event) => {
+      // The first node of the path is the target inside any shadow root
+      const element = event.composedPath()[0] as Node | undefined;
+      if (!this.currentState || !element || !isElementNode(element)) {
+        return;
+      }
+      
+      this.pendingControls.add(element);
+      this.lastChangeTime = Date.now();
+      this.scheduleFlush();
+    };
+    
+    for (const type of CONTROL_EVENTS) {
+      target.addEventListener(type, listener, true);
+    }
+    this.controlListenerCleanups.push(() => {
+      for (const type of CONTROL_EVENTS) {
+        target.removeEventListener(type, listener, true);
+      }
     });
   }
   
   /**
-   * Handle DOM mutations and generate differential updates
+   * Handle DOM mutations, capturing them once the mutation window closes
    * @param mutations List of mutations that occurred
    */
   private handleDomMutations(mutations: MutationRecord[]): void {
@@ -76,39 +326,71 @@ export class WebMCPClient extends BaseMCPClient {
       return;
     }
     
-    // Capture a new state after the mutations
-    this.capturePlatformState().then(newState => {
-      // If we don't have a previous state, just update and notify
-      if (!this.previousState) {
-        this.previousState = this.currentState;
-        this.currentState = newState;
-        this.lastVersion = newState.version;
+    this.pendingMutations.push(...mutations);
+    this.lastChangeTime = Date.now();
+    this.scheduleFlush();
+  }
+  
+  /**
+   * Schedule the capture of pending changes at the end of the mutation window
+   */
+  private scheduleFlush(): void {
+    if (this.mutationTimer) {
+      return;
+    }
+    
+    const flush = () => {
+      this.mutationTimer = null;
+      this.flushMutations().catch(error => {
+        console.error('Error capturing state after mutations:', error);
+      });
+    };
+    
+    const mutationWindow = this.config?.optimization?.mutationWindow ?? 'animationFrame';
+    if (mutationWindow === 'animationFrame' && typeof requestAnimationFrame === 'function') {
+      const frame = requestAnimationFrame(flush);
+      this.mutationTimer = { cancel: () => cancelAnimationFrame(frame) };
+    } else {
+      const timer = setTimeout(flush, typeof mutationWindow === 'number' ? mutationWindow : FRAME_DELAY);
+      this.mutationTimer = { cancel: () => clearTimeout(timer) };
+    }
+  }
+  
+  /**
+   * Capture the pending DOM mutations and form control changes, and notify
+   * subscribers of the changes
+   */
+  private async flushMutations(): Promise<void> {
+    // Include the mutations the observer has not delivered yet
+    const records = this.pendingMutations.concat(this.mutationObserver?.takeRecords() ?? []);
+    const controls = this.pendingControls;
+    this.pendingMutations = [];
+    this.pendingControls = new Set();
+    
+    await this.enqueueCapture(async () => {
+      const state = this.currentState;
+      if (!state || (records.length === 0 && controls.size === 0)) {
         return;
       }
       
-      // Use the optimization utility to compute the diff
-      const update = computeDiff(this.previousState, newState);
+      // Filtering to a maximum number of elements ranks the whole page, and
+      // leaving out wrappers in an accessibility capture changes the parents
+      // of their descendants, so both need a full capture
+      const incremental = this.config?.optimization?.incrementalCapture !== false &&
+        !this.config?.filtering?.maxElements &&
+        this.config?.captureMode !== 'accessibility';
       
-      // Only notify if there are actual changes
-      if (
-        (update.added && Object.keys(update.added).length > 0) ||
-        (update.modified && Object.keys(update.modified).length > 0) ||
-        (update.removed && update.removed.length > 0) ||
-        update.focus !== undefined ||
-        update.hover !== undefined
-      ) {
-        // Apply the update to the current state
-        this.applyUpdate(update);
-        
-        // Notify subscribers
-        this.notifySubscribers(update);
-        
-        // Update version tracking
-        this.lastVersion = newState.version;
-        this.previousState = this.currentState;
+      const update = incremental
+        ? await this.captureMutations(state, records, controls)
+        : computeDiff(state, await this.captureDomState());
+      
+      if (!hasChanges(update)) {
+        return;
       }
-    }).catch(error => {
-      console.error('Error capturing state after mutations:', error);
+      
+      this.applyUpdate(update);
+      this.lastVersion = update.version;
+      this.notifySubscribers(update);
     });
   }
   
@@ -133,7 +415,7 @@ export class WebMCPClient extends BaseMCPClient {
       for (const [id, changes] of Object.entries(update.modified)) {
         const element = this.currentState.elements[id];
         if (element) {
-          Object.assign(element, changes);
+          applyElementChanges(element, changes);
         }
       }
     }
@@ -162,22 +444,93 @@ export class WebMCPClient extends BaseMCPClient {
    * Platform-specific state capture
    */
   protected async capturePlatformState(): Promise<UIState> {
+    return this.enqueueCapture(() => this.captureDomState());
+  }
+  
+  /**
+   * Run a capture once the previous ones are done
+   *
+   * Captures yield to the event loop, so they are queued to keep them from
+   * interleaving.
+   *
+   * @param capture Function running the capture
+   * @returns Promise resolving to the result of the capture
+   */
+  private enqueueCapture<T>(capture: () => Promise<T>): Promise<T> {
+    const result = this.captureQueue.then(capture);
+    this.captureQueue = result.catch(() => undefined);
+    return result;
+  }
+  
+  /**
+   * Capture the state of the DOM under the root element
+   * @returns The captured UI state
+   */
+  private async captureDomState(): Promise<UIState> {
     if (!this.rootElement) {
       throw new Error('Root element not available');
     }
     
-    // Reset element map if needed
+    // Reset element lookups if needed
     if (this.config?.optimization?.resetElementMapOnCapture) {
-      this.elementMap.clear();
+      this.elementIds = new WeakMap();
       this.elementHashCache.clear();
     }
     
-    // Process the DOM tree
+    const slicer = this.createTimeSlicer();
+    this.frameOffsets.clear();
+    
+    // Collect the elements to capture and identify them
+    const nodes = await this.collectElementTree({ element: this.rootElement, depth: 0 }, slicer);
+    const ids = this.identity.assignIds(
+      nodes.map(node => node.fingerprint),
+      nodes.map(node => node.element)
+    );
+    
+    // Extract the UI elements, parents before their children. The element map
+    // is replaced once complete, so that lookups during the capture still work.
+    // An accessibility capture leaves out wrappers without semantics, attaching
+    // their children to the nearest ancestor it keeps.
     const elements: Record<string, UIElement> = {};
-    this.processElementTree(this.rootElement, elements);
+    const elementMap = new Map<string, Element>();
+    nodes.forEach((node, index) => {
+      elementMap.set(ids[index], node.element);
+      this.elementIds.set(node.element, ids[index]);
+      this.elementDepths.set(node.element, node.depth);
+    });
+    
+    // Elements reference others, e.g. form controls their labels, by the IDs of this capture
+    const getId: ElementIdResolver = element => this.getElementId(element, elementMap);
+    
+    const attachIds: (string | undefined)[] = [];
+    const accessibility = this.config?.captureMode === 'accessibility';
+    for (let index = 0; index < nodes.length; index++) {
+      await slicer.next();
+      
+      const node = nodes[index];
+      const id = ids[index];
+      const parentId = node.parentIndex !== undefined ? attachIds[node.parentIndex] : undefined;
+      
+      if (accessibility && node.parentIndex !== undefined && isPresentational(node.element)) {
+        attachIds[index] = parentId;
+        continue;
+      }
+      
+      attachIds[index] = id;
+      elements[id] = this.processElement(node.element, id, parentId, node.style, getId);
+      
+      if (parentId) {
+        const parent = elements[parentId];
+        if (!parent.children) {
+          parent.children = [];
+        }
+        parent.children.push(id);
+      }
+    }
+    this.elementMap = elementMap;
     
     // Get the active element
-    const activeElement = document.activeElement;
+    const activeElement = this.getActiveElement();
     const focusId = activeElement ? this.getElementId(activeElement) : undefined;
     
     // Create the UI state
@@ -208,14 +561,12 @@ export class WebMCPClient extends BaseMCPClient {
       
       const filteredState = filterElements(state, filterOptions);
       
-      // Update the elements map to match filtered elements
-      for (const id of Object.keys(state.elements)) {
-        if (!filteredState.elements[id]) {
-          this.elementMap.delete(id);
-        }
-      }
-      
+      // Filtered elements stay in the element map, so that mutations inside
+      // them are still captured
       state.elements = filteredState.elements;
+      if (state.focus && !state.elements[state.focus]) {
+        state.focus = undefined;
+      }
     }
     
     // Apply compression if configured
@@ -227,121 +578,543 @@ export class WebMCPClient extends BaseMCPClient {
   }
   
   /**
-   * Process an element tree and extract UI elements
-   * @param element Root element to process
-   * @param elements Map to store extracted elements
-   * @param depth Current depth in the tree
-   * @param parentId ID of the parent element
+   * Capture the changes described by DOM mutations and form control events
+   *
+   * Only the mutated parts of the DOM are captured: added subtrees and subtrees
+   * whose visibility may have changed are captured again, elements whose
+   * attributes, content or live state changed are processed again, and removed
+   * subtrees are dropped. Layout changes of other elements are not detected, so
+   * a full capture is still needed to refresh their bounds.
+   *
+   * @param state Current UI state
+   * @param records Mutation records to capture
+   * @param controls Targets of form control events
+   * @returns Differential update from the current state
    */
-  private processElementTree(
-    element: Element,
-    elements: Record<string, UIElement>,
-    depth = 0,
-    parentId?: string
-  ): void {
-    // Handle iframes
-    if (element.tagName.toLowerCase() === 'iframe') {
-      try {
-        const iframe = element as HTMLIFrameElement;
-        
-        // Only process same-origin iframes
-        if (this.isSameOrigin(iframe.src)) {
-          const iframeDoc = iframe.contentDocument;
-          if (iframeDoc && iframeDoc.body) {
-            // Process the iframe's document
-            const iframeElementData = this.processElement(element, parentId);
-            if (iframeElementData) {
-              elements[iframeElementData.id] = iframeElementData;
-              
-              // Process the iframe's content
-              this.processElementTree(iframeDoc.body, elements, depth + 1, iframeElementData.id);
-            }
-            return;
-          }
+  private async captureMutations(
+    state: UIState,
+    records: MutationRecord[],
+    controls: Set<Element> = new Set()
+  ): Promise<DifferentialUpdate> {
+    const root = this.rootElement;
+    if (!root) {
+      throw new Error('Root element not available');
+    }
+    
+    // Sort the mutated elements by the work they need
+    const subtreeRoots = new Set<Element>();
+    const updated = new Set<Element>();
+    const updatedWithAncestors = new Set<Element>();
+    const removedNodes = new Set<Element>();
+    const addWithAncestors = (element: Element | null) => {
+      for (
+        let current = element;
+        current && !updatedWithAncestors.has(current);
+        current = current === root ? null : getRenderedParent(current)
+      ) {
+        updatedWithAncestors.add(current);
+      }
+    };
+    
+    for (const record of records) {
+      const target = getTargetElement(record.target);
+      if (record.type === 'childList') {
+        if (target?.shadowRoot && !isShadowRoot(record.target)) {
+          // Light children of a shadow host are rendered through its slots
+          subtreeRoots.add(target);
+        }
+        addWithAncestors(target);
+        record.addedNodes.forEach(node => isElementNode(node) && subtreeRoots.add(node));
+        record.removedNodes.forEach(node => isElementNode(node) && removedNodes.add(node));
+      } else if (record.type === 'attributes' && target) {
+        if (record.attributeName === 'slot' && target.parentElement?.shadowRoot) {
+          // The element moves to another slot of its host
+          subtreeRoots.add(target.parentElement);
+        } else if (SUBTREE_ATTRIBUTES.has(record.attributeName ?? '')) {
+          subtreeRoots.add(target);
+        } else {
+          updated.add(target);
         }
-      } catch (error) {
-        // Cross-origin iframe access will throw an error
-        console.warn('Could not access iframe content:', error);
+      } else if (record.type === 'characterData') {
+        // The text of all ancestors includes the changed text
+        addWithAncestors(record.target.parentNode ? getTargetElement(record.target.parentNode) : null);
       }
     }
-    // Check depth limit
-    const maxDepth = this.config?.filtering?.maxDepth ?? 50;
-    if (depth > maxDepth) {
-      return;
+    
+    for (const control of controls) {
+      getLinkedControls(control).forEach(element => updated.add(element));
     }
     
-    // Check exclusion selector
-    const excludeSelector = this.config?.filtering?.excludeSelector;
-    if (excludeSelector && element.matches(excludeSelector)) {
-      return;
+    // Keep the subtrees that are part of the captured tree and not inside
+    // another subtree captured again
+    const isInsideSubtree = (element: Element) => {
+      for (let current = getRenderedParent(element); current && element !== root; current = current === root ? null : getRenderedParent(current)) {
+        if (subtreeRoots.has(current)) {
+          return true;
+        }
+      }
+      return false;
+    };
+    
+    const roots = Array.from(subtreeRoots).filter(element => {
+      if (element === root) {
+        return true;
+      }
+      
+      const parent = getRenderedParent(element);
+      return !!parent && isRenderedIn(root, element) && !isInsideSubtree(element) && this.getElementId(parent) !== undefined;
+    });
+    
+    // Elements of the captured subtrees and removed subtrees may be gone
+    const staleIds = new Set<string>();
+    for (const element of [...roots, ...Array.from(removedNodes)]) {
+      this.collectCapturedIds(element, staleIds);
     }
     
-    // Process the element
-    const elementData = this.processElement(element, parentId);
-    if (!elementData) {
-      return;
+    const slicer = this.createTimeSlicer();
+    this.frameOffsets.clear();
+    const nodes: CapturedNode[] = [];
+    const parentIds: (string | undefined)[] = [];
+    
+    // Capture the subtrees again
+    for (const element of roots) {
+      const parent = element === root ? undefined : getRenderedParent(element)!;
+      const parentId = parent ? this.getElementId(parent) : undefined;
+      const parentFingerprint = parentId !== undefined ? this.identity.getFingerprint(parentId) : undefined;
+      
+      const offset = nodes.length;
+      const subtree = await this.collectElementTree({
+        element,
+        depth: parent ? (this.elementDepths.get(parent) ?? 0) + 1 : 0,
+        context: parentFingerprint ? getChildContext(parentFingerprint, element) : undefined
+      }, slicer);
+      
+      for (const node of subtree) {
+        const isRoot = node.parentIndex === undefined;
+        nodes.push({ ...node, parentIndex: isRoot ? undefined : node.parentIndex! + offset });
+        parentIds.push(isRoot ? parentId : undefined);
+      }
+      
+      // The parent's children may have changed
+      if (parent) {
+        addWithAncestors(parent);
+      }
     }
     
-    // Add to the elements map
-    elements[elementData.id] = elementData;
+    // Process the other mutated elements again, in place
+    const captured = new Set(nodes.map(node => node.element));
+    const refreshed: Element[] = [];
+    for (const element of new Set([...updated, ...updatedWithAncestors])) {
+      const id = this.getElementId(element);
+      const fingerprint = id !== undefined ? this.identity.getFingerprint(id) : undefined;
+      if (!fingerprint || captured.has(element) || !isRenderedIn(root, element) || isInsideSubtree(element) || subtreeRoots.has(element)) {
+        continue;
+      }
+      
+      nodes.push({
+        element,
+        fingerprint: fingerprintElement(element, { path: fingerprint.path, landmark: fingerprint.landmark }),
+        depth: this.elementDepths.get(element) ?? 0
+      });
+      const parent = element === root ? null : getRenderedParent(element);
+      parentIds.push(parent ? this.getElementId(parent) : undefined);
+      refreshed.push(element);
+    }
     
-    // Process children
-    const childIds: string[] = [];
+    const ids = this.identity.updateIds(
+      nodes.map(node => node.fingerprint),
+      nodes.map(node => node.element),
+      staleIds
+    );
     
-    for (const child of Array.from(element.children)) {
-      this.processElementTree(child, elements, depth + 1, elementData.id);
+    // Update the element lookups
+    const newIds = new Set(ids);
+    staleIds.forEach(id => {
+      if (!newIds.has(id)) {
+        this.elementMap.delete(id);
+      }
+    });
+    nodes.forEach((node, index) => {
+      this.elementMap.set(ids[index], node.element);
+      this.elementIds.set(node.element, ids[index]);
+      this.elementDepths.set(node.element, node.depth);
+    });
+    
+    // Extract the UI elements, parents before their children
+    const elements = new Map<string, UIElement>();
+    for (let index = 0; index < nodes.length; index++) {
+      await slicer.next();
+      
+      const node = nodes[index];
+      const id = ids[index];
+      const parentId = node.parentIndex !== undefined ? ids[node.parentIndex] : parentIds[index];
+      const element = this.processElement(node.element, id, parentId, node.style);
+      elements.set(id, element);
       
-      const childId = this.getElementId(child);
-      if (childId) {
-        childIds.push(childId);
+      if (node.parentIndex !== undefined) {
+        const parent = elements.get(parentId!)!;
+        if (!parent.children) {
+          parent.children = [];
+        }
+        parent.children.push(id);
       }
     }
     
-    // Update children array
-    if (childIds.length > 0) {
-      elementData.children = childIds;
+    refreshed.forEach(element => {
+      elements.get(this.getElementId(element)!)!.children = this.getCapturedChildIds(element);
+    });
+    
+    // Build the update from the changed elements
+    const update: DifferentialUpdate = {
+      timestamp: Date.now(),
+      baseVersion: state.version,
+      version: this.generateVersion()
+    };
+    
+    const added: Record<string, UIElement> = {};
+    const modified: Record<string, ElementChanges> = {};
+    const compress = this.config?.optimization?.compress;
+    for (const [id, element] of elements) {
+      if (!this.isTypeIncluded(element.type)) {
+        continue;
+      }
+      if (compress) {
+        compressElement(element);
+      }
+      
+      const previous = state.elements[id];
+      if (!previous) {
+        added[id] = element;
+      } else {
+        const changes = computeElementChanges(previous, element);
+        if (Object.keys(changes).length > 0) {
+          modified[id] = changes;
+        }
+      }
+    }
+    
+    const removed = Array.from(staleIds).filter(id => !newIds.has(id) && state.elements[id]);
+    
+    if (Object.keys(added).length > 0) {
+      update.added = added;
+    }
+    if (Object.keys(modified).length > 0) {
+      update.modified = modified;
+    }
+    if (removed.length > 0) {
+      update.removed = removed;
     }
+    
+    // Resolve the focused element against the updated state
+    const activeElement = this.getActiveElement();
+    const focusId = activeElement ? this.getElementId(activeElement) : undefined;
+    const focus = focusId && (added[focusId] || (state.elements[focusId] && !removed.includes(focusId))) ? focusId : undefined;
+    if (focus !== state.focus) {
+      update.focus = focus ?? null;
+    }
+    
+    return update;
   }
   
   /**
-   * Process a single element and extract its properties
-   * @param element Element to process
-   * @param parentId ID of the parent element
-   * @returns Extracted UI element data
+   * Collect the IDs of the captured elements of a subtree
+   * @param element Root element of the subtree
+   * @param ids Set receiving the IDs
    */
-  private processElement(element: Element, parentId?: string): UIElement | null {
-    // Check if the element should be included
+  private collectCapturedIds(element: Element, ids: Set<string>): void {
+    const stack = [element];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      const id = this.getElementId(current);
+      if (id === undefined) {
+        continue;
+      }
+      
+      ids.add(id);
+      stack.push(...this.getRenderedChildren(current));
+      
+      // Detached iframes no longer expose their document, so their content is
+      // found through the element map
+      if (current.tagName.toLowerCase() === 'iframe' && !this.getFrameBody(current)) {
+        stack.push(...this.getCapturedChildren(id));
+      }
+    }
+  }
+  
+  /**
+   * Get the DOM elements captured as children of an element in the current state
+   * @param id ID of the element
+   * @returns The captured child elements
+   */
+  private getCapturedChildren(id: string): Element[] {
+    const children = this.currentState?.elements[id]?.children ?? [];
+    return children.map(childId => this.elementMap.get(childId)).filter((child): child is Element => !!child);
+  }
+  
+  /**
+   * Get the IDs of the captured children of an element, in document order
+   * @param element Parent element
+   * @returns The children's IDs, or undefined if there are none
+   */
+  private getCapturedChildIds(element: Element): string[] | undefined {
+    const ids: string[] = [];
+    for (const child of this.getRenderedChildren(element)) {
+      const id = this.getElementId(child);
+      if (id !== undefined) {
+        ids.push(id);
+      }
+    }
+    
+    return ids.length > 0 ? ids : undefined;
+  }
+  
+  /**
+   * Check whether elements of a type pass the configured type filters
+   * @param type Element type
+   * @returns Whether the elements are included in the state
+   */
+  private isTypeIncluded(type: string): boolean {
+    const { excludeTypes, includeTypes } = this.config?.filtering ?? {};
+    if (excludeTypes && excludeTypes.length > 0 && excludeTypes.includes(type)) {
+      return false;
+    }
+    
+    return !includeTypes || includeTypes.length === 0 || includeTypes.includes(type);
+  }
+  
+  /**
+   * Create the time slicer of a capture
+   * @returns Time slicer using the configured time slice
+   */
+  private createTimeSlicer(): TimeSlicer {
+    return new TimeSlicer(this.config?.optimization?.captureTimeSlice ?? DEFAULT_CAPTURE_TIME_SLICE);
+  }
+  
+  /**
+   * Collect the elements of a tree that are captured
+   *
+   * The tree is walked depth-first without recursion, so that the walk can
+   * yield to the event loop between any two elements. Subtrees that are too
+   * deep, excluded or not rendered are skipped without visiting their elements.
+   *
+   * @param root Root element of the tree, with its depth and fingerprint context
+   * @param slicer Time slicer of the capture
+   * @returns The captured elements in document order
+   */
+  private async collectElementTree(root: PendingNode, slicer: TimeSlicer): Promise<CapturedNode[]> {
+    const maxDepth = this.config?.filtering?.maxDepth ?? 50;
+    const excludeSelector = this.config?.filtering?.excludeSelector;
     const includeInvisible = this.config?.filtering?.includeInvisible ?? false;
-    if (!includeInvisible) {
-      const style = window.getComputedStyle(element);
-      if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') {
-        return null;
+    
+    const nodes: CapturedNode[] = [];
+    const stack: PendingNode[] = [root];
+    
+    while (stack.length > 0) {
+      await slicer.next();
+      
+      const { element, depth, parentIndex, context } = stack.pop()!;
+      
+      // Check depth limit and exclusion selector
+      if (depth > maxDepth || (excludeSelector && element.matches(excludeSelector))) {
+        continue;
+      }
+      
+      // Check visibility, reading the computed style once per element
+      let style: CSSStyleDeclaration | undefined;
+      if (!includeInvisible) {
+        if (NON_RENDERED_TAGS.has(element.tagName.toLowerCase())) {
+          continue;
+        }
+        
+        style = (element.ownerDocument.defaultView ?? window).getComputedStyle(element);
+        if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') {
+          continue;
+        }
+      }
+      
+      const fingerprint = fingerprintElement(element, context);
+      const index = nodes.push({ element, parentIndex, fingerprint, depth, style }) - 1;
+      
+      // Observe the shadow root or frame the children are rendered from
+      const tree = element.shadowRoot ?? this.getFrameBody(element);
+      if (tree) {
+        this.observeTree(tree);
+      }
+      
+      // Queue the children in reverse, so that they are visited in document
+      // order
+      const tagCounts = new Map<string, number>();
+      const children = this.getRenderedChildren(element).map(child => {
+        const count = (tagCounts.get(child.tagName) ?? 0) + 1;
+        tagCounts.set(child.tagName, count);
+        return { element: child, depth: depth + 1, parentIndex: index, context: getChildContext(fingerprint, child, count) };
+      });
+      for (let i = children.length - 1; i >= 0; i--) {
+        stack.push(children[i]);
       }
     }
     
-    // Get or generate an ID for the element
-    const id = this.getOrCreateElementId(element);
+    return nodes;
+  }
+  
+  /**
+   * Get the elements rendered as children of an element
+   *
+   * These are the body of a same-origin iframe, the children of an open
+   * shadow root instead of the light children of its host, the elements
+   * assigned to a slot or else its fallback content, and otherwise the
+   * element's children. Siblings are walked directly, as indexing `children`
+   * can cost time proportional to their number.
+   *
+   * @param element Parent element
+   * @returns The rendered children in order
+   */
+  private getRenderedChildren(element: Element): Element[] {
+    const frameBody = this.getFrameBody(element);
+    if (frameBody) {
+      return [frameBody];
+    }
+    
+    if (element.tagName.toLowerCase() === 'slot' && typeof (element as HTMLSlotElement).assignedElements === 'function') {
+      const assigned = (element as HTMLSlotElement).assignedElements();
+      if (assigned.length > 0) {
+        return assigned;
+      }
+    }
     
-    // Get element bounds
+    const children: Element[] = [];
+    const parent: ParentNode = element.shadowRoot ?? element;
+    for (let child = parent.firstElementChild; child; child = child.nextElementSibling) {
+      children.push(child);
+    }
+    
+    return children;
+  }
+  
+  /**
+   * Get the body of a same-origin iframe
+   * @param element Element to check
+   * @returns The body of the iframe's document, or null if the element is not
+   * an iframe or its content is not accessible
+   */
+  private getFrameBody(element: Element): HTMLElement | null {
+    return this.getFrameDocument(element)?.body ?? null;
+  }
+  
+  /**
+   * Get the document of a same-origin iframe
+   * @param element Element to check
+   * @returns The iframe's document, or null if the element is not an iframe or
+   * its content is not accessible
+   */
+  private getFrameDocument(element: Element): Document | null {
+    if (element.tagName.toLowerCase() !== 'iframe') {
+      return null;
+    }
+    
+    const iframe = element as HTMLIFrameElement;
+    
+    // Frames without a URL of their own share the origin of the page
+    const src = iframe.getAttribute('src');
+    if (src && src !== 'about:blank' && !iframe.hasAttribute('srcdoc') && !this.isSameOrigin(iframe.src)) {
+      return null;
+    }
+    
+    try {
+      // Sandboxed frames have no accessible document
+      return iframe.contentDocument;
+    } catch (error) {
+      return null;
+    }
+  }
+  
+  /**
+   * Get the focused element, looking into open shadow roots and same-origin frames
+   * @returns The focused element, or null if there is none
+   */
+  private getActiveElement(): Element | null {
+    let active = document.activeElement;
+    
+    while (active) {
+      const frameDocument = this.getFrameDocument(active);
+      const inner = frameDocument ? frameDocument.activeElement : active.shadowRoot?.activeElement;
+      
+      // A focused frame whose document has no focused element keeps the focus
+      if (!inner || inner === frameDocument?.body) {
+        break;
+      }
+      active = inner;
+    }
+    
+    return active;
+  }
+  
+  /**
+   * Get the offset of the viewport of a document from the top-level viewport
+   * @param ownerDocument Document of the captured elements
+   * @returns The sum of the positions of the frames containing the document
+   */
+  private getFrameOffset(ownerDocument: Document): { x: number; y: number } {
+    const cached = this.frameOffsets.get(ownerDocument);
+    if (cached) {
+      return cached;
+    }
+    
+    let offset = { x: 0, y: 0 };
+    const frame = ownerDocument !== document ? getFrameElement(ownerDocument) : null;
+    if (frame) {
+      // Frame content starts inside the frame's border
+      const parentOffset = this.getFrameOffset(frame.ownerDocument);
+      const bounds = frame.getBoundingClientRect();
+      offset = {
+        x: parentOffset.x + bounds.left + frame.clientLeft,
+        y: parentOffset.y + bounds.top + frame.clientTop
+      };
+    }
+    
+    this.frameOffsets.set(ownerDocument, offset);
+    return offset;
+  }
+  
+  /**
+   * Process a single element and extract its properties
+   * @param element Element to process
+   * @param id ID assigned to the element
+   * @param parentId ID of the parent element
+   * @param style Computed style of the element, if already read
+   * @param getId Resolves the IDs of the elements the element references
+   * @returns Extracted UI element data
+   */
+  private processElement(
+    element: Element,
+    id: string,
+    parentId?: string,
+    style?: CSSStyleDeclaration,
+    getId: ElementIdResolver = other => this.getElementId(other)
+  ): UIElement {
+    // Get element bounds in top-level viewport coordinates
     const bounds = element.getBoundingClientRect();
+    const offset = this.getFrameOffset(element.ownerDocument);
     
-    // Extract attributes
+    // Extract attributes, truncating long values if configured
     const attributes: Record<string, any> = {};
-    for (const attr of Array.from(element.attributes)) {
-      attributes[attr.name] = attr.value;
+    const maxAttributeLength = this.config?.filtering?.maxAttributeLength;
+    for (let i = 0; i < element.attributes.length; i++) {
+      const { name, value } = element.attributes[i];
+      attributes[name] = maxAttributeLength !== undefined ? value.slice(0, maxAttributeLength) : value;
     }
     
     // Extract relevant styles
-    const style = window.getComputedStyle(element);
+    const computed = style ?? (element.ownerDocument.defaultView ?? window).getComputedStyle(element);
     const styles: Record<string, string> = {
-      backgroundColor: style.backgroundColor,
-      color: style.color,
-      fontSize: style.fontSize,
-      fontWeight: style.fontWeight,
-      display: style.display,
-      visibility: style.visibility,
-      position: style.position,
-      zIndex: style.zIndex
+      backgroundColor: computed.backgroundColor,
+      color: computed.color,
+      fontSize: computed.fontSize,
+      fontWeight: computed.fontWeight,
+      display: computed.display,
+      visibility: computed.visibility,
+      position: computed.position,
+      zIndex: computed.zIndex
     };
     
     // Check if the element is interactable
@@ -354,8 +1127,8 @@ export class WebMCPClient extends BaseMCPClient {
       text: element.textContent || undefined,
       attributes,
       bounds: {
-        x: bounds.x,
-        y: bounds.y,
+        x: bounds.left + offset.x,
+        y: bounds.top + offset.y,
         width: bounds.width,
         height: bounds.height
       },
@@ -365,46 +1138,43 @@ export class WebMCPClient extends BaseMCPClient {
       styles
     };
     
-    return uiElement;
-  }
-  
-  /**
-   * Get the ID of an element
-   * @param element Element to get the ID for
-   * @returns Element ID or undefined if not found
-   */
-  private getElementId(element: Element): string | undefined {
-    for (const [id, el] of this.elementMap.entries()) {
-      if (el === element) {
-        return id;
+    // Frames whose content cannot be captured stand in for it
+    if (uiElement.type === 'iframe' && !this.getFrameDocument(element)) {
+      uiElement.crossOrigin = true;
+    }
+    
+    // Describe the element by its accessibility semantics if configured
+    if (this.config?.captureMode === 'accessibility') {
+      uiElement.text = getStaticText(element);
+      Object.assign(uiElement, getAccessibilityInfo(element));
+    }
+    
+    // Capture the live state of form controls and the fields of forms
+    if (isFormControl(element)) {
+      uiElement.control = getFormControlState(element, getId);
+      if (uiElement.type === 'textarea') {
+        uiElement.text = uiElement.control.value || undefined;
       }
+    } else if (uiElement.type === 'form') {
+      uiElement.fields = getFormFields(element as HTMLFormElement, getId);
     }
     
-    return undefined;
+    return uiElement;
   }
   
   /**
-   * Get or create an ID for an element
-   * @param element Element to get or create an ID for
-   * @returns Element ID
+   * Get the ID of an element
+   *
+   * Elements filtered out of the state still have an ID, so that mutations
+   * inside them are captured.
+   *
+   * @param element Element to get the ID for
+   * @param elementMap Map of the capture the ID must belong to
+   * @returns Element ID or undefined if the element was not captured
    */
-  private getOrCreateElementId(element: Element): string {
-    const existingId = this.getElementId(element);
-    if (existingId) {
-      return existingId;
-    }
-    
-    // Use the element's ID attribute if available
-    if (element.id) {
-      const id = `id-${element.id}`;
-      this.elementMap.set(id, element);
-      return id;
-    }
-    
-    // Generate a new ID
-    const id = `el-${this.idCounter++}`;
-    this.elementMap.set(id, element);
-    return id;
+  private getElementId(element: Element, elementMap: Map<string, Element> = this.elementMap): string | undefined {
+    const id = this.elementIds.get(element);
+    return id !== undefined && elementMap.get(id) === element ? id : undefined;
   }
   
   /**
@@ -445,6 +1215,8 @@ export class WebMCPClient extends BaseMCPClient {
   
   /**
    * Platform-specific action execution
+   * 
+   * Actions that an element does not support fail with an error describing why.
    */
   protected async executePlatformAction(
     actionType: string,
@@ -466,31 +1238,21 @@ export class WebMCPClient extends BaseMCPClient {
       
       switch (actionType) {
         case 'click':
-          htmlElement.click();
+          clickElement(domElement);
           break;
-          
+        
         case 'focus':
           htmlElement.focus();
           break;
-          
+        
         case 'type':
-          if (
-            domElement instanceof HTMLInputElement ||
-            domElement instanceof HTMLTextAreaElement
-          ) {
-            domElement.value = data || '';
-            
-            // Dispatch input and change events
-            domElement.dispatchEvent(new Event('input', { bubbles: true }));
-            domElement.dispatchEvent(new Event('change', { bubbles: true }));
+          if (data && typeof data === 'object') {
+            await typeInto(domElement, data.text, { delay: data.delay });
           } else {
-            return {
-              success: false,
-              error: 'Element is not a text input'
-            };
+            await typeInto(domElement, data || '');
           }
           break;
-          
+        
         case 'scroll':
           if (data && typeof data === 'object') {
             const { x, y } = data;
@@ -499,7 +1261,48 @@ export class WebMCPClient extends BaseMCPClient {
             domElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
           }
           break;
-          
+        
+        case 'hover':
+          movePointer(domElement);
+          break;
+        
+        case 'select':
+          return { success: true, data: { selected: selectOptions(domElement, data) } };
+        
+        case 'check':
+        case 'uncheck':
+          setChecked(domElement, actionType === 'check');
+          break;
+        
+        case 'pressKey':
+          pressKey(domElement, data);
+          break;
+        
+        case 'dragAndDrop': {
+          const dropTarget = this.findDomElementById(data.targetId);
+          if (!dropTarget) {
+            return {
+              success: false,
+              error: `DOM element with ID ${data.targetId} not found`
+            };
+          }
+          return { success: true, data: { dropped: dragAndDrop(domElement, dropTarget) } };
+        }
+        
+        case 'navigate':
+          return { success: true, data: { url: navigate(domElement, data.url) } };
+        
+        case 'submit':
+          submitForm(domElement);
+          break;
+        
+        case 'clear':
+          clearElement(domElement);
+          break;
+        
+        case 'uploadFile':
+          return { success: true, data: { files: uploadFiles(domElement, data.files) } };
+        
         default:
           return {
             success: false,
@@ -509,13 +1312,81 @@ export class WebMCPClient extends BaseMCPClient {
       
       return { success: true };
     } catch (error) {
+      // Errors of rejected changes carry what the page made of them
       return {
         success: false,
-        error: error instanceof Error ? error.message : String(error)
+        error: error instanceof Error ? error.message : String(error),
+        data: error instanceof ModelEyesError ? error.details : undefined
       };
     }
   }
   
+  /**
+   * Get the state and activity that wait conditions are checked against,
+   * with the live URL of the page, the time of its last DOM change and its
+   * network activity
+   */
+  protected getWaitSnapshot(): WaitSnapshot {
+    return {
+      state: this.currentState,
+      url: window.location.href,
+      lastChangeTime: this.lastChangeTime,
+      network: this.networkActivity?.getActivity()
+    };
+  }
+  
+  /**
+   * Wait for the target of an action to become actionable
+   * 
+   * The checks depend on the action type, and the element dropped onto by a
+   * drag and drop action must be visible too.
+   */
+  protected async checkActionability(actionType: string, element: UIElement, data?: any, signal?: AbortSignal): Promise<void> {
+    const options = this.config?.actions;
+    const domElement = this.findDomElementById(element.id);
+    if (options?.checkActionability === false || !domElement) {
+      return;
+    }
+    
+    const waitOptions = {
+      timeout: options?.actionabilityTimeout,
+      getId: (covering: Element) => this.getElementId(covering),
+      signal
+    };
+    
+    await waitForActionable(domElement, getActionabilityChecks(actionType), waitOptions);
+    
+    const dropTarget = actionType === 'dragAndDrop' ? this.findDomElementById(data.targetId) : null;
+    if (dropTarget) {
+      await waitForActionable(dropTarget, ['visible'], waitOptions);
+    }
+  }
+  
+  /**
+   * Wait until the page has made no DOM or form control changes for the settle
+   * time, or the settle timeout runs out, and capture the pending changes
+   */
+  protected async waitForSettledState(): Promise<void> {
+    const settleTime = this.config?.actions?.settleTime ?? DEFAULT_SETTLE_TIME;
+    const start = Date.now();
+    const deadline = start + (this.config?.actions?.settleTimeout ?? DEFAULT_SETTLE_TIMEOUT);
+    
+    // Changes made asynchronously by the page in response to the action
+    // restart the wait
+    for (;;) {
+      const quietTime = Date.now() - Math.max(start, this.lastChangeTime);
+      const wait = Math.min(settleTime - quietTime, deadline - Date.now());
+      if (wait <= 0) {
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    
+    this.mutationTimer?.cancel();
+    this.mutationTimer = null;
+    await this.flushMutations();
+  }
+  
   /**
    * Find a DOM element by its ID
    * @param id Element ID to find
@@ -550,10 +1421,134 @@ export class WebMCPClient extends BaseMCPClient {
       this.mutationObserver = null;
     }
     
-    // Clear element map
+    // Stop tracking URL changes and requests
+    this.urlListenerCleanup?.();
+    this.urlListenerCleanup = null;
+    this.networkActivity?.stop();
+    this.networkActivity = null;
+    
+    // Cancel pending mutation captures
+    this.mutationTimer?.cancel();
+    this.mutationTimer = null;
+    this.pendingMutations = [];
+    this.pendingControls.clear();
+    
+    // Stop listening for form control events
+    this.controlListenerCleanups.forEach(cleanup => cleanup());
+    this.controlListenerCleanups = [];
+    
+    // Clear element maps and identities
     this.elementMap.clear();
+    this.elementIds = new WeakMap();
+    this.elementDepths = new WeakMap();
+    this.observedTrees = new WeakSet();
+    this.frameOffsets.clear();
+    this.identity.reset();
     
     // Reset root element
     this.rootElement = null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Check whether a DOM node is an element
+ * @param node Node to check
+ * @returns Whether the node is an element
+ */
+function isElementNode(node: Node): node is Element {
+  return node.nodeType === 1; // Node.ELEMENT_NODE
+}
+
+/**
+ * Check whether a DOM node is a shadow root
+ * @param node Node to check
+ * @returns Whether the node is a shadow root
+ */
+function isShadowRoot(node: Node): node is ShadowRoot {
+  return node.nodeType === 11 && 'host' in node; // Node.DOCUMENT_FRAGMENT_NODE
+}
+
+/**
+ * Get the element a mutation record targets, the host standing in for its shadow root
+ * @param node Target of the record
+ * @returns The element, or null if the target is neither an element nor a shadow root
+ */
+function getTargetElement(node: Node): Element | null {
+  if (isElementNode(node)) {
+    return node;
+  }
+  
+  return isShadowRoot(node) ? node.host : null;
+}
+
+/**
+ * Get the element an element is rendered in
+ *
+ * This is the frame element for the body of a frame, the assigned slot for a
+ * light child of a shadow host, and the host for a child of a shadow root.
+ *
+ * @param element Element to get the parent of
+ * @returns The parent, or null if the element is not rendered or has no parent
+ */
+function getRenderedParent(element: Element): Element | null {
+  if (element === element.ownerDocument.body) {
+    const frame = getFrameElement(element.ownerDocument);
+    if (frame) {
+      return frame;
+    }
+  }
+  
+  const parent = element.parentElement;
+  if (parent?.shadowRoot) {
+    return element.assignedSlot ?? null;
+  }
+  if (parent) {
+    return parent;
+  }
+  
+  return element.parentNode && isShadowRoot(element.parentNode) ? element.parentNode.host : null;
+}
+
+/**
+ * Check whether an element is rendered inside a root element
+ * @param root Root element
+ * @param element Element to check
+ * @returns Whether the root is the element or one of its rendered ancestors
+ */
+function isRenderedIn(root: Element, element: Element): boolean {
+  for (let current: Element | null = element; current; current = getRenderedParent(current)) {
+    if (current === root) {
+      return true;
+    }
+  }
+  
+  return false;
+}
+
+/**
+ * Get the frame element containing a document
+ * @param ownerDocument Document to check
+ * @returns The frame element, or null if the document is not in an accessible frame
+ */
+function getFrameElement(ownerDocument: Document): Element | null {
+  try {
+    return ownerDocument.defaultView?.frameElement ?? null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Check whether a differential update contains changes
+ * @param update Update to check
+ * @returns Whether the update changes the state
+ */
+function hasChanges(update: DifferentialUpdate): boolean {
+  return (
+    (update.added !== undefined && Object.keys(update.added).length > 0) ||
+    (update.modified !== undefined && Object.keys(update.modified).length > 0) ||
+    (update.removed !== undefined && update.removed.length > 0) ||
+    update.focus !== undefined ||
+    update.hover !== undefined
+  );
+}
@@ -0,0 +1,488 @@
+/**
+ * ModelEyes WebSocket Client Transport
+ *
+ * This module connects an MCP client to a ModelEyes server over WebSocket. The
+ * client's UI state is sent as an `initialState` message followed by
+ * `stateUpdate` messages, and `actionRequest` and `queryRequest` messages from
+ * the server are answered with `response` messages correlated to their ID;
+ * queries are answered from the client's current UI state.
+ * Requests the server cancels, or whose timeout has passed, are stopped and not
+ * answered.
+ * After a lost connection the transport reconnects and resyncs with a new
+ * `initialState`.
+ */
+
+import type NodeWebSocket from 'ws';
+import {
+  DifferentialUpdate,
+  UIEventType,
+  EventMessage,
+  ActionRequestMessage,
+  QueryRequestMessage,
+  CancelMessage,
+  ErrorMessage,
+  Message,
+  Subscription
+} from '../common/types';
+import { ModelEyesError } from '../common/errors';
+import {
+  SERVER_TO_CLIENT_MESSAGE_TYPES,
+  parseMessage,
+  createMessageId,
+  createResponse,
+  createErrorResponse
+} from '../common/protocol';
+import { executeQuery } from '../common/query';
+import type { IMCPClient } from './base-client';
+
+/**
+ * Ready state of an open WebSocket, which is the same in all implementations
+ */
+const WEBSOCKET_OPEN = 1;
+
+/**
+ * WebSocket connection as provided by browsers and by `ws`
+ */
+export interface ClientWebSocket {
+  /** State of the connection */
+  readonly readyState: number;
+
+  /** Called once the connection is open */
+  onopen: ((event: any) => void) | null;
+
+  /** Called with each message received */
+  onmessage: ((event: any) => void) | null;
+
+  /** Called when the connection fails */
+  onerror: ((event: any) => void) | null;
+
+  /** Called once the connection is closed */
+  onclose: ((event: any) => void) | null;
+
+  /** Send a message */
+  send(data: string): void;
+
+  /** Close the connection */
+  close(): void;
+}
+
+/**
+ * Constructor of a WebSocket implementation
+ */
+export type ClientWebSocketConstructor = new (url: string) => ClientWebSocket;
+
+/**
+ * Options for the WebSocket client transport
+ */
+export interface WebSocketClientTransportOptions {
+  /** Whether to reconnect after the connection is lost (default true) */
+  reconnect?: boolean;
+
+  /** Delay in milliseconds before the first reconnection attempt, doubled after each failure (default 1000) */
+  reconnectDelay?: number;
+
+  /** Maximum delay in milliseconds between reconnection attempts (default 30000) */
+  maxReconnectDelay?: number;
+
+  /** Time in milliseconds without a heartbeat from the server after which the connection is considered lost (default 65000) */
+  heartbeatTimeout?: number;
+
+  /** WebSocket implementation to connect with (defaults to the browser's, or to `ws` outside browsers) */
+  webSocket?: ClientWebSocketConstructor;
+}
+
+/**
+ * WebSocket connection from an MCP client to a ModelEyes server
+ */
+export class WebSocketClientTransport {
+  private client: IMCPClient;
+  private url: string;
+  private options: Required<Omit<WebSocketClientTransportOptions, 'webSocket'>>;
+  private webSocket?: ClientWebSocketConstructor;
+  private socket: ClientWebSocket | null = null;
+  private stateSubscription: Subscription | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private inFlightRequests: Map<string, AbortController> = new Map();
+  private currentReconnectDelay: number;
+  private receivesHeartbeats = false;
+  private closed = false;
+
+  /**
+   * Create a new WebSocket client transport
+   *
+   * @param client Client whose UI state is sent and which executes requested actions
+   * @param url WebSocket URL of the server, e.g. `ws://localhost:3000/ws`
+   * @param options Transport options
+   */
+  constructor(client: IMCPClient, url: string, options: WebSocketClientTransportOptions = {}) {
+    this.client = client;
+    this.url = url;
+    this.options = {
+      reconnect: options.reconnect ?? true,
+      reconnectDelay: options.reconnectDelay ?? 1000,
+      maxReconnectDelay: options.maxReconnectDelay ?? 30000,
+      heartbeatTimeout: options.heartbeatTimeout ?? 65000
+    };
+    this.webSocket = options.webSocket;
+    this.currentReconnectDelay = this.options.reconnectDelay;
+  }
+
+  /**
+   * Connect to the server and send the initial UI state
+   *
+   * @returns Promise resolving once the initial state has been sent
+   */
+  async connect(): Promise<void> {
+    this.closed = false;
+    
+    if (!this.stateSubscription) {
+      this.stateSubscription = this.client.subscribeToStateChanges(update => this.sendStateUpdate(update));
+    }
+    
+    await this.open(false);
+  }
+
+  /**
+   * Check whether the transport is connected
+   *
+   * @returns Whether the connection is open
+   */
+  isConnected(): boolean {
+    return this.socket !== null && this.socket.readyState === WEBSOCKET_OPEN;
+  }
+
+  /**
+   * Report a UI event to the server
+   *
+   * @param eventType Type of the event
+   * @param targetId ID of the element the event occurred on
+   * @param data Event-specific data
+   */
+  sendEvent(eventType: UIEventType, targetId: string, data?: any): void {
+    const message: EventMessage = {
+      type: 'event',
+      id: createMessageId(),
+      payload: { eventType, targetId, data }
+    };
+    
+    this.send(message);
+  }
+
+  /**
+   * Close the connection without reconnecting
+   */
+  close(): void {
+    this.closed = true;
+    
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    
+    this.stateSubscription?.unsubscribe();
+    this.stateSubscription = null;
+    
+    this.abortInFlightRequests();
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  /**
+   * Open the WebSocket and send the initial state once it is connected
+   *
+   * @param isReconnect Whether this is an attempt to restore a lost connection
+   * @returns Promise resolving once the initial state has been sent
+   */
+  private open(isReconnect: boolean): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = this.createSocket();
+      this.socket = socket;
+      let opened = false;
+      
+      socket.onopen = () => {
+        opened = true;
+        this.currentReconnectDelay = this.options.reconnectDelay;
+        this.resetHeartbeat();
+        this.sendInitialState().then(resolve, reject);
+      };
+      
+      socket.onmessage = (event: { data: any }) => {
+        this.resetHeartbeat();
+        this.handleMessage(String(event.data));
+      };
+      
+      socket.onerror = () => {
+        if (!opened) {
+          reject(new ModelEyesError('AccessError', `Could not connect to ${this.url}`));
+        }
+      };
+      
+      socket.onclose = () => {
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+        
+        // Responses cannot be delivered over a new connection
+        this.abortInFlightRequests();
+        
+        // Failed reconnection attempts are retried, a failed first connection is not
+        if (opened || isReconnect) {
+          this.scheduleReconnect();
+        }
+      };
+    });
+  }
+
+  /**
+   * Create a WebSocket with the configured implementation, the browser's
+   * where available, or `ws`
+   *
+   * @returns The new WebSocket
+   */
+  private createSocket(): ClientWebSocket {
+    let socket: ClientWebSocket;
+    if (this.webSocket) {
+      socket = new this.webSocket(this.url);
+    } else if (typeof window !== 'undefined' && typeof window.WebSocket !== 'undefined') {
+      socket = new window.WebSocket(this.url);
+    } else {
+      socket = new (loadNodeWebSocket())(this.url);
+    }
+    
+    // Servers send heartbeats as ping frames, which only `ws` exposes
+    const nodeSocket = socket as Partial<NodeWebSocket>;
+    this.receivesHeartbeats = typeof nodeSocket.on === 'function';
+    nodeSocket.on?.('ping', () => this.resetHeartbeat());
+    return socket;
+  }
+
+  /**
+   * Restart the timer that closes the connection when the server stops sending heartbeats
+   */
+  private resetHeartbeat(): void {
+    if (!this.receivesHeartbeats) {
+      return;
+    }
+    
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+    }
+    
+    this.heartbeatTimer = setTimeout(() => {
+      (this.socket as NodeWebSocket | null)?.terminate();
+    }, this.options.heartbeatTimeout);
+  }
+
+  /**
+   * Reconnect after the connection is lost, backing off after each failure
+   */
+  private scheduleReconnect(): void {
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    
+    if (this.closed || !this.options.reconnect || this.reconnectTimer) {
+      return;
+    }
+    
+    const delay = this.currentReconnectDelay;
+    this.currentReconnectDelay = Math.min(delay * 2, this.options.maxReconnectDelay);
+    
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open(true).catch(error => {
+        console.error('Error reconnecting to ModelEyes server:', error);
+      });
+    }, delay);
+  }
+
+  /**
+   * Capture the current UI state and send it as the initial state
+   */
+  private async sendInitialState(): Promise<void> {
+    const state = await this.client.captureState();
+    this.send({ type: 'initialState', id: createMessageId(), payload: state });
+  }
+
+  /**
+   * Send a differential update, if connected
+   *
+   * Updates produced while disconnected are dropped; the server receives a new
+   * initial state when the connection is restored.
+   *
+   * @param update Differential update
+   */
+  private sendStateUpdate(update: DifferentialUpdate): void {
+    if (this.isConnected()) {
+      this.send({ type: 'stateUpdate', id: createMessageId(), payload: update });
+    }
+  }
+
+  /**
+   * Send a message to the server
+   *
+   * @param message Message to send
+   */
+  private send(message: Message): void {
+    if (!this.socket || !this.isConnected()) {
+      throw new ModelEyesError('AccessError', 'WebSocket connection is not open');
+    }
+    
+    this.socket.send(JSON.stringify(message));
+  }
+
+  /**
+   * Handle a message received from the server
+   *
+   * @param data Serialized message
+   */
+  private handleMessage(data: string): void {
+    let message: Message;
+    try {
+      message = parseMessage(data, SERVER_TO_CLIENT_MESSAGE_TYPES);
+    } catch (error) {
+      console.error('Invalid message from ModelEyes server:', error);
+      return;
+    }
+    
+    switch (message.type) {
+      case 'actionRequest':
+        this.handleActionRequest(message as ActionRequestMessage);
+        break;
+      
+      case 'queryRequest':
+        this.handleQueryRequest(message as QueryRequestMessage);
+        break;
+      
+      case 'cancel':
+        this.handleCancel(message as CancelMessage);
+        break;
+      
+      case 'error':
+        this.handleError(message as ErrorMessage);
+        break;
+      
+      default:
+        // The client sends no requests, so there are no responses to handle
+        break;
+    }
+  }
+
+  /**
+   * Execute a requested action and send its result
+   *
+   * @param message Action request
+   */
+  private async handleActionRequest(message: ActionRequestMessage): Promise<void> {
+    const { actionType, targetId, data } = message.payload;
+    
+    await this.answerRequest(message, signal => this.client.executeAction(actionType, targetId, data, signal));
+  }
+
+  /**
+   * Answer a query request from the client's current UI state
+   *
+   * @param message Query request
+   */
+  private async handleQueryRequest(message: QueryRequestMessage): Promise<void> {
+    const { queryType, parameters } = message.payload;
+    
+    await this.answerRequest(message, async () => {
+      const state = this.client.getCurrentState();
+      if (!state) {
+        throw new ModelEyesError('AccessError', 'No UI state available');
+      }
+      
+      return executeQuery(state, queryType, parameters);
+    });
+  }
+
+  /**
+   * Handle a request and send its response, unless the request is cancelled or
+   * its timeout passes first
+   *
+   * @param message Request message
+   * @param handle Function producing the response data, which stops when the
+   * signal it receives is aborted
+   */
+  private async answerRequest(message: Message, handle: (signal: AbortSignal) => Promise<any>): Promise<void> {
+    const requestId = message.id!;
+    const controller = new AbortController();
+    this.inFlightRequests.set(requestId, controller);
+    
+    // The server has given up on the request once its timeout has passed
+    const deadline = message.timeout ? setTimeout(() => controller.abort(), message.timeout) : null;
+    
+    let response: Message;
+    try {
+      response = createResponse(requestId, await handle(controller.signal));
+    } catch (error) {
+      response = createErrorResponse(requestId, error);
+    } finally {
+      if (deadline) {
+        clearTimeout(deadline);
+      }
+      
+      this.inFlightRequests.delete(requestId);
+    }
+    
+    if (!controller.signal.aborted && this.isConnected()) {
+      this.send(response);
+    }
+  }
+
+  /**
+   * Stop handling a request the server cancelled, without answering it
+   *
+   * @param message Cancel message
+   */
+  private handleCancel(message: CancelMessage): void {
+    this.inFlightRequests.get(message.correlationId)?.abort();
+    this.inFlightRequests.delete(message.correlationId);
+  }
+
+  /**
+   * Stop handling all requests, whose responses can no longer be delivered
+   */
+  private abortInFlightRequests(): void {
+    this.inFlightRequests.forEach(controller => controller.abort());
+    this.inFlightRequests.clear();
+  }
+
+  /**
+   * Handle an error reported by the server
+   *
+   * @param message Error message
+   */
+  private handleError(message: ErrorMessage): void {
+    const { code, details } = message.payload;
+    
+    // The server no longer has the state our updates apply to
+    if (details?.resync) {
+      this.sendInitialState().catch(error => {
+        console.error('Error resyncing with ModelEyes server:', error);
+      });
+      return;
+    }
+    
+    console.error(`ModelEyes server reported ${code}: ${message.payload.message}`);
+  }
+}
+
+/**
+ * Load the WebSocket implementation of `ws`
+ *
+ * It is only loaded outside browsers, so browser bundles do not depend on it.
+ *
+ * @returns The `ws` WebSocket constructor
+ */
+function loadNodeWebSocket(): new (url: string) => NodeWebSocket {
+  return require('ws');
+}
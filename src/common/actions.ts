@@ -0,0 +1,159 @@
+/**
+ * Action validation for ModelEyes
+ *
+ * This module defines the action types that can be requested and checks the
+ * data of action requests. The clients, the HTTP server and the MCP tools all
+ * validate actions through it, so malformed requests are rejected before they
+ * reach a page.
+ */
+
+import { ActionType, KeyModifier } from './types';
+import { ModelEyesError } from './errors';
+
+/**
+ * Action types that can be requested
+ */
+export const ACTION_TYPES: [ActionType, ...ActionType[]] = [
+  'click',
+  'type',
+  'scroll',
+  'focus',
+  'hover',
+  'select',
+  'check',
+  'uncheck',
+  'pressKey',
+  'dragAndDrop',
+  'navigate',
+  'submit',
+  'clear',
+  'uploadFile'
+];
+
+/**
+ * Modifier keys accepted by `pressKey` actions
+ */
+const KEY_MODIFIERS: KeyModifier[] = ['Alt', 'Control', 'Meta', 'Shift'];
+
+/**
+ * Checks whether a value is an action type
+ *
+ * @param value Value to check
+ * @returns Whether the value is one of the action types
+ */
+export function isActionType(value: unknown): value is ActionType {
+  return typeof value === 'string' && (ACTION_TYPES as string[]).includes(value);
+}
+
+/**
+ * Checks an action type and the data of the action
+ *
+ * @param actionType Requested action type
+ * @param data Data of the action
+ * @throws ModelEyesError with code `UnsupportedError` for unknown action types,
+ * or `ValidationError` if the data does not fit the action type
+ */
+export function validateAction(actionType: unknown, data?: any): asserts actionType is ActionType {
+  if (!isActionType(actionType)) {
+    throw new ModelEyesError('UnsupportedError', `Unsupported action type: ${actionType}`, { actionType });
+  }
+
+  switch (actionType) {
+    case 'type':
+      if (data && typeof data === 'object' && !Array.isArray(data)) {
+        if (typeof data.text !== 'string') {
+          throw invalid(actionType, 'text to type must be a string');
+        }
+        if (data.delay !== undefined && !(typeof data.delay === 'number' && data.delay >= 0)) {
+          throw invalid(actionType, 'delay must be a non-negative number');
+        }
+      } else if (data !== undefined && data !== null && typeof data !== 'string') {
+        throw invalid(actionType, 'text to type must be a string');
+      }
+      break;
+    
+    case 'scroll':
+      if (data !== undefined && data !== null) {
+        requireObject(actionType, data);
+        if ((data.x !== undefined && typeof data.x !== 'number') || (data.y !== undefined && typeof data.y !== 'number')) {
+          throw invalid(actionType, 'x and y must be numbers');
+        }
+      }
+      break;
+    
+    case 'select': {
+      requireObject(actionType, data);
+      const choices = [data.value, data.label].filter(choice => choice !== undefined);
+      if (choices.length !== 1 || !choices.every(isStringOrStrings)) {
+        throw invalid(actionType, 'either value or label must be given as a string or an array of strings');
+      }
+      break;
+    }
+    
+    case 'pressKey':
+      requireObject(actionType, data);
+      if (typeof data.key !== 'string' || !data.key) {
+        throw invalid(actionType, 'key must be a non-empty string');
+      }
+      if (data.modifiers !== undefined &&
+          (!Array.isArray(data.modifiers) || !data.modifiers.every((modifier: unknown) => KEY_MODIFIERS.includes(modifier as KeyModifier)))) {
+        throw invalid(actionType, `modifiers must be an array of ${KEY_MODIFIERS.join(', ')}`);
+      }
+      break;
+    
+    case 'dragAndDrop':
+      requireObject(actionType, data);
+      if (typeof data.targetId !== 'string' || !data.targetId) {
+        throw invalid(actionType, 'targetId must be a non-empty string');
+      }
+      break;
+    
+    case 'navigate':
+      requireObject(actionType, data);
+      if (typeof data.url !== 'string' || !data.url) {
+        throw invalid(actionType, 'url must be a non-empty string');
+      }
+      break;
+    
+    case 'uploadFile':
+      requireObject(actionType, data);
+      if (!Array.isArray(data.files) || !data.files.every(isUploadFile)) {
+        throw invalid(actionType, 'files must be an array of files with a name and a text or base64 content');
+      }
+      break;
+  }
+}
+
+/**
+ * Checks that the data of an action is an object
+ */
+function requireObject(actionType: ActionType, data: any): void {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw invalid(actionType, 'data must be an object');
+  }
+}
+
+/**
+ * Checks whether a value is a string or an array of strings
+ */
+function isStringOrStrings(value: unknown): boolean {
+  return typeof value === 'string' || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+}
+
+/**
+ * Checks whether a value describes a file to upload
+ */
+function isUploadFile(file: any): boolean {
+  return !!file && typeof file === 'object' &&
+    typeof file.name === 'string' && file.name !== '' &&
+    typeof file.content === 'string' &&
+    (file.encoding === undefined || file.encoding === 'text' || file.encoding === 'base64') &&
+    (file.mimeType === undefined || typeof file.mimeType === 'string');
+}
+
+/**
+ * Create the error for invalid action data
+ */
+function invalid(actionType: ActionType, message: string): ModelEyesError {
+  return new ModelEyesError('ValidationError', `Invalid ${actionType} action: ${message}`, { actionType });
+}
@@ -6,6 +6,7 @@
  */
 
 import { UIState, UIElement, DifferentialUpdate } from './types';
+import { applyDiff } from './optimization';
 
 /**
  * LRU (Least Recently Used) Cache implementation
@@ -200,44 +201,7 @@ export class UIStateCache {
       return undefined;
     }
     
-    // Create a deep copy of the base state
-    const newState: UIState = JSON.parse(JSON.stringify(baseState));
-    
-    // Update timestamp and version
-    newState.timestamp = update.timestamp;
-    newState.version = update.version;
-    
-    // Add new elements
-    if (update.added) {
-      for (const [id, element] of Object.entries(update.added)) {
-        newState.elements[id] = element;
-      }
-    }
-    
-    // Modify existing elements
-    if (update.modified) {
-      for (const [id, changes] of Object.entries(update.modified)) {
-        if (newState.elements[id]) {
-          Object.assign(newState.elements[id], changes);
-        }
-      }
-    }
-    
-    // Remove elements
-    if (update.removed) {
-      for (const id of update.removed) {
-        delete newState.elements[id];
-      }
-    }
-    
-    // Update focus and hover
-    if (update.focus !== undefined) {
-      newState.focus = update.focus || undefined;
-    }
-    
-    if (update.hover !== undefined) {
-      newState.hover = update.hover || undefined;
-    }
+    const newState = applyDiff(baseState, update);
     
     // Add the updated state to the cache
     this.addState(newState);
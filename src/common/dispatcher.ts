@@ -0,0 +1,194 @@
+/**
+ * Request dispatcher for ModelEyes
+ *
+ * This module tracks the requests sent over a connection until they are
+ * answered. Each request gets a message ID, and responses are matched to their
+ * requests through their `correlationId`, so concurrent requests on one
+ * connection resolve independently. Requests that time out or are aborted are
+ * cancelled on the remote side with a `cancel` message.
+ */
+
+import { Message, ResponseMessage } from './types';
+import { ModelEyesError } from './errors';
+import { createMessageId, createCancelMessage } from './protocol';
+
+/**
+ * Options for a single request
+ */
+export interface RequestOptions {
+  /** Time in milliseconds to wait for the response (defaults to the dispatcher's timeout) */
+  timeout?: number;
+
+  /** Signal that cancels the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Request waiting for its response
+ */
+interface PendingRequest {
+  message: Message;
+  resolve: (data: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+  cleanup: () => void;
+}
+
+/**
+ * Tracks pending requests on a connection
+ */
+export class RequestDispatcher {
+  private send: (message: Message) => void;
+  private defaultTimeout: number;
+  private pending: Map<string, PendingRequest> = new Map();
+
+  /**
+   * Create a new request dispatcher
+   *
+   * @param send Function sending a message over the connection
+   * @param defaultTimeout Time in milliseconds to wait for a response by default
+   */
+  constructor(send: (message: Message) => void, defaultTimeout: number = 10000) {
+    this.send = send;
+    this.defaultTimeout = defaultTimeout;
+  }
+
+  /**
+   * Send a request and wait for its response
+   *
+   * @param type Type of the request message
+   * @param payload Payload of the request message
+   * @param options Request options
+   * @returns Promise resolving to the response data, or rejecting with the
+   * error reported in the response, a `TimeoutError`, or an `AccessError` if the
+   * request was cancelled
+   */
+  request<T = any>(type: Message['type'], payload: any, options: RequestOptions = {}): Promise<T> {
+    const timeout = options.timeout ?? this.defaultTimeout;
+    const message: Message = {
+      type,
+      id: createMessageId(),
+      timeout,
+      payload
+    };
+    const id = message.id!;
+    
+    return new Promise<T>((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new ModelEyesError('AccessError', `${type} was cancelled`, { requestId: id }));
+        return;
+      }
+      
+      const onAbort = () => this.cancel(id, 'Request aborted');
+      options.signal?.addEventListener('abort', onAbort);
+      
+      const timer = setTimeout(() => {
+        const error = new ModelEyesError('TimeoutError', `No response to ${type} within ${timeout}ms`, { requestId: id });
+        this.cancel(id, error.message, error);
+      }, timeout);
+      
+      this.pending.set(id, {
+        message,
+        resolve,
+        reject,
+        timer,
+        cleanup: () => options.signal?.removeEventListener('abort', onAbort)
+      });
+      
+      try {
+        this.send(message);
+      } catch (error) {
+        this.settle(id)?.reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * Cancel a pending request
+   *
+   * The request is rejected and a `cancel` message is sent, so the remote side
+   * can stop handling it.
+   *
+   * @param id ID of the request
+   * @param reason Reason for cancelling
+   * @param error Error to reject the request with (an `AccessError` by default)
+   * @returns Whether a pending request was cancelled
+   */
+  cancel(id: string, reason?: string, error?: Error): boolean {
+    const pending = this.settle(id);
+    if (!pending) {
+      return false;
+    }
+    
+    pending.reject(error ?? new ModelEyesError('AccessError', `${pending.message.type} was cancelled`, { requestId: id, reason }));
+    
+    try {
+      this.send(createCancelMessage(id, reason));
+    } catch (sendError) {
+      // The connection is gone, so the request is not being handled anymore
+    }
+    
+    return true;
+  }
+
+  /**
+   * Settle the request a response belongs to
+   *
+   * @param response Response message
+   * @returns Whether the response belonged to a pending request
+   */
+  handleResponse(response: ResponseMessage): boolean {
+    const pending = this.settle(response.correlationId ?? response.payload.requestId);
+    if (!pending) {
+      return false;
+    }
+    
+    const { status, data } = response.payload;
+    if (status === 'success') {
+      pending.resolve(data);
+    } else {
+      pending.reject(new ModelEyesError(data?.code ?? 'AccessError', data?.message ?? 'Request failed', data?.details));
+    }
+    
+    return true;
+  }
+
+  /**
+   * Get the number of requests waiting for their response
+   *
+   * @returns Number of pending requests
+   */
+  pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Reject all pending requests, e.g. when the connection closes
+   *
+   * @param error Error to reject the requests with
+   */
+  rejectAll(error: Error): void {
+    for (const id of Array.from(this.pending.keys())) {
+      this.settle(id)?.reject(error);
+    }
+  }
+
+  /**
+   * Stop tracking a request
+   *
+   * @param id ID of the request
+   * @returns The request, or undefined if it is not pending
+   */
+  private settle(id: string): PendingRequest | undefined {
+    const pending = this.pending.get(id);
+    if (!pending) {
+      return undefined;
+    }
+    
+    clearTimeout(pending.timer);
+    pending.cleanup();
+    this.pending.delete(id);
+    
+    return pending;
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Error utilities for ModelEyes
+ *
+ * This module provides an error class that carries one of the protocol's
+ * error codes, so failures can be reported consistently to clients.
+ */
+
+import { ErrorCode, ErrorMessage } from './types';
+
+/**
+ * Error carrying a protocol error code
+ *
+ * Components throw this error when a failure should be reported to the
+ * remote side with a specific error code rather than as a generic error.
+ */
+export class ModelEyesError extends Error {
+  /** Protocol error code */
+  readonly code: ErrorCode;
+
+  /** Additional details about the error */
+  readonly details?: any;
+
+  /**
+   * Create a new ModelEyes error
+   * @param code Protocol error code
+   * @param message Human-readable error message
+   * @param details Additional details about the error
+   */
+  constructor(code: ErrorCode, message: string, details?: any) {
+    super(message);
+    this.name = 'ModelEyesError';
+    this.code = code;
+    this.details = details;
+  }
+
+  /**
+   * Convert the error to an error message payload
+   * @returns Error message payload
+   */
+  toPayload(): ErrorMessage['payload'] {
+    const payload: ErrorMessage['payload'] = {
+      code: this.code,
+      message: this.message
+    };
+
+    if (this.details !== undefined) {
+      payload.details = this.details;
+    }
+
+    return payload;
+  }
+}
+
+/**
+ * Convert any thrown value to an error message payload
+ *
+ * @param error Thrown value
+ * @param fallbackCode Error code to use when the value carries none
+ * @returns Error message payload
+ */
+export function toErrorPayload(error: unknown, fallbackCode: ErrorCode = 'AccessError'): ErrorMessage['payload'] {
+  if (error instanceof ModelEyesError) {
+    return error.toPayload();
+  }
+
+  return {
+    code: fallbackCode,
+    message: error instanceof Error ? error.message : String(error)
+  };
+}
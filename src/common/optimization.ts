@@ -5,7 +5,7 @@
  * in the ModelEyes library, including compression, diffing, and filtering algorithms.
  */
 
-import { UIElement, UIState, DifferentialUpdate } from './types';
+import { UIElement, UIState, DifferentialUpdate, ElementChanges } from './types';
 
 /**
  * Computes a hash for a UI element to quickly detect changes
@@ -21,7 +21,16 @@ export function hashElement(element: UIElement): string {
     bounds: element.bounds,
     interactable: element.interactable || false,
     visible: element.visible !== false, // Default to true if not specified
-    attributes: element.attributes || {}
+    attributes: element.attributes || {},
+    children: element.children || [],
+    parent: element.parent,
+    role: element.role,
+    name: element.name,
+    description: element.description,
+    states: element.states,
+    crossOrigin: element.crossOrigin,
+    control: element.control,
+    fields: element.fields
   };
   
   // Convert to string and hash
@@ -32,16 +41,16 @@ export function hashElement(element: UIElement): string {
  * Simple string hashing function
  * 
  * @param str String to hash
- * @returns Hash string
+ * @returns Hash string of lowercase letters and digits
  */
-function hashString(str: string): string {
+export function hashString(str: string): string {
   let hash = 0;
   for (let i = 0; i < str.length; i++) {
     const char = str.charCodeAt(i);
     hash = ((hash << 5) - hash) + char;
     hash = hash & hash; // Convert to 32bit integer
   }
-  return hash.toString(36);
+  return (hash >>> 0).toString(36);
 }
 
 /**
@@ -56,7 +65,7 @@ function hashString(str: string): string {
  */
 export function computeDiff(oldState: UIState, newState: UIState): DifferentialUpdate {
   const added: Record<string, UIElement> = {};
-  const modified: Record<string, Partial<UIElement>> = {};
+  const modified: Record<string, ElementChanges> = {};
   const removed: string[] = [];
   
   // Track element hashes for quick comparison
@@ -123,18 +132,93 @@ export function computeDiff(oldState: UIState, newState: UIState): DifferentialU
   return update;
 }
 
+/**
+ * Applies a differential update to a UI state
+ * 
+ * The update is applied to a deep copy, so the given state is left as it is.
+ * The base version of the update is not checked against the state.
+ * 
+ * @param state UI state the update is based on
+ * @param update Differential update to apply
+ * @returns The updated UI state
+ */
+export function applyDiff(state: UIState, update: DifferentialUpdate): UIState {
+  // Create a deep copy of the state
+  const newState: UIState = JSON.parse(JSON.stringify(state));
+  
+  // Update timestamp and version
+  newState.timestamp = update.timestamp;
+  newState.version = update.version;
+  
+  // Add new elements
+  if (update.added) {
+    for (const [id, element] of Object.entries(update.added)) {
+      newState.elements[id] = element;
+    }
+  }
+  
+  // Modify existing elements
+  if (update.modified) {
+    for (const [id, changes] of Object.entries(update.modified)) {
+      const element = newState.elements[id];
+      if (element) {
+        applyElementChanges(element, changes);
+      }
+    }
+  }
+  
+  // Remove elements
+  if (update.removed) {
+    for (const id of update.removed) {
+      delete newState.elements[id];
+    }
+  }
+  
+  // Update focus and hover
+  if (update.focus !== undefined) {
+    newState.focus = update.focus || undefined;
+  }
+  
+  if (update.hover !== undefined) {
+    newState.hover = update.hover || undefined;
+  }
+  
+  return newState;
+}
+
+/**
+ * Applies the changed properties of a UI element to it
+ * 
+ * Properties whose change is `null` were removed from the element.
+ * 
+ * @param element UI element to modify in place
+ * @param changes Changed properties of the element
+ */
+export function applyElementChanges(element: UIElement, changes: ElementChanges): void {
+  const properties = element as unknown as Record<string, unknown>;
+  
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) {
+      delete properties[key];
+    } else {
+      properties[key] = value;
+    }
+  }
+}
+
 /**
  * Computes the changes between two UI elements
  * 
  * This function identifies which properties of an element have changed
- * and returns only those properties.
+ * and returns only those properties, with `null` for properties the new
+ * element no longer has.
  * 
  * @param oldElement Previous version of the element
  * @param newElement Current version of the element
- * @returns Partial element containing only the changed properties
+ * @returns Changed properties of the element
  */
-function computeElementChanges(oldElement: UIElement, newElement: UIElement): Partial<UIElement> {
-  const changes: Partial<UIElement> = {};
+export function computeElementChanges(oldElement: UIElement, newElement: UIElement): ElementChanges {
+  const changes: ElementChanges = {};
   
   // Check text content
   if (oldElement.text !== newElement.text) {
@@ -171,6 +255,49 @@ function computeElementChanges(oldElement: UIElement, newElement: UIElement): Pa
     changes.children = newElement.children;
   }
   
+  // Check parent
+  if (oldElement.parent !== newElement.parent) {
+    changes.parent = newElement.parent;
+  }
+  
+  // Check accessibility semantics
+  if (oldElement.role !== newElement.role) {
+    changes.role = newElement.role;
+  }
+  
+  if (oldElement.name !== newElement.name) {
+    changes.name = newElement.name;
+  }
+  
+  if (oldElement.description !== newElement.description) {
+    changes.description = newElement.description;
+  }
+  
+  if (!attributesEqual(oldElement.states, newElement.states)) {
+    changes.states = newElement.states;
+  }
+  
+  // Check frame access
+  if (oldElement.crossOrigin !== newElement.crossOrigin) {
+    changes.crossOrigin = newElement.crossOrigin;
+  }
+  
+  // Check form control state and form fields
+  if (JSON.stringify(oldElement.control) !== JSON.stringify(newElement.control)) {
+    changes.control = newElement.control;
+  }
+  
+  if (!arraysEqual(oldElement.fields, newElement.fields)) {
+    changes.fields = newElement.fields;
+  }
+  
+  // Mark the properties that were removed
+  for (const key of Object.keys(changes) as (keyof UIElement)[]) {
+    if (changes[key] === undefined) {
+      changes[key] = null;
+    }
+  }
+  
   return changes;
 }
 
@@ -250,30 +377,40 @@ export function compressState(state: UIState): UIState {
   
   // Compress element properties
   for (const id in compressedState.elements) {
-    const element = compressedState.elements[id];
-    
-    // Remove empty optional properties
-    if (element.text === '') delete element.text;
-    if (!element.attributes || Object.keys(element.attributes).length === 0) delete element.attributes;
-    if (!element.styles || Object.keys(element.styles).length === 0) delete element.styles;
-    if (!element.children || element.children.length === 0) delete element.children;
-    
-    // Default values can be omitted
-    if (element.visible === true) delete element.visible;
-    if (element.interactable === false) delete element.interactable;
-    
-    // Compress bounds to integers when possible
-    if (element.bounds) {
-      element.bounds.x = Math.round(element.bounds.x);
-      element.bounds.y = Math.round(element.bounds.y);
-      element.bounds.width = Math.round(element.bounds.width);
-      element.bounds.height = Math.round(element.bounds.height);
-    }
+    compressElement(compressedState.elements[id]);
   }
   
   return compressedState;
 }
 
+/**
+ * Compresses a UI element in place to reduce its size
+ * 
+ * @param element UI element to compress
+ * @returns The compressed element
+ */
+export function compressElement(element: UIElement): UIElement {
+  // Remove empty optional properties
+  if (element.text === '') delete element.text;
+  if (!element.attributes || Object.keys(element.attributes).length === 0) delete element.attributes;
+  if (!element.styles || Object.keys(element.styles).length === 0) delete element.styles;
+  if (!element.children || element.children.length === 0) delete element.children;
+  
+  // Default values can be omitted
+  if (element.visible === true) delete element.visible;
+  if (element.interactable === false) delete element.interactable;
+  
+  // Compress bounds to integers when possible
+  if (element.bounds) {
+    element.bounds.x = Math.round(element.bounds.x);
+    element.bounds.y = Math.round(element.bounds.y);
+    element.bounds.width = Math.round(element.bounds.width);
+    element.bounds.height = Math.round(element.bounds.height);
+  }
+  
+  return element;
+}
+
 /**
  * Filters UI elements based on relevance
  * 
@@ -0,0 +1,489 @@
+/**
+ * Budget-aware packing of UI states for ModelEyes
+ *
+ * This module fits a UI state into a token budget. Elements are ranked by a
+ * score that combines whether they are interactable, how close they are to the
+ * viewport and to the focused element, how relevant their text is to the goal
+ * of the model, and how recently they changed. The highest ranked elements are
+ * kept, together with their ancestors, as long as they fit the budget, and the
+ * subtrees that are pruned are collapsed into summary elements such as
+ * `...14 more links in nav`, so the model knows what it does not see.
+ */
+
+import { UIElement, UIState } from './types';
+import { getElementRole } from './search';
+
+/**
+ * Type of the elements summarizing pruned subtrees
+ */
+export const SUMMARY_ELEMENT_TYPE = '#summary';
+
+/**
+ * Weights of the parts of an element's score
+ */
+export interface ScoreWeights {
+  /** Weight of the element being interactable */
+  interactable: number;
+
+  /** Weight of the element's closeness to the viewport */
+  viewport: number;
+
+  /** Weight of the element's closeness to the focused element in the tree */
+  focus: number;
+
+  /** Weight of the relevance of the element's text to the goal */
+  goal: number;
+
+  /** Weight of how recently the element changed */
+  recency: number;
+}
+
+/**
+ * Default weights of the parts of an element's score
+ */
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  interactable: 40,
+  viewport: 20,
+  focus: 15,
+  goal: 30,
+  recency: 15
+};
+
+/**
+ * Options for scoring elements
+ */
+export interface ScoreOptions {
+  /** Goal of the model, whose words are looked for in the text of elements */
+  goal?: string;
+
+  /**
+   * Number of updates since each element last changed, 0 for elements changed
+   * by the latest update; elements that are not listed count as unchanged
+   */
+  changeAges?: Record<string, number>;
+
+  /** Elements with all their details, where the state holds simplified ones */
+  details?: Record<string, UIElement>;
+
+  /** Weights overriding the default ones */
+  weights?: Partial<ScoreWeights>;
+}
+
+/**
+ * Options for packing a state into a token budget
+ */
+export interface PackingOptions extends ScoreOptions {
+  /** Maximum number of tokens of the packed state */
+  maxTokens: number;
+
+  /** Counts the tokens of a state as it is sent to the model */
+  countTokens: (state: UIState) => number;
+}
+
+/**
+ * State packed into a token budget
+ */
+export interface PackedState {
+  /** State with the kept elements and the summaries of pruned subtrees */
+  state: UIState;
+
+  /** Token count of the packed state */
+  tokenCount: number;
+
+  /** IDs of the dropped elements */
+  dropped: string[];
+
+  /** Summaries of pruned subtrees, keyed by the ID of their summary element */
+  summaries: Record<string, string>;
+}
+
+/**
+ * Factor applied to the score of invisible elements
+ */
+const INVISIBLE_FACTOR = 0.5;
+
+/**
+ * Words of a goal that say nothing about the elements it concerns
+ */
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'into', 'from', 'that', 'this', 'then', 'than', 'its', 'are', 'was']);
+
+/**
+ * Attributes whose values describe an element
+ */
+const DESCRIPTIVE_ATTRIBUTES = ['aria-label', 'title', 'alt', 'placeholder', 'name', 'value'];
+
+/**
+ * Ranks the elements of a state by their importance to a model
+ *
+ * @param state UI state
+ * @param options Scoring options
+ * @returns Scores of the elements, keyed by their IDs
+ */
+export function scoreElements(state: UIState, options: ScoreOptions = {}): Record<string, number> {
+  const weights = { ...DEFAULT_SCORE_WEIGHTS, ...options.weights };
+  const goalWords = getWords(options.goal ?? '');
+  const focusDistances = getFocusDistances(state);
+  const scores: Record<string, number> = {};
+
+  for (const [id, simplified] of Object.entries(state.elements)) {
+    const element = { ...options.details?.[id], ...simplified };
+    const age = options.changeAges?.[id];
+    
+    let score =
+      weights.interactable * (element.interactable ? 1 : 0) +
+      weights.viewport * getViewportCloseness(element, state) +
+      weights.focus * getFocusCloseness(id, state, focusDistances) +
+      weights.goal * getGoalRelevance(element, state, goalWords) +
+      weights.recency * (age !== undefined ? 1 / (1 + age) : 0);
+    
+    if (element.visible === false) {
+      score *= INVISIBLE_FACTOR;
+    }
+    scores[id] = score;
+  }
+
+  return scores;
+}
+
+/**
+ * Packs a state into a token budget
+ *
+ * Elements are added in the order of their score, each with the ancestors it
+ * needs, while they fit the budget. Children that do not fit are collapsed
+ * into a summary element of their parent, and elements are dropped again,
+ * lowest score first, until the state with its summaries fits.
+ *
+ * @param state UI state
+ * @param options Packing options
+ * @returns The packed state, its token count and what was dropped
+ */
+export function packState(state: UIState, options: PackingOptions): PackedState {
+  const { elements } = state;
+  const scores = scoreElements(state, options);
+  const ranked = Object.keys(elements).sort((a, b) => scores[b] - scores[a]);
+
+  const header: UIState = { ...state, elements: {} };
+  const headerTokens = options.countTokens(header);
+  const kept = new Set<string>();
+  let tokenCount = headerTokens;
+
+  for (const id of ranked) {
+    if (kept.has(id)) {
+      continue;
+    }
+    
+    const added = [id, ...getAncestors(id, elements)].filter(addedId => !kept.has(addedId));
+    const addedElements: Record<string, UIElement> = {};
+    for (const addedId of added) {
+      addedElements[addedId] = elements[addedId];
+    }
+    
+    const cost = options.countTokens({ ...header, elements: addedElements }) - headerTokens;
+    if (tokenCount + cost <= options.maxTokens) {
+      added.forEach(addedId => kept.add(addedId));
+      tokenCount += cost;
+    }
+  }
+
+  // Summaries take tokens as well, so drop leaves until everything fits
+  let packed = buildPackedState(state, kept, options.details);
+  tokenCount = options.countTokens(packed.state);
+
+  const ranks = new Map(ranked.map((id, rank) => [id, rank]));
+  const keptChildren = new Map<string, number>();
+  for (const id of kept) {
+    const parentId = getParent(id, elements);
+    if (parentId && kept.has(parentId)) {
+      keptChildren.set(parentId, (keptChildren.get(parentId) ?? 0) + 1);
+    }
+  }
+
+  // Leaves are found by scanning the ranking upwards from the lowest score. A
+  // parent that becomes a leaf after the scan passed it ranks below all other
+  // leaves, so it is dropped next.
+  let position = ranked.length;
+  let passedLeaf: string | undefined;
+  const dropLeaf = (): string | undefined => {
+    let leaf = passedLeaf;
+    passedLeaf = undefined;
+    if (!leaf) {
+      do {
+        position--;
+      } while (position >= 0 && (!kept.has(ranked[position]) || keptChildren.get(ranked[position])));
+      if (position < 0) {
+        return undefined;
+      }
+      leaf = ranked[position];
+    }
+    
+    kept.delete(leaf);
+    const parentId = getParent(leaf, elements);
+    if (parentId && kept.has(parentId)) {
+      const remaining = (keptChildren.get(parentId) as number) - 1;
+      keptChildren.set(parentId, remaining);
+      if (remaining === 0 && (ranks.get(parentId) as number) > position) {
+        passedLeaf = parentId;
+      }
+    }
+    return leaf;
+  };
+
+  // Siblings share their ancestors, so those are counted once per parent
+  const ancestorTokens = new Map<string | undefined, number>();
+  const getLeafCost = (leaf: string): number => {
+    const ancestorIds = getAncestors(leaf, elements);
+    const ancestors: Record<string, UIElement> = {};
+    for (const ancestorId of ancestorIds) {
+      ancestors[ancestorId] = elements[ancestorId];
+    }
+    
+    let withoutLeaf = ancestorTokens.get(ancestorIds[0]);
+    if (withoutLeaf === undefined) {
+      withoutLeaf = options.countTokens({ ...header, elements: ancestors });
+      ancestorTokens.set(ancestorIds[0], withoutLeaf);
+    }
+    return options.countTokens({ ...header, elements: { ...ancestors, [leaf]: elements[leaf] } }) - withoutLeaf;
+  };
+
+  // Leaves are dropped by their cost next to their ancestors, and the state is
+  // only counted again with its summaries once they should fit
+  let dropped: string[] = [];
+  while (tokenCount > options.maxTokens && kept.size > 0) {
+    dropped = [];
+    let estimate = tokenCount;
+    let leaf: string | undefined;
+    while (estimate > options.maxTokens && (leaf = dropLeaf())) {
+      estimate -= getLeafCost(leaf);
+      dropped.push(leaf);
+    }
+    if (dropped.length === 0) {
+      break;
+    }
+    
+    packed = buildPackedState(state, kept, options.details);
+    tokenCount = options.countTokens(packed.state);
+  }
+
+  // Estimates are off by a token here and there, so restore the last leaves
+  // as long as the state still fits
+  while (tokenCount <= options.maxTokens && dropped.length > 1) {
+    const leaf = dropped.pop() as string;
+    kept.add(leaf);
+    const restored = buildPackedState(state, kept, options.details);
+    const restoredCount = options.countTokens(restored.state);
+    if (restoredCount > options.maxTokens) {
+      kept.delete(leaf);
+      break;
+    }
+    
+    packed = restored;
+    tokenCount = restoredCount;
+  }
+
+  return { ...packed, tokenCount };
+}
+
+/**
+ * Build the state of the kept elements, with a summary element for each group
+ * of pruned children
+ */
+function buildPackedState(
+  state: UIState,
+  kept: Set<string>,
+  details?: Record<string, UIElement>
+): Omit<PackedState, 'tokenCount'> {
+  const { elements } = state;
+  const packedElements: Record<string, UIElement> = {};
+  const summaries: Record<string, string> = {};
+  const dropped = Object.keys(elements).filter(id => !kept.has(id));
+
+  const addSummary = (prunedRoots: string[], parentId?: string) => {
+    if (prunedRoots.length === 0) {
+      return;
+    }
+    
+    const summaryId = parentId ? `${parentId}~more` : '~more';
+    const pruned = getSubtrees(prunedRoots, elements).map(element => ({ ...details?.[element.id], ...element }));
+    const text = summarize(pruned, parentId ? elements[parentId] : undefined);
+    summaries[summaryId] = text;
+    packedElements[summaryId] = {
+      id: summaryId,
+      type: SUMMARY_ELEMENT_TYPE,
+      text,
+      bounds: { x: 0, y: 0, width: 0, height: 0 },
+      parent: parentId
+    };
+    if (parentId) {
+      packedElements[parentId].children = [...(packedElements[parentId].children ?? []), summaryId];
+    }
+  };
+
+  for (const id of Object.keys(elements)) {
+    if (kept.has(id)) {
+      const element = elements[id];
+      packedElements[id] = element.children ?
+        { ...element, children: element.children.filter(childId => kept.has(childId)) } :
+        { ...element };
+    }
+  }
+
+  for (const id of kept) {
+    addSummary((elements[id].children ?? []).filter(childId => elements[childId] && !kept.has(childId)), id);
+  }
+
+  // Pruned elements without a kept parent are summarized at the top
+  addSummary(dropped.filter(id => {
+    const parentId = elements[id].parent;
+    return !parentId || !elements[parentId];
+  }));
+
+  return { state: { ...state, elements: packedElements }, dropped, summaries };
+}
+
+/**
+ * Describe the elements of pruned subtrees, counting the interactable ones if
+ * there are any
+ */
+function summarize(pruned: UIElement[], container?: UIElement): string {
+  const interactable = pruned.filter(element => element.interactable);
+  const counted = interactable.length > 0 ? interactable : pruned;
+  const kinds = new Set(counted.map(element => getElementRole(element) ?? 'element'));
+
+  const kind = kinds.size === 1 ? [...kinds][0] : 'element';
+  const text = `...${counted.length} more ${counted.length === 1 ? kind : pluralize(kind)}`;
+  return container ? `${text} in ${container.type}` : text;
+}
+
+/**
+ * Get the elements of the subtrees below some elements, including them
+ */
+function getSubtrees(rootIds: string[], elements: Record<string, UIElement>): UIElement[] {
+  const subtrees: UIElement[] = [];
+  const pending = [...rootIds];
+  const visited = new Set<string>();
+
+  while (pending.length > 0) {
+    const id = pending.pop() as string;
+    const element = elements[id];
+    if (!element || visited.has(id)) {
+      continue;
+    }
+    
+    visited.add(id);
+    subtrees.push(element);
+    pending.push(...(element.children ?? []));
+  }
+
+  return subtrees;
+}
+
+/**
+ * Get the IDs of the ancestors of an element that are part of the state
+ */
+function getAncestors(id: string, elements: Record<string, UIElement>): string[] {
+  const ancestors: string[] = [];
+  for (let parentId = elements[id]?.parent; parentId && elements[parentId]; parentId = elements[parentId].parent) {
+    if (ancestors.includes(parentId)) {
+      break;
+    }
+    ancestors.push(parentId);
+  }
+  return ancestors;
+}
+
+/**
+ * Get the ID of the parent of an element if it is part of the state
+ */
+function getParent(id: string, elements: Record<string, UIElement>): string | undefined {
+  const parentId = elements[id].parent;
+  return parentId && parentId !== id && elements[parentId] ? parentId : undefined;
+}
+
+/**
+ * Get the distances of the focused element and its ancestors from the focused
+ * element
+ */
+function getFocusDistances(state: UIState): Map<string, number> {
+  const distances = new Map<string, number>();
+  if (state.focus && state.elements[state.focus]) {
+    [state.focus, ...getAncestors(state.focus, state.elements)].forEach((id, distance) => distances.set(id, distance));
+  }
+  return distances;
+}
+
+/**
+ * Get the closeness of an element to the focused element, from 1 for the
+ * focused element down to 0 for elements in other trees
+ */
+function getFocusCloseness(id: string, state: UIState, focusDistances: Map<string, number>): number {
+  if (focusDistances.size === 0) {
+    return 0;
+  }
+
+  const path = [id, ...getAncestors(id, state.elements)];
+  const steps = path.findIndex(pathId => focusDistances.has(pathId));
+  return steps < 0 ? 0 : 1 / (1 + steps + (focusDistances.get(path[steps]) as number));
+}
+
+/**
+ * Get the closeness of an element to the viewport, 1 for elements in it and
+ * falling with the distance in viewport heights
+ */
+function getViewportCloseness(element: UIElement, state: UIState): number {
+  const { bounds } = element;
+  if (!bounds) {
+    return 0;
+  }
+
+  const { width, height } = state.viewport;
+  const dx = Math.max(0, bounds.x - width, -(bounds.x + bounds.width));
+  const dy = Math.max(0, bounds.y - height, -(bounds.y + bounds.height));
+  return 1 / (1 + Math.hypot(dx, dy) / Math.max(height, 1));
+}
+
+/**
+ * Get the share of the words of the goal found in the text describing an
+ * element
+ *
+ * The text of elements with children includes that of their children, so only
+ * the text of leaves counts.
+ */
+function getGoalRelevance(element: UIElement, state: UIState, goalWords: string[]): number {
+  if (goalWords.length === 0) {
+    return 0;
+  }
+
+  const hasChildren = (element.children ?? []).some(childId => state.elements[childId]);
+  const descriptions = [
+    element.name,
+    hasChildren ? undefined : element.text,
+    element.control?.label,
+    element.control?.placeholder,
+    ...DESCRIPTIVE_ATTRIBUTES.map(name => element.attributes?.[name])
+  ];
+  const text = descriptions.filter(description => typeof description === 'string').join(' ').toLowerCase();
+  if (!text) {
+    return 0;
+  }
+
+  return goalWords.filter(word => text.includes(word)).length / goalWords.length;
+}
+
+/**
+ * Get the distinct words of a text that can identify elements
+ */
+function getWords(text: string): string[] {
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u)
+    .filter(word => (word.length >= 3 || /^\p{N}+$/u.test(word)) && !STOP_WORDS.has(word));
+  return [...new Set(words)];
+}
+
+/**
+ * Get the plural of a role or element type
+ */
+function pluralize(kind: string): string {
+  if (/(s|x|ch|sh)$/.test(kind)) {
+    return `${kind}es`;
+  }
+  return /[^aeiou]y$/.test(kind) ? `${kind.slice(0, -1)}ies` : `${kind}s`;
+}
@@ -0,0 +1,184 @@
+/**
+ * Protocol message utilities for ModelEyes
+ *
+ * This module parses and creates the protocol messages exchanged between clients
+ * and servers over message-based transports such as WebSocket.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Message,
+  ClientToServerMessageType,
+  ServerToClientMessageType,
+  ErrorCode,
+  ErrorMessage,
+  ResponseMessage,
+  CancelMessage
+} from './types';
+import { ModelEyesError, toErrorPayload } from './errors';
+
+/**
+ * Message types sent from client to server
+ */
+export const CLIENT_TO_SERVER_MESSAGE_TYPES: ClientToServerMessageType[] = ['initialState', 'stateUpdate', 'event'];
+
+/**
+ * Message types sent from server to client
+ */
+export const SERVER_TO_CLIENT_MESSAGE_TYPES: ServerToClientMessageType[] = ['actionRequest', 'queryRequest', 'response', 'error', 'cancel'];
+
+/**
+ * Message types that must carry an ID, because they are answered or cancelled
+ * by reference to it
+ */
+const REQUEST_MESSAGE_TYPES: Message['type'][] = ['actionRequest', 'queryRequest'];
+
+/**
+ * Message types that must carry the ID of the request they refer to
+ */
+const CORRELATED_MESSAGE_TYPES: Message['type'][] = ['response', 'cancel'];
+
+/**
+ * Parses a protocol message
+ *
+ * @param data Serialized message
+ * @param allowedTypes Message types accepted from the sender
+ * @returns The parsed message
+ * @throws ModelEyesError with code `ParseError` if the data is not JSON, or
+ * `ValidationError` if it is not a message of an allowed type
+ */
+export function parseMessage(
+  data: string,
+  allowedTypes: Message['type'][] = [...CLIENT_TO_SERVER_MESSAGE_TYPES, ...SERVER_TO_CLIENT_MESSAGE_TYPES]
+): Message {
+  let message: any;
+  try {
+    message = JSON.parse(data);
+  } catch (error) {
+    throw new ModelEyesError('ParseError', 'Message is not valid JSON');
+  }
+
+  if (!message || typeof message !== 'object' || typeof message.type !== 'string') {
+    throw new ModelEyesError('ValidationError', 'Message has no type');
+  }
+
+  if (!allowedTypes.includes(message.type)) {
+    throw new ModelEyesError('ValidationError', `Unexpected message type ${message.type}`, { type: message.type });
+  }
+
+  if (!message.payload || typeof message.payload !== 'object') {
+    throw new ModelEyesError('ValidationError', `Message of type ${message.type} has no payload`, { type: message.type });
+  }
+
+  if (message.id !== undefined && typeof message.id !== 'string') {
+    throw new ModelEyesError('ValidationError', 'Message ID must be a string', { type: message.type });
+  }
+
+  if (message.correlationId !== undefined && typeof message.correlationId !== 'string') {
+    throw new ModelEyesError('ValidationError', 'Message correlation ID must be a string', { type: message.type });
+  }
+
+  if (message.timeout !== undefined && (typeof message.timeout !== 'number' || !(message.timeout > 0))) {
+    throw new ModelEyesError('ValidationError', 'Message timeout must be a positive number', { type: message.type });
+  }
+
+  if (REQUEST_MESSAGE_TYPES.includes(message.type) && !message.id) {
+    throw new ModelEyesError('ValidationError', `Message of type ${message.type} has no ID`, { type: message.type });
+  }
+
+  // Responses of earlier protocol revisions carry the request ID only in their payload
+  if (message.type === 'response' && !message.correlationId && typeof message.payload.requestId === 'string') {
+    message.correlationId = message.payload.requestId;
+  }
+
+  if (CORRELATED_MESSAGE_TYPES.includes(message.type) && !message.correlationId) {
+    throw new ModelEyesError('ValidationError', `Message of type ${message.type} has no correlation ID`, { type: message.type });
+  }
+
+  return message as Message;
+}
+
+/**
+ * Generates a unique message identifier
+ *
+ * @returns Message identifier
+ */
+export function createMessageId(): string {
+  return uuidv4();
+}
+
+/**
+ * Creates a response to a request
+ *
+ * @param requestId ID of the request being answered
+ * @param data Response data
+ * @returns Successful response message
+ */
+export function createResponse(requestId: string, data: any): ResponseMessage {
+  return {
+    type: 'response',
+    id: createMessageId(),
+    correlationId: requestId,
+    payload: {
+      requestId,
+      status: 'success',
+      data
+    }
+  };
+}
+
+/**
+ * Creates an error response to a request
+ *
+ * @param requestId ID of the request being answered
+ * @param error Error that occurred while handling the request
+ * @param fallbackCode Code used for errors that do not carry one
+ * @returns Error response message carrying the error payload as data
+ */
+export function createErrorResponse(
+  requestId: string,
+  error: unknown,
+  fallbackCode: ErrorCode = 'AccessError'
+): ResponseMessage {
+  return {
+    type: 'response',
+    id: createMessageId(),
+    correlationId: requestId,
+    payload: {
+      requestId,
+      status: 'error',
+      data: toErrorPayload(error, fallbackCode)
+    }
+  };
+}
+
+/**
+ * Creates an error message
+ *
+ * @param error Error to report
+ * @param fallbackCode Code used for errors that do not carry one
+ * @returns Error message
+ */
+export function createErrorMessage(error: unknown, fallbackCode: ErrorCode = 'AccessError'): ErrorMessage {
+  return {
+    type: 'error',
+    id: createMessageId(),
+    payload: toErrorPayload(error, fallbackCode)
+  };
+}
+
+/**
+ * Creates a message cancelling a request
+ *
+ * @param requestId ID of the request being cancelled
+ * @param reason Reason for cancelling
+ * @returns Cancel message
+ */
+export function createCancelMessage(requestId: string, reason?: string): CancelMessage {
+  return {
+    type: 'cancel',
+    id: createMessageId(),
+    correlationId: requestId,
+    payload: { reason }
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Query engine for ModelEyes
+ *
+ * This module answers the `elementState`, `elementSearch` and `elementPath`
+ * queries over a UI state. The base server, the HTTP server, the MCP tools and
+ * the WebSocket client transport all answer queries through it, so they share
+ * the same semantics.
+ */
+
+import {
+  UIState,
+  QueryType,
+  ElementSearchCriteria,
+  ElementQueryParameters,
+  ElementStateResult,
+  ElementSearchResult,
+  ElementPathResult,
+  QueryResult
+} from './types';
+import { ModelEyesError } from './errors';
+import { findElements, getElementRole, isElementHidden, toElementMatch } from './search';
+
+/**
+ * Query types answered by the query engine
+ */
+export const QUERY_TYPES: [QueryType, ...QueryType[]] = ['elementState', 'elementSearch', 'elementPath'];
+
+/**
+ * Gets the state of an element
+ *
+ * @param state UI state to query
+ * @param parameters Query parameters
+ * @returns The element with its role, focus, hover and visibility
+ * @throws ModelEyesError with code `ValidationError` if the element does not exist
+ */
+export function getElementState(state: UIState, parameters: ElementQueryParameters): ElementStateResult {
+  const elementId = requireElementId(state, parameters);
+  const element = state.elements[elementId];
+
+  return {
+    element,
+    role: getElementRole(element),
+    focused: state.focus === elementId,
+    hovered: state.hover === elementId,
+    hidden: isElementHidden(element),
+    version: state.version
+  };
+}
+
+/**
+ * Searches the elements of a UI state
+ *
+ * @param state UI state to query
+ * @param criteria Search criteria
+ * @returns Summaries of the matching elements
+ * @throws ModelEyesError with code `ValidationError` if the criteria are malformed
+ */
+export function searchElements(state: UIState, criteria: ElementSearchCriteria): ElementSearchResult {
+  validateSearchCriteria(criteria);
+
+  const elements = findElements(state, criteria);
+  return { elements, count: elements.length };
+}
+
+/**
+ * Gets the ancestor chain of an element through its `parent` links
+ *
+ * The chain ends at the first element without a parent, or whose parent is not
+ * part of the state.
+ *
+ * @param state UI state to query
+ * @param parameters Query parameters
+ * @returns The element and its ancestors, from the root element down
+ * @throws ModelEyesError with code `ValidationError` if the element does not exist
+ */
+export function getElementPath(state: UIState, parameters: ElementQueryParameters): ElementPathResult {
+  let elementId: string | undefined = requireElementId(state, parameters);
+  const path = [];
+  const visited = new Set<string>();
+
+  // Guard against parent cycles in malformed states
+  while (elementId && state.elements[elementId] && !visited.has(elementId)) {
+    visited.add(elementId);
+    path.push(toElementMatch(elementId, state.elements[elementId]));
+    elementId = state.elements[elementId].parent;
+  }
+
+  return { path: path.reverse() };
+}
+
+/**
+ * Answers a query over a UI state
+ *
+ * @param state UI state to query
+ * @param queryType Type of query
+ * @param parameters Query parameters
+ * @returns The query result
+ * @throws ModelEyesError with code `UnsupportedError` for unknown query types,
+ * or `ValidationError` for invalid parameters
+ */
+export function executeQuery(state: UIState, queryType: QueryType, parameters: any): QueryResult {
+  if (!parameters || typeof parameters !== 'object' || Array.isArray(parameters)) {
+    throw new ModelEyesError('ValidationError', 'Query parameters must be an object', { queryType });
+  }
+
+  switch (queryType) {
+    case 'elementState':
+      return getElementState(state, parameters);
+    
+    case 'elementSearch':
+      return searchElements(state, parameters);
+    
+    case 'elementPath':
+      return getElementPath(state, parameters);
+    
+    default:
+      throw new ModelEyesError('UnsupportedError', `Query type ${queryType} is not supported`, { queryType });
+  }
+}
+
+/**
+ * Gets the ID of the queried element, checking that it exists
+ *
+ * @param state UI state to query
+ * @param parameters Query parameters
+ * @returns The element ID
+ */
+function requireElementId(state: UIState, parameters: ElementQueryParameters): string {
+  const { elementId } = parameters ?? {};
+  if (typeof elementId !== 'string' || !elementId) {
+    throw new ModelEyesError('ValidationError', 'Query requires an elementId');
+  }
+
+  if (!state.elements[elementId]) {
+    throw new ModelEyesError('ValidationError', `Element with ID ${elementId} not found`, { elementId });
+  }
+
+  return elementId;
+}
+
+/**
+ * Checks the types of search criteria received from outside
+ *
+ * @param criteria Search criteria
+ */
+function validateSearchCriteria(criteria: ElementSearchCriteria): void {
+  const { selector, limit, attributes, bounds } = criteria;
+
+  if (selector !== undefined && typeof selector !== 'string') {
+    throw new ModelEyesError('ValidationError', 'Search selector must be a string');
+  }
+
+  if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+    throw new ModelEyesError('ValidationError', 'Search limit must be a positive integer', { limit });
+  }
+
+  if (attributes !== undefined) {
+    const valid = attributes !== null && typeof attributes === 'object' && !Array.isArray(attributes) &&
+      Object.values(attributes).every(value => typeof value === 'string' || typeof value === 'boolean');
+    if (!valid) {
+      throw new ModelEyesError('ValidationError', 'Search attributes must map names to strings or booleans');
+    }
+  }
+
+  if (bounds !== undefined) {
+    const valid = bounds !== null && typeof bounds === 'object' &&
+      ['x', 'y', 'width', 'height'].every(key => Number.isFinite((bounds as any)[key])) &&
+      (bounds.relation === undefined || ['intersects', 'within', 'contains'].includes(bounds.relation));
+    if (!valid) {
+      throw new ModelEyesError('ValidationError', 'Search bounds must have numeric x, y, width and height and a valid relation');
+    }
+  }
+}
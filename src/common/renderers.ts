@@ -0,0 +1,420 @@
+/**
+ * Text renderings of UI states for ModelEyes
+ *
+ * This module turns a UI state into the text that is sent to a model. Besides
+ * JSON, states can be rendered as an indented outline of the element tree, as
+ * Markdown, as YAML, or as a CSV-like table of the interactable elements. The
+ * text formats describe each element in one line by its ID, role, label,
+ * value and states, which takes far fewer tokens than the JSON objects.
+ * Summaries of the subtrees pruned by packing are shown as their text alone.
+ */
+
+import { UIState, UIElement, ContextFormat, StateRenderer } from './types';
+import { ModelEyesError } from './errors';
+import { getElementRole } from './search';
+import { SUMMARY_ELEMENT_TYPE } from './packing';
+
+/**
+ * Formats the UI state can be rendered in
+ */
+export const CONTEXT_FORMATS: [ContextFormat, ...ContextFormat[]] = ['json', 'outline', 'markdown', 'yaml', 'table'];
+
+/**
+ * Maximum length of the labels and values of elements
+ */
+const MAX_TEXT_LENGTH = 80;
+
+/**
+ * Roles that are interactive by themselves, so their elements need no
+ * `clickable` state
+ */
+const INTERACTIVE_ROLES = new Set([
+  'button',
+  'checkbox',
+  'combobox',
+  'link',
+  'listbox',
+  'menuitem',
+  'option',
+  'radio',
+  'searchbox',
+  'slider',
+  'spinbutton',
+  'switch',
+  'tab',
+  'textbox'
+]);
+
+/**
+ * Columns of the table format
+ */
+const TABLE_COLUMNS = ['id', 'role', 'label', 'value', 'states', 'x', 'y', 'width', 'height'];
+
+/**
+ * Words that YAML reads as booleans or null when they are not quoted
+ */
+const YAML_RESERVED = new Set(['true', 'false', 'yes', 'no', 'on', 'off', 'y', 'n', 'null', '~']);
+
+/**
+ * Built-in renderers of the formats
+ */
+const RENDERERS: Record<ContextFormat, StateRenderer> = {
+  json: renderJson,
+  outline: renderOutline,
+  markdown: renderMarkdown,
+  yaml: renderYaml,
+  table: renderTable
+};
+
+/**
+ * Element of the state at its depth in the element tree
+ */
+interface TreeNode {
+  id: string;
+  element: UIElement;
+  depth: number;
+}
+
+/**
+ * What the text formats show of an element
+ */
+interface ElementSummary {
+  /** ARIA role, or the element type if the element has no role */
+  role: string;
+
+  /** Accessible name, label or text */
+  label?: string;
+
+  /** Current value of a form control */
+  value?: string;
+
+  /** States such as `focused`, `checked` or `disabled` */
+  states: string[];
+}
+
+/**
+ * Checks whether a value is a context format
+ *
+ * @param value Value to check
+ * @returns Whether the value is one of the context formats
+ */
+export function isContextFormat(value: unknown): value is ContextFormat {
+  return typeof value === 'string' && (CONTEXT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Gets the built-in renderer of a format
+ *
+ * @param format Context format
+ * @returns Renderer of the format
+ * @throws ModelEyesError with code `UnsupportedError` for unknown formats
+ */
+export function getStateRenderer(format: ContextFormat): StateRenderer {
+  if (!isContextFormat(format)) {
+    throw new ModelEyesError('UnsupportedError', `Unsupported context format: ${format}`, { format });
+  }
+
+  return RENDERERS[format];
+}
+
+/**
+ * Renders a UI state as JSON
+ *
+ * @param state UI state
+ * @returns JSON text of the state
+ */
+export function renderJson(state: UIState): string {
+  return JSON.stringify(state);
+}
+
+/**
+ * Renders a UI state as an indented outline of the element tree
+ *
+ * Each element takes one line, such as `[save] button 'Save' (focused)`,
+ * indented by its depth in the tree.
+ *
+ * @param state UI state
+ * @returns Outline text of the state
+ */
+export function renderOutline(state: UIState): string {
+  const lines = [`Page: ${state.title}${state.url ? ` (${state.url})` : ''}`];
+
+  for (const node of walkElements(state)) {
+    if (node.element.type === SUMMARY_ELEMENT_TYPE) {
+      lines.push(`${'  '.repeat(node.depth)}${node.element.text}`);
+      continue;
+    }
+    
+    const { role, label, value, states } = summarizeElement(node, state);
+    let line = `${'  '.repeat(node.depth)}[${node.id}] ${role}`;
+    if (label !== undefined) {
+      line += ` ${quote(label)}`;
+    }
+    if (value !== undefined) {
+      line += ` = ${quote(value)}`;
+    }
+    if (states.length > 0) {
+      line += ` (${states.join(', ')})`;
+    }
+    lines.push(line);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders a UI state as Markdown: a heading with the page title followed by a
+ * nested list of the element tree
+ *
+ * @param state UI state
+ * @returns Markdown text of the state
+ */
+export function renderMarkdown(state: UIState): string {
+  const lines = [`# ${escapeMarkdown(state.title)}`];
+  if (state.url) {
+    lines.push('', `URL: <${state.url}>`);
+  }
+  lines.push('');
+
+  for (const node of walkElements(state)) {
+    if (node.element.type === SUMMARY_ELEMENT_TYPE) {
+      lines.push(`${'  '.repeat(node.depth)}- _${escapeMarkdown(node.element.text ?? '')}_`);
+      continue;
+    }
+    
+    const { role, label, value, states } = summarizeElement(node, state);
+    let line = `${'  '.repeat(node.depth)}- \`${node.id}\` ${role}`;
+    if (label !== undefined) {
+      line += ` "${escapeMarkdown(label)}"`;
+    }
+    if (value !== undefined) {
+      line += `: "${escapeMarkdown(value)}"`;
+    }
+    if (states.length > 0) {
+      line += ` _(${states.join(', ')})_`;
+    }
+    lines.push(line);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders a UI state as YAML, with the elements nested under their parents
+ *
+ * @param state UI state
+ * @returns YAML text of the state
+ */
+export function renderYaml(state: UIState): string {
+  const lines = [`title: ${yamlScalar(state.title)}`];
+  if (state.url) {
+    lines.push(`url: ${yamlScalar(state.url)}`);
+  }
+  if (state.focus) {
+    lines.push(`focus: ${yamlScalar(state.focus)}`);
+  }
+
+  const nodes = walkElements(state);
+  lines.push(nodes.length > 0 ? 'elements:' : 'elements: []');
+
+  nodes.forEach((node, index) => {
+    const indent = '  '.repeat(1 + node.depth * 2);
+    if (node.element.type === SUMMARY_ELEMENT_TYPE) {
+      // Summaries have no children, as they stand for pruned ones
+      lines.push(`${indent}- summary: ${yamlScalar(node.element.text ?? '')}`);
+      return;
+    }
+    
+    const { role, label, value, states } = summarizeElement(node, state);
+    lines.push(`${indent}- id: ${yamlScalar(node.id)}`);
+    lines.push(`${indent}  role: ${yamlScalar(role)}`);
+    if (label !== undefined) {
+      lines.push(`${indent}  label: ${yamlScalar(label)}`);
+    }
+    if (value !== undefined) {
+      lines.push(`${indent}  value: ${yamlScalar(value)}`);
+    }
+    if (states.length > 0) {
+      lines.push(`${indent}  states: [${states.join(', ')}]`);
+    }
+    
+    // Nodes are in tree order, so the children of a node follow it
+    const next = nodes[index + 1];
+    if (next && next.depth > node.depth) {
+      lines.push(`${indent}  children:`);
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders the interactable elements of a UI state as a CSV-like table with the
+ * ID, role, label, value, states and bounds of each element
+ *
+ * @param state UI state
+ * @returns Table text of the state
+ */
+export function renderTable(state: UIState): string {
+  const rows = [TABLE_COLUMNS.join(',')];
+
+  for (const node of walkElements(state)) {
+    if (!node.element.interactable) {
+      continue;
+    }
+    
+    const { role, label, value, states } = summarizeElement(node, state);
+    const { x, y, width, height } = node.element.bounds ?? { x: 0, y: 0, width: 0, height: 0 };
+    const cells = [node.id, role, label ?? '', value ?? '', states.join(' ')].map(csvCell);
+    rows.push([...cells, Math.round(x), Math.round(y), Math.round(width), Math.round(height)].join(','));
+  }
+
+  return rows.join('\n');
+}
+
+/**
+ * List the elements of a state in tree order, starting from the elements
+ * whose parent is not part of the state
+ */
+function walkElements(state: UIState): TreeNode[] {
+  const elements = state.elements ?? {};
+  const nodes: TreeNode[] = [];
+  const visited = new Set<string>();
+
+  const visit = (id: string, depth: number) => {
+    const element = elements[id];
+    if (!element || visited.has(id)) {
+      return;
+    }
+    
+    visited.add(id);
+    nodes.push({ id, element, depth });
+    for (const childId of element.children ?? []) {
+      visit(childId, depth + 1);
+    }
+  };
+
+  for (const [id, element] of Object.entries(elements)) {
+    if (!element.parent || !elements[element.parent]) {
+      visit(id, 0);
+    }
+  }
+
+  // Elements missing from the children of their parent are listed at the top
+  for (const id of Object.keys(elements)) {
+    visit(id, 0);
+  }
+
+  return nodes;
+}
+
+/**
+ * Get what the text formats show of an element
+ */
+function summarizeElement({ id, element }: TreeNode, state: UIState): ElementSummary {
+  const role = getElementRole(element) ?? element.type;
+  const control = element.control;
+
+  // The text of an element includes that of its children, which show it themselves
+  const hasTextChildren = (element.children ?? []).some(childId => !!state.elements[childId]?.text?.trim());
+  const label = clean(element.name ?? control?.label ?? (hasTextChildren ? undefined : element.text) ?? control?.placeholder);
+
+  let value: string | undefined;
+  if (control?.options) {
+    value = clean(control.options.filter(option => option.selected).map(option => option.text).join(', '));
+  } else if (control && control.checked === undefined) {
+    value = clean(control.value);
+  }
+
+  return { role, label, value, states: getStates(id, element, role, state) };
+}
+
+/**
+ * Get the states of an element that the text formats show
+ */
+function getStates(id: string, element: UIElement, role: string, state: UIState): string[] {
+  const states: string[] = [];
+  const elementStates = element.states ?? {};
+  const checked = element.control?.checked ?? elementStates.checked;
+
+  if (state.focus === id) {
+    states.push('focused');
+  }
+  if (checked === true) {
+    states.push('checked');
+  } else if (checked === 'mixed') {
+    states.push('mixed');
+  }
+  if (elementStates.selected) {
+    states.push('selected');
+  }
+  if (elementStates.expanded !== undefined) {
+    states.push(elementStates.expanded ? 'expanded' : 'collapsed');
+  }
+  if (elementStates.pressed === true) {
+    states.push('pressed');
+  }
+  if (elementStates.disabled || (element.attributes?.disabled !== undefined && element.attributes.disabled !== false)) {
+    states.push('disabled');
+  }
+  if (elementStates.readonly) {
+    states.push('readonly');
+  }
+  if (element.control?.required || elementStates.required) {
+    states.push('required');
+  }
+  if (element.control?.invalid) {
+    states.push('invalid');
+  }
+  if (element.visible === false) {
+    states.push('hidden');
+  }
+  if (element.interactable && !INTERACTIVE_ROLES.has(role)) {
+    states.push('clickable');
+  }
+
+  return states;
+}
+
+/**
+ * Collapse the whitespace of a text and shorten it to the maximum length
+ *
+ * @returns The text, or undefined if it is empty
+ */
+function clean(text: string | undefined): string | undefined {
+  const collapsed = text?.replace(/\s+/g, ' ').trim();
+  if (!collapsed) {
+    return undefined;
+  }
+
+  return collapsed.length > MAX_TEXT_LENGTH ? `${collapsed.slice(0, MAX_TEXT_LENGTH - 1)}…` : collapsed;
+}
+
+/**
+ * Quote a text with single quotes for the outline format
+ */
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Escape the characters of a text that Markdown would format
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>"]/g, '\\$&');
+}
+
+/**
+ * Write a text as a YAML scalar, quoting it where YAML would read it otherwise
+ */
+function yamlScalar(text: string): string {
+  const plain = /^[A-Za-z_][\w .\/()-]*$/.test(text) && !text.endsWith(' ') && !YAML_RESERVED.has(text.toLowerCase());
+  return plain ? text : JSON.stringify(text);
+}
+
+/**
+ * Write a text as a CSV cell, quoting it if it contains separators or quotes
+ */
+function csvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,261 @@
+/**
+ * Element search utilities for ModelEyes
+ *
+ * This module provides the element matching used by the HTTP and MCP servers,
+ * so both expose identical search semantics.
+ */
+
+import { UIState, UIElement, ElementSearchCriteria, ElementMatch, BoundsPredicate } from './types';
+import { querySelectorAll } from './selector';
+
+/**
+ * Roles implied by element types that have no explicit `role` attribute
+ */
+const IMPLICIT_ROLES: Record<string, string> = {
+  a: 'link',
+  article: 'article',
+  aside: 'complementary',
+  blockquote: 'blockquote',
+  button: 'button',
+  caption: 'caption',
+  code: 'code',
+  datalist: 'listbox',
+  dd: 'definition',
+  details: 'group',
+  dfn: 'term',
+  dialog: 'dialog',
+  dt: 'term',
+  fieldset: 'group',
+  figure: 'figure',
+  footer: 'contentinfo',
+  form: 'form',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  header: 'banner',
+  hr: 'separator',
+  img: 'img',
+  li: 'listitem',
+  main: 'main',
+  menu: 'list',
+  meter: 'meter',
+  nav: 'navigation',
+  ol: 'list',
+  optgroup: 'group',
+  option: 'option',
+  output: 'status',
+  p: 'paragraph',
+  progress: 'progressbar',
+  search: 'search',
+  section: 'region',
+  select: 'combobox',
+  table: 'table',
+  tbody: 'rowgroup',
+  td: 'cell',
+  textarea: 'textbox',
+  tfoot: 'rowgroup',
+  th: 'columnheader',
+  thead: 'rowgroup',
+  tr: 'row',
+  ul: 'list'
+};
+
+/**
+ * Roles implied by the `type` attribute of input elements
+ */
+const INPUT_ROLES: Record<string, string> = {
+  button: 'button',
+  checkbox: 'checkbox',
+  email: 'textbox',
+  image: 'button',
+  number: 'spinbutton',
+  radio: 'radio',
+  range: 'slider',
+  reset: 'button',
+  search: 'searchbox',
+  submit: 'button',
+  tel: 'textbox',
+  text: 'textbox',
+  url: 'textbox'
+};
+
+/**
+ * Gets the ARIA role of an element
+ *
+ * @param element The UI element
+ * @returns The role computed during an accessibility capture, the explicit
+ * `role` attribute, the role implied by the element type, or undefined if the
+ * element has none of them
+ */
+export function getElementRole(element: Pick<UIElement, 'type' | 'attributes' | 'role'>): string | undefined {
+  if (element.role) {
+    return element.role;
+  }
+
+  const explicitRole = element.attributes?.role;
+  if (typeof explicitRole === 'string' && explicitRole.trim()) {
+    // The first token is the role, the rest are fallbacks
+    return explicitRole.trim().split(/\s+/)[0];
+  }
+
+  const type = element.type.toLowerCase();
+  if (type === 'input') {
+    const inputType = String(element.attributes?.type ?? 'text').toLowerCase();
+    return INPUT_ROLES[inputType];
+  }
+
+  if (type === 'a' && element.attributes?.href === undefined) {
+    return undefined;
+  }
+
+  return IMPLICIT_ROLES[type];
+}
+
+/**
+ * Checks if element bounds relate to a region as the predicate requires
+ *
+ * @param bounds Element bounds
+ * @param predicate Region and relation to check
+ * @returns Whether the bounds match
+ */
+export function matchesBounds(bounds: UIElement['bounds'], predicate: BoundsPredicate): boolean {
+  const right = bounds.x + bounds.width;
+  const bottom = bounds.y + bounds.height;
+  const regionRight = predicate.x + predicate.width;
+  const regionBottom = predicate.y + predicate.height;
+
+  switch (predicate.relation ?? 'intersects') {
+    case 'within':
+      return bounds.x >= predicate.x && bounds.y >= predicate.y &&
+             right <= regionRight && bottom <= regionBottom;
+
+    case 'contains':
+      return bounds.x <= predicate.x && bounds.y <= predicate.y &&
+             right >= regionRight && bottom >= regionBottom;
+
+    default:
+      return bounds.x < regionRight && predicate.x < right &&
+             bounds.y < regionBottom && predicate.y < bottom;
+  }
+}
+
+/**
+ * Checks if an element is hidden through its style or attributes
+ *
+ * @param element The UI element to check
+ * @returns Whether the element is hidden
+ */
+export function isElementHidden(element: UIElement): boolean {
+  if (!element.attributes) {
+    return false;
+  }
+
+  // Check style attribute for display: none or visibility: hidden
+  const style = element.attributes.style;
+  if (typeof style === 'string' &&
+      (style.includes('display: none') || style.includes('visibility: hidden'))) {
+    return true;
+  }
+
+  // Check hidden attributes
+  return element.attributes.hidden === 'true' ||
+         element.attributes.hidden === '' ||
+         element.attributes['aria-hidden'] === 'true';
+}
+
+/**
+ * Checks if an element matches the given search criteria
+ *
+ * The `selector` criterion depends on the rest of the state and is applied by
+ * `findElements`.
+ *
+ * @param element The UI element to check
+ * @param criteria Search criteria
+ * @returns Whether the element matches
+ */
+export function matchesCriteria(element: UIElement, criteria: ElementSearchCriteria): boolean {
+  const { type, text, role, attributes, bounds, interactable, visible } = criteria;
+
+  // Match type if specified
+  if (type && element.type !== type) {
+    return false;
+  }
+
+  // Match text if specified
+  if (text && (!element.text || !element.text.includes(text))) {
+    return false;
+  }
+
+  // Match role if specified
+  if (role && getElementRole(element) !== role) {
+    return false;
+  }
+
+  // Match attributes if specified
+  if (attributes) {
+    for (const [name, expected] of Object.entries(attributes)) {
+      const value = element.attributes?.[name];
+      const present = value !== undefined && value !== null;
+
+      if (typeof expected === 'boolean' ? present !== expected : !present || String(value) !== expected) {
+        return false;
+      }
+    }
+  }
+
+  // Match bounds if specified
+  if (bounds && !matchesBounds(element.bounds, bounds)) {
+    return false;
+  }
+
+  // Match interactable if specified
+  if (interactable !== undefined && element.interactable !== interactable) {
+    return false;
+  }
+
+  // Match visibility if specified
+  if (visible === true && isElementHidden(element)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Finds elements in a UI state matching the given criteria
+ *
+ * @param state UI state to search
+ * @param criteria Search criteria
+ * @returns Summaries of the matching elements, limited to `criteria.limit` (default 10)
+ */
+export function findElements(state: UIState, criteria: ElementSearchCriteria): ElementMatch[] {
+  const limit = criteria.limit ?? 10;
+  const selected = criteria.selector !== undefined ? new Set(querySelectorAll(state, criteria.selector)) : null;
+
+  return Object.entries(state.elements)
+    .filter(([id, element]) => (!selected || selected.has(id)) && matchesCriteria(element, criteria))
+    .slice(0, limit)
+    .map(([id, element]) => toElementMatch(id, element));
+}
+
+/**
+ * Summarizes an element for search and query results
+ *
+ * @param id ID of the element
+ * @param element The UI element
+ * @returns Summary of the element
+ */
+export function toElementMatch(id: string, element: UIElement): ElementMatch {
+  return {
+    id,
+    type: element.type,
+    text: element.text,
+    interactable: element.interactable,
+    role: getElementRole(element),
+    name: element.name,
+    bounds: element.bounds
+  };
+}
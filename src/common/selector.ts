@@ -0,0 +1,754 @@
+/**
+ * Element selectors for ModelEyes
+ *
+ * This module evaluates a CSS-like selector language against the elements of a
+ * UI state and their parent/children graph, so that elements can be located
+ * without knowing their generated IDs. Besides type, `#id`, `.class` and
+ * attribute selectors with descendant and child combinators, it supports
+ * `:text()`, `:has()`, `:not()`, the `-of-type` structural pseudo-classes and
+ * the spatial pseudo-classes `:near()`, `:left-of()`, `:right-of()`, `:above()`
+ * and `:below()`, which compare element bounds.
+ */
+
+import { UIState, UIElement } from './types';
+import { ModelEyesError } from './errors';
+
+/**
+ * Combinator between two compound selectors
+ */
+export type SelectorCombinator = 'descendant' | 'child';
+
+/**
+ * Spatial relation between an element and the elements of an inner selector
+ */
+export type SpatialRelation = 'near' | 'left-of' | 'right-of' | 'above' | 'below';
+
+/**
+ * Condition of a compound selector
+ */
+export type SelectorCondition =
+  | { kind: 'id'; value: string }
+  | { kind: 'class'; value: string }
+  | { kind: 'attribute'; name: string; operator?: '=' | '~=' | '^=' | '$=' | '*=' | '|='; value?: string }
+  | { kind: 'text'; value: string }
+  | { kind: 'has'; selector: SelectorList }
+  | { kind: 'not'; selector: SelectorList }
+  | { kind: 'nthOfType'; a: number; b: number; fromEnd: boolean }
+  | { kind: 'spatial'; relation: SpatialRelation; selector: SelectorList; distance?: number };
+
+/**
+ * Element type and conditions that must all hold for one element
+ */
+export interface CompoundSelector {
+  /** Element type to match case-insensitively (any type if omitted) */
+  type?: string;
+
+  /** Conditions the element must satisfy */
+  conditions: SelectorCondition[];
+}
+
+/**
+ * Chain of compound selectors joined by combinators
+ */
+export interface ComplexSelector {
+  /** Compound selectors from the outermost to the matched element */
+  compounds: CompoundSelector[];
+
+  /** Combinators between consecutive compound selectors */
+  combinators: SelectorCombinator[];
+}
+
+/**
+ * Comma-separated list of selectors, matching elements that match any of them
+ */
+export type SelectorList = ComplexSelector[];
+
+/**
+ * Default maximum distance in pixels for `:near()`
+ */
+const DEFAULT_NEAR_DISTANCE = 50;
+
+/**
+ * Pseudo-classes taking a selector list argument, with the spatial relation they test
+ */
+const SPATIAL_PSEUDO_CLASSES: Record<string, SpatialRelation> = {
+  'near': 'near',
+  'left-of': 'left-of',
+  'right-of': 'right-of',
+  'above': 'above',
+  'below': 'below'
+};
+
+/**
+ * Recursive-descent parser for selectors
+ */
+class SelectorParser {
+  private input: string;
+  private pos = 0;
+
+  /**
+   * Create a parser for a selector
+   *
+   * @param input Selector to parse
+   */
+  constructor(input: string) {
+    this.input = input;
+  }
+
+  /**
+   * Parse the whole input as a selector list
+   */
+  parse(): SelectorList {
+    const { list } = this.parseSelectorList(false);
+    this.skipWhitespace();
+    if (this.pos < this.input.length) {
+      this.fail(`Unexpected "${this.input[this.pos]}"`);
+    }
+    return list;
+  }
+
+  /**
+   * Parse comma-separated selectors, up to the end of the input or a closing parenthesis
+   *
+   * @param allowDistance Whether a trailing `, <number>` is a distance argument
+   * @returns The selectors, and the distance if one was given
+   */
+  private parseSelectorList(allowDistance: boolean): { list: SelectorList; distance?: number } {
+    const list: SelectorList = [this.parseComplexSelector()];
+    
+    while (this.skipWhitespace(), this.peek() === ',') {
+      this.pos++;
+      this.skipWhitespace();
+      
+      const distance = allowDistance ? /^(\d+(?:\.\d+)?)\s*(?=\))/.exec(this.input.slice(this.pos)) : null;
+      if (distance) {
+        this.pos += distance[0].length;
+        return { list, distance: parseFloat(distance[1]) };
+      }
+      
+      list.push(this.parseComplexSelector());
+    }
+    
+    return { list };
+  }
+
+  /**
+   * Parse compound selectors joined by combinators
+   */
+  private parseComplexSelector(): ComplexSelector {
+    this.skipWhitespace();
+    const selector: ComplexSelector = { compounds: [this.parseCompoundSelector()], combinators: [] };
+    
+    for (;;) {
+      const hadWhitespace = this.skipWhitespace();
+      const next = this.peek();
+      
+      if (next === '>') {
+        this.pos++;
+        this.skipWhitespace();
+        selector.combinators.push('child');
+      } else if (hadWhitespace && next !== undefined && next !== ',' && next !== ')') {
+        selector.combinators.push('descendant');
+      } else {
+        return selector;
+      }
+      
+      selector.compounds.push(this.parseCompoundSelector());
+    }
+  }
+
+  /**
+   * Parse an element type followed by `#id`, `.class`, `[attribute]` and pseudo-class conditions
+   */
+  private parseCompoundSelector(): CompoundSelector {
+    const compound: CompoundSelector = { conditions: [] };
+    const start = this.pos;
+    
+    if (this.peek() === '*') {
+      this.pos++;
+    } else if (this.isIdentifierStart()) {
+      compound.type = this.parseIdentifier();
+    }
+    
+    for (;;) {
+      const next = this.peek();
+      if (next === '#') {
+        this.pos++;
+        compound.conditions.push({ kind: 'id', value: this.parseIdentifier() });
+      } else if (next === '.') {
+        this.pos++;
+        compound.conditions.push({ kind: 'class', value: this.parseIdentifier() });
+      } else if (next === '[') {
+        compound.conditions.push(this.parseAttribute());
+      } else if (next === ':') {
+        compound.conditions.push(this.parsePseudoClass());
+      } else {
+        break;
+      }
+    }
+    
+    if (this.pos === start) {
+      this.fail(this.pos < this.input.length ? `Unexpected "${this.input[this.pos]}"` : 'Expected a selector');
+    }
+    
+    return compound;
+  }
+
+  /**
+   * Parse an attribute condition such as `[name]` or `[name^="value"]`
+   */
+  private parseAttribute(): SelectorCondition {
+    this.expect('[');
+    this.skipWhitespace();
+    const name = this.parseIdentifier();
+    this.skipWhitespace();
+    
+    const operator = /^[~^$*|]?=/.exec(this.input.slice(this.pos));
+    if (!operator) {
+      this.expect(']');
+      return { kind: 'attribute', name };
+    }
+    
+    this.pos += operator[0].length;
+    this.skipWhitespace();
+    const value = this.peek() === '"' || this.peek() === "'" ? this.parseString() : this.parseIdentifier();
+    this.skipWhitespace();
+    this.expect(']');
+    
+    return { kind: 'attribute', name, operator: operator[0] as '=', value };
+  }
+
+  /**
+   * Parse a pseudo-class condition
+   */
+  private parsePseudoClass(): SelectorCondition {
+    this.expect(':');
+    const name = this.parseIdentifier().toLowerCase();
+    
+    switch (name) {
+      case 'first-of-type':
+        return { kind: 'nthOfType', a: 0, b: 1, fromEnd: false };
+      
+      case 'last-of-type':
+        return { kind: 'nthOfType', a: 0, b: 1, fromEnd: true };
+      
+      case 'text': {
+        this.expect('(');
+        this.skipWhitespace();
+        const value = this.peek() === '"' || this.peek() === "'" ? this.parseString() : this.readUntilClose().trim();
+        this.skipWhitespace();
+        this.expect(')');
+        return { kind: 'text', value };
+      }
+      
+      case 'nth-of-type':
+      case 'nth-last-of-type': {
+        this.expect('(');
+        const { a, b } = this.parseNth(this.readUntilClose());
+        this.expect(')');
+        return { kind: 'nthOfType', a, b, fromEnd: name === 'nth-last-of-type' };
+      }
+      
+      case 'has':
+      case 'not': {
+        this.expect('(');
+        const { list } = this.parseSelectorList(false);
+        this.skipWhitespace();
+        this.expect(')');
+        return { kind: name, selector: list };
+      }
+      
+      default: {
+        const relation = SPATIAL_PSEUDO_CLASSES[name];
+        if (!relation) {
+          this.fail(`Unknown pseudo-class :${name}`);
+        }
+        
+        this.expect('(');
+        const { list, distance } = this.parseSelectorList(true);
+        this.skipWhitespace();
+        this.expect(')');
+        return { kind: 'spatial', relation, selector: list, distance };
+      }
+    }
+  }
+
+  /**
+   * Parse an `an+b` expression, `odd` or `even`
+   */
+  private parseNth(expression: string): { a: number; b: number } {
+    const value = expression.replace(/\s+/g, '').toLowerCase();
+    
+    if (value === 'odd') {
+      return { a: 2, b: 1 };
+    }
+    if (value === 'even') {
+      return { a: 2, b: 0 };
+    }
+    if (/^[+-]?\d+$/.test(value)) {
+      return { a: 0, b: parseInt(value, 10) };
+    }
+    
+    const match = /^([+-]?\d*)n([+-]\d+)?$/.exec(value);
+    if (!match) {
+      this.fail(`Invalid nth expression "${expression.trim()}"`);
+    }
+    
+    const a = match[1] === '' || match[1] === '+' ? 1 : match[1] === '-' ? -1 : parseInt(match[1], 10);
+    return { a, b: match[2] ? parseInt(match[2], 10) : 0 };
+  }
+
+  /**
+   * Parse an identifier, allowing backslash escapes
+   */
+  private parseIdentifier(): string {
+    let identifier = '';
+    
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos];
+      if (char === '\\' && this.pos + 1 < this.input.length) {
+        identifier += this.input[this.pos + 1];
+        this.pos += 2;
+      } else if (/[\w-]/.test(char)) {
+        identifier += char;
+        this.pos++;
+      } else {
+        break;
+      }
+    }
+    
+    if (!identifier) {
+      this.fail('Expected an identifier');
+    }
+    
+    return identifier;
+  }
+
+  /**
+   * Parse a single- or double-quoted string
+   */
+  private parseString(): string {
+    const quote = this.input[this.pos++];
+    let value = '';
+    
+    while (this.pos < this.input.length && this.input[this.pos] !== quote) {
+      if (this.input[this.pos] === '\\' && this.pos + 1 < this.input.length) {
+        this.pos++;
+      }
+      value += this.input[this.pos++];
+    }
+    
+    this.expect(quote);
+    return value;
+  }
+
+  /**
+   * Read the raw text up to the next closing parenthesis
+   */
+  private readUntilClose(): string {
+    const end = this.input.indexOf(')', this.pos);
+    if (end < 0) {
+      this.fail('Expected ")"');
+    }
+    
+    const text = this.input.slice(this.pos, end);
+    this.pos = end;
+    return text;
+  }
+
+  /**
+   * Check whether an identifier starts at the current position
+   */
+  private isIdentifierStart(): boolean {
+    const char = this.peek();
+    return char !== undefined && (/[\w-]/.test(char) || char === '\\');
+  }
+
+  /**
+   * Skip whitespace, returning whether there was any
+   */
+  private skipWhitespace(): boolean {
+    const start = this.pos;
+    while (this.pos < this.input.length && /\s/.test(this.input[this.pos])) {
+      this.pos++;
+    }
+    return this.pos > start;
+  }
+
+  /**
+   * Get the character at the current position
+   */
+  private peek(): string | undefined {
+    return this.input[this.pos];
+  }
+
+  /**
+   * Consume a character that must be at the current position
+   */
+  private expect(char: string): void {
+    if (this.input[this.pos] !== char) {
+      this.fail(`Expected "${char}"`);
+    }
+    this.pos++;
+  }
+
+  /**
+   * Report a syntax error at the current position
+   */
+  private fail(message: string): never {
+    throw new ModelEyesError('ValidationError', `Invalid selector "${this.input}": ${message} at position ${this.pos}`, {
+      selector: this.input,
+      position: this.pos
+    });
+  }
+}
+
+/**
+ * Evaluates selectors against one UI state, caching intermediate results
+ */
+class SelectorEvaluator {
+  private state: UIState;
+  private ids: string[];
+  private parents: Map<string, string> = new Map();
+  private childIds: Map<string | undefined, string[]> = new Map();
+  private listMatches: Map<SelectorList, Set<string>> = new Map();
+  private complexMatches: Map<ComplexSelector, Map<string, boolean>> = new Map();
+
+  /**
+   * Create an evaluator for a UI state
+   *
+   * @param state UI state to evaluate selectors against
+   */
+  constructor(state: UIState) {
+    this.state = state;
+    this.ids = Object.keys(state.elements);
+    this.indexChildren();
+  }
+
+  /**
+   * Get the IDs of the elements matching a selector list, in state order
+   */
+  select(list: SelectorList): Set<string> {
+    let matches = this.listMatches.get(list);
+    if (!matches) {
+      matches = new Set(this.ids.filter(id => list.some(complex => this.matchesComplex(id, complex, complex.compounds.length - 1))));
+      this.listMatches.set(list, matches);
+    }
+    return matches;
+  }
+
+  /**
+   * Index the parent and children of every element
+   *
+   * Parents come from `parent` links, or from `children` lists for elements
+   * without one. Children keep the order of the `children` list where present
+   * and the state order otherwise; root elements are indexed under `undefined`.
+   */
+  private indexChildren(): void {
+    const { elements } = this.state;
+    
+    for (const id of this.ids) {
+      const parent = elements[id].parent;
+      if (parent && parent !== id && elements[parent]) {
+        this.parents.set(id, parent);
+      }
+    }
+    
+    for (const id of this.ids) {
+      for (const childId of elements[id].children ?? []) {
+        if (childId !== id && elements[childId] && !this.parents.has(childId)) {
+          this.parents.set(childId, id);
+        }
+      }
+    }
+    
+    for (const id of this.ids) {
+      const parent = this.parents.get(id);
+      if (parent !== undefined && elements[parent].children?.includes(id)) {
+        continue;
+      }
+      
+      const siblings = this.childIds.get(parent) ?? [];
+      siblings.push(id);
+      this.childIds.set(parent, siblings);
+    }
+    
+    for (const id of this.ids) {
+      const listed = (elements[id].children ?? []).filter(childId => this.parents.get(childId) === id);
+      if (listed.length > 0) {
+        this.childIds.set(id, [...listed, ...(this.childIds.get(id) ?? [])]);
+      }
+    }
+  }
+
+  /**
+   * Get the ID of the parent of an element
+   */
+  private getParent(id: string): string | undefined {
+    return this.parents.get(id);
+  }
+
+  /**
+   * Check whether an element matches a complex selector up to one of its compounds
+   */
+  private matchesComplex(id: string, complex: ComplexSelector, index: number): boolean {
+    let cache = this.complexMatches.get(complex);
+    if (!cache) {
+      cache = new Map();
+      this.complexMatches.set(complex, cache);
+    }
+    
+    const key = `${index}:${id}`;
+    const cached = cache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    
+    let result = this.matchesCompound(id, complex.compounds[index]);
+    if (result && index > 0) {
+      if (complex.combinators[index - 1] === 'child') {
+        const parent = this.getParent(id);
+        result = parent !== undefined && this.matchesComplex(parent, complex, index - 1);
+      } else {
+        result = false;
+        const visited = new Set<string>([id]);
+        for (let ancestor = this.getParent(id); ancestor && !visited.has(ancestor); ancestor = this.getParent(ancestor)) {
+          visited.add(ancestor);
+          if (this.matchesComplex(ancestor, complex, index - 1)) {
+            result = true;
+            break;
+          }
+        }
+      }
+    }
+    
+    cache.set(key, result);
+    return result;
+  }
+
+  /**
+   * Check whether an element matches a compound selector
+   */
+  private matchesCompound(id: string, compound: CompoundSelector): boolean {
+    const element = this.state.elements[id];
+    if (compound.type && element.type.toLowerCase() !== compound.type.toLowerCase()) {
+      return false;
+    }
+    return compound.conditions.every(condition => this.matchesCondition(id, element, condition));
+  }
+
+  /**
+   * Check whether an element satisfies a condition of a compound selector
+   */
+  private matchesCondition(id: string, element: UIElement, condition: SelectorCondition): boolean {
+    switch (condition.kind) {
+      case 'id':
+        return element.attributes?.id === condition.value;
+      
+      case 'class': {
+        const classes = String(element.attributes?.class ?? element.attributes?.className ?? '').split(/\s+/);
+        return classes.includes(condition.value);
+      }
+      
+      case 'attribute':
+        return matchesAttribute(element.attributes?.[condition.name], condition.operator, condition.value);
+      
+      case 'text':
+        return normalizeText(element.text ?? '').includes(normalizeText(condition.value));
+      
+      case 'has':
+        return this.getAncestorsOf(condition.selector).has(id);
+      
+      case 'not':
+        return !this.select(condition.selector).has(id);
+      
+      case 'nthOfType':
+        return this.matchesNthOfType(id, element, condition.a, condition.b, condition.fromEnd);
+      
+      case 'spatial': {
+        for (const anchorId of this.select(condition.selector)) {
+          if (anchorId !== id && matchesSpatial(element.bounds, this.state.elements[anchorId].bounds, condition.relation, condition.distance)) {
+            return true;
+          }
+        }
+        return false;
+      }
+    }
+  }
+
+  /**
+   * Get the IDs of all elements that have a descendant matching a selector list
+   */
+  private getAncestorsOf(list: SelectorList): Set<string> {
+    const ancestors = new Set<string>();
+    
+    for (const id of this.select(list)) {
+      for (let ancestor = this.getParent(id); ancestor && !ancestors.has(ancestor); ancestor = this.getParent(ancestor)) {
+        ancestors.add(ancestor);
+      }
+    }
+    
+    return ancestors;
+  }
+
+  /**
+   * Check whether an element is at an `an+b` position among its siblings of the same type
+   */
+  private matchesNthOfType(id: string, element: UIElement, a: number, b: number, fromEnd: boolean): boolean {
+    const type = element.type.toLowerCase();
+    const siblings = (this.childIds.get(this.getParent(id)) ?? [])
+      .filter(siblingId => this.state.elements[siblingId]?.type.toLowerCase() === type);
+    
+    const index = fromEnd ? siblings.length - siblings.indexOf(id) : siblings.indexOf(id) + 1;
+    if (a === 0) {
+      return index === b;
+    }
+    
+    const n = (index - b) / a;
+    return Number.isInteger(n) && n >= 0;
+  }
+}
+
+/**
+ * Check an attribute value against an attribute condition
+ */
+function matchesAttribute(value: any, operator?: string, expected?: string): boolean {
+  if (value === undefined || value === null) {
+    return false;
+  }
+  if (!operator || expected === undefined) {
+    return true;
+  }
+
+  const actual = String(value);
+  switch (operator) {
+    case '=':
+      return actual === expected;
+    case '~=':
+      return actual.split(/\s+/).includes(expected);
+    case '^=':
+      return expected !== '' && actual.startsWith(expected);
+    case '$=':
+      return expected !== '' && actual.endsWith(expected);
+    case '*=':
+      return expected !== '' && actual.includes(expected);
+    case '|=':
+      return actual === expected || actual.startsWith(`${expected}-`);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check the spatial relation between the bounds of an element and an anchor
+ *
+ * `left-of` and `right-of` require the boxes to share a row, `above` and
+ * `below` to share a column. The distance limits the gap between the boxes.
+ */
+function matchesSpatial(
+  bounds: UIElement['bounds'],
+  anchor: UIElement['bounds'],
+  relation: SpatialRelation,
+  distance?: number
+): boolean {
+  const right = bounds.x + bounds.width;
+  const bottom = bounds.y + bounds.height;
+  const anchorRight = anchor.x + anchor.width;
+  const anchorBottom = anchor.y + anchor.height;
+  const overlapsVertically = bounds.y < anchorBottom && anchor.y < bottom;
+  const overlapsHorizontally = bounds.x < anchorRight && anchor.x < right;
+
+  let gap: number;
+  switch (relation) {
+    case 'left-of':
+      if (right > anchor.x || !overlapsVertically) {
+        return false;
+      }
+      gap = anchor.x - right;
+      break;
+    case 'right-of':
+      if (bounds.x < anchorRight || !overlapsVertically) {
+        return false;
+      }
+      gap = bounds.x - anchorRight;
+      break;
+    case 'above':
+      if (bottom > anchor.y || !overlapsHorizontally) {
+        return false;
+      }
+      gap = anchor.y - bottom;
+      break;
+    case 'below':
+      if (bounds.y < anchorBottom || !overlapsHorizontally) {
+        return false;
+      }
+      gap = bounds.y - anchorBottom;
+      break;
+    default: {
+      const dx = Math.max(0, anchor.x - right, bounds.x - anchorRight);
+      const dy = Math.max(0, anchor.y - bottom, bounds.y - anchorBottom);
+      return Math.hypot(dx, dy) <= (distance ?? DEFAULT_NEAR_DISTANCE);
+    }
+  }
+
+  return distance === undefined || gap <= distance;
+}
+
+/**
+ * Normalize text for `:text()` matching: case-insensitive, with collapsed whitespace
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Parses a selector
+ *
+ * @param selector Selector to parse
+ * @returns The parsed selector list
+ * @throws ModelEyesError with code `ValidationError` if the selector is malformed
+ */
+export function parseSelector(selector: string): SelectorList {
+  if (typeof selector !== 'string' || !selector.trim()) {
+    throw new ModelEyesError('ValidationError', 'Selector must be a non-empty string', { selector });
+  }
+
+  return new SelectorParser(selector).parse();
+}
+
+/**
+ * Finds all elements of a UI state matching a selector
+ *
+ * @param state UI state to search
+ * @param selector Selector to evaluate
+ * @returns IDs of the matching elements, in the order of `state.elements`
+ * @throws ModelEyesError with code `ValidationError` if the selector is malformed
+ */
+export function querySelectorAll(state: UIState, selector: string): string[] {
+  return Array.from(new SelectorEvaluator(state).select(parseSelector(selector)));
+}
+
+/**
+ * Finds the first element of a UI state matching a selector
+ *
+ * @param state UI state to search
+ * @param selector Selector to evaluate
+ * @returns ID of the first matching element, or null if none matches
+ * @throws ModelEyesError with code `ValidationError` if the selector is malformed
+ */
+export function querySelector(state: UIState, selector: string): string | null {
+  return querySelectorAll(state, selector)[0] ?? null;
+}
+
+/**
+ * Checks if an element of a UI state matches a selector
+ *
+ * @param state UI state the element belongs to
+ * @param elementId ID of the element
+ * @param selector Selector to evaluate
+ * @returns Whether the element matches
+ * @throws ModelEyesError with code `ValidationError` if the selector is malformed
+ */
+export function matchesSelector(state: UIState, elementId: string, selector: string): boolean {
+  return querySelectorAll(state, selector).includes(elementId);
+}
@@ -0,0 +1,242 @@
+/**
+ * Byte pair encoding tokenizer for ModelEyes
+ *
+ * This module counts tokens the way OpenAI models read them. Text is split
+ * into pieces by the pattern of the encoding, each piece is encoded as UTF-8,
+ * and the bytes are merged pairwise in the order of the ranks of the
+ * vocabulary, as tiktoken does. Vocabularies use the `.tiktoken` format: one
+ * base64-encoded token and its rank per line. Special tokens such as
+ * `<|endoftext|>` are encoded as ordinary text.
+ */
+
+import { BpeEncoding, Tokenizer } from './types';
+import { ModelEyesError } from './errors';
+
+/**
+ * Optional English contraction of the o200k_base pattern
+ */
+const CONTRACTION = "(?:'[sS]|'[tT]|'[rR][eE]|'[vV][eE]|'[mM]|'[lL][lL]|'[dD])?";
+
+/**
+ * Patterns splitting text into the pieces that are encoded separately
+ */
+const PATTERNS: Record<BpeEncoding, RegExp> = {
+  cl100k_base: new RegExp(
+    "'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}|" +
+    ' ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+',
+    'gu'
+  ),
+  o200k_base: new RegExp(
+    `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+${CONTRACTION}|` +
+    `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*${CONTRACTION}|` +
+    '\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+',
+    'gu'
+  )
+};
+
+/**
+ * Model name prefixes and their encodings, most specific first
+ */
+const MODEL_ENCODINGS: [string, BpeEncoding][] = [
+  ['gpt-4o', 'o200k_base'],
+  ['gpt-4.1', 'o200k_base'],
+  ['gpt-4.5', 'o200k_base'],
+  ['gpt-5', 'o200k_base'],
+  ['o1', 'o200k_base'],
+  ['o3', 'o200k_base'],
+  ['o4', 'o200k_base'],
+  ['gpt-4', 'cl100k_base'],
+  ['gpt-3.5', 'cl100k_base'],
+  ['text-embedding-', 'cl100k_base']
+];
+
+/**
+ * Maximum number of encoded pieces a tokenizer remembers
+ */
+const MAX_CACHED_PIECES = 10000;
+
+/**
+ * Byte pair encoding tokenizer with a tiktoken vocabulary
+ */
+export class BpeTokenizer implements Tokenizer {
+  /** Name of the encoding */
+  readonly name: string;
+
+  /** Ranks of the tokens, keyed by their bytes as a binary string */
+  private ranks: Map<string, number>;
+
+  /** Pattern splitting text into pieces */
+  private pattern: RegExp;
+
+  /** Token IDs of recently encoded pieces */
+  private cache = new Map<string, number[]>();
+
+  /**
+   * Create a new tokenizer
+   *
+   * @param name Name of the encoding
+   * @param ranks Ranks of the tokens, keyed by their bytes as a binary string
+   * @param pattern Pattern splitting text into pieces, with the global and
+   * unicode flags
+   */
+  constructor(name: string, ranks: Map<string, number>, pattern: RegExp) {
+    this.name = name;
+    this.ranks = ranks;
+    this.pattern = pattern;
+  }
+
+  /**
+   * Encodes a text into token IDs
+   *
+   * @param text Text to encode
+   * @returns Token IDs of the text
+   */
+  encode(text: string): number[] {
+    const tokens: number[] = [];
+    for (const [piece] of text.matchAll(this.pattern)) {
+      tokens.push(...this.encodePiece(piece));
+    }
+    return tokens;
+  }
+
+  /**
+   * Counts the tokens of a text
+   *
+   * @param text Text to count the tokens of
+   * @returns Number of tokens
+   */
+  countTokens(text: string): number {
+    let count = 0;
+    for (const [piece] of text.matchAll(this.pattern)) {
+      count += this.encodePiece(piece).length;
+    }
+    return count;
+  }
+
+  /**
+   * Encode a piece of text
+   */
+  private encodePiece(piece: string): number[] {
+    const cached = this.cache.get(piece);
+    if (cached) {
+      return cached;
+    }
+    
+    const bytes = toBinaryString(piece);
+    const rank = this.ranks.get(bytes);
+    const tokens = rank !== undefined ? [rank] : this.mergeBytes(bytes);
+    
+    if (this.cache.size >= MAX_CACHED_PIECES) {
+      this.cache.clear();
+    }
+    this.cache.set(piece, tokens);
+    return tokens;
+  }
+
+  /**
+   * Merge the bytes of a piece pairwise, lowest rank first, until no adjacent
+   * parts form a token
+   */
+  private mergeBytes(bytes: string): number[] {
+    const parts = Array.from(bytes);
+    
+    for (;;) {
+      let best = -1;
+      let bestRank = Infinity;
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.ranks.get(parts[i] + parts[i + 1]);
+        if (rank !== undefined && rank < bestRank) {
+          best = i;
+          bestRank = rank;
+        }
+      }
+      
+      if (best < 0) {
+        break;
+      }
+      parts.splice(best, 2, parts[best] + parts[best + 1]);
+    }
+    
+    return parts.map(part => {
+      const rank = this.ranks.get(part);
+      if (rank === undefined) {
+        throw new ModelEyesError('ParseError', `Vocabulary of ${this.name} has no token for byte ${part.charCodeAt(0)}`, {
+          encoding: this.name
+        });
+      }
+      return rank;
+    });
+  }
+}
+
+/**
+ * Creates a tokenizer for a byte pair encoding from its vocabulary
+ *
+ * @param encoding Encoding of the vocabulary
+ * @param vocabulary Content of the `.tiktoken` file of the encoding
+ * @returns Tokenizer of the encoding
+ * @throws ModelEyesError with code `UnsupportedError` for unknown encodings, or
+ * `ParseError` for malformed vocabularies
+ */
+export function createBpeTokenizer(encoding: BpeEncoding, vocabulary: string): Tokenizer {
+  const pattern = PATTERNS[encoding];
+  if (!pattern) {
+    throw new ModelEyesError('UnsupportedError', `Unsupported encoding: ${encoding}`, { encoding });
+  }
+
+  return new BpeTokenizer(encoding, parseBpeRanks(vocabulary), pattern);
+}
+
+/**
+ * Parses a vocabulary in the `.tiktoken` format
+ *
+ * @param vocabulary Lines of a base64-encoded token and its rank
+ * @returns Ranks of the tokens, keyed by their bytes as a binary string
+ * @throws ModelEyesError with code `ParseError` for malformed lines
+ */
+export function parseBpeRanks(vocabulary: string): Map<string, number> {
+  const ranks = new Map<string, number>();
+
+  vocabulary.split('\n').forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    
+    const [token, rank] = line.trim().split(' ');
+    const value = Number(rank);
+    if (!token || !Number.isInteger(value)) {
+      throw new ModelEyesError('ParseError', `Malformed vocabulary line ${index + 1}`, { line: index + 1 });
+    }
+    
+    try {
+      ranks.set(atob(token), value);
+    } catch (error) {
+      throw new ModelEyesError('ParseError', `Malformed token on vocabulary line ${index + 1}`, { line: index + 1 });
+    }
+  });
+
+  return ranks;
+}
+
+/**
+ * Gets the encoding an OpenAI model reads text in
+ *
+ * @param model Name of the model, e.g. `gpt-4o-mini`
+ * @returns The encoding of the model, or undefined for unknown models
+ */
+export function getEncodingForModel(model: string): BpeEncoding | undefined {
+  const name = model.toLowerCase();
+  return MODEL_ENCODINGS.find(([prefix]) => name.startsWith(prefix))?.[1];
+}
+
+/**
+ * Encode a text as UTF-8 and return the bytes as a binary string, the form in
+ * which vocabulary tokens are keyed
+ */
+function toBinaryString(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return binary;
+}
@@ -60,6 +60,114 @@ export interface UIElement {
   
   /** Original HTML of the element */
   html?: string;
+  
+  /** Computed ARIA role (accessibility capture only) */
+  role?: string;
+  
+  /** Accessible name (accessibility capture only) */
+  name?: string;
+  
+  /** Accessible description (accessibility capture only) */
+  description?: string;
+  
+  /** ARIA states that apply to the element (accessibility capture only) */
+  states?: ElementStates;
+  
+  /** Whether the element is a frame whose cross-origin content is not captured */
+  crossOrigin?: boolean;
+  
+  /** Live state of a form control (web only) */
+  control?: FormControlState;
+  
+  /** IDs of the controls of a form element (web only) */
+  fields?: string[];
+}
+
+/**
+ * Live state of a form control
+ *
+ * Unlike the element's attributes, which hold the initial state from the
+ * markup, this reflects what the user has entered or selected.
+ */
+export interface FormControlState {
+  /** Current value; password values are masked */
+  value?: string;
+  
+  /** Whether a checkbox or radio button is checked */
+  checked?: boolean;
+  
+  /** Options of a select element */
+  options?: FormControlOption[];
+  
+  /** Whether a select element allows selecting several options */
+  multiple?: boolean;
+  
+  /** Placeholder shown while the control is empty */
+  placeholder?: string;
+  
+  /** Whether a value is required */
+  required?: boolean;
+  
+  /** Whether the value fails validation */
+  invalid?: boolean;
+  
+  /** Message explaining why the value fails validation */
+  validationMessage?: string;
+  
+  /** Text of the control's labels */
+  label?: string;
+  
+  /** IDs of the control's label elements */
+  labelIds?: string[];
+  
+  /** ID of the form element the control belongs to */
+  formId?: string;
+}
+
+/**
+ * Option of a select element
+ */
+export interface FormControlOption {
+  /** Value submitted when the option is selected */
+  value: string;
+  
+  /** Text shown for the option */
+  text: string;
+  
+  /** Whether the option is selected */
+  selected: boolean;
+  
+  /** Whether the option cannot be selected */
+  disabled?: boolean;
+}
+
+/**
+ * ARIA states of a UI element
+ *
+ * A state is only present if it applies to the element's role, e.g. `checked`
+ * for checkboxes and `expanded` for disclosure buttons.
+ */
+export interface ElementStates {
+  /** Whether the element is disabled */
+  disabled?: boolean;
+  
+  /** Checked state of a checkbox, radio button or switch */
+  checked?: boolean | 'mixed';
+  
+  /** Whether an option, tab or row is selected */
+  selected?: boolean;
+  
+  /** Whether the content the element controls is expanded */
+  expanded?: boolean;
+  
+  /** Pressed state of a toggle button */
+  pressed?: boolean | 'mixed';
+  
+  /** Whether a value is required */
+  required?: boolean;
+  
+  /** Whether the value cannot be edited */
+  readonly?: boolean;
 }
 
 /**
@@ -107,6 +215,14 @@ export interface UIState {
   version: string;
 }
 
+/**
+ * Changed properties of a UI element
+ *
+ * Properties the element no longer has are set to `null`, as `undefined`
+ * does not survive serialization to JSON.
+ */
+export type ElementChanges = { [K in keyof UIElement]?: UIElement[K] | null };
+
 /**
  * Represents incremental changes to the UI state
  *
@@ -125,8 +241,8 @@ export interface DifferentialUpdate {
   /** New elements added to the UI */
   added?: Record<string, UIElement>;
   
-  /** Existing elements that were modified */
-  modified?: Record<string, Partial<UIElement>>;
+  /** Changed properties of existing elements that were modified */
+  modified?: Record<string, ElementChanges>;
   
   /** IDs of elements that were removed */
   removed?: string[];
@@ -152,13 +268,23 @@ export type ClientToServerMessageType = 'initialState' | 'stateUpdate' | 'event'
 /**
  * Types of messages that can be sent from server to client
  */
-export type ServerToClientMessageType = 'actionRequest' | 'queryRequest' | 'response' | 'error';
+export type ServerToClientMessageType = 'actionRequest' | 'queryRequest' | 'response' | 'error' | 'cancel';
 
 /**
  * Base interface for all messages
  */
 export interface Message {
   type: ClientToServerMessageType | ServerToClientMessageType;
+  
+  /** Unique identifier of the message */
+  id?: string;
+  
+  /** ID of the request this message answers or cancels */
+  correlationId?: string;
+  
+  /** Time in milliseconds the sender of a request waits for its response */
+  timeout?: number;
+  
   payload: any;
 }
 
@@ -198,7 +324,134 @@ export interface EventMessage extends Message {
 /**
  * Types of actions that can be requested
  */
-export type ActionType = 'click' | 'type' | 'scroll' | 'focus' | 'hover';
+export type ActionType =
+  | 'click'
+  | 'type'
+  | 'scroll'
+  | 'focus'
+  | 'hover'
+  | 'select'
+  | 'check'
+  | 'uncheck'
+  | 'pressKey'
+  | 'dragAndDrop'
+  | 'navigate'
+  | 'submit'
+  | 'clear'
+  | 'uploadFile';
+
+/**
+ * Modifier keys that can be held while pressing a key
+ */
+export type KeyModifier = 'Alt' | 'Control' | 'Meta' | 'Shift';
+
+/**
+ * Data of a `type` action, as an alternative to the text alone
+ */
+export interface TypeActionData {
+  /** Text to type, replacing the value of the field */
+  text: string;
+  
+  /** Delay in milliseconds between typed characters */
+  delay?: number;
+}
+
+/**
+ * Data of a `scroll` action, scrolling the element into view when omitted
+ */
+export interface ScrollActionData {
+  /** Horizontal scroll position */
+  x?: number;
+  
+  /** Vertical scroll position */
+  y?: number;
+}
+
+/**
+ * Data of a `select` action, choosing options of a select element
+ *
+ * Options are matched by value, or by their label. Several options can only be
+ * chosen in a select that allows multiple selections.
+ */
+export interface SelectActionData {
+  /** Values of the options to choose */
+  value?: string | string[];
+  
+  /** Labels of the options to choose */
+  label?: string | string[];
+}
+
+/**
+ * Data of a `pressKey` action
+ */
+export interface PressKeyActionData {
+  /** Key to press, as a `KeyboardEvent.key` value, e.g. `Enter` or `a` */
+  key: string;
+  
+  /** Modifier keys held while pressing the key */
+  modifiers?: KeyModifier[];
+}
+
+/**
+ * Data of a `dragAndDrop` action, dragging the target element onto another
+ */
+export interface DragAndDropActionData {
+  /** ID of the element to drop onto */
+  targetId: string;
+}
+
+/**
+ * Data of a `navigate` action, navigating the window of the target element
+ */
+export interface NavigateActionData {
+  /** URL to navigate to, resolved against the current URL */
+  url: string;
+}
+
+/**
+ * File chosen by an `uploadFile` action
+ */
+export interface UploadFileData {
+  /** File name */
+  name: string;
+  
+  /** File content, as text or base64 */
+  content: string;
+  
+  /** Encoding of the content (defaults to 'text') */
+  encoding?: 'text' | 'base64';
+  
+  /** MIME type of the file */
+  mimeType?: string;
+}
+
+/**
+ * Data of an `uploadFile` action, choosing the files of a file input
+ */
+export interface UploadFileActionData {
+  /** Files to choose, at most one unless the input accepts multiple files */
+  files: UploadFileData[];
+}
+
+/**
+ * Data accepted by each action type
+ */
+export interface ActionDataMap {
+  click: undefined;
+  type: string | TypeActionData;
+  scroll: ScrollActionData | undefined;
+  focus: undefined;
+  hover: undefined;
+  select: SelectActionData;
+  check: undefined;
+  uncheck: undefined;
+  pressKey: PressKeyActionData;
+  dragAndDrop: DragAndDropActionData;
+  navigate: NavigateActionData;
+  submit: undefined;
+  clear: undefined;
+  uploadFile: UploadFileActionData;
+}
 
 /**
  * Represents an action to be performed on a UI element
@@ -219,6 +472,7 @@ export interface Action {
  */
 export interface ActionRequestMessage extends Message {
   type: 'actionRequest';
+  id: string;
   payload: {
     actionType: ActionType;
     targetId: string;
@@ -236,6 +490,7 @@ export type QueryType = 'elementState' | 'elementSearch' | 'elementPath';
  */
 export interface QueryRequestMessage extends Message {
   type: 'queryRequest';
+  id: string;
   payload: {
     queryType: QueryType;
     parameters: any;
@@ -244,9 +499,13 @@ export interface QueryRequestMessage extends Message {
 
 /**
  * Message responding to a request
+ *
+ * The response's `correlationId` and `payload.requestId` are both the `id` of
+ * the request it answers.
  */
 export interface ResponseMessage extends Message {
   type: 'response';
+  correlationId: string;
   payload: {
     requestId: string;
     status: 'success' | 'error';
@@ -254,6 +513,20 @@ export interface ResponseMessage extends Message {
   };
 }
 
+/**
+ * Message cancelling a request that has not been answered yet
+ *
+ * The message's `correlationId` is the `id` of the cancelled request. The
+ * receiver stops handling the request and does not send a response.
+ */
+export interface CancelMessage extends Message {
+  type: 'cancel';
+  correlationId: string;
+  payload: {
+    reason?: string;
+  };
+}
+
 /**
  * Error codes that can be reported
  */
@@ -278,6 +551,14 @@ export interface MCPClientConfig {
   /** Target platform */
   platform: 'web' | 'windows' | 'macos' | 'linux';
   
+  /**
+   * How elements are captured: `dom` records every element with its tag,
+   * text, attributes and styles, `accessibility` adds the role, accessible
+   * name, description and states of each element and leaves out wrappers
+   * without semantics (web only, defaults to 'dom')
+   */
+  captureMode?: 'dom' | 'accessibility';
+  
   /** Element filtering options */
   filtering?: {
     /** Maximum depth to traverse */
@@ -303,6 +584,9 @@ export interface MCPClientConfig {
     
     /** Element types to include (takes precedence over excludeTypes) */
     includeTypes?: string[];
+    
+    /** Maximum length of attribute values; longer values are truncated (web only) */
+    maxAttributeLength?: number;
   };
   
   /** Data optimization options */
@@ -321,6 +605,30 @@ export interface MCPClientConfig {
     
     /** Whether to use element hashing for faster comparisons */
     useElementHashing?: boolean;
+    
+    /** Time in milliseconds a capture runs before yielding to the event loop, or 0 to capture in one go (web only, defaults to 50) */
+    captureTimeSlice?: number;
+    
+    /** Whether DOM mutations update the state incrementally instead of through a full capture (web only, defaults to true) */
+    incrementalCapture?: boolean;
+    
+    /** Window in which DOM mutations are coalesced into one update: a delay in milliseconds, or 'animationFrame' to update on the next frame (web only, defaults to 'animationFrame') */
+    mutationWindow?: number | 'animationFrame';
+  };
+  
+  /** Action execution options */
+  actions?: {
+    /** Whether to wait for the target to be visible, enabled, in view, stable and not covered before acting (web only, defaults to true) */
+    checkActionability?: boolean;
+    
+    /** Time in milliseconds to wait for the target to become actionable (defaults to 1000) */
+    actionabilityTimeout?: number;
+    
+    /** Time in milliseconds without DOM mutations after which the UI is considered settled after an action (web only, defaults to 100) */
+    settleTime?: number;
+    
+    /** Maximum time in milliseconds to wait for the UI to settle after an action (web only, defaults to 2000) */
+    settleTimeout?: number;
   };
 }
 
@@ -348,8 +656,43 @@ export interface MCPServerConfig {
     /** Whether to include full element details in context */
     includeFullElementDetails?: boolean;
   };
+  
+  /**
+   * Tokenizer counting the tokens of the context, or the name of a bundled
+   * encoding to load, instead of the tokenizer of the model provider
+   */
+  tokenizer?: Tokenizer | BpeEncoding;
 }
 
+/**
+ * Splits text into the tokens a model reads
+ */
+export interface Tokenizer {
+  /** Name of the encoding, e.g. `cl100k_base` */
+  name: string;
+  
+  /**
+   * Encodes a text into token IDs
+   * @param text Text to encode
+   * @returns Token IDs of the text
+   */
+  encode(text: string): number[];
+  
+  /**
+   * Counts the tokens of a text
+   * @param text Text to count the tokens of
+   * @returns Number of tokens
+   */
+  countTokens(text: string): number;
+}
+
+/**
+ * Byte pair encodings whose vocabularies can be loaded from data files:
+ * `cl100k_base` of GPT-4 and GPT-3.5 models, and `o200k_base` of GPT-4o and
+ * later models
+ */
+export type BpeEncoding = 'cl100k_base' | 'o200k_base';
+
 /**
  * Result of an action execution
  */
@@ -360,7 +703,11 @@ export interface ActionResult {
   /** Error message if the action failed */
   error?: string;
   
-  /** Additional data about the action result */
+  /**
+   * Additional data about the action result: data specific to the action
+   * type, the `update` of the UI state caused by a successful action, or what
+   * failed for an unsuccessful one
+   */
   data?: any;
 }
 
@@ -376,22 +723,274 @@ export interface ContextOptions {
   
   /** Whether to include full element details */
   includeFullElementDetails?: boolean;
+  
+  /** Text format to render the UI state in (default `json`) */
+  format?: ContextFormat;
+  
+  /** Renderer to use instead of the built-in renderer of the format */
+  renderer?: StateRenderer;
+  
+  /**
+   * Goal of the model, such as the task it works on; elements whose text is
+   * relevant to it are kept first when the state exceeds `maxTokens`
+   */
+  goal?: string;
+  
+  /**
+   * Number of updates since each element last changed, used instead of the
+   * changes the server recorded when the state is kept elsewhere, such as in a
+   * UI session
+   */
+  changeAges?: Record<string, number>;
 }
 
+/**
+ * Text formats the UI state can be rendered in for a model: JSON, an indented
+ * outline of the element tree, Markdown, YAML, or a CSV-like table of the
+ * interactable elements
+ */
+export type ContextFormat = 'json' | 'outline' | 'markdown' | 'yaml' | 'table';
+
+/**
+ * Renders a UI state as text for a model
+ */
+export type StateRenderer = (state: UIState) => string;
+
 /**
  * Context prepared for a model
  */
 export interface ModelContext {
-  /** Structured representation of the UI state */
+  /**
+   * UI state prepared for the model: a structured object for the `json`
+   * format, or the text rendering of the state for the other formats
+   */
   uiState: any;
   
-  /** Estimated token count */
+  /**
+   * Token count of the UI state as sent to the model: exact if the server has
+   * a tokenizer, whose name is then given in `metadata.tokenizer`, and
+   * estimated otherwise
+   */
   tokenCount: number;
   
   /** Additional context information */
   metadata: Record<string, any>;
 }
 
+/**
+ * Region of the page that element bounds are compared with
+ */
+export interface BoundsPredicate {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  
+  /**
+   * How the element bounds must relate to the region: overlap it
+   * (`intersects`, the default), lie inside it (`within`) or enclose it
+   * (`contains`)
+   */
+  relation?: 'intersects' | 'within' | 'contains';
+}
+
+/**
+ * Criteria for finding elements in a UI state
+ */
+export interface ElementSearchCriteria {
+  /** CSS-like selector the element must match, e.g. `form > button:text("Save")` */
+  selector?: string;
+  
+  /** Exact element type to match */
+  type?: string;
+  
+  /** Substring that the element text must contain */
+  text?: string;
+  
+  /** ARIA role of the element, either explicit or implied by its type */
+  role?: string;
+  
+  /**
+   * Attributes the element must have: a string requires that exact value,
+   * `true` requires the attribute to be present and `false` to be absent
+   */
+  attributes?: Record<string, string | boolean>;
+  
+  /** Region the element bounds must relate to */
+  bounds?: BoundsPredicate;
+  
+  /** Required interactable state */
+  interactable?: boolean;
+  
+  /** Whether to exclude elements hidden through styles or attributes */
+  visible?: boolean;
+  
+  /** Maximum number of matches to return */
+  limit?: number;
+}
+
+/**
+ * Summary of an element matching a search
+ */
+export interface ElementMatch {
+  /** ID of the matching element */
+  id: string;
+  
+  /** Element type */
+  type: string;
+  
+  /** Text content of the element */
+  text?: string;
+  
+  /** Whether the element can be interacted with */
+  interactable?: boolean;
+  
+  /** ARIA role of the element, if it has one */
+  role?: string;
+  
+  /** Accessible name of the element, if it was captured */
+  name?: string;
+  
+  /** Spatial information */
+  bounds: UIElement['bounds'];
+}
+
+/**
+ * Parameters of an `elementState` or `elementPath` query
+ */
+export interface ElementQueryParameters {
+  /** ID of the element to query */
+  elementId: string;
+}
+
+/**
+ * Result of an `elementState` query
+ */
+export interface ElementStateResult {
+  /** The queried element */
+  element: UIElement;
+  
+  /** ARIA role of the element, if it has one */
+  role?: string;
+  
+  /** Whether the element has focus */
+  focused: boolean;
+  
+  /** Whether the element is hovered */
+  hovered: boolean;
+  
+  /** Whether the element is hidden through its styles or attributes */
+  hidden: boolean;
+  
+  /** Version of the state the element was read from */
+  version: string;
+}
+
+/**
+ * Result of an `elementSearch` query
+ */
+export interface ElementSearchResult {
+  /** Summaries of the matching elements */
+  elements: ElementMatch[];
+  
+  /** Number of returned matches */
+  count: number;
+}
+
+/**
+ * Result of an `elementPath` query
+ */
+export interface ElementPathResult {
+  /** The queried element and its ancestors, from the root element down to the queried element */
+  path: ElementMatch[];
+}
+
+/**
+ * Result of any query
+ */
+export type QueryResult = ElementStateResult | ElementSearchResult | ElementPathResult;
+
+/**
+ * Types of conditions that can be waited for
+ */
+export type WaitConditionType = 'elementAppears' | 'elementDisappears' | 'textPresent' | 'urlChanges' | 'networkIdle' | 'domQuiet';
+
+/**
+ * Condition that an element matching a search appears or disappears
+ */
+export interface ElementWaitCondition {
+  type: 'elementAppears' | 'elementDisappears';
+  
+  /** Search criteria the element matches */
+  query: ElementSearchCriteria;
+}
+
+/**
+ * Condition that an element containing a text is present
+ */
+export interface TextWaitCondition {
+  type: 'textPresent';
+  
+  /** Substring of the element text */
+  text: string;
+}
+
+/**
+ * Condition that the URL changes from the URL at the start of the wait
+ */
+export interface UrlWaitCondition {
+  type: 'urlChanges';
+  
+  /** Substring the new URL must contain; any new URL satisfies the condition if omitted */
+  url?: string;
+}
+
+/**
+ * Condition that no network requests are pending, or no DOM changes happen, for a time
+ */
+export interface QuietWaitCondition {
+  type: 'networkIdle' | 'domQuiet';
+  
+  /** Time in milliseconds without network activity or DOM changes (default 500) */
+  quietTime?: number;
+}
+
+/**
+ * Condition to wait for
+ */
+export type WaitCondition = ElementWaitCondition | TextWaitCondition | UrlWaitCondition | QuietWaitCondition;
+
+/**
+ * Network activity of a page
+ */
+export interface NetworkActivity {
+  /** Number of requests waiting for their response */
+  pending: number;
+  
+  /** Timestamp of when the last request started or ended */
+  lastActivityTime: number;
+}
+
+/**
+ * Result of a wait that met its condition
+ */
+export interface WaitResult {
+  /** Type of condition that was met */
+  condition: WaitConditionType;
+  
+  /** Time in milliseconds the wait took */
+  elapsed: number;
+  
+  /** Version of the UI state when the condition was met */
+  version?: string;
+  
+  /** IDs of the elements that appeared or contain the text */
+  elementIds?: string[];
+  
+  /** URL the page changed to */
+  url?: string;
+}
+
 /**
  * Subscription to state changes
  */
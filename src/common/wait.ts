@@ -0,0 +1,316 @@
+/**
+ * Wait conditions for ModelEyes
+ *
+ * This module waits for conditions on a UI state and the activity of its page:
+ * elements appearing or disappearing, text becoming present, URL changes, and
+ * the network or the DOM going quiet. Conditions are checked again whenever the
+ * source of the state reports a change, rather than by polling, and waits that
+ * are not met in time fail with a `TimeoutError`. The clients, the HTTP server
+ * and the MCP tools all wait through it, so conditions mean the same
+ * everywhere.
+ */
+
+import {
+  UIState,
+  WaitCondition,
+  WaitConditionType,
+  WaitResult,
+  NetworkActivity
+} from './types';
+import { ModelEyesError } from './errors';
+import { searchElements } from './query';
+
+/**
+ * Types of conditions that can be waited for
+ */
+export const WAIT_CONDITION_TYPES: [WaitConditionType, ...WaitConditionType[]] = [
+  'elementAppears',
+  'elementDisappears',
+  'textPresent',
+  'urlChanges',
+  'networkIdle',
+  'domQuiet'
+];
+
+/**
+ * Default time in milliseconds to wait for a condition
+ */
+export const DEFAULT_WAIT_TIMEOUT = 5000;
+
+/**
+ * Default time in milliseconds without activity for the quiet conditions
+ */
+const DEFAULT_QUIET_TIME = 500;
+
+/**
+ * State and activity that conditions are checked against
+ */
+export interface WaitSnapshot {
+  /** Current UI state, if any */
+  state: UIState | null;
+
+  /** Current URL, which may be more recent than that of the state */
+  url?: string;
+
+  /** Timestamp of the last change of the UI state */
+  lastChangeTime: number;
+
+  /** Network activity, if the source tracks it */
+  network?: NetworkActivity;
+}
+
+/**
+ * Source of the state and activity a wait checks its condition against
+ */
+export interface WaitSource {
+  /**
+   * Gets the current state and activity
+   */
+  getSnapshot(): WaitSnapshot;
+
+  /**
+   * Calls a listener whenever the state or activity may have changed
+   *
+   * @returns Function removing the listener
+   */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Outcome of checking a condition: the result if it is met, or otherwise the
+ * time in milliseconds after which it may be met without further changes
+ */
+type ConditionCheck = { result: WaitResult } | { result?: undefined; recheckIn?: number };
+
+/**
+ * Checks whether a value is a wait condition type
+ *
+ * @param value Value to check
+ * @returns Whether the value is one of the wait condition types
+ */
+export function isWaitConditionType(value: unknown): value is WaitConditionType {
+  return typeof value === 'string' && (WAIT_CONDITION_TYPES as string[]).includes(value);
+}
+
+/**
+ * Checks a wait condition and the time to wait for it
+ *
+ * @param condition Requested condition
+ * @param timeout Requested time to wait in milliseconds
+ * @throws ModelEyesError with code `UnsupportedError` for unknown condition
+ * types, or `ValidationError` for malformed conditions
+ */
+export function validateWaitCondition(condition: any, timeout?: unknown): asserts condition is WaitCondition {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    throw new ModelEyesError('ValidationError', 'Wait condition must be an object');
+  }
+
+  const { type } = condition;
+  if (!isWaitConditionType(type)) {
+    throw new ModelEyesError('UnsupportedError', `Unsupported wait condition: ${type}`, { condition: type });
+  }
+
+  switch (type) {
+    case 'elementAppears':
+    case 'elementDisappears':
+      if (!condition.query || typeof condition.query !== 'object' || Array.isArray(condition.query)) {
+        throw invalid(type, 'query must be an object of search criteria');
+      }
+      break;
+    
+    case 'textPresent':
+      if (typeof condition.text !== 'string' || !condition.text) {
+        throw invalid(type, 'text must be a non-empty string');
+      }
+      break;
+    
+    case 'urlChanges':
+      if (condition.url !== undefined && typeof condition.url !== 'string') {
+        throw invalid(type, 'url must be a string');
+      }
+      break;
+    
+    case 'networkIdle':
+    case 'domQuiet':
+      if (condition.quietTime !== undefined && !(typeof condition.quietTime === 'number' && condition.quietTime >= 0)) {
+        throw invalid(type, 'quietTime must be a non-negative number');
+      }
+      break;
+  }
+
+  if (timeout !== undefined && !(typeof timeout === 'number' && timeout > 0)) {
+    throw new ModelEyesError('ValidationError', 'Wait timeout must be a positive number', { timeout });
+  }
+}
+
+/**
+ * Waits for a condition on the state and activity of a source
+ *
+ * The condition is checked at once, whenever the source reports a change, and
+ * when a quiet time runs out.
+ *
+ * @param condition Condition to wait for
+ * @param source Source of the state and activity
+ * @param timeout Time in milliseconds to wait
+ * @param signal Signal that cancels the wait, e.g. when the requester disconnects
+ * @returns Promise resolving to the result once the condition is met
+ * @throws ModelEyesError with code `TimeoutError` if the condition is not met in
+ * time, `UnsupportedError` if the source cannot tell whether it is met,
+ * `ValidationError` for malformed conditions, or `AccessError` if the wait is
+ * cancelled
+ */
+export function waitForCondition(
+  condition: WaitCondition,
+  source: WaitSource,
+  timeout: number = DEFAULT_WAIT_TIMEOUT,
+  signal?: AbortSignal
+): Promise<WaitResult> {
+  validateWaitCondition(condition, timeout);
+
+  const start = Date.now();
+  const initialUrl = source.getSnapshot().url;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelled(condition));
+      return;
+    }
+    
+    let recheckTimer: ReturnType<typeof setTimeout> | null = null;
+    let unsubscribe: (() => void) | null = null;
+    
+    const finish = (error: Error | null, result?: WaitResult) => {
+      clearTimeout(timeoutTimer);
+      if (recheckTimer) {
+        clearTimeout(recheckTimer);
+      }
+      unsubscribe?.();
+      unsubscribe = null;
+      signal?.removeEventListener('abort', onAbort);
+      
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result as WaitResult);
+      }
+    };
+    
+    const check = () => {
+      if (recheckTimer) {
+        clearTimeout(recheckTimer);
+        recheckTimer = null;
+      }
+      
+      try {
+        const outcome = checkCondition(condition, source.getSnapshot(), start, initialUrl);
+        if (outcome.result) {
+          finish(null, outcome.result);
+        } else if (outcome.recheckIn !== undefined) {
+          recheckTimer = setTimeout(check, outcome.recheckIn);
+        }
+      } catch (error) {
+        finish(error instanceof Error ? error : new Error(String(error)));
+      }
+    };
+    
+    const timeoutTimer = setTimeout(() => {
+      finish(new ModelEyesError('TimeoutError', `Condition ${condition.type} not met within ${timeout}ms`, {
+        condition: condition.type,
+        timeout
+      }));
+    }, timeout);
+    
+    const onAbort = () => finish(cancelled(condition));
+    signal?.addEventListener('abort', onAbort);
+    
+    unsubscribe = source.subscribe(check);
+    check();
+  });
+}
+
+/**
+ * Check a condition against a snapshot of the state and activity
+ */
+function checkCondition(
+  condition: WaitCondition,
+  snapshot: WaitSnapshot,
+  start: number,
+  initialUrl?: string
+): ConditionCheck {
+  const { state } = snapshot;
+  const now = Date.now();
+  const met = (details: Partial<WaitResult> = {}): ConditionCheck => ({
+    result: { condition: condition.type, elapsed: now - start, version: state?.version, ...details }
+  });
+
+  switch (condition.type) {
+    case 'elementAppears':
+    case 'elementDisappears': {
+      if (!state) {
+        return {};
+      }
+      
+      const { elements } = searchElements(state, condition.query);
+      if (condition.type === 'elementDisappears') {
+        return elements.length === 0 ? met() : {};
+      }
+      return elements.length > 0 ? met({ elementIds: elements.map(element => element.id) }) : {};
+    }
+    
+    case 'textPresent': {
+      if (!state) {
+        return {};
+      }
+      
+      const { elements } = searchElements(state, { text: condition.text });
+      return elements.length > 0 ? met({ elementIds: elements.map(element => element.id) }) : {};
+    }
+    
+    case 'urlChanges': {
+      const url = snapshot.url;
+      const changed = url !== undefined && url !== initialUrl;
+      return changed && (condition.url === undefined || url.includes(condition.url)) ? met({ url }) : {};
+    }
+    
+    case 'networkIdle': {
+      if (!snapshot.network) {
+        throw new ModelEyesError('UnsupportedError', 'Network activity is not tracked for this page', { condition: condition.type });
+      }
+      if (snapshot.network.pending > 0) {
+        return {};
+      }
+      
+      return checkQuiet(Math.max(start, snapshot.network.lastActivityTime), condition.quietTime, now, met);
+    }
+    
+    case 'domQuiet':
+      return checkQuiet(Math.max(start, snapshot.lastChangeTime), condition.quietTime, now, met);
+  }
+}
+
+/**
+ * Check whether the quiet time has passed since the last activity
+ */
+function checkQuiet(
+  lastActivityTime: number,
+  quietTime: number | undefined,
+  now: number,
+  met: () => ConditionCheck
+): ConditionCheck {
+  const remaining = lastActivityTime + (quietTime ?? DEFAULT_QUIET_TIME) - now;
+  return remaining <= 0 ? met() : { recheckIn: remaining };
+}
+
+/**
+ * Create the error for a cancelled wait
+ */
+function cancelled(condition: WaitCondition): ModelEyesError {
+  return new ModelEyesError('AccessError', `Wait for ${condition.type} was cancelled`, { condition: condition.type });
+}
+
+/**
+ * Create the error for a malformed condition
+ */
+function invalid(type: WaitConditionType, message: string): ModelEyesError {
+  return new ModelEyesError('ValidationError', `Invalid ${type} condition: ${message}`, { condition: type });
+}
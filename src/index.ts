@@ -23,16 +23,143 @@ import { ModelEyesMcpServer } from './mcp/ui-server';
 
 // Export common types
 export * from './common/types';
+export { ModelEyesError, toErrorPayload } from './common/errors';
+export {
+  findElements,
+  matchesCriteria,
+  matchesBounds,
+  isElementHidden,
+  getElementRole,
+  toElementMatch
+} from './common/search';
+export {
+  QUERY_TYPES,
+  executeQuery,
+  getElementState,
+  searchElements,
+  getElementPath
+} from './common/query';
+export { ACTION_TYPES, isActionType, validateAction } from './common/actions';
+export {
+  WAIT_CONDITION_TYPES,
+  DEFAULT_WAIT_TIMEOUT,
+  WaitSnapshot,
+  WaitSource,
+  isWaitConditionType,
+  validateWaitCondition,
+  waitForCondition
+} from './common/wait';
+export {
+  CONTEXT_FORMATS,
+  isContextFormat,
+  getStateRenderer,
+  renderJson,
+  renderOutline,
+  renderMarkdown,
+  renderYaml,
+  renderTable
+} from './common/renderers';
+export {
+  SUMMARY_ELEMENT_TYPE,
+  DEFAULT_SCORE_WEIGHTS,
+  ScoreWeights,
+  ScoreOptions,
+  PackingOptions,
+  PackedState,
+  scoreElements,
+  packState
+} from './common/packing';
+export {
+  BpeTokenizer,
+  createBpeTokenizer,
+  parseBpeRanks,
+  getEncodingForModel
+} from './common/tokenizer';
+export { DEFAULT_TOKENIZER_DIR, loadTokenizer } from './server/tokenizer-loader';
+export {
+  parseSelector,
+  querySelector,
+  querySelectorAll,
+  matchesSelector,
+  SelectorList,
+  ComplexSelector,
+  CompoundSelector,
+  SelectorCondition,
+  SelectorCombinator,
+  SpatialRelation
+} from './common/selector';
+export {
+  parseMessage,
+  createMessageId,
+  createResponse,
+  createErrorResponse,
+  createErrorMessage,
+  createCancelMessage
+} from './common/protocol';
+export { RequestDispatcher, RequestOptions } from './common/dispatcher';
 
 // Export client implementations
 export { IMCPClient, BaseMCPClient } from './client/base-client';
 export { WebMCPClient } from './client/web/web-client';
+export {
+  ElementIdentityTracker,
+  ElementFingerprint,
+  FingerprintContext,
+  fingerprintElement,
+  getChildContext
+} from './client/web/element-identity';
+export {
+  AccessibilityInfo,
+  getAccessibilityInfo,
+  getAccessibleRole,
+  computeAccessibleName,
+  computeAccessibleDescription,
+  getAccessibleStates,
+  isPresentational,
+  getStaticText,
+  getLabels,
+  isFocusable,
+  isDisabled
+} from './client/web/accessibility';
+export {
+  ElementIdResolver,
+  isFormControl,
+  getFormControlState,
+  getFormFields,
+  getLinkedControls
+} from './client/web/form-controls';
+export {
+  ActionabilityCheck,
+  ActionabilityOptions,
+  getActionabilityChecks,
+  waitForActionable,
+  isVisible
+} from './client/web/actionability';
+export { NetworkActivityTracker } from './client/web/network-activity';
 export { WindowsMCPClient } from './client/desktop/windows-client';
+export {
+  WebSocketClientTransport,
+  WebSocketClientTransportOptions,
+  ClientWebSocket,
+  ClientWebSocketConstructor
+} from './client/websocket-transport';
 
 // Export server implementations
 export { IMCPServer, BaseMCPServer } from './server/base-server';
 export { OpenAIMCPServer, OpenAIServerConfig } from './server/openai-server';
-export { ModelEyesMcpServer, createModelEyesMcpServer, runMcpServer } from './mcp/ui-server';
+export { GenericMCPServer } from './server/generic-server';
+export {
+  WebSocketServerTransport,
+  WebSocketServerTransportOptions,
+  WebSocketConnection,
+  WebSocketMessageHandler
+} from './server/websocket-server';
+export {
+  ModelEyesMcpServer,
+  ModelEyesMcpServerOptions,
+  createModelEyesMcpServer,
+  runMcpServer
+} from './mcp/ui-server';
 
 /**
  * Creates and initializes a web client with sensible default configuration
@@ -0,0 +1,385 @@
+/**
+ * ModelEyes Action Channel
+ *
+ * This module provides the command channel used by the HTTP server to deliver
+ * actions to browser tabs. Actions are queued per session, picked up by the
+ * Chrome extension through long-polling, and resolved once the extension reports
+ * the result of executing them.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Action, ActionResult } from '../common/types';
+import { ModelEyesError } from '../common/errors';
+import { SessionManager } from './session';
+
+/**
+ * An action queued for delivery to a tab
+ */
+export interface QueuedAction {
+  /** Unique identifier used to report the result */
+  id: string;
+
+  /** ID of the client the action targets */
+  clientId: string;
+
+  /** ID of the tab the action targets */
+  tabId: string;
+
+  /** Action to execute */
+  action: Action;
+
+  /** Timestamp of when the action was queued */
+  timestamp: number;
+}
+
+/**
+ * Criteria selecting which queued actions a poll request receives
+ */
+export interface ActionFilter {
+  /** Only receive actions for this client */
+  clientId?: string;
+
+  /** Only receive actions for this tab */
+  tabId?: string;
+}
+
+/**
+ * Action waiting for its result
+ */
+interface PendingAction {
+  queued: QueuedAction;
+  resolve: (result: ActionResult) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Long-poll request waiting for an action
+ */
+interface PollWaiter {
+  filter: ActionFilter;
+  resolve: (queued: QueuedAction | null) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Per-session action queue with result correlation
+ */
+export class ActionChannel {
+  /** Actions not yet delivered, by session ID */
+  private queues: Map<string, QueuedAction[]> = new Map();
+
+  /** Actions waiting for their result, by action ID */
+  private pending: Map<string, PendingAction> = new Map();
+
+  /** Long-poll requests waiting for an action */
+  private waiters: PollWaiter[] = [];
+
+  /**
+   * Queue an action for a tab and wait for its result
+   *
+   * @param clientId ID of the client owning the tab
+   * @param tabId ID of the tab to execute the action in
+   * @param action Action to execute
+   * @param timeout Time in milliseconds to wait for the result
+   * @param signal Signal that cancels the action, removing it from the queue if it was not delivered yet
+   * @returns Promise resolving to the reported action result
+   */
+  dispatch(
+    clientId: string,
+    tabId: string,
+    action: Action,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<ActionResult> {
+    const queued: QueuedAction = {
+      id: uuidv4(),
+      clientId,
+      tabId,
+      action,
+      timestamp: Date.now()
+    };
+    
+    return new Promise<ActionResult>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new ModelEyesError('AccessError', `Action ${action.type} was cancelled`, { actionId: queued.id, clientId, tabId }));
+        return;
+      }
+      
+      const cancel = (error: ModelEyesError) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pending.delete(queued.id);
+        this.removeFromQueue(queued);
+        reject(error);
+      };
+      
+      const onAbort = () => cancel(new ModelEyesError(
+        'AccessError',
+        `Action ${action.type} was cancelled`,
+        { actionId: queued.id, clientId, tabId }
+      ));
+      
+      const timer = setTimeout(() => cancel(new ModelEyesError(
+        'TimeoutError',
+        `No result for action ${action.type} on element ${action.targetId} within ${timeout}ms`,
+        { actionId: queued.id, clientId, tabId }
+      )), timeout);
+      
+      signal?.addEventListener('abort', onAbort);
+      this.pending.set(queued.id, {
+        queued,
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        timer
+      });
+      this.deliver(queued);
+    });
+  }
+
+  /**
+   * Wait for the next action to execute
+   *
+   * @param filter Criteria the action must match (any action if empty)
+   * @param wait Time in milliseconds to wait for an action to be queued
+   * @param signal Signal that stops waiting, e.g. when the requester disconnects
+   * @returns Promise resolving to the next action, or null if none was queued in time
+   */
+  next(filter: ActionFilter, wait: number, signal?: AbortSignal): Promise<QueuedAction | null> {
+    const queued = this.takeFromQueue(filter);
+    if (queued || wait <= 0 || signal?.aborted) {
+      return Promise.resolve(queued);
+    }
+    
+    return new Promise<QueuedAction | null>((resolve) => {
+      const onAbort = () => {
+        this.removeWaiter(waiter);
+        waiter.resolve(null);
+      };
+      
+      const waiter: PollWaiter = {
+        filter,
+        resolve: next => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(next);
+        },
+        timer: setTimeout(() => {
+          this.removeWaiter(waiter);
+          waiter.resolve(null);
+        }, wait)
+      };
+      
+      signal?.addEventListener('abort', onAbort);
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Report the result of an action
+   *
+   * @param actionId ID of the action
+   * @param result Result of executing the action
+   * @param reporter Client and tab reporting the result, which must be those
+   * the action was queued for
+   * @returns Whether an action was waiting for this result
+   * @throws ModelEyesError with code `AccessError` if the action was queued
+   * for another client or tab
+   */
+  resolve(actionId: string, result: ActionResult, reporter?: Required<ActionFilter>): boolean {
+    const pending = this.pending.get(actionId);
+    if (!pending) {
+      return false;
+    }
+    
+    const { clientId, tabId } = pending.queued;
+    if (reporter && (reporter.clientId !== clientId || reporter.tabId !== tabId)) {
+      throw new ModelEyesError('AccessError', `Action ${actionId} was not queued for this tab`, {
+        actionId,
+        clientId: reporter.clientId,
+        tabId: reporter.tabId
+      });
+    }
+    
+    clearTimeout(pending.timer);
+    this.pending.delete(actionId);
+    pending.resolve(result);
+    return true;
+  }
+
+  /**
+   * Return an action that could not be delivered, e.g. because the poll
+   * request it was handed to closed before responding
+   *
+   * The action goes to the next matching poll request, ahead of the actions
+   * queued after it.
+   *
+   * @param queued Action to return
+   * @returns Whether the action still waits for its result and was returned
+   */
+  requeue(queued: QueuedAction): boolean {
+    if (!this.pending.has(queued.id)) {
+      return false;
+    }
+    
+    this.deliver(queued, true);
+    return true;
+  }
+
+  /**
+   * Cancel the actions of a tab, e.g. when its session ends
+   *
+   * Actions still queued and actions waiting for their result are rejected.
+   *
+   * @param clientId ID of the client owning the tab
+   * @param tabId ID of the tab
+   * @returns Number of cancelled actions
+   */
+  cancelSession(clientId: string, tabId: string): number {
+    const sessionId = SessionManager.getSessionId(clientId, tabId);
+    let cancelled = 0;
+    
+    for (const pending of Array.from(this.pending.values())) {
+      const { id, clientId: actionClientId, tabId: actionTabId } = pending.queued;
+      if (actionClientId !== clientId || actionTabId !== tabId) {
+        continue;
+      }
+      
+      clearTimeout(pending.timer);
+      this.pending.delete(id);
+      pending.reject(new ModelEyesError('AccessError', `Session ${sessionId} ended`, { actionId: id, clientId, tabId }));
+      cancelled++;
+    }
+    
+    this.queues.delete(sessionId);
+    return cancelled;
+  }
+
+  /**
+   * Get the number of actions waiting for their result
+   */
+  pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Reject all pending actions and release all waiting requests
+   */
+  dispose(): void {
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(new ModelEyesError('AccessError', 'Action channel closed', { actionId: pending.queued.id }));
+    }
+    
+    for (const waiter of this.waiters) {
+      clearTimeout(waiter.timer);
+      waiter.resolve(null);
+    }
+    
+    this.pending.clear();
+    this.queues.clear();
+    this.waiters = [];
+  }
+
+  /**
+   * Hand an action to a waiting request, or queue it
+   *
+   * @param queued Action to deliver
+   * @param first Whether to queue the action ahead of the queued ones
+   */
+  private deliver(queued: QueuedAction, first: boolean = false): void {
+    const waiter = this.waiters.find(candidate => this.matches(queued, candidate.filter));
+    if (waiter) {
+      this.removeWaiter(waiter);
+      waiter.resolve(queued);
+      return;
+    }
+    
+    const sessionId = SessionManager.getSessionId(queued.clientId, queued.tabId);
+    const queue = this.queues.get(sessionId) ?? [];
+    if (first) {
+      queue.unshift(queued);
+    } else {
+      queue.push(queued);
+    }
+    this.queues.set(sessionId, queue);
+  }
+
+  /**
+   * Check whether an action matches a poll filter
+   *
+   * @param queued Action to check
+   * @param filter Criteria the action must match
+   * @returns Whether the action matches
+   */
+  private matches(queued: QueuedAction, filter: ActionFilter): boolean {
+    return (!filter.clientId || filter.clientId === queued.clientId) &&
+           (!filter.tabId || filter.tabId === queued.tabId);
+  }
+
+  /**
+   * Take the oldest queued action
+   *
+   * @param filter Criteria the action must match
+   * @returns The oldest matching action, or null if none is queued
+   */
+  private takeFromQueue(filter: ActionFilter): QueuedAction | null {
+    let oldest: QueuedAction[] | undefined;
+    
+    for (const queue of this.queues.values()) {
+      if (this.matches(queue[0], filter) && (!oldest || queue[0].timestamp < oldest[0].timestamp)) {
+        oldest = queue;
+      }
+    }
+    
+    if (!oldest) {
+      return null;
+    }
+    
+    const queued = oldest.shift()!;
+    this.removeFromQueue(queued);
+    
+    return queued;
+  }
+
+  /**
+   * Remove an action that has not been delivered yet
+   *
+   * @param queued Action to remove
+   */
+  private removeFromQueue(queued: QueuedAction): void {
+    const sessionId = SessionManager.getSessionId(queued.clientId, queued.tabId);
+    const queue = this.queues.get(sessionId);
+    if (!queue) {
+      return;
+    }
+    
+    const index = queue.indexOf(queued);
+    if (index !== -1) {
+      queue.splice(index, 1);
+    }
+    
+    if (queue.length === 0) {
+      this.queues.delete(sessionId);
+    }
+  }
+
+  /**
+   * Remove a long-poll request from the waiting list
+   *
+   * @param waiter Request to remove
+   */
+  private removeWaiter(waiter: PollWaiter): void {
+    clearTimeout(waiter.timer);
+    
+    const index = this.waiters.indexOf(waiter);
+    if (index !== -1) {
+      this.waiters.splice(index, 1);
+    }
+  }
+}
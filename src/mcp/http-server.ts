@@ -7,7 +7,51 @@
 
 import express, { Request, Response } from 'express';
 import cors from 'cors';
-import { UIState, DifferentialUpdate, UIElement } from '../common/types';
+import { v4 as uuidv4 } from 'uuid';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { UIState, DifferentialUpdate, UIElement, ActionType, ActionResult, WaitCondition, WaitResult } from '../common/types';
+import { searchElements, executeQuery, QUERY_TYPES } from '../common/query';
+import { ModelEyesError } from '../common/errors';
+import { validateAction } from '../common/actions';
+import { waitForCondition, validateWaitCondition } from '../common/wait';
+import { ModelEyesMcpServer } from './ui-server';
+import { ActionChannel, ActionFilter } from './action-channel';
+import { SessionManager, UISession } from './session';
+import { StateEvent, StateEventStream } from './state-stream';
+import { WebSocketServerTransport, WebSocketConnection, WebSocketMessageHandler } from '../server/websocket-server';
+
+/**
+ * Client and tab ID used when a request does not specify one
+ */
+const DEFAULT_ID = 'default';
+
+/**
+ * Options for the ModelEyes HTTP server
+ */
+export interface ModelEyesHttpServerOptions {
+  /** Time in milliseconds to wait for the extension to report an action result (default 10000) */
+  actionTimeout?: number;
+  
+  /** Maximum time in milliseconds an action poll request is held open (default 25000) */
+  pollTimeout?: number;
+  
+  /** Time in milliseconds after which an inactive session expires, 0 to keep sessions (default 1800000) */
+  sessionIdleTimeout?: number;
+  
+  /** Maximum number of previous states each session keeps (default 10) */
+  maxHistoryStates?: number;
+  
+  /** Maximum number of state events buffered for clients resuming the event stream (default 100) */
+  maxBufferedEvents?: number;
+  
+  /** Interval in milliseconds between keep-alive comments on the event stream (default 15000) */
+  streamKeepAliveInterval?: number;
+  
+  /** Interval in milliseconds between heartbeats on WebSocket connections (default 30000) */
+  heartbeatInterval?: number;
+}
 
 /**
  * ModelEyes MCP HTTP Server
@@ -18,10 +62,19 @@ import { UIState, DifferentialUpdate, UIElement } from '../common/types';
 export class ModelEyesHttpServer {
   private expressApp: express.Application;
   private server: any;
-  private currentState: UIState | null = null;
-  private stateHistory: UIState[] = [];
-  private maxHistoryStates = 10;
+  private sessions: SessionManager;
   private port: number;
+  private mcpServer: ModelEyesMcpServer;
+  private mcpTransports: Record<string, StreamableHTTPServerTransport | SSEServerTransport> = {};
+  private actionChannel: ActionChannel = new ActionChannel();
+  private stateEvents: StateEventStream;
+  private eventStreamResponses: Set<Response> = new Set();
+  private streamKeepAliveInterval: number;
+  private webSocketServer: WebSocketServerTransport | null = null;
+  private webSocketConnections: Map<string, WebSocketConnection> = new Map();
+  private heartbeatInterval: number;
+  private actionTimeout: number;
+  private pollTimeout: number;
 
   /**
    * Create a new ModelEyes HTTP server
@@ -29,17 +82,42 @@ export class ModelEyesHttpServer {
    * @param port HTTP port to listen on
    * @param name Server name
    * @param version Server version
+   * @param options Server options
    */
-  constructor(port: number = 3000, name: string = 'model-eyes', version: string = '0.1.0') {
+  constructor(
+    port: number = 3000,
+    name: string = 'model-eyes',
+    version: string = '0.1.0',
+    options: ModelEyesHttpServerOptions = {}
+  ) {
     this.port = port;
+    this.actionTimeout = options.actionTimeout ?? 10000;
+    this.pollTimeout = options.pollTimeout ?? 25000;
+    this.sessions = new SessionManager(
+      options.sessionIdleTimeout ?? 30 * 60 * 1000,
+      options.maxHistoryStates ?? 10,
+      session => this.releaseSession(session)
+    );
+    this.stateEvents = new StateEventStream(options.maxBufferedEvents ?? 100);
+    this.streamKeepAliveInterval = options.streamKeepAliveInterval ?? 15000;
+    this.heartbeatInterval = options.heartbeatInterval ?? 30000;
+
+    // Initialize the MCP server shared by all MCP sessions, each seeing the states of one UI session
+    this.mcpServer = new ModelEyesMcpServer(name, version, {
+      actionHandler: (actionType, targetId, data, sessionId, signal) =>
+        this.executeAction(actionType, targetId, data, sessionId, undefined, signal),
+      waitHandler: (condition, timeout, sessionId, signal) => this.waitFor(condition, sessionId, timeout, signal),
+      uiSessions: this.sessions
+    });
 
     // Initialize Express app
     this.expressApp = express();
     this.expressApp.use(express.json({ limit: '50mb' }));
-    this.expressApp.use(cors());
+    this.expressApp.use(cors({ exposedHeaders: ['Mcp-Session-Id'] }));
 
     // Set up routes
     this.setupRoutes();
+    this.setupMcpRoutes();
   }
 
   /**
@@ -51,20 +129,106 @@ export class ModelEyesHttpServer {
       res.status(200).json({ status: 'ok' });
     });
 
+    // Endpoint for the Chrome extension to report action results
+    this.expressApp.post('/api/actions/:actionId/result', (req: Request, res: Response) => {
+      const result = req.body as ActionResult;
+      
+      if (!result || typeof result.success !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid action result'
+        });
+        return;
+      }
+      
+      let resolved: boolean;
+      try {
+        // Only the client and tab the action was queued for may report its result
+        resolved = this.actionChannel.resolve(String(req.params.actionId), result, {
+          clientId: this.getClientId(req) ?? DEFAULT_ID,
+          tabId: req.query.tabId ? String(req.query.tabId) : DEFAULT_ID
+        });
+      } catch (error) {
+        res.status(403).json({
+          success: false,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        return;
+      }
+      
+      if (!resolved) {
+        res.status(404).json({
+          success: false,
+          error: `No pending action with ID ${req.params.actionId}`
+        });
+        return;
+      }
+      
+      res.status(200).json({ success: true });
+    });
+
+    // Endpoint to list the active sessions
+    this.expressApp.get('/api/sessions', (req: Request, res: Response) => {
+      const sessions = this.sessions.list().map(session => session.getSummary());
+      
+      res.status(200).json({
+        success: true,
+        sessions,
+        count: sessions.length
+      });
+    });
+
+    // Endpoint to get a summary of a session
+    this.expressApp.get('/api/sessions/:sessionId', (req: Request, res: Response) => {
+      const session = this.sessions.get(String(req.params.sessionId));
+      if (!session) {
+        this.sendSessionNotFound(res, String(req.params.sessionId));
+        return;
+      }
+      
+      res.status(200).json(session.getSummary());
+    });
+
+    // Endpoint to end a session
+    this.expressApp.delete('/api/sessions/:sessionId', (req: Request, res: Response) => {
+      if (!this.sessions.remove(String(req.params.sessionId))) {
+        this.sendSessionNotFound(res, String(req.params.sessionId));
+        return;
+      }
+      
+      res.status(200).json({ success: true });
+    });
+
+    // Session-scoped routes, e.g. GET /api/sessions/{clientId}:{tabId}/ui-state
+    this.expressApp.use('/api/sessions/:sessionId', this.createStateRouter());
+
+    // Routes on the session of the requesting client and tab, or the most recently updated one
+    this.expressApp.use('/api', this.createStateRouter());
+
+    // Serve static files for the demo UI
+    this.expressApp.use(express.static('public'));
+  }
+
+  /**
+   * Create the router for the UI state routes
+   *
+   * The same routes are mounted at `/api` and at `/api/sessions/:sessionId`.
+   * Without a session ID in the path, the session is selected by the client ID
+   * (`X-Client-Id` header or `clientId` query parameter) and `tabId` query parameter.
+   *
+   * @returns Express router
+   */
+  private createStateRouter(): express.Router {
+    const router = express.Router({ mergeParams: true });
+
     // Endpoint to receive UI state from Chrome extension
-    this.expressApp.post('/api/ui-state', (req: Request, res: Response) => {
+    router.post('/ui-state', (req: Request, res: Response) => {
       try {
         const uiState = req.body as UIState;
         
         // Store the original HTML for each element
         if (uiState.elements) {
-          Object.values(uiState.elements).forEach(element => {
-            // Make sure the html property is preserved
-            if (!element.html) {
-              // If no HTML is provided, create a placeholder based on the element type
-              element.html = `<${element.type}>${element.text || ''}</${element.type}>`;
-            }
-          });
+          this.ensureElementHtml(uiState.elements);
         }
         
         // Validate the UI state
@@ -72,13 +236,22 @@ export class ModelEyesHttpServer {
           throw new Error('Invalid UI state');
         }
         
+        // Find the session the state belongs to
+        const session = req.params.sessionId ?
+          this.getSession(req, res) :
+          this.sessions.getOrCreate(this.getClientId(req) ?? DEFAULT_ID, req.query.tabId ? String(req.query.tabId) : DEFAULT_ID);
+        if (!session) {
+          return;
+        }
+        
         // Store the UI state
-        this.updateCurrentState(uiState);
+        this.updateCurrentState(session, uiState);
         
         // Return success response
         res.status(200).json({
           success: true,
           message: `Received UI state with ${Object.keys(uiState.elements).length} elements`,
+          sessionId: session.id,
           timestamp: new Date().toISOString()
         });
       } catch (error) {
@@ -90,125 +263,235 @@ export class ModelEyesHttpServer {
       }
     });
 
+    // Endpoint to receive a differential update to the UI state from Chrome extension
+    router.post('/ui-state/diff', (req: Request, res: Response) => {
+      try {
+        const update = req.body as DifferentialUpdate;
+        
+        // Validate the update
+        if (!update || typeof update.baseVersion !== 'string' || typeof update.version !== 'string') {
+          throw new ModelEyesError('ValidationError', 'Invalid differential update');
+        }
+        
+        // Find the session the update belongs to
+        let session: UISession | undefined;
+        if (req.params.sessionId) {
+          session = this.getSession(req, res);
+          if (!session) {
+            return;
+          }
+        } else {
+          session = this.sessions.get(SessionManager.getSessionId(
+            this.getClientId(req) ?? DEFAULT_ID,
+            req.query.tabId ? String(req.query.tabId) : DEFAULT_ID
+          ));
+        }
+        
+        // The update must apply to the state the server holds, otherwise the client has to resync
+        const currentVersion = session?.getCurrentState()?.version;
+        if (!session || currentVersion !== update.baseVersion) {
+          this.sendResyncRequired(res, update.baseVersion, currentVersion);
+          return;
+        }
+        
+        if (update.added) {
+          this.ensureElementHtml(update.added);
+        }
+        
+        // Apply the update
+        this.processUpdate(update, session.id);
+        
+        res.status(200).json({
+          success: true,
+          message: `Applied update with ${Object.keys(update.added ?? {}).length} added, ` +
+            `${Object.keys(update.modified ?? {}).length} modified and ${(update.removed ?? []).length} removed elements`,
+          sessionId: session.id,
+          version: update.version,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        console.error('Error processing UI state update:', error);
+        res.status(400).json({
+          success: false,
+          code: error instanceof ModelEyesError ? error.code : undefined,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    });
+
     // Endpoint to execute an action on a UI element
-    this.expressApp.post('/api/execute-action', (req: Request, res: Response) => {
+    router.post('/execute-action', async (req: Request, res: Response) => {
       try {
-        const { actionType, elementId, data } = req.body;
+        const { actionType, elementId, data, tabId, timeout } = req.body;
         
         // Validate the action
         if (!actionType || !elementId) {
-          throw new Error('Invalid action');
+          throw new ModelEyesError('ValidationError', 'Invalid action');
         }
         
-        // Check if we have a current state
-        if (!this.currentState) {
-          throw new Error('No UI state available');
+        // Target the tab given in the body, or the session the request resolves to
+        let sessionId: string | undefined;
+        if (req.params.sessionId) {
+          sessionId = String(req.params.sessionId);
+        } else if (tabId !== undefined) {
+          sessionId = SessionManager.getSessionId(this.getClientId(req) ?? DEFAULT_ID, String(tabId));
+        } else {
+          sessionId = this.getSession(req, res, false)?.id;
         }
         
-        // Check if the element exists
-        if (!this.currentState.elements[elementId]) {
-          throw new Error(`Element with ID ${elementId} not found`);
-        }
+        // Cancel the action when the requester disconnects before its result arrives
+        const abortController = new AbortController();
+        res.on('close', () => abortController.abort());
+        
+        // Deliver the action to the extension and wait for its result
+        const result = await this.executeAction(actionType, elementId, data, sessionId, timeout, abortController.signal);
         
-        // Return success response (in a real implementation, this would actually execute the action)
         res.status(200).json({
-          success: true,
-          message: `Action ${actionType} executed on element ${elementId}`,
+          success: result.success,
+          message: result.success ?
+            `Action ${actionType} executed on element ${elementId}` :
+            `Action ${actionType} failed on element ${elementId}`,
+          result,
           timestamp: new Date().toISOString()
         });
       } catch (error) {
         console.error('Error executing action:', error);
-        res.status(400).json({
+        const code = error instanceof ModelEyesError ? error.code : undefined;
+        res.status(code === 'TimeoutError' ? 504 : 400).json({
           success: false,
+          code,
           error: error instanceof Error ? error.message : String(error)
         });
       }
     });
 
-    // Endpoint to get the current UI state
-    this.expressApp.get('/api/ui-state', (req: Request, res: Response) => {
-      if (!this.currentState) {
-        res.status(404).json({
+    // Endpoint to wait for a condition on the UI state
+    router.post('/wait-for', async (req: Request, res: Response) => {
+      try {
+        const { condition, tabId, timeout } = req.body ?? {};
+        
+        // Wait in the tab given in the body, or the session the request resolves to
+        let sessionId: string | undefined;
+        if (req.params.sessionId) {
+          sessionId = String(req.params.sessionId);
+        } else if (tabId !== undefined) {
+          sessionId = SessionManager.getSessionId(this.getClientId(req) ?? DEFAULT_ID, String(tabId));
+        } else {
+          sessionId = this.getSession(req, res, false)?.id;
+        }
+        
+        // Stop waiting when the requester disconnects
+        const abortController = new AbortController();
+        res.on('close', () => abortController.abort());
+        
+        const result = await this.waitFor(condition, sessionId, timeout, abortController.signal);
+        
+        res.status(200).json({
+          success: true,
+          result,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        const code = error instanceof ModelEyesError ? error.code : undefined;
+        res.status(code === 'TimeoutError' ? 504 : 400).json({
           success: false,
-          error: 'No UI state available'
+          code,
+          error: error instanceof Error ? error.message : String(error)
         });
+      }
+    });
+
+    // Endpoint polled by the Chrome extension for actions to execute
+    router.get('/actions/next', async (req: Request, res: Response) => {
+      let filter: ActionFilter;
+      
+      if (req.params.sessionId) {
+        const session = this.getSession(req, res);
+        if (!session) {
+          return;
+        }
+        
+        filter = { clientId: session.clientId, tabId: session.tabId };
+      } else {
+        // Without a client or tab ID, actions for any session are delivered
+        filter = {
+          clientId: this.getClientId(req),
+          tabId: req.query.tabId ? String(req.query.tabId) : undefined
+        };
+      }
+      
+      await this.sendNextAction(req, res, filter);
+    });
+
+    // Endpoint to get the current UI state
+    router.get('/ui-state', (req: Request, res: Response) => {
+      const state = this.getSession(req, res)?.getCurrentState();
+      if (!state) {
+        this.sendNoState(res);
         return;
       }
       
-      res.status(200).json(this.currentState);
+      res.status(200).json(state);
+    });
+
+    // Endpoint streaming UI state changes as Server-Sent Events
+    router.get('/ui-state/stream', (req: Request, res: Response) => {
+      // Stream the events of one session, or of all sessions
+      let sessionId: string | undefined;
+      if (req.params.sessionId) {
+        const session = this.getSession(req, res);
+        if (!session) {
+          return;
+        }
+        
+        sessionId = session.id;
+      } else if (req.query.tabId) {
+        sessionId = SessionManager.getSessionId(this.getClientId(req) ?? DEFAULT_ID, String(req.query.tabId));
+      }
+      
+      this.openEventStream(req, res, sessionId);
     });
 
-    // Endpoint to find elements by criteria
     // Endpoint to filter UI state to only relevant elements
-    this.expressApp.get('/api/ui-state/filtered', (req: Request, res: Response) => {
-      if (!this.currentState) {
-        res.status(404).json({
-          success: false,
-          error: 'No UI state available'
-        });
+    router.get('/ui-state/filtered', (req: Request, res: Response) => {
+      const state = this.getSession(req, res)?.getCurrentState();
+      if (!state) {
+        this.sendNoState(res);
         return;
       }
       
-      const filteredState = this.filterRelevantElements(this.currentState);
+      const filteredState = this.filterRelevantElements(state);
       res.status(200).json(filteredState);
     });
-    
-    this.expressApp.post('/api/find-elements', (req: Request, res: Response) => {
+
+    // Endpoint to find elements by criteria
+    router.post('/find-elements', (req: Request, res: Response) => {
       try {
-        const { type, text, interactable, visible, limit = 10 } = req.body;
+        const { selector, type, text, role, attributes, bounds, interactable, visible, limit = 10 } = req.body;
         
         // Check if we have a current state
-        if (!this.currentState) {
-          throw new Error('No UI state available');
+        const state = this.getSession(req, res)?.getCurrentState();
+        if (!state) {
+          this.sendNoState(res);
+          return;
         }
         
         // Find matching elements
-        const matches = Object.entries(this.currentState.elements)
-          .filter(([_, element]) => {
-            // Match type if specified
-            if (type && element.type !== type) {
-              return false;
-            }
-            
-            // Match text if specified
-            if (text && (!element.text || !element.text.includes(text))) {
-              return false;
-            }
-            
-            // Match interactable if specified
-            if (interactable !== undefined && element.interactable !== interactable) {
-              return false;
-            }
-            
-            // Match visibility if specified
-            if (visible === true) {
-              // Check if element has style attribute with display: none or visibility: hidden
-              if (element.attributes &&
-                  ((element.attributes.style &&
-                    (element.attributes.style.includes('display: none') ||
-                     element.attributes.style.includes('visibility: hidden'))) ||
-                   element.attributes.hidden === 'true' ||
-                   element.attributes.hidden === '' ||
-                   element.attributes['aria-hidden'] === 'true')) {
-                return false;
-              }
-            }
-            
-            return true;
-          })
-          .map(([id, element]) => ({
-            id,
-            type: element.type,
-            text: element.text,
-            interactable: element.interactable,
-            bounds: element.bounds
-          }))
-          .slice(0, limit);
+        const result = searchElements(state, {
+          selector,
+          type,
+          text,
+          role,
+          attributes,
+          bounds,
+          interactable,
+          visible,
+          limit
+        });
         
         res.status(200).json({
           success: true,
-          elements: matches,
-          count: matches.length
+          ...result
         });
       } catch (error) {
         console.error('Error finding elements:', error);
@@ -219,8 +502,318 @@ export class ModelEyesHttpServer {
       }
     });
 
-    // Serve static files for the demo UI
-    this.expressApp.use(express.static('public'));
+    // Endpoint to answer an elementState, elementSearch or elementPath query
+    router.post('/query', (req: Request, res: Response) => {
+      const state = this.getSession(req, res)?.getCurrentState();
+      if (!state) {
+        this.sendNoState(res);
+        return;
+      }
+      
+      try {
+        const { queryType, parameters = {} } = req.body ?? {};
+        if (!QUERY_TYPES.includes(queryType)) {
+          throw new ModelEyesError('ValidationError', `queryType must be one of ${QUERY_TYPES.join(', ')}`, { queryType });
+        }
+        
+        res.status(200).json({
+          success: true,
+          queryType,
+          version: state.version,
+          result: executeQuery(state, queryType, parameters)
+        });
+      } catch (error) {
+        res.status(400).json({
+          success: false,
+          code: error instanceof ModelEyesError ? error.code : undefined,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    });
+
+    return router;
+  }
+
+  /**
+   * Get the client ID of a request
+   *
+   * @param req Express request
+   * @returns The client ID from the `X-Client-Id` header or `clientId` query parameter, if any
+   */
+  private getClientId(req: Request): string | undefined {
+    return req.header('x-client-id') ?? (req.query.clientId ? String(req.query.clientId) : undefined);
+  }
+
+  /**
+   * Get the session a request addresses
+   *
+   * A session ID in the path must name an existing session. Otherwise the session
+   * of the requesting client and tab is used when a tab ID is given, and the most
+   * recently updated session when it is not.
+   *
+   * @param req Express request
+   * @param res Express response, used to report an unknown session
+   * @param required Whether to respond with 404 when the session is unknown
+   * @returns The session, or undefined if none was found
+   */
+  private getSession(req: Request, res: Response, required: boolean = true): UISession | undefined {
+    let session: UISession | undefined;
+    
+    if (req.params.sessionId) {
+      session = this.sessions.get(String(req.params.sessionId));
+      if (!session && required) {
+        this.sendSessionNotFound(res, String(req.params.sessionId));
+        return undefined;
+      }
+    } else if (req.query.tabId) {
+      session = this.sessions.get(SessionManager.getSessionId(this.getClientId(req) ?? DEFAULT_ID, String(req.query.tabId)));
+    } else {
+      session = this.sessions.getMostRecent();
+    }
+    
+    session?.touch();
+    return session;
+  }
+
+  /**
+   * Respond to an action poll with the next matching action
+   *
+   * @param req Express request
+   * @param res Express response
+   * @param filter Criteria the action must match
+   */
+  private async sendNextAction(req: Request, res: Response, filter: ActionFilter): Promise<void> {
+    const wait = Math.min(
+      req.query.wait !== undefined ? parseInt(String(req.query.wait), 10) || 0 : this.pollTimeout,
+      this.pollTimeout
+    );
+    
+    // Stop waiting if the extension disconnects
+    const abortController = new AbortController();
+    res.on('close', () => abortController.abort());
+    
+    const queued = await this.actionChannel.next(filter, wait, abortController.signal);
+    if (abortController.signal.aborted || res.destroyed || res.writableEnded) {
+      // The extension is gone, so the next poll gets the action instead
+      if (queued) {
+        this.actionChannel.requeue(queued);
+      }
+      return;
+    }
+    
+    if (!queued) {
+      res.status(204).end();
+      return;
+    }
+    
+    res.status(200).json(queued);
+  }
+
+  /**
+   * Respond to a request for a session that does not exist
+   *
+   * @param res Express response
+   * @param sessionId ID of the requested session
+   */
+  private sendSessionNotFound(res: Response, sessionId: string): void {
+    res.status(404).json({
+      success: false,
+      error: `Session ${sessionId} not found`
+    });
+  }
+
+  /**
+   * Respond to a differential update that does not apply to the session's state
+   *
+   * The response asks the client to send a full state to `/ui-state` before
+   * sending further updates.
+   *
+   * @param res Express response
+   * @param baseVersion Base version of the rejected update
+   * @param currentVersion Version of the session's current state, if any
+   */
+  private sendResyncRequired(res: Response, baseVersion: string, currentVersion?: string): void {
+    res.status(409).json({
+      success: false,
+      code: 'ValidationError',
+      error: currentVersion ?
+        `Update base version ${baseVersion} does not match current state version ${currentVersion}` :
+        'No current state available',
+      resync: true,
+      baseVersion,
+      currentVersion
+    });
+  }
+
+  /**
+   * Make sure every element carries HTML, creating a placeholder where it is missing
+   *
+   * @param elements Elements to check
+   */
+  private ensureElementHtml(elements: Record<string, UIElement>): void {
+    Object.values(elements).forEach(element => {
+      // Make sure the html property is preserved
+      if (!element.html) {
+        // If no HTML is provided, create a placeholder based on the element type
+        element.html = `<${element.type}>${element.text || ''}</${element.type}>`;
+      }
+    });
+  }
+
+  /**
+   * Respond to a request for a UI state when none is available
+   *
+   * @param res Express response
+   */
+  private sendNoState(res: Response): void {
+    if (res.headersSent) {
+      return;
+    }
+    
+    res.status(404).json({
+      success: false,
+      error: 'No UI state available'
+    });
+  }
+
+  /**
+   * Set up MCP routes
+   *
+   * The MCP tool, resource and prompt surface is served over the Streamable HTTP
+   * transport at `/mcp`, with the deprecated HTTP+SSE transport at `/sse` and
+   * `/messages` as a fallback for older clients. Every session gets its own ID.
+   */
+  private setupMcpRoutes(): void {
+    // Streamable HTTP: client-to-server messages and session initialization
+    this.expressApp.post('/mcp', async (req: Request, res: Response) => {
+      try {
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+        let transport: StreamableHTTPServerTransport;
+
+        if (sessionId && this.mcpTransports[sessionId] instanceof StreamableHTTPServerTransport) {
+          // Reuse the transport of an existing session
+          transport = this.mcpTransports[sessionId] as StreamableHTTPServerTransport;
+        } else if (!sessionId && isInitializeRequest(req.body)) {
+          // Start a new session
+          transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => uuidv4(),
+            onsessioninitialized: (newSessionId) => {
+              this.mcpTransports[newSessionId] = transport;
+            }
+          });
+
+          transport.onclose = () => {
+            if (transport.sessionId) {
+              delete this.mcpTransports[transport.sessionId];
+            }
+          };
+
+          await this.mcpServer.connect(transport, this.getMcpUISessionId(req));
+        } else {
+          this.sendMcpSessionError(res, sessionId);
+          return;
+        }
+
+        await transport.handleRequest(req, res, req.body);
+      } catch (error) {
+        console.error('Error handling MCP request:', error);
+        if (!res.headersSent) {
+          res.status(500).json({
+            jsonrpc: '2.0',
+            error: { code: -32603, message: 'Internal server error' },
+            id: null
+          });
+        }
+      }
+    });
+
+    // Streamable HTTP: server-to-client stream (GET) and session teardown (DELETE)
+    const handleSessionRequest = async (req: Request, res: Response) => {
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      const transport = sessionId ? this.mcpTransports[sessionId] : undefined;
+
+      if (!(transport instanceof StreamableHTTPServerTransport)) {
+        this.sendMcpSessionError(res, sessionId);
+        return;
+      }
+
+      await transport.handleRequest(req, res);
+    };
+
+    this.expressApp.get('/mcp', handleSessionRequest);
+    this.expressApp.delete('/mcp', handleSessionRequest);
+
+    // HTTP+SSE fallback: open the event stream
+    this.expressApp.get('/sse', async (req: Request, res: Response) => {
+      const transport = new SSEServerTransport('/messages', res);
+      this.mcpTransports[transport.sessionId] = transport;
+
+      res.on('close', () => {
+        delete this.mcpTransports[transport.sessionId];
+        transport.close().catch(error => {
+          console.error('Error closing SSE transport:', error);
+        });
+      });
+
+      await this.mcpServer.connect(transport, this.getMcpUISessionId(req));
+    });
+
+    // HTTP+SSE fallback: client-to-server messages
+    this.expressApp.post('/messages', async (req: Request, res: Response) => {
+      const sessionId = req.query.sessionId as string | undefined;
+      const transport = sessionId ? this.mcpTransports[sessionId] : undefined;
+
+      if (!(transport instanceof SSEServerTransport)) {
+        this.sendMcpSessionError(res, sessionId);
+        return;
+      }
+
+      await transport.handlePostMessage(req, res, req.body);
+    });
+  }
+
+  /**
+   * Get the UI session an MCP session sees
+   *
+   * MCP clients choose a tab with the `tabId` query parameter when they connect,
+   * along with the client ID as for the other routes. Without a tab ID, the MCP
+   * session sees the most recently updated UI session.
+   *
+   * @param req Express request starting the MCP session
+   * @returns ID of the UI session, or undefined for the most recently updated one
+   */
+  private getMcpUISessionId(req: Request): string | undefined {
+    if (!req.query.tabId) {
+      return undefined;
+    }
+    
+    return SessionManager.getSessionId(this.getClientId(req) ?? DEFAULT_ID, String(req.query.tabId));
+  }
+
+  /**
+   * Respond to an MCP request that has no valid session
+   *
+   * @param res Express response
+   * @param sessionId Session ID sent by the client, if any
+   */
+  private sendMcpSessionError(res: Response, sessionId?: string): void {
+    res.status(sessionId ? 404 : 400).json({
+      jsonrpc: '2.0',
+      error: {
+        code: -32000,
+        message: sessionId ? `Session ${sessionId} not found` : 'No valid session ID provided'
+      },
+      id: null
+    });
+  }
+
+  /**
+   * Get the MCP server exposing this server's UI state
+   *
+   * @returns The MCP server
+   */
+  getMcpServer(): ModelEyesMcpServer {
+    return this.mcpServer;
   }
 
   /**
@@ -232,89 +825,373 @@ export class ModelEyesHttpServer {
       console.log(`ModelEyes HTTP server listening on port ${this.port}`);
     });
 
+    // Accept protocol clients over WebSocket on the same port
+    this.webSocketServer = new WebSocketServerTransport(this.createWebSocketHandler(), {
+      server: this.server,
+      path: '/ws',
+      heartbeatInterval: this.heartbeatInterval,
+      requestTimeout: this.actionTimeout
+    });
+
     console.log(`ModelEyes HTTP server started on port ${this.port}`);
   }
 
   /**
-   * Update the current state and maintain history
-   * 
-   * @param state New UI state
+   * Create the handler for protocol messages received over WebSocket
+   *
+   * Each connection feeds the session of the client and tab given by its
+   * `clientId` and `tabId` query parameters, and actions on that session are
+   * sent to the connection instead of the extension's action queue.
+   *
+   * @returns WebSocket message handler
    */
-  private updateCurrentState(state: UIState): void {
-    // Add current state to history if it exists
-    if (this.currentState) {
-      this.stateHistory.unshift(this.currentState);
-      
-      // Limit history size
-      if (this.stateHistory.length > this.maxHistoryStates) {
-        this.stateHistory.pop();
+  private createWebSocketHandler(): WebSocketMessageHandler {
+    const getSession = (connection: WebSocketConnection, create: boolean = false): UISession | undefined => {
+      const clientId = connection.getQueryParameter('clientId') ??
+        (connection.request.headers['x-client-id'] as string | undefined) ??
+        DEFAULT_ID;
+      const tabId = connection.getQueryParameter('tabId') ?? DEFAULT_ID;
+
+      return create ?
+        this.sessions.getOrCreate(clientId, tabId) :
+        this.sessions.get(SessionManager.getSessionId(clientId, tabId));
+    };
+
+    return {
+      initialState: (state, connection) => {
+        if (!state.elements) {
+          throw new ModelEyesError('ValidationError', 'Invalid UI state');
+        }
+
+        const session = getSession(connection, true)!;
+        this.webSocketConnections.set(session.id, connection);
+
+        this.ensureElementHtml(state.elements);
+        this.updateCurrentState(session, state);
+      },
+
+      stateUpdate: (update, connection) => {
+        const session = getSession(connection);
+        const currentVersion = session?.getCurrentState()?.version;
+
+        // Ask the client to resync if the update does not apply to the session's state
+        if (!session || currentVersion !== update.baseVersion) {
+          throw new ModelEyesError(
+            'ValidationError',
+            currentVersion ?
+              `Update base version ${update.baseVersion} does not match current state version ${currentVersion}` :
+              'No current state available',
+            { resync: true, baseVersion: update.baseVersion, currentVersion }
+          );
+        }
+
+        if (update.added) {
+          this.ensureElementHtml(update.added);
+        }
+
+        this.processUpdate(update, session.id);
+      },
+
+      event: (event, connection) => {
+        getSession(connection)?.touch();
+      },
+
+      close: (connection) => {
+        for (const [sessionId, sessionConnection] of this.webSocketConnections) {
+          if (sessionConnection === connection) {
+            this.webSocketConnections.delete(sessionId);
+          }
+        }
       }
-    }
-    
-    // Update current state
-    this.currentState = state;
+    };
   }
 
   /**
-   * Process a differential update
-   * 
-   * @param update Differential update to apply
+   * Get the session registry of this server
+   *
+   * @returns The session manager
    */
-  processUpdate(update: DifferentialUpdate): void {
-    if (!this.currentState) {
-      throw new Error('No current state available');
-    }
+  getSessions(): SessionManager {
+    return this.sessions;
+  }
 
-    // Verify that the update applies to the current state
-    if (update.baseVersion !== this.currentState.version) {
-      throw new Error(
-        `Update base version ${update.baseVersion} does not match current state version ${this.currentState.version}`
+  /**
+   * Execute an action through the Chrome extension
+   *
+   * The action is queued for the tab of the session and resolves once the
+   * extension reports its result, or fails with a `TimeoutError` when no result
+   * arrives in time.
+   *
+   * @param actionType Type of action to execute
+   * @param elementId ID of the target element
+   * @param data Additional data for the action
+   * @param sessionId ID of the session to execute the action in (defaults to the most recently updated session)
+   * @param timeout Time in milliseconds to wait for the result
+   * @param signal Signal that cancels the action
+   * @returns Promise resolving to the result of the action
+   */
+  async executeAction(
+    actionType: ActionType,
+    elementId: string,
+    data?: any,
+    sessionId?: string,
+    timeout?: number,
+    signal?: AbortSignal
+  ): Promise<ActionResult> {
+    const session = sessionId !== undefined ? this.sessions.get(sessionId) : this.sessions.getMostRecent();
+    const state = session?.getCurrentState();
+    
+    // Check if we have a current state
+    if (!session || !state) {
+      throw new ModelEyesError(
+        'AccessError',
+        sessionId !== undefined ? `No UI state available for session ${sessionId}` : 'No UI state available',
+        sessionId !== undefined ? { sessionId } : undefined
       );
     }
-
-    // Create a deep copy of the current state
-    const newState: UIState = JSON.parse(JSON.stringify(this.currentState));
     
-    // Apply the update
+    // Check if the element exists
+    if (!state.elements[elementId]) {
+      throw new ModelEyesError('ValidationError', `Element with ID ${elementId} not found`, { elementId });
+    }
     
-    // Add new elements
-    if (update.added) {
-      for (const [id, element] of Object.entries(update.added)) {
-        newState.elements[id] = element;
-      }
+    // Check the action data, including the element to drop onto
+    validateAction(actionType, data);
+    if (actionType === 'dragAndDrop' && !state.elements[data.targetId]) {
+      throw new ModelEyesError('ValidationError', `Element with ID ${data.targetId} not found`, { elementId: data.targetId });
     }
     
-    // Modify existing elements
-    if (update.modified) {
-      for (const [id, changes] of Object.entries(update.modified)) {
-        if (newState.elements[id]) {
-          Object.assign(newState.elements[id], changes);
-        }
-      }
+    session.touch();
+
+    // Clients connected over WebSocket execute actions themselves
+    const connection = this.webSocketConnections.get(session.id);
+    if (connection) {
+      return connection.requestAction(actionType, elementId, data, timeout ?? this.actionTimeout, signal);
     }
+
+    return this.actionChannel.dispatch(
+      session.clientId,
+      session.tabId,
+      { type: actionType, targetId: elementId, data },
+      timeout ?? this.actionTimeout,
+      signal
+    );
+  }
+
+  /**
+   * Wait for a condition on the UI state of a session
+   *
+   * The condition is checked against the session state whenever the extension
+   * reports a new state or an update. Network activity is not reported by the
+   * extension, so `networkIdle` conditions are not supported.
+   *
+   * @param condition Condition to wait for
+   * @param sessionId ID of the session to wait in (defaults to the most recently updated session)
+   * @param timeout Time in milliseconds to wait (default 5000)
+   * @param signal Signal that cancels the wait
+   * @returns Promise resolving to the result once the condition is met, or
+   * rejecting with a `TimeoutError` if it is not met in time
+   */
+  async waitFor(condition: WaitCondition, sessionId?: string, timeout?: number, signal?: AbortSignal): Promise<WaitResult> {
+    validateWaitCondition(condition, timeout);
     
-    // Remove elements
-    if (update.removed) {
-      for (const id of update.removed) {
-        delete newState.elements[id];
-      }
+    const session = sessionId !== undefined ? this.sessions.get(sessionId) : this.sessions.getMostRecent();
+    if (!session) {
+      throw new ModelEyesError(
+        'AccessError',
+        sessionId !== undefined ? `No UI state available for session ${sessionId}` : 'No UI state available',
+        sessionId !== undefined ? { sessionId } : undefined
+      );
     }
     
-    // Update focus and hover
-    if (update.focus !== undefined) {
-      newState.focus = update.focus || undefined;
+    // Stop waiting when the requester gives up or the session ends
+    const abortController = new AbortController();
+    const abort = () => abortController.abort();
+    signal?.addEventListener('abort', abort);
+    session.signal.addEventListener('abort', abort);
+    if (signal?.aborted || session.signal.aborted) {
+      abort();
     }
     
-    if (update.hover !== undefined) {
-      newState.hover = update.hover || undefined;
+    try {
+      return await waitForCondition(condition, {
+        getSnapshot: () => ({
+          state: session.getCurrentState(),
+          url: session.getCurrentState()?.url,
+          lastChangeTime: session.lastUpdated
+        }),
+        subscribe: listener => this.stateEvents.subscribe(listener, session.id)
+      }, timeout, abortController.signal);
+    } finally {
+      signal?.removeEventListener('abort', abort);
+      session.signal.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Release what a session holds once it is removed or expires
+   *
+   * Its WebSocket connection is closed, its queued and pending actions are
+   * rejected and MCP sessions no longer see its states. Waits on its state
+   * are cancelled through the session signal.
+   *
+   * @param session Session that ended
+   */
+  private releaseSession(session: UISession): void {
+    const connection = this.webSocketConnections.get(session.id);
+    if (connection) {
+      this.webSocketConnections.delete(session.id);
+      connection.close();
     }
     
-    // Update version and timestamp
-    newState.version = update.version;
-    newState.timestamp = update.timestamp;
+    this.actionChannel.cancelSession(session.clientId, session.tabId);
     
-    // Update the current state
-    this.updateCurrentState(newState);
+    // The session is already gone, so this only tells the MCP sessions that saw it
+    this.mcpServer.removeUISession(session.id);
+  }
+
+  /**
+   * Update the current state of a session
+   * 
+   * @param session Session the state belongs to
+   * @param state New UI state
+   */
+  private updateCurrentState(session: UISession, state: UIState): void {
+    const previousState = session.getCurrentState();
+
+    // The MCP server stores the state in the session and notifies the MCP sessions seeing it
+    this.mcpServer.setCurrentState(state, session.id);
+
+    // Notify event stream clients
+    this.publishStateChange(session, previousState, state);
+  }
+
+  /**
+   * Publish the events describing a state change to the event stream
+   *
+   * @param session Session whose state changed
+   * @param previousState State before the change, if any
+   * @param state State after the change
+   * @param update Differential update that caused the change, if any
+   */
+  private publishStateChange(
+    session: UISession,
+    previousState: UIState | null,
+    state: UIState,
+    update?: DifferentialUpdate
+  ): void {
+    if (previousState && (previousState.url !== state.url || previousState.title !== state.title)) {
+      this.stateEvents.publish(session.id, 'navigation', {
+        url: state.url,
+        title: state.title,
+        previousUrl: previousState.url,
+        previousTitle: previousState.title
+      });
+    }
+
+    if (update) {
+      this.stateEvents.publish(session.id, 'update', { update });
+    } else {
+      this.stateEvents.publish(session.id, 'state', { state });
+    }
+
+    if (previousState?.focus !== state.focus) {
+      this.stateEvents.publish(session.id, 'focus', { elementId: state.focus ?? null });
+    }
+
+    if (previousState?.hover !== state.hover) {
+      this.stateEvents.publish(session.id, 'hover', { elementId: state.hover ?? null });
+    }
+  }
+
+  /**
+   * Open a Server-Sent Events stream of state events
+   *
+   * New clients first receive a `state` event for every streamed session. Clients
+   * reconnecting with a `Last-Event-ID` header (or `lastEventId` query parameter)
+   * receive the events they missed instead, as long as those are still buffered.
+   * The initial `state` events are snapshots rather than buffered events, so
+   * they carry no ID and leave the ID a client resumes from unchanged.
+   *
+   * @param req Express request
+   * @param res Express response
+   * @param sessionId ID of the session to stream (all sessions if omitted)
+   */
+  private openEventStream(req: Request, res: Response, sessionId?: string): void {
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.flushHeaders();
+
+    const lastEventIdHeader = req.header('last-event-id') ?? (req.query.lastEventId ? String(req.query.lastEventId) : undefined);
+    const lastEventId = lastEventIdHeader !== undefined ? parseInt(lastEventIdHeader, 10) : NaN;
+    const missedEvents = !isNaN(lastEventId) ? this.stateEvents.getEventsSince(lastEventId, sessionId) : null;
+
+    if (missedEvents) {
+      missedEvents.forEach(event => this.writeStateEvent(res, event));
+    } else {
+      // Start with the current state of every streamed session
+      const sessions = sessionId ? [this.sessions.get(sessionId)] : this.sessions.list();
+      for (const session of sessions) {
+        const state = session?.getCurrentState();
+        if (session && state) {
+          this.writeStateEvent(res, {
+            type: 'state',
+            sessionId: session.id,
+            timestamp: Date.now(),
+            data: { state }
+          });
+        }
+      }
+    }
+
+    const unsubscribe = this.stateEvents.subscribe(event => this.writeStateEvent(res, event), sessionId);
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), this.streamKeepAliveInterval);
+    this.eventStreamResponses.add(res);
+
+    res.on('close', () => {
+      unsubscribe();
+      clearInterval(keepAlive);
+      this.eventStreamResponses.delete(res);
+    });
+  }
+
+  /**
+   * Write a state event to an event stream
+   *
+   * @param res Express response of the event stream
+   * @param event Event to write, without an ID for snapshots that are not buffered
+   */
+  private writeStateEvent(res: Response, event: StateEvent | Omit<StateEvent, 'id'>): void {
+    const data = { sessionId: event.sessionId, timestamp: event.timestamp, ...event.data };
+    const id = 'id' in event ? `id: ${event.id}\n` : '';
+    res.write(`${id}event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * Process a differential update
+   * 
+   * @param update Differential update to apply
+   * @param sessionId ID of the session to apply the update to (defaults to the most recently updated session)
+   * @returns The updated UI state
+   */
+  processUpdate(update: DifferentialUpdate, sessionId?: string): UIState {
+    const session = sessionId !== undefined ? this.sessions.get(sessionId) : this.sessions.getMostRecent();
+    if (!session) {
+      throw new ModelEyesError('AccessError', 'No current state available');
+    }
+
+    const previousState = session.getCurrentState();
+
+    // The MCP server applies the update to the session and notifies the MCP sessions seeing it
+    const newState = this.mcpServer.processUpdate(update, session.id);
+
+    // Notify event stream clients
+    this.publishStateChange(session, previousState, newState, update);
+
+    return newState;
   }
 
   /**
@@ -417,6 +1294,28 @@ export class ModelEyesHttpServer {
    * Close the server and clean up resources
    */
   async close(): Promise<void> {
+    // Close all MCP sessions
+    const transports = Object.values(this.mcpTransports);
+    this.mcpTransports = {};
+    await Promise.all(transports.map(transport => transport.close()));
+    await this.mcpServer.close();
+    
+    // Close WebSocket connections
+    if (this.webSocketServer) {
+      await this.webSocketServer.close();
+      this.webSocketServer = null;
+    }
+    this.webSocketConnections.clear();
+
+    // Release pending actions and waiting extension polls
+    this.actionChannel.dispose();
+    this.sessions.dispose();
+
+    // End open event streams
+    this.eventStreamResponses.forEach(res => res.end());
+    this.eventStreamResponses.clear();
+    this.stateEvents.dispose();
+
     // Close the HTTP server
     if (this.server) {
       await new Promise<void>((resolve) => {
@@ -433,10 +1332,14 @@ export class ModelEyesHttpServer {
  * Create and start a ModelEyes HTTP server
  * 
  * @param port HTTP port to listen on
+ * @param options Server options
  * @returns Promise resolving to the created server
  */
-export async function createModelEyesHttpServer(port: number = 3000): Promise<ModelEyesHttpServer> {
-  const server = new ModelEyesHttpServer(port);
+export async function createModelEyesHttpServer(
+  port: number = 3000,
+  options: ModelEyesHttpServerOptions = {}
+): Promise<ModelEyesHttpServer> {
+  const server = new ModelEyesHttpServer(port, undefined, undefined, options);
   await server.start();
   return server;
 }
@@ -447,7 +1350,9 @@ export async function createModelEyesHttpServer(port: number = 3000): Promise<Mo
 export async function runHttpServer(): Promise<void> {
   try {
     const port = process.env.PORT ? parseInt(process.env.PORT, 10) : 3000;
-    const server = await createModelEyesHttpServer(port);
+    const actionTimeout = process.env.ACTION_TIMEOUT ? parseInt(process.env.ACTION_TIMEOUT, 10) : undefined;
+    const sessionIdleTimeout = process.env.SESSION_IDLE_TIMEOUT ? parseInt(process.env.SESSION_IDLE_TIMEOUT, 10) : undefined;
+    const server = await createModelEyesHttpServer(port, { actionTimeout, sessionIdleTimeout });
     
     // Handle process termination
     process.on('SIGINT', async () => {
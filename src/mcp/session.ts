@@ -0,0 +1,415 @@
+/**
+ * ModelEyes UI Sessions
+ *
+ * This module provides per-client, per-tab UI state sessions for the HTTP and MCP servers.
+ * Each session keeps its own current state, state history and version chain, so
+ * states captured from different tabs or by different extension users do not
+ * overwrite each other.
+ */
+
+import { UIState, DifferentialUpdate } from '../common/types';
+import { ModelEyesError } from '../common/errors';
+import { applyDiff } from '../common/optimization';
+
+/**
+ * Summary of a session, as reported by the sessions endpoint
+ */
+export interface UISessionSummary {
+  /** Session identifier */
+  id: string;
+
+  /** ID of the client (extension instance) the session belongs to */
+  clientId: string;
+
+  /** ID of the browser tab the session tracks */
+  tabId: string;
+
+  /** Timestamp of when the session was created */
+  createdAt: number;
+
+  /** Timestamp of the last request made in the session */
+  lastActivity: number;
+
+  /** Version of the current state */
+  version?: string;
+
+  /** Title of the current page */
+  title?: string;
+
+  /** URL of the current page */
+  url?: string;
+
+  /** Number of elements in the current state */
+  elementCount: number;
+
+  /** Number of states in the history */
+  historySize: number;
+}
+
+/**
+ * UI state session for a single client tab
+ */
+export class UISession {
+  /** Session identifier */
+  readonly id: string;
+
+  /** ID of the client the session belongs to */
+  readonly clientId: string;
+
+  /** ID of the browser tab the session tracks */
+  readonly tabId: string;
+
+  /** Timestamp of when the session was created */
+  readonly createdAt: number;
+
+  /** Timestamp of the last request made in the session */
+  lastActivity: number;
+
+  /** Timestamp of the last state change */
+  lastUpdated = 0;
+
+  /** Signal aborted when the session ends, e.g. to stop waiting on its state */
+  readonly signal: AbortSignal;
+
+  private currentState: UIState | null = null;
+  private stateHistory: UIState[] = [];
+  private maxHistoryStates: number;
+  private endController: AbortController = new AbortController();
+
+  /** Number of updates applied since the last full state */
+  private updateCount = 0;
+
+  /** Number of the update that last changed each element */
+  private lastChanges: Map<string, number> = new Map();
+
+  /**
+   * Create a new session
+   *
+   * @param clientId ID of the client the session belongs to
+   * @param tabId ID of the browser tab the session tracks
+   * @param maxHistoryStates Maximum number of states to keep in history
+   */
+  constructor(clientId: string, tabId: string, maxHistoryStates: number = 10) {
+    this.id = SessionManager.getSessionId(clientId, tabId);
+    this.clientId = clientId;
+    this.tabId = tabId;
+    this.maxHistoryStates = maxHistoryStates;
+    this.createdAt = Date.now();
+    this.lastActivity = this.createdAt;
+    this.signal = this.endController.signal;
+  }
+
+  /**
+   * Get the current UI state
+   *
+   * @returns The current UI state
+   */
+  getCurrentState(): UIState | null {
+    return this.currentState;
+  }
+
+  /**
+   * Get the previous UI states, most recent first
+   *
+   * @returns The state history
+   */
+  getHistory(): UIState[] {
+    return [...this.stateHistory];
+  }
+
+  /**
+   * Get how recently the elements of the current state changed
+   *
+   * @returns Number of updates since each element last changed, 0 for elements
+   * changed by the latest update; elements unchanged since the last full state
+   * are not listed
+   */
+  getChangeAges(): Record<string, number> {
+    const changeAges: Record<string, number> = {};
+    for (const [id, change] of this.lastChanges) {
+      changeAges[id] = this.updateCount - change;
+    }
+    return changeAges;
+  }
+
+  /**
+   * End the session, aborting its signal
+   */
+  end(): void {
+    this.endController.abort();
+  }
+
+  /**
+   * Record activity in the session
+   */
+  touch(): void {
+    this.lastActivity = Date.now();
+  }
+
+  /**
+   * Replace the current state with a full state and maintain history
+   *
+   * @param state New UI state
+   */
+  updateCurrentState(state: UIState): void {
+    // A full state starts tracking changes afresh
+    this.updateCount = 0;
+    this.lastChanges.clear();
+    
+    this.pushState(state);
+  }
+
+  /**
+   * Process a differential update
+   *
+   * @param update Differential update to apply
+   * @returns The updated UI state
+   */
+  processUpdate(update: DifferentialUpdate): UIState {
+    if (!this.currentState) {
+      throw new ModelEyesError('AccessError', 'No current state available');
+    }
+    
+    // Verify that the update applies to the current state
+    if (update.baseVersion !== this.currentState.version) {
+      throw new ModelEyesError(
+        'ValidationError',
+        `Update base version ${update.baseVersion} does not match current state version ${this.currentState.version}`,
+        { baseVersion: update.baseVersion, currentVersion: this.currentState.version }
+      );
+    }
+    
+    const newState = applyDiff(this.currentState, update);
+    
+    // Update the current state
+    this.recordChanges(update);
+    this.pushState(newState);
+    
+    return newState;
+  }
+
+  /**
+   * Get a summary of the session
+   *
+   * @returns Session summary
+   */
+  getSummary(): UISessionSummary {
+    return {
+      id: this.id,
+      clientId: this.clientId,
+      tabId: this.tabId,
+      createdAt: this.createdAt,
+      lastActivity: this.lastActivity,
+      version: this.currentState?.version,
+      title: this.currentState?.title,
+      url: this.currentState?.url,
+      elementCount: this.currentState ? Object.keys(this.currentState.elements).length : 0,
+      historySize: this.stateHistory.length
+    };
+  }
+
+  /**
+   * Make a state the current one, moving the previous one to history
+   *
+   * @param state New UI state
+   */
+  private pushState(state: UIState): void {
+    // Add current state to history if it exists
+    if (this.currentState) {
+      this.stateHistory.unshift(this.currentState);
+      
+      // Limit history size
+      if (this.stateHistory.length > this.maxHistoryStates) {
+        this.stateHistory.pop();
+      }
+    }
+    
+    // Update current state
+    this.currentState = state;
+    this.lastUpdated = Date.now();
+    this.touch();
+  }
+
+  /**
+   * Record which elements an update changed
+   *
+   * @param update Differential update
+   */
+  private recordChanges(update: DifferentialUpdate): void {
+    this.updateCount++;
+    
+    for (const id of [...Object.keys(update.added ?? {}), ...Object.keys(update.modified ?? {})]) {
+      this.lastChanges.set(id, this.updateCount);
+    }
+    
+    for (const id of update.removed ?? []) {
+      this.lastChanges.delete(id);
+    }
+  }
+}
+
+/**
+ * Registry of UI sessions with idle expiry
+ */
+export class SessionManager {
+  private sessions: Map<string, UISession> = new Map();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private idleTimeout: number;
+  private maxHistoryStates: number;
+  private onRemove?: (session: UISession) => void;
+
+  /**
+   * Create a new session manager
+   *
+   * @param idleTimeout Time in milliseconds after which an inactive session expires (0 to never expire)
+   * @param maxHistoryStates Maximum number of states each session keeps in history
+   * @param onRemove Called with each session that is removed or expires, to release what it holds
+   */
+  constructor(
+    idleTimeout: number = 30 * 60 * 1000,
+    maxHistoryStates: number = 10,
+    onRemove?: (session: UISession) => void
+  ) {
+    this.idleTimeout = idleTimeout;
+    this.maxHistoryStates = maxHistoryStates;
+    this.onRemove = onRemove;
+    
+    if (idleTimeout > 0) {
+      this.sweepTimer = setInterval(() => this.expireIdleSessions(), Math.min(idleTimeout, 60 * 1000));
+      
+      // Do not keep the process alive just to expire sessions
+      if (typeof this.sweepTimer.unref === 'function') {
+        this.sweepTimer.unref();
+      }
+    }
+  }
+
+  /**
+   * Get the session identifier for a client tab
+   *
+   * @param clientId ID of the client
+   * @param tabId ID of the browser tab
+   * @returns Session identifier
+   */
+  static getSessionId(clientId: string, tabId: string): string {
+    return `${clientId}:${tabId}`;
+  }
+
+  /**
+   * Get the session for a client tab, creating it if needed
+   *
+   * @param clientId ID of the client
+   * @param tabId ID of the browser tab
+   * @returns The session
+   */
+  getOrCreate(clientId: string, tabId: string): UISession {
+    const id = SessionManager.getSessionId(clientId, tabId);
+    let session = this.sessions.get(id);
+    
+    if (!session) {
+      session = new UISession(clientId, tabId, this.maxHistoryStates);
+      this.sessions.set(id, session);
+    }
+    
+    return session;
+  }
+
+  /**
+   * Get a session by ID
+   *
+   * @param id Session identifier
+   * @returns The session or undefined if not found
+   */
+  get(id: string): UISession | undefined {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * Get the session whose state was updated most recently
+   *
+   * @returns The most recently updated session or undefined if no session has a state
+   */
+  getMostRecent(): UISession | undefined {
+    let mostRecent: UISession | undefined;
+    
+    for (const session of this.sessions.values()) {
+      if (session.getCurrentState() && (!mostRecent || session.lastUpdated > mostRecent.lastUpdated)) {
+        mostRecent = session;
+      }
+    }
+    
+    return mostRecent;
+  }
+
+  /**
+   * List all sessions
+   *
+   * @returns All sessions
+   */
+  list(): UISession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Remove a session
+   *
+   * @param id Session identifier
+   * @returns Whether the session was removed
+   */
+  remove(id: string): boolean {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+    
+    this.endSession(session);
+    return true;
+  }
+
+  /**
+   * Remove sessions that have been inactive longer than the idle timeout
+   *
+   * @returns IDs of the expired sessions
+   */
+  expireIdleSessions(): string[] {
+    if (this.idleTimeout <= 0) {
+      return [];
+    }
+    
+    const now = Date.now();
+    const expired: string[] = [];
+    
+    for (const [id, session] of this.sessions) {
+      if (now - session.lastActivity > this.idleTimeout) {
+        this.endSession(session);
+        expired.push(id);
+      }
+    }
+    
+    return expired;
+  }
+
+  /**
+   * Stop expiring sessions and remove all sessions
+   */
+  dispose(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    
+    this.sessions.forEach(session => session.end());
+    this.sessions.clear();
+  }
+
+  /**
+   * Remove a session and end it
+   *
+   * @param session Session to remove
+   */
+  private endSession(session: UISession): void {
+    this.sessions.delete(session.id);
+    session.end();
+    this.onRemove?.(session);
+  }
+}
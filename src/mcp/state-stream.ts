@@ -0,0 +1,150 @@
+/**
+ * ModelEyes UI State Event Stream
+ *
+ * This module provides the event log behind the HTTP server's Server-Sent Events
+ * stream of UI state changes. Every event gets a monotonically increasing ID, and
+ * recent events are buffered so that clients can resume after reconnecting.
+ */
+
+/**
+ * Types of UI state events
+ */
+export type StateEventType = 'state' | 'update' | 'focus' | 'hover' | 'navigation';
+
+/**
+ * An event in the UI state stream
+ */
+export interface StateEvent {
+  /** Monotonically increasing event ID */
+  id: number;
+
+  /** Type of the event */
+  type: StateEventType;
+
+  /** ID of the session the event belongs to */
+  sessionId: string;
+
+  /** Timestamp of when the event was published */
+  timestamp: number;
+
+  /** Event payload */
+  data: Record<string, any>;
+}
+
+/**
+ * Listener receiving published events
+ */
+export type StateEventListener = (event: StateEvent) => void;
+
+/**
+ * Subscription to the events of one or all sessions
+ */
+interface StateEventSubscriber {
+  sessionId?: string;
+  listener: StateEventListener;
+}
+
+/**
+ * Buffered log of UI state events with live subscriptions
+ */
+export class StateEventStream {
+  private events: StateEvent[] = [];
+  private subscribers: Set<StateEventSubscriber> = new Set();
+  private nextEventId = 1;
+  private maxBufferedEvents: number;
+
+  /**
+   * Create a new event stream
+   *
+   * @param maxBufferedEvents Maximum number of events kept for resuming
+   */
+  constructor(maxBufferedEvents: number = 100) {
+    this.maxBufferedEvents = maxBufferedEvents;
+  }
+
+  /**
+   * Publish an event to all matching subscribers
+   *
+   * @param sessionId ID of the session the event belongs to
+   * @param type Type of the event
+   * @param data Event payload
+   * @returns The published event
+   */
+  publish(sessionId: string, type: StateEventType, data: Record<string, any>): StateEvent {
+    const event: StateEvent = {
+      id: this.nextEventId++,
+      type,
+      sessionId,
+      timestamp: Date.now(),
+      data
+    };
+    
+    this.events.push(event);
+    if (this.events.length > this.maxBufferedEvents) {
+      this.events.shift();
+    }
+    
+    for (const subscriber of this.subscribers) {
+      if (!subscriber.sessionId || subscriber.sessionId === event.sessionId) {
+        try {
+          subscriber.listener(event);
+        } catch (error) {
+          console.error('Error in state event listener:', error);
+        }
+      }
+    }
+    
+    return event;
+  }
+
+  /**
+   * Subscribe to published events
+   *
+   * @param listener Listener receiving the events
+   * @param sessionId ID of the session to receive events for (all sessions if omitted)
+   * @returns Function that ends the subscription
+   */
+  subscribe(listener: StateEventListener, sessionId?: string): () => void {
+    const subscriber: StateEventSubscriber = { sessionId, listener };
+    this.subscribers.add(subscriber);
+    
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  /**
+   * Get the buffered events published after an event
+   *
+   * @param lastEventId ID of the last event the client received
+   * @param sessionId ID of the session to get events for (all sessions if omitted)
+   * @returns The missed events, or null if some of them are no longer buffered
+   */
+  getEventsSince(lastEventId: number, sessionId?: string): StateEvent[] | null {
+    const oldestEventId = this.events.length > 0 ? this.events[0].id : this.nextEventId;
+    if (lastEventId + 1 < oldestEventId || lastEventId >= this.nextEventId) {
+      return null;
+    }
+    
+    return this.events.filter(event =>
+      event.id > lastEventId && (!sessionId || event.sessionId === sessionId)
+    );
+  }
+
+  /**
+   * Get the ID of the most recently published event
+   *
+   * @returns The event ID, or 0 if no event was published yet
+   */
+  getLastEventId(): number {
+    return this.nextEventId - 1;
+  }
+
+  /**
+   * Remove all subscribers and buffered events
+   */
+  dispose(): void {
+    this.subscribers.clear();
+    this.events = [];
+  }
+}
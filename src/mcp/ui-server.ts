@@ -1,51 +1,726 @@
 /**
  * ModelEyes MCP Server Integration
- * 
+ *
  * This module provides integration between ModelEyes and the Model Context Protocol (MCP).
  * It exposes ModelEyes' structured UI representation capabilities as MCP resources and tools.
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolResult,
+  GetPromptResult,
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 
 import { createWebClient } from '../index';
-import { UIState } from '../common/types';
+import {
+  UIState,
+  DifferentialUpdate,
+  ActionType,
+  ActionResult,
+  ErrorCode,
+  ContextOptions,
+  ModelContext,
+  WaitCondition,
+  WaitResult
+} from '../common/types';
+import { IMCPClient } from '../client/base-client';
+import { IMCPServer } from '../server/base-server';
+import { GenericMCPServer } from '../server/generic-server';
+import { computeDiff } from '../common/optimization';
+import { searchElements, getElementState, getElementPath } from '../common/query';
+import { ACTION_TYPES, validateAction } from '../common/actions';
+import { WAIT_CONDITION_TYPES, validateWaitCondition } from '../common/wait';
+import { CONTEXT_FORMATS } from '../common/renderers';
+import { ModelEyesError, toErrorPayload } from '../common/errors';
+import { SessionManager, UISession } from './session';
+
+/**
+ * URI of the current UI state resource
+ */
+const CURRENT_STATE_URI = 'ui://state/current';
+
+/**
+ * ID of the client and tab of the default UI session
+ */
+const DEFAULT_ID = 'default';
+
+/**
+ * ID of the UI session states are stored in when no session is given
+ */
+export const DEFAULT_UI_SESSION_ID = SessionManager.getSessionId(DEFAULT_ID, DEFAULT_ID);
+
+/**
+ * Context arguments shared by all prompts
+ *
+ * Prompt arguments are transmitted as strings, so numeric and boolean
+ * options are validated as strings and converted to their values here.
+ */
+const CONTEXT_PROMPT_ARGS = {
+  maxTokens: z.string().regex(/^[1-9]\d*$/, 'maxTokens must be a positive integer').transform(Number).optional()
+    .describe('Maximum number of tokens to spend on the UI state'),
+  includeInvisible: z.enum(['true', 'false']).transform(value => value === 'true').optional()
+    .describe('Whether to include invisible elements'),
+  includeFullElementDetails: z.enum(['true', 'false']).transform(value => value === 'true').optional()
+    .describe('Whether to include full element details'),
+  format: z.enum(CONTEXT_FORMATS).optional()
+    .describe('Format to render the UI state in (default json)')
+};
+
+/**
+ * Instructions for answering with a single action
+ */
+const ACTION_RESPONSE_FORMAT =
+  'Respond with a JSON object of the form {"action": "<' + ACTION_TYPES.join('|') + '>", "targetId": "<element id>", "data": <optional data>}.';
+
+/**
+ * Options for the ModelEyes MCP server
+ */
+export interface ModelEyesMcpServerOptions {
+  /** Client used to capture state and execute actions */
+  client?: IMCPClient;
+
+  /**
+   * Handler used to execute actions instead of the client, e.g. to forward them to a browser extension.
+   * It receives the ID of the UI session whose state the action was checked against, and a signal
+   * that is aborted when the MCP client cancels the tool call.
+   */
+  actionHandler?: (
+    actionType: ActionType,
+    targetId: string,
+    data?: any,
+    uiSessionId?: string,
+    signal?: AbortSignal
+  ) => Promise<ActionResult>;
+
+  /**
+   * Handler used to wait for conditions instead of the client, e.g. on the state reported by a browser extension.
+   * It receives the ID of the UI session the MCP session sees, if any, and a signal that is aborted
+   * when the MCP client cancels the tool call.
+   */
+  waitHandler?: (condition: WaitCondition, timeout?: number, uiSessionId?: string, signal?: AbortSignal) => Promise<WaitResult>;
+
+  /** Initialized server that prepares the context of UI states for models (defaults to a GenericMCPServer) */
+  contextServer?: IMCPServer;
+
+  /**
+   * UI sessions whose states the server exposes, such as those of the HTTP
+   * server, which then updates them through the server (defaults to sessions
+   * of its own)
+   */
+  uiSessions?: SessionManager;
+
+  /** Maximum number of states each UI session of its own keeps for diffing */
+  maxHistoryStates?: number;
+}
+
+/**
+ * MCP session connected to the server
+ */
+interface McpSession {
+  /** Resource URIs the session subscribed to */
+  subscriptions: Set<string>;
+
+  /** ID of the UI session the session sees, or undefined to see the most recently updated one */
+  uiSessionId?: string;
+}
 
 /**
  * ModelEyes MCP Server
- * 
+ *
  * This class implements an MCP server that exposes ModelEyes' structured UI representation
  * capabilities as resources and tools.
+ *
+ * States are kept per UI session, such as a browser tab, each with its own
+ * history. An MCP session sees the UI session it was connected for, or the most
+ * recently updated one.
  */
 export class ModelEyesMcpServer {
-  private mcpServer: McpServer;
-  private webClient: any | null = null;
-  private currentState: UIState | null = null;
+  private name: string;
+  private version: string;
+  private sessions: Map<McpServer, McpSession> = new Map();
+  private uiSessions: SessionManager;
+  private webClient: IMCPClient | null = null;
+  private actionHandler: ModelEyesMcpServerOptions['actionHandler'];
+  private waitHandler: ModelEyesMcpServerOptions['waitHandler'];
+  private contextServer: IMCPServer | null;
 
   /**
    * Create a new ModelEyes MCP server
-   * 
+   *
    * @param name Server name
    * @param version Server version
+   * @param options Server options
+   */
+  constructor(name: string = 'model-eyes', version: string = '0.1.0', options: ModelEyesMcpServerOptions = {}) {
+    this.name = name;
+    this.version = version;
+    
+    this.webClient = options.client ?? null;
+    this.actionHandler = options.actionHandler;
+    this.waitHandler = options.waitHandler;
+    this.contextServer = options.contextServer ?? null;
+    this.uiSessions = options.uiSessions ?? new SessionManager(0, options.maxHistoryStates ?? 10);
+  }
+
+  /**
+   * Create an MCP server instance for a new session
+   *
+   * Every transport connection gets its own MCP server instance, all sharing
+   * the same UI sessions.
+   *
+   * @param session MCP session the server is created for
+   * @returns MCP server with the tool, resource and prompt surface registered
    */
-  constructor(name: string = 'model-eyes', version: string = '0.1.0') {
-    // Initialize the MCP server
-    this.mcpServer = new McpServer({
-      name,
-      version,
-      vendor: {
-        name: 'ModelEyes'
+  private createSessionServer(session: McpSession): McpServer {
+    const server = new McpServer(
+      {
+        name: this.name,
+        version: this.version,
+        title: 'ModelEyes'
+      },
+      {
+        capabilities: {
+          resources: { subscribe: true, listChanged: true }
+        }
       }
+    );
+    
+    this.registerTools(server, session);
+    this.registerResources(server, session);
+    this.registerPrompts(server, session);
+    
+    return server;
+  }
+
+  /**
+   * Register MCP tools
+   *
+   * @param server MCP server to register the tools on
+   * @param session MCP session the tools are used in
+   */
+  private registerTools(server: McpServer, session: McpSession): void {
+    server.registerTool(
+      'get_ui_state',
+      {
+        title: 'Get UI state',
+        description: 'Get the current UI state, prepared for model consumption',
+        inputSchema: {
+          refresh: z.boolean().optional()
+            .describe('Capture a fresh state from the client before returning'),
+          maxTokens: z.number().int().positive().optional()
+            .describe('Maximum number of tokens to use'),
+          includeInvisible: z.boolean().optional()
+            .describe('Whether to include invisible elements'),
+          includeFullElementDetails: z.boolean().optional()
+            .describe('Whether to include full element details'),
+          format: z.enum(CONTEXT_FORMATS).optional()
+            .describe('Format to render the UI state in: json, outline, markdown, yaml or table (default json)'),
+          goal: z.string().optional()
+            .describe('Task the state is needed for; elements relevant to it are kept first within maxTokens')
+        }
+      },
+      async ({ refresh, maxTokens, includeInvisible, includeFullElementDetails, format, goal }) => {
+        try {
+          if (refresh) {
+            await this.refreshState();
+          }
+          
+          const { uiSession, state } = this.requireState(session.uiSessionId);
+          const context = this.prepareContext(uiSession, state, {
+            maxTokens,
+            includeInvisible,
+            includeFullElementDetails,
+            format,
+            goal
+          });
+          
+          if (typeof context.uiState === 'string') {
+            // Send rendered text as is rather than as an escaped JSON string
+            const { uiState, ...details } = context;
+            return {
+              content: [
+                { type: 'text', text: JSON.stringify({ version: state.version, ...details }) },
+                { type: 'text', text: uiState }
+              ]
+            };
+          }
+          
+          return this.toolResult({ version: state.version, ...context });
+        } catch (error) {
+          return this.toolError(error);
+        }
+      }
+    );
+    
+    server.registerTool(
+      'find_elements',
+      {
+        title: 'Find elements',
+        description: 'Find elements in the current UI state matching the given criteria',
+        inputSchema: {
+          selector: z.string().min(1).optional()
+            .describe('CSS-like selector, e.g. form > button:text("Save"), input:near(label:text("Email")) or li:nth-of-type(2)'),
+          type: z.string().optional()
+            .describe('Exact element type (tag name or control type)'),
+          text: z.string().optional()
+            .describe('Substring the element text must contain'),
+          interactable: z.boolean().optional()
+            .describe('Required interactable state'),
+          role: z.string().optional()
+            .describe('ARIA role, either explicit or implied by the element type'),
+          attributes: z.record(z.string(), z.union([z.string(), z.boolean()])).optional()
+            .describe('Required attributes: a string requires that value, true requires presence and false absence'),
+          bounds: z.object({
+            x: z.number(),
+            y: z.number(),
+            width: z.number(),
+            height: z.number(),
+            relation: z.enum(['intersects', 'within', 'contains']).optional()
+              .describe('How the element bounds must relate to the region (default intersects)')
+          }).optional()
+            .describe('Region the element bounds must relate to'),
+          visible: z.boolean().optional()
+            .describe('Exclude elements hidden through styles or attributes'),
+          limit: z.number().int().positive().optional()
+            .describe('Maximum number of matches to return (default 10)')
+        }
+      },
+      async (criteria) => {
+        try {
+          const state = this.requireState(session.uiSessionId).state;
+          
+          return this.toolResult(searchElements(state, criteria));
+        } catch (error) {
+          return this.toolError(error);
+        }
+      }
+    );
+    
+    server.registerTool(
+      'get_element_state',
+      {
+        title: 'Get element state',
+        description: 'Get an element of the current UI state with its role, focus, hover and visibility',
+        inputSchema: {
+          elementId: z.string().min(1)
+            .describe('ID of the element')
+        }
+      },
+      async ({ elementId }) => {
+        try {
+          const state = this.requireState(session.uiSessionId).state;
+          
+          return this.toolResult(getElementState(state, { elementId }));
+        } catch (error) {
+          return this.toolError(error);
+        }
+      }
+    );
+    
+    server.registerTool(
+      'get_element_path',
+      {
+        title: 'Get element path',
+        description: 'Get the ancestors of an element in the current UI state, from the root element down to the element',
+        inputSchema: {
+          elementId: z.string().min(1)
+            .describe('ID of the element')
+        }
+      },
+      async ({ elementId }) => {
+        try {
+          const state = this.requireState(session.uiSessionId).state;
+          
+          return this.toolResult(getElementPath(state, { elementId }));
+        } catch (error) {
+          return this.toolError(error);
+        }
+      }
+    );
+    
+    server.registerTool(
+      'execute_action',
+      {
+        title: 'Execute action',
+        description: 'Execute an action on a UI element',
+        inputSchema: {
+          actionType: z.enum(ACTION_TYPES)
+            .describe('Type of action to perform'),
+          targetId: z.string().min(1)
+            .describe('ID of the target element'),
+          data: z.any().optional()
+            .describe(
+              'Additional data for the action: the text to type or {text, delay}, a scroll position {x, y}, ' +
+              'the options to select {value} or {label}, the key to press {key, modifiers}, ' +
+              'the element to drop onto {targetId}, the URL to navigate to {url}, ' +
+              'or the files to upload {files: [{name, content, encoding, mimeType}]}'
+            )
+        }
+      },
+      async ({ actionType, targetId, data }, { signal }) => {
+        try {
+          const { uiSession: { id: uiSessionId }, state } = this.requireState(session.uiSessionId);
+          if (!state.elements[targetId]) {
+            throw new ModelEyesError('ValidationError', `Element with ID ${targetId} not found`, { targetId });
+          }
+          validateAction(actionType, data);
+          
+          let result: ActionResult;
+          if (this.actionHandler) {
+            result = await this.actionHandler(actionType, targetId, data, uiSessionId, signal);
+          } else if (this.webClient) {
+            result = await this.webClient.executeAction(actionType, targetId, data, signal);
+          } else {
+            throw new ModelEyesError('UnsupportedError', 'No client available to execute actions');
+          }
+          
+          if (!result.success) {
+            throw new ModelEyesError('AccessError', result.error || `Action ${actionType} failed`, result.data);
+          }
+          
+          return this.toolResult(result);
+        } catch (error) {
+          return this.toolError(error);
+        }
+      }
+    );
+    
+    server.registerTool(
+      'wait_for',
+      {
+        title: 'Wait for condition',
+        description: 'Wait until an element appears or disappears, a text is present, the URL changes, ' +
+          'or the network or the DOM is quiet',
+        inputSchema: {
+          type: z.enum(WAIT_CONDITION_TYPES)
+            .describe('Type of condition to wait for'),
+          query: z.record(z.string(), z.any()).optional()
+            .describe('Search criteria of the element, as for find_elements (elementAppears and elementDisappears)'),
+          text: z.string().min(1).optional()
+            .describe('Text to wait for (textPresent)'),
+          url: z.string().optional()
+            .describe('Text the new URL must contain (urlChanges, any new URL if omitted)'),
+          quietTime: z.number().nonnegative().optional()
+            .describe('Time in milliseconds without requests or DOM changes (networkIdle and domQuiet, default 500)'),
+          timeout: z.number().positive().optional()
+            .describe('Time in milliseconds to wait (default 5000)')
+        }
+      },
+      async ({ timeout, ...fields }, { signal }) => {
+        try {
+          const condition = fields as WaitCondition;
+          validateWaitCondition(condition, timeout);
+          
+          let result: WaitResult;
+          if (this.waitHandler) {
+            const uiSessionId = this.getUISession(session.uiSessionId)?.id ?? session.uiSessionId;
+            result = await this.waitHandler(condition, timeout, uiSessionId, signal);
+          } else if (this.webClient) {
+            result = await this.webClient.waitFor(condition, timeout, signal);
+          } else {
+            throw new ModelEyesError('UnsupportedError', 'No client available to wait for conditions');
+          }
+          
+          return this.toolResult(result);
+        } catch (error) {
+          return this.toolError(error);
+        }
+      }
+    );
+    
+    server.registerTool(
+      'get_state_diff',
+      {
+        title: 'Get state diff',
+        description: 'Get the changes between a previous UI state and the current (or another) UI state',
+        inputSchema: {
+          baseVersion: z.string().min(1)
+            .describe('Version of the state to compare from'),
+          targetVersion: z.string().min(1).optional()
+            .describe('Version of the state to compare to (defaults to the current state)')
+        }
+      },
+      async ({ baseVersion, targetVersion }) => {
+        try {
+          const { uiSession, state } = this.requireState(session.uiSessionId);
+          const baseState = this.getStateByVersion(uiSession, baseVersion);
+          const targetState = targetVersion ? this.getStateByVersion(uiSession, targetVersion) : state;
+          
+          return this.toolResult(computeDiff(baseState, targetState));
+        } catch (error) {
+          return this.toolError(error);
+        }
+      }
+    );
+  }
+
+  /**
+   * Register MCP resources and subscription handlers
+   *
+   * @param server MCP server to register the resources on
+   * @param session MCP session the resources are read in
+   */
+  private registerResources(server: McpServer, session: McpSession): void {
+    server.registerResource(
+      'current-state',
+      CURRENT_STATE_URI,
+      {
+        title: 'Current UI state',
+        description: 'The most recent UI state',
+        mimeType: 'application/json'
+      },
+      async (uri) => this.readResource(uri, this.requireState(session.uiSessionId).state)
+    );
+    
+    server.registerResource(
+      'state',
+      new ResourceTemplate('ui://state/{version}', {
+        list: async () => ({
+          resources: this.getStates(session.uiSessionId).map(state => ({
+            uri: `ui://state/${encodeURIComponent(state.version)}`,
+            name: `state-${state.version}`,
+            title: `UI state ${state.version}`,
+            mimeType: 'application/json'
+          }))
+        }),
+        complete: {
+          version: (value) => this.getStates(session.uiSessionId)
+            .map(state => state.version)
+            .filter(version => version.startsWith(value))
+        }
+      }),
+      {
+        title: 'UI state by version',
+        description: 'A UI state from the state history, addressed by version',
+        mimeType: 'application/json'
+      },
+      async (uri, { version }) => this.readResource(
+        uri,
+        this.getStateByVersion(this.requireState(session.uiSessionId).uiSession, decodeURIComponent(String(version)))
+      )
+    );
+    
+    server.registerResource(
+      'element',
+      new ResourceTemplate('ui://element/{id}', {
+        list: async () => ({
+          resources: Object.values(this.getUISession(session.uiSessionId)?.getCurrentState()?.elements ?? {}).map(element => ({
+            uri: `ui://element/${encodeURIComponent(element.id)}`,
+            name: element.id,
+            title: element.text ? `${element.type} '${element.text.trim().slice(0, 40)}'` : element.type,
+            mimeType: 'application/json'
+          }))
+        }),
+        complete: {
+          id: (value) => Object.keys(this.getUISession(session.uiSessionId)?.getCurrentState()?.elements ?? {})
+            .filter(id => id.startsWith(value))
+        }
+      }),
+      {
+        title: 'UI element',
+        description: 'An element of the current UI state, addressed by ID',
+        mimeType: 'application/json'
+      },
+      async (uri, { id }) => {
+        const elementId = decodeURIComponent(String(id));
+        const element = this.requireState(session.uiSessionId).state.elements[elementId];
+        if (!element) {
+          throw new ModelEyesError('ValidationError', `Element with ID ${elementId} not found`, { id: elementId });
+        }
+        
+        return this.readResource(uri, element);
+      }
+    );
+    
+    // Track resource subscriptions so updates can be pushed to the client
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      session.subscriptions.add(request.params.uri);
+      return {};
+    });
+    
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      session.subscriptions.delete(request.params.uri);
+      return {};
     });
   }
 
+  /**
+   * Register MCP prompt templates for common UI tasks
+   *
+   * @param server MCP server to register the prompts on
+   * @param session MCP session the prompts are used in
+   */
+  private registerPrompts(server: McpServer, session: McpSession): void {
+    server.registerPrompt(
+      'fill_form',
+      {
+        title: 'Fill this form',
+        description: 'Fill in a form on the current page to reach a goal',
+        argsSchema: {
+          goal: z.string().min(1)
+            .describe('What the form should be filled with, or what submitting it should achieve'),
+          ...CONTEXT_PROMPT_ARGS
+        }
+      },
+      async ({ goal, ...contextArgs }) => this.buildPrompt(
+        session,
+        'Fill in the form on the current page.\n' +
+        `Goal: ${goal}\n\n` +
+        'Identify the form fields needed for the goal and answer with the next action to take. ' +
+        'Use "type" actions for text fields and "click" actions for checkboxes, radio buttons and the submit button. ' +
+        ACTION_RESPONSE_FORMAT,
+        contextArgs,
+        goal
+      )
+    );
+    
+    server.registerPrompt(
+      'find_and_click',
+      {
+        title: 'Find and click',
+        description: 'Find an element on the current page and click it',
+        argsSchema: {
+          target: z.string().min(1)
+            .describe('Description of the element to click'),
+          ...CONTEXT_PROMPT_ARGS
+        }
+      },
+      async ({ target, ...contextArgs }) => this.buildPrompt(
+        session,
+        `Find the element best matching this description and click it: ${target}\n\n` +
+        'Only choose interactable elements. If no element matches, explain why instead. ' +
+        ACTION_RESPONSE_FORMAT,
+        contextArgs,
+        target
+      )
+    );
+    
+    server.registerPrompt(
+      'summarize_page',
+      {
+        title: 'Summarize page',
+        description: 'Summarize the content and available actions of the current page',
+        argsSchema: {
+          goal: z.string().optional()
+            .describe('What the summary should focus on'),
+          ...CONTEXT_PROMPT_ARGS
+        }
+      },
+      async ({ goal, ...contextArgs }) => this.buildPrompt(
+        session,
+        'Summarize the current page: its purpose, its main content and the actions a user can take.' +
+        (goal ? `\nFocus on: ${goal}` : ''),
+        contextArgs,
+        goal
+      )
+    );
+    
+    server.registerPrompt(
+      'verify_element_state',
+      {
+        title: 'Verify element state',
+        description: 'Check whether an element on the current page is in an expected state',
+        argsSchema: {
+          target: z.string().min(1)
+            .describe('Description or ID of the element to check'),
+          expectedState: z.string().min(1)
+            .describe('The state the element is expected to be in'),
+          ...CONTEXT_PROMPT_ARGS
+        }
+      },
+      async ({ target, expectedState, ...contextArgs }) => this.buildPrompt(
+        session,
+        `Check whether this element: ${target}\n` +
+        `is in the expected state: ${expectedState}\n\n` +
+        'Respond with a JSON object of the form {"verified": <true|false>, "targetId": "<element id or null>", "reason": "<short explanation>"}.',
+        contextArgs,
+        target
+      )
+    );
+  }
+
+  /**
+   * Build a prompt that embeds the current UI state
+   *
+   * @param session MCP session the prompt is used in
+   * @param instructions Task instructions for the model
+   * @param contextArgs Context arguments passed to the prompt
+   * @param goal Goal of the prompt, which decides the elements kept within `maxTokens`
+   * @returns Prompt result
+   */
+  private buildPrompt(
+    session: McpSession,
+    instructions: string,
+    contextArgs: Pick<ContextOptions, 'maxTokens' | 'includeInvisible' | 'includeFullElementDetails' | 'format'>,
+    goal?: string
+  ): GetPromptResult {
+    const { uiSession, state } = this.requireState(session.uiSessionId);
+    const context = this.prepareContext(uiSession, state, { ...contextArgs, goal });
+    const { title, url } = context.metadata;
+    
+    return {
+      messages: [{
+        role: 'user',
+        content: {
+          type: 'text',
+          text: `${instructions}\n\n` +
+            `Page: ${title}${url ? ` (${url})` : ''}\n` +
+            `Current UI state (${context.tokenCount} tokens):\n` +
+            (typeof context.uiState === 'string' ? context.uiState : JSON.stringify(context.uiState))
+        }
+      }]
+    };
+  }
+
   /**
    * Start the server with stdio transport
    */
   async start(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.mcpServer.connect(transport);
-    console.log('ModelEyes MCP server started with stdio transport');
+    await this.connect(new StdioServerTransport());
+    console.error('ModelEyes MCP server started with stdio transport');
+  }
+
+  /**
+   * Connect the server to a transport
+   *
+   * Each call starts a new MCP session, so the server can serve several
+   * clients over different transports at the same time.
+   *
+   * @param transport Transport to communicate over
+   * @param uiSessionId ID of the UI session the MCP session sees (the most recently updated one if omitted)
+   */
+  async connect(transport: Transport, uiSessionId?: string): Promise<void> {
+    if (!this.contextServer) {
+      const contextServer = new GenericMCPServer();
+      await contextServer.initialize({});
+      this.contextServer = contextServer;
+    }
+    
+    const session: McpSession = { subscriptions: new Set(), uiSessionId };
+    const server = this.createSessionServer(session);
+    
+    // Forget the session once its transport closes
+    server.server.onclose = () => {
+      this.sessions.delete(server);
+    };
+    
+    this.sessions.set(server, session);
+    await server.connect(transport);
+  }
+
+  /**
+   * Get the number of connected MCP sessions
+   *
+   * @returns Number of connected sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
   }
 
   /**
@@ -66,17 +741,17 @@ export class ModelEyesMcpServer {
       if (!this.webClient) {
         this.webClient = await createWebClient();
       }
-
+      
       // Navigate to URL if provided
-    if (url) {
-      console.log(`Navigating to ${url}`);
-    }
-
+      if (url) {
+        console.log(`Navigating to ${url}`);
+      }
+      
       // Capture the state
       const state = await this.webClient.captureState();
       
       // Store the state
-      this.currentState = state;
+      this.setCurrentState(state);
       
       return state;
     } catch (error) {
@@ -86,12 +761,250 @@ export class ModelEyesMcpServer {
   }
 
   /**
-   * Get the current UI state
-   * 
+   * Get the current UI state of a UI session
+   *
+   * @param uiSessionId ID of the UI session (defaults to the most recently updated one)
    * @returns The current UI state
    */
-  getCurrentState(): UIState | null {
-    return this.currentState;
+  getCurrentState(uiSessionId?: string): UIState | null {
+    return this.getUISession(uiSessionId)?.getCurrentState() ?? null;
+  }
+
+  /**
+   * Set the current UI state of a UI session
+   *
+   * This is used by hosts that receive UI states from elsewhere, such as a
+   * browser extension, to make them available to MCP clients.
+   *
+   * @param state New UI state
+   * @param uiSessionId ID of the UI session the state belongs to, which must
+   * exist unless it is the default one
+   * @throws ModelEyesError with code `AccessError` for unknown UI sessions
+   */
+  setCurrentState(state: UIState, uiSessionId: string = DEFAULT_UI_SESSION_ID): void {
+    this.getOrCreateUISession(uiSessionId).updateCurrentState(state);
+    
+    this.notifyStateChanged(uiSessionId, Object.keys(state.elements));
+  }
+
+  /**
+   * Apply a differential update to the current UI state of a UI session
+   *
+   * Subscribers to the current state, and to any element the update touches,
+   * are notified that the resource changed.
+   *
+   * @param update Differential update to apply
+   * @param uiSessionId ID of the UI session the update belongs to
+   * @returns The updated UI state
+   * @throws ModelEyesError with code `ValidationError` if the update does not
+   * apply to the current state, which is then left unchanged
+   */
+  processUpdate(update: DifferentialUpdate, uiSessionId: string = DEFAULT_UI_SESSION_ID): UIState {
+    const newState = this.requireState(uiSessionId).uiSession.processUpdate(update);
+    
+    this.notifyStateChanged(uiSessionId, [
+      ...Object.keys(update.added ?? {}),
+      ...Object.keys(update.modified ?? {}),
+      ...(update.removed ?? [])
+    ]);
+    
+    return newState;
+  }
+
+  /**
+   * Forget a UI session, e.g. when its tab is closed
+   *
+   * Hosts sharing their UI sessions call this once they removed one, so the
+   * MCP sessions that saw it learn that its states are gone.
+   *
+   * @param uiSessionId ID of the UI session
+   */
+  removeUISession(uiSessionId: string): void {
+    this.uiSessions.remove(uiSessionId);
+    
+    for (const [server, session] of this.sessions) {
+      if (server.isConnected() && (!session.uiSessionId || session.uiSessionId === uiSessionId)) {
+        server.sendResourceListChanged();
+      }
+    }
+  }
+
+  /**
+   * Notify subscribed clients that UI state resources of a UI session changed
+   *
+   * Sessions that see no particular UI session are notified as well, since
+   * the UI session is now the most recently updated one.
+   *
+   * @param uiSessionId ID of the UI session that changed
+   * @param elementIds IDs of the elements that changed
+   */
+  private notifyStateChanged(uiSessionId: string, elementIds: string[]): void {
+    const uris = [CURRENT_STATE_URI, ...elementIds.map(id => `ui://element/${encodeURIComponent(id)}`)];
+    
+    for (const [server, { subscriptions, uiSessionId: seenId }] of this.sessions) {
+      if (!server.isConnected() || (seenId && seenId !== uiSessionId)) {
+        continue;
+      }
+      
+      // A new version was added to the state history
+      server.sendResourceListChanged();
+      
+      for (const uri of uris) {
+        if (subscriptions.has(uri)) {
+          server.server.sendResourceUpdated({ uri }).catch(error => {
+            console.error('Error sending resource update:', error);
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Capture a fresh state from the client
+   */
+  private async refreshState(): Promise<void> {
+    if (!this.webClient) {
+      throw new ModelEyesError('UnsupportedError', 'No client available to capture state');
+    }
+    
+    this.setCurrentState(await this.webClient.captureState());
+  }
+
+  /**
+   * Create a resource result containing JSON data
+   *
+   * @param uri Resource URI
+   * @param data Resource data
+   * @returns Resource result
+   */
+  private readResource(uri: URL, data: any): ReadResourceResult {
+    return {
+      contents: [{
+        uri: uri.href,
+        mimeType: 'application/json',
+        text: JSON.stringify(data)
+      }]
+    };
+  }
+
+  /**
+   * Get a UI session
+   *
+   * @param uiSessionId ID of the UI session (defaults to the most recently updated one)
+   * @returns The UI session, or undefined if there is none
+   */
+  private getUISession(uiSessionId?: string): UISession | undefined {
+    return uiSessionId !== undefined ? this.uiSessions.get(uiSessionId) : this.uiSessions.getMostRecent();
+  }
+
+  /**
+   * Get a UI session to store states in, creating the default one if needed
+   *
+   * @param uiSessionId ID of the UI session
+   * @returns The UI session
+   */
+  private getOrCreateUISession(uiSessionId: string): UISession {
+    const uiSession = this.uiSessions.get(uiSessionId);
+    if (uiSession) {
+      return uiSession;
+    }
+    
+    if (uiSessionId !== DEFAULT_UI_SESSION_ID) {
+      throw new ModelEyesError('AccessError', `Unknown UI session ${uiSessionId}`, { uiSessionId });
+    }
+    return this.uiSessions.getOrCreate(DEFAULT_ID, DEFAULT_ID);
+  }
+
+  /**
+   * Get a UI session and its current state or fail if it has none
+   *
+   * @param uiSessionId ID of the UI session (defaults to the most recently updated one)
+   * @returns The UI session and its current state
+   */
+  private requireState(uiSessionId?: string): { uiSession: UISession; state: UIState } {
+    const uiSession = this.getUISession(uiSessionId);
+    const state = uiSession?.getCurrentState();
+    if (!uiSession || !state) {
+      throw new ModelEyesError(
+        'AccessError',
+        uiSessionId !== undefined ? `No UI state available for session ${uiSessionId}` : 'No UI state available',
+        uiSessionId !== undefined ? { uiSessionId } : undefined
+      );
+    }
+    
+    return { uiSession, state };
+  }
+
+  /**
+   * Get the known states of a UI session
+   *
+   * @param uiSessionId ID of the UI session (defaults to the most recently updated one)
+   * @returns The current state followed by the state history, most recent first
+   */
+  private getStates(uiSessionId?: string): UIState[] {
+    const uiSession = this.getUISession(uiSessionId);
+    const state = uiSession?.getCurrentState();
+    return uiSession && state ? [state, ...uiSession.getHistory()] : [];
+  }
+
+  /**
+   * Get a known UI state of a UI session by version
+   *
+   * @param uiSession UI session
+   * @param version Version to look up
+   * @returns The UI state with the given version
+   */
+  private getStateByVersion(uiSession: UISession, version: string): UIState {
+    const state = this.getStates(uiSession.id).find(knownState => knownState.version === version);
+    if (!state) {
+      throw new ModelEyesError('ValidationError', `State with version ${version} not found`, { version });
+    }
+    
+    return state;
+  }
+
+  /**
+   * Prepare the context of the current state of a UI session for a model
+   *
+   * @param uiSession UI session
+   * @param state Current state of the UI session
+   * @param options Context preparation options
+   * @returns Context prepared for the model
+   */
+  private prepareContext(uiSession: UISession, state: UIState, options: ContextOptions): ModelContext {
+    if (!this.contextServer) {
+      throw new ModelEyesError('AccessError', 'Server is not connected');
+    }
+    
+    // The context server only renders the state, which the UI session keeps
+    this.contextServer.processInitialState(state);
+    return this.contextServer.prepareContextForModel({ ...options, changeAges: uiSession.getChangeAges() });
+  }
+
+  /**
+   * Create a successful tool result
+   *
+   * @param data Result data
+   * @returns Tool result
+   */
+  private toolResult(data: any): CallToolResult {
+    return {
+      content: [{ type: 'text', text: JSON.stringify(data) }]
+    };
+  }
+
+  /**
+   * Create a tool error result
+   *
+   * @param error Thrown value
+   * @param fallbackCode Error code to use when the value carries none
+   * @returns Tool result flagged as an error
+   */
+  private toolError(error: unknown, fallbackCode: ErrorCode = 'AccessError'): CallToolResult {
+    return {
+      isError: true,
+      content: [{ type: 'text', text: JSON.stringify({ error: toErrorPayload(error, fallbackCode) }) }]
+    };
   }
 
   /**
@@ -99,22 +1012,25 @@ export class ModelEyesMcpServer {
    */
   async close(): Promise<void> {
     // Dispose web client
-    if (this.webClient && typeof this.webClient.dispose === 'function') {
+    if (this.webClient) {
       this.webClient.dispose();
     }
     
-    // Close MCP server
-    await this.mcpServer.close();
+    // Close all MCP sessions
+    const servers = Array.from(this.sessions.keys());
+    this.sessions.clear();
+    await Promise.all(servers.map(server => server.close()));
   }
 }
 
 /**
  * Create and start a ModelEyes MCP server
- * 
+ *
+ * @param options Server options
  * @returns Promise resolving to the created server
  */
-export async function createModelEyesMcpServer(): Promise<ModelEyesMcpServer> {
-  const server = new ModelEyesMcpServer();
+export async function createModelEyesMcpServer(options: ModelEyesMcpServerOptions = {}): Promise<ModelEyesMcpServer> {
+  const server = new ModelEyesMcpServer(undefined, undefined, options);
   await server.start();
   return server;
 }
@@ -128,12 +1044,12 @@ export async function runMcpServer(): Promise<void> {
     
     // Handle process termination
     process.on('SIGINT', async () => {
-      console.log('Shutting down MCP server...');
+      console.error('Shutting down MCP server...');
       await server.close();
       process.exit(0);
     });
     
-    console.log('ModelEyes MCP server running. Press Ctrl+C to exit.');
+    console.error('ModelEyes MCP server running. Press Ctrl+C to exit.');
   } catch (error) {
     console.error('Error starting MCP server:', error);
     process.exit(1);
@@ -147,4 +1063,4 @@ export default {
   ModelEyesMcpServer,
   createModelEyesMcpServer,
   runMcpServer
-};
\ No newline at end of file
+};
@@ -5,8 +5,17 @@ import {
   ModelContext,
   ContextOptions,
   Action,
-  ActionType
+  ActionType,
+  QueryType,
+  QueryResult,
+  UIElement,
+  Tokenizer
 } from '../common/types';
+import { executeQuery } from '../common/query';
+import { applyDiff } from '../common/optimization';
+import { getStateRenderer } from '../common/renderers';
+import { packState } from '../common/packing';
+import { loadTokenizer } from './tokenizer-loader';
 
 /**
  * Interface for MCP server implementations
@@ -37,6 +46,14 @@ export interface IMCPServer {
    */
   prepareContextForModel(options?: ContextOptions): ModelContext;
   
+  /**
+   * Answer a query about the current UI state
+   * @param queryType Type of query
+   * @param parameters Query parameters
+   * @returns Query result
+   */
+  query(queryType: QueryType, parameters: any): QueryResult;
+  
   /**
    * Generate an action based on model output
    * @param modelOutput Output from the model
@@ -63,6 +80,15 @@ export abstract class BaseMCPServer implements IMCPServer {
   /** History of UI states */
   protected stateHistory: UIState[] = [];
   
+  /** Tokenizer counting the tokens of the context, if any */
+  protected tokenizer: Tokenizer | null = null;
+  
+  /** Number of updates processed since the initial state */
+  private updateCount = 0;
+  
+  /** Number of the update that last changed each element */
+  private lastChanges = new Map<string, number>();
+  
   /**
    * Initialize the server with the provided configuration
    * @param config Server configuration options
@@ -70,6 +96,11 @@ export abstract class BaseMCPServer implements IMCPServer {
   async initialize(config: MCPServerConfig): Promise<void> {
     this.config = config;
     await this.initializeModelProvider();
+    
+    // A configured tokenizer takes precedence over that of the model provider
+    const tokenizer = config.tokenizer;
+    this.tokenizer = typeof tokenizer === 'string' ? await loadTokenizer(tokenizer) :
+      tokenizer ?? await this.createTokenizer();
   }
   
   /**
@@ -77,12 +108,22 @@ export abstract class BaseMCPServer implements IMCPServer {
    */
   protected abstract initializeModelProvider(): Promise<void>;
   
+  /**
+   * Create the tokenizer of the model provider
+   * @returns The tokenizer, or null to estimate token counts
+   */
+  protected async createTokenizer(): Promise<Tokenizer | null> {
+    return null;
+  }
+  
   /**
    * Process the initial UI state
    * @param state Initial UI state
    */
   processInitialState(state: UIState): void {
     this.currentState = state;
+    this.updateCount = 0;
+    this.lastChanges.clear();
     
     // Add to history if enabled
     if (this.config?.contextManagement?.maxHistoryStates) {
@@ -107,10 +148,11 @@ export abstract class BaseMCPServer implements IMCPServer {
     }
     
     // Apply the update to create a new state
-    const newState = this.applyUpdate(this.currentState, update);
+    const newState = applyDiff(this.currentState, update);
     
     // Update the current state
     this.currentState = newState;
+    this.recordChanges(update);
     
     // Add to history if enabled
     if (this.config?.contextManagement?.maxHistoryStates) {
@@ -118,58 +160,6 @@ export abstract class BaseMCPServer implements IMCPServer {
     }
   }
   
-  /**
-   * Apply a differential update to a UI state
-   * @param state State to update
-   * @param update Update to apply
-   * @returns Updated state
-   */
-  private applyUpdate(state: UIState, update: DifferentialUpdate): UIState {
-    // Create a deep copy of the state
-    const newState: UIState = JSON.parse(JSON.stringify(state));
-    
-    // Update the version
-    newState.version = update.version;
-    
-    // Update the timestamp
-    newState.timestamp = update.timestamp;
-    
-    // Add new elements
-    if (update.added) {
-      for (const [id, element] of Object.entries(update.added)) {
-        newState.elements[id] = element;
-      }
-    }
-    
-    // Modify existing elements
-    if (update.modified) {
-      for (const [id, changes] of Object.entries(update.modified)) {
-        const element = newState.elements[id];
-        if (element) {
-          Object.assign(element, changes);
-        }
-      }
-    }
-    
-    // Remove elements
-    if (update.removed) {
-      for (const id of update.removed) {
-        delete newState.elements[id];
-      }
-    }
-    
-    // Update focus and hover
-    if (update.focus !== undefined) {
-      newState.focus = update.focus || undefined;
-    }
-    
-    if (update.hover !== undefined) {
-      newState.hover = update.hover || undefined;
-    }
-    
-    return newState;
-  }
-  
   /**
    * Add a state to the history
    * @param state State to add
@@ -184,12 +174,41 @@ export abstract class BaseMCPServer implements IMCPServer {
     }
   }
   
+  /**
+   * Record which elements an update changed
+   * @param update Differential update
+   */
+  private recordChanges(update: DifferentialUpdate): void {
+    this.updateCount++;
+    
+    for (const id of [...Object.keys(update.added ?? {}), ...Object.keys(update.modified ?? {})]) {
+      this.lastChanges.set(id, this.updateCount);
+    }
+    
+    for (const id of update.removed ?? []) {
+      this.lastChanges.delete(id);
+    }
+  }
+  
   /**
    * Prepare context for consumption by a model
+   *
+   * The state is rendered in the requested format, and the token count is
+   * that of the rendered text.
+   *
    * @param options Context preparation options
    * @returns Context prepared for the model
    */
   prepareContextForModel(options?: ContextOptions): ModelContext {
+    return this.renderContext(this.prepareStateContext(options), options);
+  }
+  
+  /**
+   * Prepare the context before rendering, with the state as an object
+   * @param options Context preparation options
+   * @returns Context with the simplified state
+   */
+  protected prepareStateContext(options?: ContextOptions): ModelContext {
     if (!this.currentState) {
       throw new Error('No current state available');
     }
@@ -203,8 +222,8 @@ export abstract class BaseMCPServer implements IMCPServer {
     // Create a simplified representation of the UI state
     const simplifiedState = this.simplifyState(this.currentState, includeFullElementDetails, includeInvisible);
     
-    // Estimate token count
-    const tokenCount = this.estimateTokenCount(simplifiedState);
+    // Estimate token count of the state as it will be rendered
+    const tokenCount = this.measureTokens(simplifiedState, options);
     
     return {
       uiState: simplifiedState,
@@ -214,11 +233,121 @@ export abstract class BaseMCPServer implements IMCPServer {
         platform: this.currentState.platform,
         application: this.currentState.application,
         title: this.currentState.title,
-        url: this.currentState.url
+        url: this.currentState.url,
+        tokenizer: this.tokenizer?.name
       }
     };
   }
   
+  /**
+   * Pack the state of a context into a token budget, keeping the most
+   * important elements and summarizing the pruned ones
+   * @param context Context with the simplified state
+   * @param maxTokens Maximum tokens allowed
+   * @param options Context preparation options
+   * @returns Context with the packed state, reporting the dropped elements
+   */
+  protected packContext(context: ModelContext, maxTokens: number, options?: ContextOptions): ModelContext {
+    let changeAges = options?.changeAges;
+    if (!changeAges) {
+      changeAges = {};
+      for (const [id, change] of this.lastChanges) {
+        changeAges[id] = this.updateCount - change;
+      }
+    }
+    
+    const packed = packState(context.uiState, {
+      maxTokens,
+      countTokens: state => this.measureTokens(state, options),
+      goal: options?.goal,
+      changeAges,
+      details: this.currentState?.elements
+    });
+    
+    return {
+      uiState: packed.state,
+      tokenCount: packed.tokenCount,
+      metadata: {
+        ...context.metadata,
+        truncated: true,
+        dropped: packed.dropped
+      }
+    };
+  }
+  
+  /**
+   * Render the state of a context in the requested format
+   * @param context Context with the state as an object
+   * @param options Context preparation options
+   * @returns Context with the rendered state, or the context itself for JSON
+   */
+  protected renderContext(context: ModelContext, options?: ContextOptions): ModelContext {
+    const format = options?.format ?? 'json';
+    if (format === 'json' && !options?.renderer) {
+      return context;
+    }
+    
+    const text = this.renderState(context.uiState, options);
+    return {
+      uiState: text,
+      tokenCount: this.estimateTokenCount(text),
+      metadata: {
+        ...context.metadata,
+        format: options?.renderer ? 'custom' : format
+      }
+    };
+  }
+  
+  /**
+   * Render a simplified state as text
+   *
+   * Elements are rendered with the details they have in the current state,
+   * since the text formats describe them more compactly than the simplified
+   * objects.
+   *
+   * @param state Simplified state to render
+   * @param options Context preparation options
+   * @returns Text of the state
+   */
+  protected renderState(state: any, options?: ContextOptions): string {
+    const renderer = options?.renderer ?? getStateRenderer(options?.format ?? 'json');
+    
+    const elements: Record<string, UIElement> = {};
+    for (const [id, element] of Object.entries<UIElement>(state.elements ?? {})) {
+      elements[id] = { ...this.currentState?.elements[id], ...element };
+    }
+    
+    return renderer({ ...this.currentState, ...state, elements });
+  }
+  
+  /**
+   * Estimate the token count of a simplified state as it will be rendered
+   * @param state Simplified state
+   * @param options Context preparation options
+   * @returns Estimated token count
+   */
+  protected measureTokens(state: any, options?: ContextOptions): number {
+    if ((options?.format ?? 'json') === 'json' && !options?.renderer) {
+      return this.estimateTokenCount(state);
+    }
+    
+    return this.estimateTokenCount(this.renderState(state, options));
+  }
+  
+  /**
+   * Answer a query about the current UI state
+   * @param queryType Type of query
+   * @param parameters Query parameters
+   * @returns Query result
+   */
+  query(queryType: QueryType, parameters: any): QueryResult {
+    if (!this.currentState) {
+      throw new Error('No current state available');
+    }
+    
+    return executeQuery(this.currentState, queryType, parameters);
+  }
+  
   /**
    * Simplify a UI state for model consumption
    * @param state State to simplify
@@ -278,16 +407,21 @@ export abstract class BaseMCPServer implements IMCPServer {
   }
   
   /**
-   * Estimate the token count for a value
+   * Estimate the token count for a value, counting exactly with the tokenizer
+   * if there is one
    * @param value Value to estimate token count for
    * @returns Estimated token count
    */
   protected estimateTokenCount(value: any): number {
-    // Convert the value to a string
-    const json = JSON.stringify(value);
+    // Convert the value to a string, unless it is rendered text already
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    
+    if (this.tokenizer) {
+      return this.tokenizer.countTokens(text);
+    }
     
     // Estimate token count (roughly 4 characters per token)
-    return Math.ceil(json.length / 4);
+    return Math.ceil(text.length / 4);
   }
   
   /**
@@ -0,0 +1,75 @@
+import { Action, ContextOptions, ModelContext } from '../common/types';
+import { BaseMCPServer } from './base-server';
+
+/**
+ * Model-agnostic MCP server implementation
+ *
+ * This server manages UI state and prepares context without talking to a
+ * specific model provider. It is used where context is handed to an external
+ * model, such as when ModelEyes is exposed over the Model Context Protocol.
+ */
+export class GenericMCPServer extends BaseMCPServer {
+  /**
+   * Initialize the model provider
+   */
+  protected async initializeModelProvider(): Promise<void> {
+    // No model provider to initialize
+  }
+
+  /**
+   * Prepare the context before rendering, honoring the token limit
+   * @param options Context preparation options
+   * @returns Context with the simplified state
+   */
+  protected override prepareStateContext(options?: ContextOptions): ModelContext {
+    const context = super.prepareStateContext(options);
+    
+    const maxTokens = options?.maxTokens;
+    if (!maxTokens || context.tokenCount <= maxTokens) {
+      return context;
+    }
+    
+    // Keep the most important elements that fit within the token limit
+    return this.packContext(context, maxTokens, options);
+  }
+  
+  /**
+   * Generate an action based on model output
+   *
+   * The model output is expected to be a JSON object with `action`,
+   * `targetId` and optional `data` properties.
+   *
+   * @param modelOutput Output from the model
+   * @returns Generated action
+   */
+  generateAction(modelOutput: string): Action {
+    let parsedOutput: any;
+    try {
+      parsedOutput = JSON.parse(modelOutput);
+    } catch (error) {
+      throw new Error('Model output is not valid JSON');
+    }
+
+    if (
+      !parsedOutput ||
+      typeof parsedOutput !== 'object' ||
+      typeof parsedOutput.action !== 'string' ||
+      typeof parsedOutput.targetId !== 'string'
+    ) {
+      throw new Error('Model output does not describe an action');
+    }
+
+    return {
+      type: parsedOutput.action,
+      targetId: parsedOutput.targetId,
+      data: parsedOutput.data
+    };
+  }
+
+  /**
+   * Clean up model provider resources
+   */
+  protected disposeModelProvider(): void {
+    // No model provider resources to clean up
+  }
+}
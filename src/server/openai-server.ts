@@ -1,7 +1,11 @@
-import { Action, ContextOptions, DifferentialUpdate, MCPServerConfig, ModelContext, UIState } from '../common/types';
+import { Action, ContextOptions, DifferentialUpdate, MCPServerConfig, ModelContext, Tokenizer, UIState } from '../common/types';
 import { BaseMCPServer } from './base-server';
+import { loadTokenizer } from './tokenizer-loader';
+import { getEncodingForModel } from '../common/tokenizer';
+import { ModelEyesError } from '../common/errors';
 import { UIStateCache } from '../common/cache';
 import { compressState, filterElements } from '../common/optimization';
+import { ACTION_TYPES } from '../common/actions';
 
 /**
  * Configuration options specific to OpenAI models
@@ -88,13 +92,51 @@ export class OpenAIMCPServer extends BaseMCPServer {
   }
   
   /**
-   * Prepare context for consumption by a model with OpenAI-specific optimizations
+   * Create the tokenizer of the model, falling back to estimated token counts
+   * for unknown models, and with a warning for missing vocabularies
+   * @returns The tokenizer, or null to estimate token counts
+   * @throws ModelEyesError with code `ParseError` if the vocabulary is malformed
+   */
+  protected override async createTokenizer(): Promise<Tokenizer | null> {
+    const encoding = getEncodingForModel(this.model);
+    if (!encoding) {
+      return null;
+    }
+    
+    try {
+      return await loadTokenizer(encoding);
+    } catch (error) {
+      if (!(error instanceof ModelEyesError) || error.code !== 'UnsupportedError') {
+        throw error;
+      }
+      
+      console.warn(`Estimating token counts for ${this.model}: ${error.message}; see data/tokenizers/README.md to install the vocabulary`);
+      return null;
+    }
+  }
+  
+  /**
+   * Prepare context for consumption by a model, tracking token usage
    * @param options Context preparation options
    * @returns Context prepared for the model
    */
   override prepareContextForModel(options?: ContextOptions): ModelContext {
+    const context = super.prepareContextForModel(options);
+    
+    // Track token usage statistics
+    this.updateTokenUsageStats(context.tokenCount);
+    
+    return context;
+  }
+  
+  /**
+   * Prepare the context before rendering with OpenAI-specific optimizations
+   * @param options Context preparation options
+   * @returns Context with the simplified state
+   */
+  protected override prepareStateContext(options?: ContextOptions): ModelContext {
     // Get base context from parent class
-    const baseContext = super.prepareContextForModel(options);
+    const baseContext = super.prepareStateContext(options);
     
     // Apply OpenAI-specific optimizations
     const maxTokens = options?.maxTokens ?? this.maxTokens;
@@ -104,22 +146,14 @@ export class OpenAIMCPServer extends BaseMCPServer {
     baseContext.uiState = compressedState;
     
     // Update token count after compression
-    baseContext.tokenCount = this.estimateTokenCount(compressedState);
+    baseContext.tokenCount = this.measureTokens(compressedState, options);
     
     // If the context is still too large, simplify it further
     if (baseContext.tokenCount > maxTokens) {
       // Simplify by removing less important elements
-      const simplifiedContext = this.simplifyContextForTokenLimit(baseContext, maxTokens);
-      
-      // Track token usage statistics
-      this.updateTokenUsageStats(simplifiedContext.tokenCount);
-      
-      return simplifiedContext;
+      return this.simplifyContextForTokenLimit(baseContext, maxTokens, options);
     }
     
-    // Track token usage statistics
-    this.updateTokenUsageStats(baseContext.tokenCount);
-    
     return baseContext;
   }
   
@@ -127,117 +161,21 @@ export class OpenAIMCPServer extends BaseMCPServer {
    * Simplify context to fit within token limit
    * @param context Context to simplify
    * @param maxTokens Maximum tokens allowed
+   * @param options Context preparation options
    * @returns Simplified context
    */
-  private simplifyContextForTokenLimit(context: ModelContext, maxTokens: number): ModelContext {
-    // Create a copy of the context
-    const simplifiedContext: ModelContext = {
-      ...context,
-      uiState: { ...context.uiState }
-    };
-    
-    // Apply more aggressive filtering
-    const filteredState = filterElements(simplifiedContext.uiState, {
-      maxElements: 50, // Limit to 50 elements
-      prioritizeInteractable: true,
-      prioritizeVisible: true,
+  private simplifyContextForTokenLimit(context: ModelContext, maxTokens: number, options?: ContextOptions): ModelContext {
+    // Drop elements that never matter to the model
+    const filteredState = filterElements(context.uiState, {
       excludeTypes: ['script', 'style', 'meta', 'link', 'noscript']
     });
     
-    simplifiedContext.uiState = filteredState;
-    
-    // Update token count after filtering
-    let currentTokenCount = this.estimateTokenCount(filteredState);
-    
-    // Get the elements
-    const elements = simplifiedContext.uiState.elements;
-    
-    // Sort elements by importance (interactable elements are more important)
-    const sortedElementIds = Object.keys(elements).sort((a, b) => {
-      const elementA = elements[a];
-      const elementB = elements[b];
-      
-      // Interactable elements are more important
-      if (elementA.interactable && !elementB.interactable) {
-        return -1;
-      }
-      
-      if (!elementA.interactable && elementB.interactable) {
-        return 1;
-      }
-      
-      // Elements with text are more important
-      if (elementA.text && !elementB.text) {
-        return -1;
-      }
-      
-      if (!elementA.text && elementB.text) {
-        return 1;
-      }
-      
-      return 0;
-    });
-    
-    // If still too large, remove elements until we're under the token limit
-    const newElements: Record<string, any> = {};
-    
-    // Only keep the most important elements
-    for (const id of sortedElementIds) {
-      const element = elements[id];
-      
-      // Estimate the token count for this element
-      const elementJson = JSON.stringify(element);
-      const elementTokens = Math.ceil(elementJson.length / 4);
-      
-      // If adding this element would keep us under the token limit, include it
-      if (currentTokenCount + elementTokens <= maxTokens) {
-        newElements[id] = element;
-        currentTokenCount += elementTokens;
-      } else {
-        // If it's an interactable element, try to include a simplified version
-        if (element.interactable) {
-          const simplifiedElement = {
-            id: element.id,
-            type: element.type,
-            text: element.text,
-            interactable: true
-          };
-          
-          const simplifiedTokens = Math.ceil(JSON.stringify(simplifiedElement).length / 4);
-          
-          if (currentTokenCount + simplifiedTokens <= maxTokens) {
-            newElements[id] = simplifiedElement;
-            currentTokenCount += simplifiedTokens;
-          }
-        }
-      }
-    }
-    
-    // Update the elements in the context
-    simplifiedContext.uiState.elements = newElements;
-    
-    // Update the token count
-    simplifiedContext.tokenCount = this.estimateTokenCount(simplifiedContext.uiState);
-    
-    return simplifiedContext;
-  }
-  
-  /**
-   * Estimate the token count for a value
-   * @param value Value to estimate token count for
-   * @returns Estimated token count
-   */
-  protected override estimateTokenCount(value: any): number {
-    // Convert the value to a string
-    const json = JSON.stringify(value);
-    
-    // More accurate token estimation for OpenAI models
-    // GPT models use byte-pair encoding, which is roughly 0.75 tokens per word
-    // For JSON, we can estimate about 1 token per 4 characters
-    const charCount = json.length;
-    const wordCount = json.split(/\s+/).length;
+    // Keep the most important elements that fit within the token limit
+    const packedContext = this.packContext({ ...context, uiState: filteredState }, maxTokens, options);
+    const excluded = Object.keys(context.uiState.elements).filter(id => !filteredState.elements[id]);
+    packedContext.metadata.dropped = [...excluded, ...packedContext.metadata.dropped];
     
-    return Math.ceil((charCount / 4) + (wordCount * 0.75));
+    return packedContext;
   }
   
   /**
@@ -280,8 +218,10 @@ export class OpenAIMCPServer extends BaseMCPServer {
     const dataMatch = modelOutput.match(/data:\s*(\{.*\})/i);
     
     if (actionMatch && targetMatch) {
+      // Match action types case-insensitively, keeping camel-cased ones like pressKey intact
+      const actionName = actionMatch[1].toLowerCase();
       const action: Action = {
-        type: actionMatch[1].toLowerCase() as any,
+        type: ACTION_TYPES.find(type => type.toLowerCase() === actionName) ?? actionName as any,
         targetId: targetMatch[1]
       };
       
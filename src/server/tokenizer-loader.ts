@@ -0,0 +1,62 @@
+/**
+ * Loading of bundled tokenizer vocabularies
+ *
+ * Vocabularies of the byte pair encodings are read from `.tiktoken` data
+ * files, by default those in the `data/tokenizers` directory of the package,
+ * so token counts need no network access. Each vocabulary is loaded once and
+ * shared by all servers.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { BpeEncoding, Tokenizer } from '../common/types';
+import { ModelEyesError } from '../common/errors';
+import { createBpeTokenizer } from '../common/tokenizer';
+
+/**
+ * Directory of the bundled vocabularies
+ */
+export const DEFAULT_TOKENIZER_DIR = path.resolve(__dirname, '../../data/tokenizers');
+
+/**
+ * Tokenizers loaded so far, keyed by their vocabulary file
+ */
+const loadedTokenizers = new Map<string, Promise<Tokenizer>>();
+
+/**
+ * Loads the tokenizer of a byte pair encoding from its vocabulary file
+ *
+ * @param encoding Encoding to load
+ * @param dataDir Directory containing `<encoding>.tiktoken`
+ * @returns Promise resolving to the tokenizer of the encoding
+ * @throws ModelEyesError with code `UnsupportedError` if the vocabulary file is
+ * missing, or `ParseError` if it is malformed
+ */
+export function loadTokenizer(encoding: BpeEncoding, dataDir: string = DEFAULT_TOKENIZER_DIR): Promise<Tokenizer> {
+  const file = path.join(dataDir, `${encoding}.tiktoken`);
+
+  let tokenizer = loadedTokenizers.get(file);
+  if (!tokenizer) {
+    tokenizer = readTokenizer(encoding, file);
+    loadedTokenizers.set(file, tokenizer);
+    
+    // Let later calls retry after a failure, e.g. once the file is installed
+    tokenizer.catch(() => loadedTokenizers.delete(file));
+  }
+
+  return tokenizer;
+}
+
+/**
+ * Read a vocabulary file and create its tokenizer
+ */
+async function readTokenizer(encoding: BpeEncoding, file: string): Promise<Tokenizer> {
+  let vocabulary: string;
+  try {
+    vocabulary = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    throw new ModelEyesError('UnsupportedError', `Vocabulary of ${encoding} not found at ${file}`, { encoding, file });
+  }
+
+  return createBpeTokenizer(encoding, vocabulary);
+}
@@ -0,0 +1,327 @@
+/**
+ * ModelEyes WebSocket Server Transport
+ *
+ * This module accepts WebSocket connections from ModelEyes clients and speaks the
+ * protocol messages defined in `common/types`: clients send `initialState`,
+ * `stateUpdate` and `event` messages, and the server sends `actionRequest` and
+ * `queryRequest` messages whose `response` messages are matched to them by
+ * correlation ID. Dead connections are detected through WebSocket ping/pong frames.
+ */
+
+import { IncomingMessage, Server } from 'http';
+import WebSocket, { WebSocketServer } from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  UIState,
+  DifferentialUpdate,
+  EventMessage,
+  ActionType,
+  ActionResult,
+  QueryType,
+  ResponseMessage,
+  Message
+} from '../common/types';
+import { ModelEyesError } from '../common/errors';
+import {
+  CLIENT_TO_SERVER_MESSAGE_TYPES,
+  parseMessage,
+  createErrorMessage
+} from '../common/protocol';
+import { RequestDispatcher } from '../common/dispatcher';
+
+/**
+ * Handler for the messages received from WebSocket clients
+ *
+ * Errors thrown by the handler are reported to the client as `error` messages.
+ * A `ValidationError` with `resync: true` in its details asks the client to
+ * send a new `initialState`.
+ */
+export interface WebSocketMessageHandler {
+  /**
+   * Handle the initial UI state of a client
+   * @param state Initial UI state
+   * @param connection Connection the state was received on
+   */
+  initialState(state: UIState, connection: WebSocketConnection): void;
+
+  /**
+   * Handle a differential update from a client
+   * @param update Differential update
+   * @param connection Connection the update was received on
+   */
+  stateUpdate(update: DifferentialUpdate, connection: WebSocketConnection): void;
+
+  /**
+   * Handle a UI event reported by a client
+   * @param event Reported event
+   * @param connection Connection the event was received on
+   */
+  event?(event: EventMessage['payload'], connection: WebSocketConnection): void;
+
+  /**
+   * Handle a closed connection
+   * @param connection Connection that was closed
+   */
+  close?(connection: WebSocketConnection): void;
+}
+
+/**
+ * Options for the WebSocket server transport
+ */
+export interface WebSocketServerTransportOptions {
+  /** HTTP server to accept WebSocket upgrades on (a new server is started on `port` if omitted) */
+  server?: Server;
+
+  /** Port to listen on when no HTTP server is given (default 3001) */
+  port?: number;
+
+  /** Path to accept connections on (default '/ws') */
+  path?: string;
+
+  /** Interval in milliseconds between heartbeats; connections that miss one are closed (default 30000) */
+  heartbeatInterval?: number;
+
+  /** Time in milliseconds to wait for the response to a request (default 10000) */
+  requestTimeout?: number;
+}
+
+/**
+ * Server side of a client's WebSocket connection
+ */
+export class WebSocketConnection {
+  /** Unique connection identifier */
+  readonly id: string = uuidv4();
+
+  /** HTTP request that opened the connection */
+  readonly request: IncomingMessage;
+
+  /** Whether the client answered the last heartbeat */
+  isAlive = true;
+
+  private socket: WebSocket;
+  private handler: WebSocketMessageHandler;
+  private dispatcher: RequestDispatcher;
+
+  /**
+   * Create a new connection
+   *
+   * @param socket WebSocket of the connection
+   * @param request HTTP request that opened the connection
+   * @param handler Handler for the messages received on the connection
+   * @param requestTimeout Time in milliseconds to wait for the response to a request
+   */
+  constructor(socket: WebSocket, request: IncomingMessage, handler: WebSocketMessageHandler, requestTimeout: number) {
+    this.socket = socket;
+    this.request = request;
+    this.handler = handler;
+    this.dispatcher = new RequestDispatcher(message => this.send(message), requestTimeout);
+    
+    socket.on('message', data => this.handleMessage(data.toString()));
+    socket.on('pong', () => {
+      this.isAlive = true;
+    });
+    socket.on('close', () => this.handleClose());
+    socket.on('error', error => {
+      console.error('WebSocket connection error:', error);
+    });
+  }
+
+  /**
+   * Get a query parameter of the request that opened the connection
+   *
+   * @param name Name of the parameter
+   * @returns The parameter value, or undefined if it is not set
+   */
+  getQueryParameter(name: string): string | undefined {
+    const url = new URL(this.request.url ?? '/', 'http://localhost');
+    return url.searchParams.get(name) ?? undefined;
+  }
+
+  /**
+   * Ask the client to execute an action
+   *
+   * @param actionType Type of action to execute
+   * @param targetId ID of the target element
+   * @param data Additional data for the action
+   * @param timeout Time in milliseconds to wait for the result
+   * @param signal Signal that cancels the request
+   * @returns Promise resolving to the result of the action
+   */
+  requestAction(
+    actionType: ActionType,
+    targetId: string,
+    data?: any,
+    timeout?: number,
+    signal?: AbortSignal
+  ): Promise<ActionResult> {
+    return this.dispatcher.request('actionRequest', { actionType, targetId, data }, { timeout, signal });
+  }
+
+  /**
+   * Query the client for information about its UI
+   *
+   * @param queryType Type of query
+   * @param parameters Query parameters
+   * @param timeout Time in milliseconds to wait for the answer
+   * @param signal Signal that cancels the request
+   * @returns Promise resolving to the query result
+   */
+  query(queryType: QueryType, parameters: any, timeout?: number, signal?: AbortSignal): Promise<any> {
+    return this.dispatcher.request('queryRequest', { queryType, parameters }, { timeout, signal });
+  }
+
+  /**
+   * Get the number of requests waiting for their response
+   *
+   * @returns Number of pending requests
+   */
+  pendingRequestCount(): number {
+    return this.dispatcher.pendingCount();
+  }
+
+  /**
+   * Send a message to the client
+   *
+   * @param message Message to send
+   */
+  send(message: Message): void {
+    if (this.socket.readyState !== WebSocket.OPEN) {
+      throw new ModelEyesError('AccessError', 'WebSocket connection is not open', { connectionId: this.id });
+    }
+    
+    this.socket.send(JSON.stringify(message));
+  }
+
+  /**
+   * Send a heartbeat, closing the connection if the previous one was not answered
+   */
+  heartbeat(): void {
+    if (!this.isAlive) {
+      this.socket.terminate();
+      return;
+    }
+    
+    this.isAlive = false;
+    this.socket.ping();
+  }
+
+  /**
+   * Close the connection
+   */
+  close(): void {
+    this.socket.close();
+  }
+
+  /**
+   * Handle a message received from the client
+   *
+   * @param data Serialized message
+   */
+  private handleMessage(data: string): void {
+    try {
+      const message = parseMessage(data, [...CLIENT_TO_SERVER_MESSAGE_TYPES, 'response']);
+      
+      switch (message.type) {
+        case 'initialState':
+          this.handler.initialState(message.payload, this);
+          break;
+        
+        case 'stateUpdate':
+          this.handler.stateUpdate(message.payload, this);
+          break;
+        
+        case 'event':
+          this.handler.event?.(message.payload, this);
+          break;
+        
+        case 'response':
+          // Responses to requests that timed out or were cancelled are dropped
+          this.dispatcher.handleResponse(message as ResponseMessage);
+          break;
+      }
+    } catch (error) {
+      if (this.socket.readyState === WebSocket.OPEN) {
+        this.send(createErrorMessage(error, 'ValidationError'));
+      }
+    }
+  }
+
+  /**
+   * Reject pending requests and notify the handler when the connection closes
+   */
+  private handleClose(): void {
+    this.dispatcher.rejectAll(new ModelEyesError('AccessError', 'WebSocket connection closed', { connectionId: this.id }));
+    this.handler.close?.(this);
+  }
+}
+
+/**
+ * WebSocket server accepting ModelEyes client connections
+ */
+export class WebSocketServerTransport {
+  private wss: WebSocketServer;
+  private connections: Set<WebSocketConnection> = new Set();
+  private heartbeatTimer: ReturnType<typeof setInterval>;
+
+  /**
+   * Create a new WebSocket server transport
+   *
+   * @param handler Handler for the messages received from clients
+   * @param options Transport options
+   */
+  constructor(handler: WebSocketMessageHandler, options: WebSocketServerTransportOptions = {}) {
+    const path = options.path ?? '/ws';
+    const requestTimeout = options.requestTimeout ?? 10000;
+    
+    this.wss = options.server ?
+      new WebSocketServer({ server: options.server, path }) :
+      new WebSocketServer({ port: options.port ?? 3001, path });
+    
+    this.wss.on('connection', (socket, request) => {
+      const connection = new WebSocketConnection(socket, request, {
+        initialState: (state, conn) => handler.initialState(state, conn),
+        stateUpdate: (update, conn) => handler.stateUpdate(update, conn),
+        event: (event, conn) => handler.event?.(event, conn),
+        close: (conn) => {
+          this.connections.delete(conn);
+          handler.close?.(conn);
+        }
+      }, requestTimeout);
+      
+      this.connections.add(connection);
+    });
+    
+    this.wss.on('error', error => {
+      console.error('WebSocket server error:', error);
+    });
+    
+    // Close connections whose client stopped answering heartbeats
+    this.heartbeatTimer = setInterval(() => {
+      this.connections.forEach(connection => connection.heartbeat());
+    }, options.heartbeatInterval ?? 30000);
+  }
+
+  /**
+   * Get the open connections
+   *
+   * @returns The open connections
+   */
+  getConnections(): WebSocketConnection[] {
+    return Array.from(this.connections);
+  }
+
+  /**
+   * Close all connections and stop accepting new ones
+   */
+  async close(): Promise<void> {
+    clearInterval(this.heartbeatTimer);
+    
+    for (const client of this.wss.clients) {
+      client.terminate();
+    }
+    
+    await new Promise<void>((resolve) => {
+      this.wss.close(() => resolve());
+    });
+  }
+}
@@ -9,8 +9,141 @@
 const { 
   createWebClient, 
   createOpenAIServer,
-  createWindowsClient
+  createWindowsClient,
+  ModelEyesMcpServer,
+  BaseMCPClient,
+  WebSocketServerTransport,
+  RequestDispatcher,
+  createResponse,
+  executeQuery,
+  querySelectorAll,
+  ElementIdentityTracker,
+  WebMCPClient,
+  ModelEyesError,
+  renderOutline,
+  renderMarkdown,
+  renderYaml,
+  renderTable,
+  GenericMCPServer,
+  OpenAIMCPServer,
+  scoreElements,
+  loadTokenizer,
+  getEncodingForModel
 } = require('../dist');
+const http = require('http');
+const { SessionManager } = require('../dist/mcp/session');
+const { ModelEyesHttpServer } = require('../dist/mcp/http-server');
+const { ActionChannel } = require('../dist/mcp/action-channel');
+const { StateEventStream } = require('../dist/mcp/state-stream');
+const { Client } = require('@modelcontextprotocol/sdk/client/index.js');
+const { InMemoryTransport } = require('@modelcontextprotocol/sdk/inMemory.js');
+const { StreamableHTTPClientTransport } = require('@modelcontextprotocol/sdk/client/streamableHttp.js');
+const { SSEClientTransport } = require('@modelcontextprotocol/sdk/client/sse.js');
+const { ResourceUpdatedNotificationSchema } = require('@modelcontextprotocol/sdk/types.js');
+const { JSDOM } = require('jsdom');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const vm = require('vm');
+const { getEventListeners } = require('events');
+
+/**
+ * Create a small UI state for testing
+ */
+function createSampleState(version, elements) {
+  return {
+    timestamp: Date.now(),
+    platform: 'web',
+    application: 'Test',
+    title: 'Test Page',
+    url: 'https://example.com',
+    viewport: { width: 1024, height: 768 },
+    elements,
+    version
+  };
+}
+
+/**
+ * Minimal client that captures a fixed state and records executed actions
+ */
+class TestClient extends BaseMCPClient {
+  constructor() {
+    super();
+    this.captures = 0;
+    this.executedActions = [];
+    this.actionabilityDelay = 0;
+  }
+  
+  async initializePlatform() {}
+  
+  async capturePlatformState() {
+    this.captures++;
+    return createSampleState(`capture-${this.captures}`, {
+      'el-1': { id: 'el-1', type: 'button', text: 'Save', interactable: true, bounds: { x: 0, y: 0, width: 80, height: 30 } }
+    });
+  }
+  
+  async checkActionability(actionType, element, data, signal) {
+    // Wait for the target like platforms checking the live UI, unless the action is cancelled
+    await new Promise(resolve => {
+      const timer = setTimeout(resolve, this.actionabilityDelay);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+  
+  async executePlatformAction(actionType, element) {
+    this.executedActions.push(`${actionType}:${element.id}`);
+    return { success: true };
+  }
+  
+  disposePlatformResources() {}
+  
+  emitUpdate(update) {
+    this.notifySubscribers(update);
+  }
+}
+
+/**
+ * Wait until a condition holds
+ */
+async function waitFor(condition, timeout = 2000) {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Connect an MCP client to a ModelEyes MCP server over an in-memory transport
+ */
+async function connectMcpClient(server) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  
+  const client = new Client({ name: 'model-eyes-test', version: '0.1.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+/**
+ * Start a ModelEyes HTTP server on a free port
+ *
+ * @returns The server and its base URL
+ */
+async function startHttpServer(options = {}) {
+  const server = new ModelEyesHttpServer(0, undefined, undefined, options);
+  await server.start();
+  if (!server.server.listening) {
+    await new Promise(resolve => server.server.once('listening', resolve));
+  }
+  return { server, url: `http://localhost:${server.server.address().port}` };
+}
 
 /**
  * Simple test runner
@@ -112,6 +245,1869 @@ async function runTests() {
     console.error(`✗ Test 2 failed: ${error.message}`);
   }
   
+  // Test 3: MCP tools
+  try {
+    console.log('\nTest 3: MCP tools');
+    
+    const server = new ModelEyesMcpServer();
+    const client = await connectMcpClient(server);
+    
+    const { tools } = await client.listTools();
+    const toolNames = tools.map(tool => tool.name);
+    for (const name of ['get_ui_state', 'find_elements', 'execute_action', 'get_state_diff']) {
+      if (!toolNames.includes(name)) {
+        throw new Error(`Tool ${name} is not registered`);
+      }
+    }
+    console.log('✓ Tools are registered');
+    
+    const missing = await client.callTool({ name: 'get_ui_state', arguments: {} });
+    if (!missing.isError || JSON.parse(missing.content[0].text).error.code !== 'AccessError') {
+      throw new Error('get_ui_state did not report a missing state');
+    }
+    console.log('✓ get_ui_state reports a missing state');
+    
+    const button = {
+      id: 'el-1',
+      type: 'button',
+      text: 'Save',
+      bounds: { x: 10, y: 10, width: 80, height: 30 },
+      interactable: true
+    };
+    server.setCurrentState(createSampleState('v1', { 'el-1': button }));
+    server.setCurrentState(createSampleState('v2', {}));
+    
+    const diff = await client.callTool({ name: 'get_state_diff', arguments: { baseVersion: 'v1' } });
+    const update = JSON.parse(diff.content[0].text);
+    if (!update.removed || update.removed[0] !== 'el-1') {
+      throw new Error('get_state_diff did not report the removed element');
+    }
+    console.log('✓ get_state_diff reports changes');
+    
+    const action = await client.callTool({
+      name: 'execute_action',
+      arguments: { actionType: 'click', targetId: 'el-1' }
+    });
+    if (!action.isError || JSON.parse(action.content[0].text).error.code !== 'ValidationError') {
+      throw new Error('execute_action did not reject an unknown element');
+    }
+    console.log('✓ execute_action rejects unknown elements');
+    
+    await server.close();
+    
+    passed++;
+    console.log('✓ Test 3 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 3 failed: ${error.message}`);
+  }
+  
+  // Test 4: MCP resources and subscriptions
+  try {
+    console.log('\nTest 4: MCP resources and subscriptions');
+    
+    const server = new ModelEyesMcpServer();
+    const client = await connectMcpClient(server);
+    
+    const updatedUris = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updatedUris.push(notification.params.uri);
+    });
+    
+    server.setCurrentState(createSampleState('v1', {
+      'el-1': {
+        id: 'el-1',
+        type: 'button',
+        text: 'Save',
+        bounds: { x: 10, y: 10, width: 80, height: 30 },
+        interactable: true
+      }
+    }));
+    await client.subscribeResource({ uri: 'ui://state/current' });
+    
+    server.processUpdate({
+      timestamp: Date.now(),
+      baseVersion: 'v1',
+      version: 'v2',
+      modified: { 'el-1': { text: 'Saved' } }
+    });
+    
+    const { resources } = await client.listResources();
+    const uris = resources.map(resource => resource.uri);
+    for (const uri of ['ui://state/current', 'ui://state/v1', 'ui://state/v2', 'ui://element/el-1']) {
+      if (!uris.includes(uri)) {
+        throw new Error(`Resource ${uri} is not listed`);
+      }
+    }
+    console.log('✓ State and element resources are listed');
+    
+    const previous = await client.readResource({ uri: 'ui://state/v1' });
+    if (JSON.parse(previous.contents[0].text).elements['el-1'].text !== 'Save') {
+      throw new Error('ui://state/v1 does not contain the previous state');
+    }
+    const element = await client.readResource({ uri: 'ui://element/el-1' });
+    if (JSON.parse(element.contents[0].text).text !== 'Saved') {
+      throw new Error('ui://element/el-1 does not contain the updated element');
+    }
+    console.log('✓ Resources can be read');
+    
+    await new Promise(resolve => setTimeout(resolve, 10));
+    if (!updatedUris.includes('ui://state/current')) {
+      throw new Error('No update notification for ui://state/current');
+    }
+    console.log('✓ Subscribers are notified of updates');
+    
+    await server.close();
+    
+    passed++;
+    console.log('✓ Test 4 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 4 failed: ${error.message}`);
+  }
+  
+  // Test 5: Per-tab UI sessions
+  try {
+    console.log('\nTest 5: Per-tab UI sessions');
+    
+    const sessions = new SessionManager(0);
+    const tab1 = sessions.getOrCreate('client-a', '1');
+    const tab2 = sessions.getOrCreate('client-a', '2');
+    if (tab1.id !== 'client-a:1' || sessions.getOrCreate('client-a', '1') !== tab1) {
+      throw new Error('Sessions are not keyed by client and tab ID');
+    }
+    
+    tab1.updateCurrentState(createSampleState('a1', {}));
+    tab2.updateCurrentState(createSampleState('b1', {}));
+    tab1.processUpdate({ baseVersion: 'a1', version: 'a2', timestamp: Date.now(), added: {} });
+    if (tab1.getCurrentState().version !== 'a2' || tab2.getCurrentState().version !== 'b1') {
+      throw new Error('Session states are not independent');
+    }
+    if (tab1.getHistory()[0].version !== 'a1' || tab2.getHistory().length !== 0) {
+      throw new Error('Session histories are not independent');
+    }
+    try {
+      tab2.processUpdate({ baseVersion: 'a2', version: 'b2', timestamp: Date.now() });
+      throw new Error('Update from another session was applied');
+    } catch (error) {
+      if (error.code !== 'ValidationError') {
+        throw error;
+      }
+    }
+    console.log('✓ Each session keeps its own state, history and version chain');
+    
+    const expiring = new SessionManager(1000);
+    expiring.getOrCreate('client-a', '1').lastActivity = Date.now() - 2000;
+    expiring.getOrCreate('client-a', '2');
+    if (expiring.expireIdleSessions().join() !== 'client-a:1' || expiring.list().length !== 1) {
+      throw new Error('Idle sessions were not expired');
+    }
+    expiring.dispose();
+    console.log('✓ Idle sessions expire');
+    
+    passed++;
+    console.log('✓ Test 5 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 5 failed: ${error.message}`);
+  }
+  
+  // Test 6: UI state event stream
+  try {
+    console.log('\nTest 6: UI state event stream');
+    
+    const stream = new StateEventStream(3);
+    const received = [];
+    const unsubscribe = stream.subscribe(event => received.push(event), 'client-a:1');
+    
+    stream.publish('client-a:1', 'state', { state: createSampleState('v1', {}) });
+    stream.publish('client-a:2', 'state', { state: createSampleState('w1', {}) });
+    stream.publish('client-a:1', 'focus', { elementId: 'el-1' });
+    unsubscribe();
+    
+    if (received.map(event => event.id).join() !== '1,3') {
+      throw new Error('Subscribers did not receive the events of their session');
+    }
+    console.log('✓ Events have increasing IDs and are delivered per session');
+    
+    const missed = stream.getEventsSince(1, 'client-a:1');
+    if (!missed || missed.map(event => event.type).join() !== 'focus') {
+      throw new Error('Missed events were not replayed');
+    }
+    
+    stream.publish('client-a:1', 'hover', { elementId: null });
+    stream.publish('client-a:1', 'hover', { elementId: 'el-1' });
+    if (stream.getEventsSince(1) !== null) {
+      throw new Error('Resuming from an evicted event did not require a full state');
+    }
+    console.log('✓ Clients can resume from buffered events');
+    
+    passed++;
+    console.log('✓ Test 6 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 6 failed: ${error.message}`);
+  }
+  
+  // Test 7: WebSocket transport
+  try {
+    console.log('\nTest 7: WebSocket transport');
+    
+    const httpServer = http.createServer();
+    await new Promise(resolve => httpServer.listen(0, resolve));
+    
+    const received = [];
+    let connection = null;
+    let currentVersion = null;
+    const transport = new WebSocketServerTransport({
+      initialState: (state, conn) => {
+        connection = conn;
+        currentVersion = state.version;
+        received.push(`initialState:${state.version}`);
+      },
+      stateUpdate: (update) => {
+        if (update.baseVersion !== currentVersion) {
+          throw new ModelEyesError('ValidationError', 'Base version mismatch', { resync: true });
+        }
+        currentVersion = update.version;
+        received.push(`stateUpdate:${update.version}`);
+      }
+    }, { server: httpServer });
+    
+    const client = new TestClient();
+    await client.initialize({ platform: 'web' });
+    await client.connectWebSocket(`ws://localhost:${httpServer.address().port}/ws`);
+    
+    client.emitUpdate({ baseVersion: 'capture-1', version: 'update-1', timestamp: Date.now() });
+    await waitFor(() => received.length === 2);
+    if (received.join() !== 'initialState:capture-1,stateUpdate:update-1') {
+      throw new Error(`Unexpected messages: ${received.join()}`);
+    }
+    console.log('✓ Initial state and updates are sent');
+    
+    const [first, second] = await Promise.all([
+      connection.requestAction('click', 'el-1'),
+      connection.requestAction('focus', 'el-1')
+    ]);
+    if (!first.success || !second.success || client.executedActions.join() !== 'click:el-1,focus:el-1') {
+      throw new Error('Action requests were not answered');
+    }
+    console.log('✓ Action requests are answered by correlation ID');
+    
+    const queried = await connection.query('elementState', { elementId: 'el-1' });
+    if (queried.role !== 'button' || queried.element.text !== 'Save') {
+      throw new Error('Query request was not answered from the client state');
+    }
+    console.log('✓ Query requests are answered');
+    
+    client.emitUpdate({ baseVersion: 'stale', version: 'update-2', timestamp: Date.now() });
+    await waitFor(() => received.includes('initialState:capture-2'));
+    console.log('✓ Rejected updates trigger a resync');
+    
+    client.actionabilityDelay = 200;
+    const cancelController = new AbortController();
+    const cancelledAction = connection.requestAction('click', 'el-1', undefined, undefined, cancelController.signal).catch(error => error);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    cancelController.abort();
+    await cancelledAction;
+    await new Promise(resolve => setTimeout(resolve, 300));
+    if (client.executedActions.length !== 2) {
+      throw new Error('Cancelled action was still executed');
+    }
+    console.log('✓ Cancelled requests are stopped');
+    
+    // jsdom implements the browser WebSocket API, without the extensions of `ws`
+    const { window } = new JSDOM('');
+    const nodeConnection = connection;
+    const browserClient = new TestClient();
+    await browserClient.initialize({ platform: 'web' });
+    const browserTransport = await browserClient.connectWebSocket(`ws://localhost:${httpServer.address().port}/ws`, {
+      webSocket: window.WebSocket,
+      reconnect: false
+    });
+    await waitFor(() => connection !== nodeConnection && browserTransport.isConnected());
+    const browserResult = await connection.requestAction('click', 'el-1');
+    if (!browserResult.success || browserClient.executedActions.join() !== 'click:el-1') {
+      throw new Error('Transport did not work with a browser WebSocket implementation');
+    }
+    console.log('✓ The transport works with other WebSocket implementations');
+    
+    browserClient.dispose();
+    window.close();
+    client.dispose();
+    await transport.close();
+    await new Promise(resolve => httpServer.close(resolve));
+    
+    passed++;
+    console.log('✓ Test 7 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 7 failed: ${error.message}`);
+  }
+  
+  // Test 8: Request dispatcher
+  try {
+    console.log('\nTest 8: Request dispatcher');
+    
+    const sent = [];
+    const dispatcher = new RequestDispatcher(message => sent.push(message), 1000);
+    
+    const first = dispatcher.request('actionRequest', { actionType: 'click', targetId: 'el-1' });
+    const second = dispatcher.request('queryRequest', { queryType: 'elementState', parameters: {} });
+    if (sent.length !== 2 || !sent[0].id || sent[0].id === sent[1].id || sent[0].timeout !== 1000) {
+      throw new Error('Requests were not sent with unique IDs');
+    }
+    
+    // Answer the requests in reverse order
+    dispatcher.handleResponse(createResponse(sent[1].id, 'second'));
+    dispatcher.handleResponse(createResponse(sent[0].id, 'first'));
+    if (await first !== 'first' || await second !== 'second' || dispatcher.pendingCount() !== 0) {
+      throw new Error('Responses were not matched to their requests');
+    }
+    console.log('✓ Concurrent requests are matched by correlation ID');
+    
+    const timedOut = await dispatcher.request('actionRequest', {}, { timeout: 10 }).catch(error => error);
+    const timeoutCancel = sent[sent.length - 1];
+    if (timedOut.code !== 'TimeoutError' || timeoutCancel.type !== 'cancel' || timeoutCancel.correlationId !== sent[2].id) {
+      throw new Error('Timed out request was not cancelled');
+    }
+    console.log('✓ Timed out requests are cancelled');
+    
+    const abortController = new AbortController();
+    const aborted = dispatcher.request('actionRequest', {}, { signal: abortController.signal }).catch(error => error);
+    abortController.abort();
+    if ((await aborted).code !== 'AccessError' || sent[sent.length - 1].correlationId !== sent[4].id) {
+      throw new Error('Aborted request was not cancelled');
+    }
+    if (dispatcher.handleResponse(createResponse(sent[4].id, 'late'))) {
+      throw new Error('Late response was accepted');
+    }
+    console.log('✓ Aborted requests are cancelled and late responses dropped');
+    
+    passed++;
+    console.log('✓ Test 8 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 8 failed: ${error.message}`);
+  }
+  
+  // Test 9: Element queries
+  try {
+    console.log('\nTest 9: Element queries');
+    
+    const state = createSampleState('v1', {
+      'form-1': { id: 'form-1', type: 'form', children: ['name', 'submit'], bounds: { x: 0, y: 0, width: 400, height: 200 } },
+      'name': { id: 'name', type: 'input', parent: 'form-1', attributes: { type: 'text', name: 'name', required: '' }, bounds: { x: 10, y: 10, width: 200, height: 30 } },
+      'submit': { id: 'submit', type: 'div', text: 'Send', parent: 'form-1', attributes: { role: 'button' }, bounds: { x: 10, y: 150, width: 80, height: 30 } }
+    });
+    state.focus = 'name';
+    
+    const byRole = executeQuery(state, 'elementSearch', { role: 'button' });
+    const byAttributes = executeQuery(state, 'elementSearch', { attributes: { required: true, name: 'name' } });
+    const byBounds = executeQuery(state, 'elementSearch', { bounds: { x: 0, y: 100, width: 400, height: 100, relation: 'within' } });
+    if (byRole.elements.map(e => e.id).join() !== 'submit' ||
+        byAttributes.elements.map(e => e.id).join() !== 'name' ||
+        byBounds.elements.map(e => e.id).join() !== 'submit') {
+      throw new Error('Search predicates did not match the expected elements');
+    }
+    console.log('✓ Searches match role, attribute and bounds predicates');
+    
+    const elementState = executeQuery(state, 'elementState', { elementId: 'name' });
+    const { path } = executeQuery(state, 'elementPath', { elementId: 'submit' });
+    if (!elementState.focused || elementState.role !== 'textbox' || path.map(e => e.id).join() !== 'form-1,submit') {
+      throw new Error('Element state or path is wrong');
+    }
+    console.log('✓ Element state and ancestor path are returned');
+    
+    const server = new ModelEyesMcpServer();
+    const client = await connectMcpClient(server);
+    server.setCurrentState(state);
+    
+    const toolResult = await client.callTool({ name: 'get_element_path', arguments: { elementId: 'submit' } });
+    if (JSON.stringify(JSON.parse(toolResult.content[0].text)) !== JSON.stringify({ path })) {
+      throw new Error('MCP tool result differs from the query engine');
+    }
+    
+    let error = null;
+    try {
+      executeQuery(state, 'elementState', { elementId: 'missing' });
+    } catch (e) {
+      error = e;
+    }
+    if (!error || error.code !== 'ValidationError') {
+      throw new Error('Unknown element did not fail with a ValidationError');
+    }
+    console.log('✓ MCP tools share the query semantics');
+    
+    await client.close();
+    
+    passed++;
+    console.log('✓ Test 9 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 9 failed: ${error.message}`);
+  }
+  
+  // Test 10: Element selectors
+  try {
+    console.log('\nTest 10: Element selectors');
+    
+    const box = (x, y, width = 100, height = 20) => ({ x, y, width, height });
+    const state = createSampleState('v1', {
+      'el-1': { id: 'el-1', type: 'form', attributes: { id: 'login', class: 'card wide' }, children: ['el-2', 'el-3', 'el-4', 'el-5'], bounds: box(0, 0, 400, 200) },
+      'el-2': { id: 'el-2', type: 'label', text: 'Email  address', parent: 'el-1', bounds: box(10, 10) },
+      'el-3': { id: 'el-3', type: 'input', parent: 'el-1', attributes: { type: 'email', name: 'email' }, bounds: box(120, 10) },
+      'el-4': { id: 'el-4', type: 'div', parent: 'el-1', children: ['el-6'], bounds: box(10, 100, 300, 40) },
+      'el-5': { id: 'el-5', type: 'input', parent: 'el-1', attributes: { type: 'password', disabled: '' }, bounds: box(120, 50) },
+      'el-6': { id: 'el-6', type: 'button', text: 'Sign in', parent: 'el-4', bounds: box(10, 110) }
+    });
+    const select = selector => querySelectorAll(state, selector).join();
+    
+    const checks = [
+      ['form#login.card input', 'el-3,el-5'],
+      ['form > button', ''],
+      ['form > div > button', 'el-6'],
+      ['input[type="email"], input[type^=pass]', 'el-3,el-5'],
+      ['input:not([disabled])', 'el-3'],
+      [':text("email address")', 'el-2'],
+      ['div:has(button:text("sign in"))', 'el-4'],
+      ['input:nth-of-type(2)', 'el-5'],
+      ['input:last-of-type', 'el-5'],
+      ['input:right-of(label:text("Email"))', 'el-3'],
+      ['input:below(input[name=email])', 'el-5'],
+      ['button:near(input[type=password], 50)', 'el-6'],
+      ['label:left-of(input, 5)', '']
+    ];
+    for (const [selector, expected] of checks) {
+      if (select(selector) !== expected) {
+        throw new Error(`${selector} matched ${select(selector) || 'nothing'} instead of ${expected || 'nothing'}`);
+      }
+    }
+    console.log('✓ Combinators, attributes and pseudo-classes select the expected elements');
+    
+    const { elements } = executeQuery(state, 'elementSearch', { selector: 'input', limit: 1 });
+    if (elements.length !== 1 || elements[0].id !== 'el-3') {
+      throw new Error('elementSearch did not apply the selector');
+    }
+    console.log('✓ Searches accept selectors');
+    
+    let error = null;
+    try {
+      querySelectorAll(state, 'input:bogus');
+    } catch (e) {
+      error = e;
+    }
+    if (!error || error.code !== 'ValidationError' || error.details.position === undefined) {
+      throw new Error('Malformed selector did not fail with a ValidationError');
+    }
+    console.log('✓ Malformed selectors are rejected');
+    
+    passed++;
+    console.log('✓ Test 10 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 10 failed: ${error.message}`);
+  }
+  
+  // Test 11: Stable element identity
+  try {
+    console.log('\nTest 11: Stable element identity');
+    
+    const capture = () => [
+      { tag: 'form', role: 'form', path: 'html:1/body:1/form:1', domId: 'login' },
+      { tag: 'input', role: 'textbox', name: 'Email', path: 'html:1/body:1/form:1/input:1', landmark: 'form#login' },
+      { tag: 'button', role: 'button', name: 'Sign in', path: 'html:1/body:1/form:1/button:1', landmark: 'form#login' },
+      { tag: 'button', role: 'button', name: 'Sign in', path: 'html:1/body:1/form:1/button:2', landmark: 'form#login' }
+    ];
+    
+    const tracker = new ElementIdentityTracker();
+    const first = tracker.assignIds(capture(), capture().map(() => ({})));
+    if (new Set(first).size !== first.length || first[0] !== 'id-login') {
+      throw new Error(`Unexpected first IDs: ${first.join(', ')}`);
+    }
+    
+    const fresh = new ElementIdentityTracker().assignIds(capture());
+    if (JSON.stringify(fresh) !== JSON.stringify(first)) {
+      throw new Error('IDs of a first capture are not deterministic');
+    }
+    console.log('✓ Elements get distinct, deterministic IDs');
+    
+    // Re-render with new nodes, an inserted field and a renamed button
+    const rerendered = capture();
+    rerendered[2] = { ...rerendered[2], name: 'Log in' };
+    rerendered.splice(2, 0, { tag: 'input', role: 'textbox', name: 'Password', path: 'html:1/body:1/form:1/input:2', landmark: 'form#login' });
+    const second = tracker.assignIds(rerendered, rerendered.map(() => ({})));
+    
+    if (second[0] !== first[0] || second[1] !== first[1] || second[3] !== first[2] || second[4] !== first[3]) {
+      throw new Error(`Elements were not re-identified: ${second.join(', ')}`);
+    }
+    if (first.includes(second[2])) {
+      throw new Error('New element reused an existing ID');
+    }
+    console.log('✓ Replaced, renamed and shifted elements keep their IDs');
+    
+    passed++;
+    console.log('✓ Test 11 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 11 failed: ${error.message}`);
+  }
+  
+  // Test 12: Time-sliced web capture
+  try {
+    console.log('\nTest 12: Time-sliced web capture');
+    
+    const dom = new JSDOM(
+      `<!DOCTYPE html><body><ul>${'<li>Item</li>'.repeat(300)}</ul><button id="save">Save</button>` +
+      '<div style="display: none"><p>Hidden</p></div><script>/* skipped */</script></body>'
+    );
+    Object.assign(global, {
+      window: dom.window,
+      document: dom.window.document,
+      navigator: dom.window.navigator,
+      MutationObserver: dom.window.MutationObserver
+    });
+    dom.window.document.getElementById('save').focus();
+    
+    const sliced = new WebMCPClient();
+    await sliced.initialize({ platform: 'web', optimization: { captureTimeSlice: 1 } });
+    const whole = new WebMCPClient();
+    await whole.initialize({ platform: 'web', optimization: { captureTimeSlice: 0 } });
+    
+    // Timers only run during a capture that yields to the event loop
+    let ticks = 0;
+    const interval = setInterval(() => ticks++, 0);
+    const [first, second] = await Promise.all([sliced.captureState(), sliced.captureState()]);
+    clearInterval(interval);
+    const reference = await whole.captureState();
+    sliced.dispose();
+    whole.dispose();
+    
+    if (ticks === 0) {
+      throw new Error('Capture did not yield to the event loop');
+    }
+    const ids = Object.keys(reference.elements);
+    if (JSON.stringify(Object.keys(first.elements)) !== JSON.stringify(ids) ||
+        JSON.stringify(Object.keys(second.elements)) !== JSON.stringify(ids)) {
+      throw new Error('Time-sliced and concurrent captures differ from a single-pass capture');
+    }
+    console.log('✓ Captures yield between slices and match a single-pass capture');
+    
+    if (ids.length !== 303 || Object.values(reference.elements).some(element => ['p', 'script'].includes(element.type))) {
+      throw new Error(`Unexpected captured elements: ${ids.length}`);
+    }
+    if (reference.focus !== 'id-save') {
+      throw new Error(`Unexpected focused element: ${reference.focus}`);
+    }
+    console.log('✓ Hidden subtrees are skipped and the focused element is resolved');
+    
+    passed++;
+    console.log('✓ Test 12 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 12 failed: ${error.message}`);
+  }
+  
+  // Test 13: Incremental capture
+  try {
+    console.log('\nTest 13: Incremental capture');
+    
+    const dom = new JSDOM(
+      '<!DOCTYPE html><body><ul id="list"><li id="one">One</li><li>Two</li></ul>' +
+      '<p>Count: <span id="count">0</span></p></body>'
+    );
+    const document = dom.window.document;
+    Object.assign(global, {
+      window: dom.window,
+      document,
+      navigator: dom.window.navigator,
+      MutationObserver: dom.window.MutationObserver
+    });
+    
+    const client = new WebMCPClient();
+    await client.initialize({ platform: 'web', optimization: { mutationWindow: 10 } });
+    await client.captureState();
+    
+    const updates = [];
+    client.subscribeToStateChanges(update => updates.push(update));
+    
+    // Mutations within one window are coalesced into one update
+    const item = document.createElement('li');
+    item.textContent = 'Three';
+    document.getElementById('list').appendChild(item);
+    document.getElementById('one').remove();
+    document.getElementById('count').textContent = '2';
+    await new Promise(resolve => setTimeout(resolve, 50));
+    
+    if (updates.length !== 1) {
+      throw new Error(`Expected one update, got ${updates.length}`);
+    }
+    const [update] = updates;
+    const addedTypes = Object.values(update.added || {}).map(element => element.type);
+    if (addedTypes.join() !== 'li' || JSON.stringify(update.removed) !== '["id-one"]') {
+      throw new Error(`Unexpected added or removed elements: ${addedTypes}, ${update.removed}`);
+    }
+    if (update.modified['id-list'].children.length !== 2 || update.modified['id-count'].text !== '2') {
+      throw new Error('Parent and text changes are missing from the update');
+    }
+    console.log('✓ Mutations are coalesced into one update built from the records');
+    
+    const sortKeys = value => Array.isArray(value) ? value.map(sortKeys)
+      : value && typeof value === 'object'
+        ? Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys(value[key])]))
+        : value;
+    const incremental = JSON.stringify(sortKeys(client.getCurrentState().elements));
+    const full = JSON.stringify(sortKeys((await client.captureState()).elements));
+    client.dispose();
+    
+    if (incremental !== full) {
+      throw new Error('Incrementally updated state differs from a full capture');
+    }
+    console.log('✓ Incrementally updated state matches a full capture');
+    
+    passed++;
+    console.log('✓ Test 13 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 13 failed: ${error.message}`);
+  }
+  
+  // Test 14: Accessibility capture
+  try {
+    console.log('\nTest 14: Accessibility capture');
+    
+    const dom = new JSDOM(
+      '<!DOCTYPE html><body><main><div class="wrapper"><div><button aria-expanded="false">Menu</button></div>' +
+      '<label for="email">Email</label><input id="email" type="email" required>' +
+      '<label><input type="checkbox" checked> Remember me</label>' +
+      '<p>Count: <span>3</span> items</p>' +
+      '<a href="/help" aria-describedby="hint">Help</a><span id="hint">Opens the help page</span>' +
+      '</div></main></body>'
+    );
+    Object.assign(global, {
+      window: dom.window,
+      document: dom.window.document,
+      navigator: dom.window.navigator,
+      MutationObserver: dom.window.MutationObserver
+    });
+    
+    const client = new WebMCPClient();
+    await client.initialize({ platform: 'web', captureMode: 'accessibility' });
+    const state = await client.captureState();
+    client.dispose();
+    
+    const elements = Object.values(state.elements);
+    const byRole = role => elements.find(element => element.role === role);
+    
+    const button = byRole('button');
+    if (button.name !== 'Menu' || button.states.expanded !== false) {
+      throw new Error(`Unexpected button semantics: ${JSON.stringify(button)}`);
+    }
+    const textbox = byRole('textbox');
+    const checkbox = byRole('checkbox');
+    if (textbox.name !== 'Email' || !textbox.states.required || checkbox.name !== 'Remember me' || checkbox.states.checked !== true) {
+      throw new Error('Form controls are not named by their labels');
+    }
+    const link = byRole('link');
+    if (link.name !== 'Help' || link.description !== 'Opens the help page') {
+      throw new Error(`Unexpected link semantics: ${JSON.stringify(link)}`);
+    }
+    console.log('✓ Roles, names, descriptions and states are computed');
+    
+    const main = byRole('main');
+    if (elements.some(element => ['div', 'span', 'label'].includes(element.type)) || button.parent !== main.id) {
+      throw new Error('Wrappers without semantics are not left out');
+    }
+    if (byRole('paragraph').text !== 'Count: 3 items') {
+      throw new Error('Text of left out wrappers is not attributed to their ancestor');
+    }
+    console.log('✓ Wrappers without semantics are left out');
+    
+    passed++;
+    console.log('✓ Test 14 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 14 failed: ${error.message}`);
+  }
+  
+  // Test 15: Shadow DOM and frames
+  try {
+    console.log('\nTest 15: Shadow DOM and frames');
+    
+    const dom = new JSDOM(
+      '<!DOCTYPE html><body><div id="host"><span>Slotted</span></div>' +
+      '<iframe id="frame"></iframe><iframe id="remote" src="https://other.example/"></iframe></body>'
+    );
+    const document = dom.window.document;
+    Object.assign(global, {
+      window: dom.window,
+      document,
+      navigator: dom.window.navigator,
+      MutationObserver: dom.window.MutationObserver
+    });
+    
+    const shadowRoot = document.getElementById('host').attachShadow({ mode: 'open' });
+    shadowRoot.innerHTML = '<button id="shadow-button">Shadow</button><slot></slot>';
+    let clicked = false;
+    shadowRoot.getElementById('shadow-button').addEventListener('click', () => { clicked = true; });
+    
+    const frame = document.getElementById('frame');
+    frame.contentDocument.body.innerHTML = '<input id="inner" type="text">';
+    const inner = frame.contentDocument.getElementById('inner');
+    frame.getBoundingClientRect = () => ({ left: 100, top: 50, width: 300, height: 200 });
+    inner.getBoundingClientRect = () => ({ left: 10, top: 5, width: 80, height: 20 });
+    
+    const client = new WebMCPClient();
+    await client.initialize({ platform: 'web', optimization: { mutationWindow: 0 } });
+    const state = await client.captureState();
+    
+    const button = state.elements['id-shadow-button'];
+    const slot = Object.values(state.elements).find(element => element.type === 'slot');
+    if (!button || button.parent !== 'id-host' || !slot || state.elements[slot.children[0]].text !== 'Slotted') {
+      throw new Error('Shadow tree is not captured with its slotted content');
+    }
+    const input = state.elements['id-inner'];
+    if (!input || input.bounds.x !== 110 || input.bounds.y !== 55) {
+      throw new Error(`Frame content is not captured in viewport coordinates: ${JSON.stringify(input && input.bounds)}`);
+    }
+    const remote = state.elements['id-remote'];
+    if (!remote.crossOrigin || remote.children) {
+      throw new Error('Cross-origin frame is not captured as a placeholder');
+    }
+    console.log('✓ Shadow trees and same-origin frames are captured, cross-origin frames are placeholders');
+    
+    await client.executeAction('click', 'id-shadow-button');
+    await client.executeAction('type', 'id-inner', 'Hello');
+    if (!clicked || inner.value !== 'Hello') {
+      throw new Error('Actions do not reach elements in shadow trees and frames');
+    }
+    console.log('✓ Actions target elements in shadow trees and frames');
+    
+    const updates = [];
+    client.subscribeToStateChanges(update => updates.push(update));
+    shadowRoot.appendChild(document.createElement('p')).textContent = 'Shadow text';
+    frame.contentDocument.body.appendChild(frame.contentDocument.createElement('p')).textContent = 'Frame text';
+    await new Promise(resolve => setTimeout(resolve, 30));
+    client.dispose();
+    
+    const addedTexts = updates.flatMap(update => Object.values(update.added || {}).map(element => element.text)).sort();
+    if (addedTexts.join() !== 'Frame text,Shadow text') {
+      throw new Error(`Mutations in shadow trees and frames are not captured: ${addedTexts}`);
+    }
+    console.log('✓ Mutations in shadow trees and frames are captured');
+    
+    passed++;
+    console.log('✓ Test 15 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 15 failed: ${error.message}`);
+  }
+  
+  // Test 16: Form controls
+  try {
+    console.log('\nTest 16: Form controls');
+    
+    const dom = new JSDOM(
+      '<!DOCTYPE html><body><form id="signup">' +
+      '<label for="email">Email</label><input id="email" type="email" required value="not-an-email">' +
+      '<input id="secret" type="password" value="hunter2">' +
+      '<select id="plan"><option value="free">Free</option><optgroup label="Paid" disabled><option value="pro">Pro</option></optgroup></select>' +
+      '<label><input id="terms" type="checkbox"> I agree</label>' +
+      '<input id="monthly" type="radio" name="billing" value="monthly" checked>' +
+      '<input id="yearly" type="radio" name="billing" value="yearly">' +
+      '<textarea id="notes"></textarea><button id="submit">Sign up</button></form></body>'
+    );
+    const document = dom.window.document;
+    Object.assign(global, {
+      window: dom.window,
+      document,
+      navigator: dom.window.navigator,
+      MutationObserver: dom.window.MutationObserver
+    });
+    
+    const client = new WebMCPClient();
+    await client.initialize({ platform: 'web', optimization: { mutationWindow: 0 } });
+    const state = await client.captureState();
+    
+    const email = state.elements['id-email'].control;
+    if (email.label !== 'Email' || email.labelIds.length !== 1 || email.formId !== 'id-signup' ||
+        !email.required || !email.invalid || !email.validationMessage) {
+      throw new Error(`Unexpected email state: ${JSON.stringify(email)}`);
+    }
+    if (state.elements['id-secret'].control.value !== '*******') {
+      throw new Error('Password value is not masked');
+    }
+    const plan = state.elements['id-plan'].control;
+    if (plan.value !== 'free' || plan.options.length !== 2 || !plan.options[0].selected || !plan.options[1].disabled) {
+      throw new Error(`Unexpected select state: ${JSON.stringify(plan)}`);
+    }
+    if (state.elements['id-terms'].control.label !== 'I agree' || state.elements['id-terms'].control.checked !== false) {
+      throw new Error('Checkbox is not captured with its enclosing label');
+    }
+    const fields = state.elements['id-signup'].fields;
+    if (fields.join() !== 'id-email,id-secret,id-plan,id-terms,id-monthly,id-yearly,id-notes,id-submit') {
+      throw new Error(`Unexpected form fields: ${fields}`);
+    }
+    console.log('✓ Values, options, validation state, labels and forms are captured');
+    
+    // Property changes are not DOM mutations, so they are picked up from events
+    const updates = [];
+    client.subscribeToStateChanges(update => updates.push(update));
+    document.getElementById('yearly').click();
+    const notes = document.getElementById('notes');
+    notes.value = 'Call me';
+    notes.dispatchEvent(new dom.window.Event('input', { bubbles: true }));
+    await new Promise(resolve => setTimeout(resolve, 30));
+    
+    const modified = Object.assign({}, ...updates.map(update => update.modified || {}));
+    if (!modified['id-yearly'] || modified['id-yearly'].control.checked !== true ||
+        !modified['id-monthly'] || modified['id-monthly'].control.checked !== false) {
+      throw new Error('Radio group change is not captured');
+    }
+    if (!modified['id-notes'] || modified['id-notes'].control.value !== 'Call me' || modified['id-notes'].text !== 'Call me') {
+      throw new Error('Typed value is not captured');
+    }
+    console.log('✓ Value changes from input and change events are captured');
+    
+    await client.executeAction('type', 'id-email', 'me@example.com');
+    await new Promise(resolve => setTimeout(resolve, 30));
+    client.dispose();
+    
+    const typed = client.getCurrentState().elements['id-email'].control;
+    if (typed.value !== 'me@example.com' || typed.invalid) {
+      throw new Error(`Validation state is not updated: ${JSON.stringify(typed)}`);
+    }
+    console.log('✓ Validation state follows the value');
+    
+    passed++;
+    console.log('✓ Test 16 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 16 failed: ${error.message}`);
+  }
+  
+  // Test 17: Extended actions
+  try {
+    console.log('\nTest 17: Extended actions');
+    
+    const dom = new JSDOM(
+      '<!DOCTYPE html><body><form id="order">' +
+      '<select id="size"><option value="s">Small</option><option value="l">Large</option></select>' +
+      '<input id="gift" type="checkbox"><input id="query" type="text" value="shoes">' +
+      '<input id="receipt" type="file"><button id="send">Send</button></form>' +
+      '<div id="menu">Menu</div><div id="card" draggable="true">Card</div><div id="column">Column</div>' +
+      '</body>',
+      { url: 'https://shop.example/cart' }
+    );
+    const document = dom.window.document;
+    Object.assign(global, {
+      window: dom.window,
+      document,
+      navigator: dom.window.navigator,
+      MutationObserver: dom.window.MutationObserver
+    });
+    
+    const events = [];
+    document.getElementById('order').addEventListener('submit', event => {
+      event.preventDefault();
+      events.push('submit');
+    });
+    document.getElementById('menu').addEventListener('mouseenter', () => events.push('mouseenter'));
+    document.getElementById('card').addEventListener('dragstart', event => event.dataTransfer.setData('text/plain', 'card'));
+    document.getElementById('column').addEventListener('dragover', event => event.preventDefault());
+    document.getElementById('column').addEventListener('drop', event => events.push(`drop:${event.dataTransfer.getData('text/plain')}`));
+    
+    const client = new WebMCPClient();
+    await client.initialize({ platform: 'web', optimization: { mutationWindow: 0 } });
+    await client.captureState();
+    
+    const invalid = await Promise.all([
+      client.executeAction('teleport', 'id-menu'),
+      client.executeAction('select', 'id-size', { value: 's', label: 'Small' }),
+      client.executeAction('pressKey', 'id-query', { key: 'Enter', modifiers: ['Hyper'] }),
+      client.executeAction('dragAndDrop', 'id-card', { targetId: 'id-missing' }),
+      client.executeAction('uncheck', 'id-size')
+    ]);
+    if (invalid.some(result => result.success) || !/Unsupported action type/.test(invalid[0].error)) {
+      throw new Error(`Invalid actions are not rejected: ${JSON.stringify(invalid)}`);
+    }
+    console.log('✓ Unknown actions, malformed data and unsupported elements are rejected');
+    
+    const selected = await client.executeAction('select', 'id-size', { label: 'Large' });
+    await client.executeAction('check', 'id-gift');
+    const checked = document.getElementById('gift').checked;
+    await client.executeAction('uncheck', 'id-gift');
+    await client.executeAction('clear', 'id-query');
+    const uploaded = await client.executeAction('uploadFile', 'id-receipt', {
+      files: [{ name: 'receipt.txt', content: Buffer.from('Paid').toString('base64'), encoding: 'base64', mimeType: 'text/plain' }]
+    });
+    const file = document.getElementById('receipt').files[0];
+    if (document.getElementById('size').value !== 'l' || selected.data.selected[0] !== 'l' || !checked ||
+        document.getElementById('gift').checked || document.getElementById('query').value !== '' ||
+        !uploaded.success || file.name !== 'receipt.txt' || file.size !== 4) {
+      throw new Error('Form actions do not change the controls');
+    }
+    console.log('✓ Options are selected, boxes checked, fields cleared and files chosen');
+    
+    await client.executeAction('pressKey', 'id-query', { key: 'Enter' });
+    await client.executeAction('submit', 'id-send');
+    await client.executeAction('hover', 'id-menu');
+    const dragged = await client.executeAction('dragAndDrop', 'id-card', { targetId: 'id-column' });
+    const navigated = await client.executeAction('navigate', 'id-menu', { url: '#checkout' });
+    const blocked = await client.executeAction('navigate', 'id-menu', { url: 'javascript:alert(1)' });
+    client.dispose();
+    
+    if (events.join() !== 'submit,submit,mouseenter,drop:card' || !dragged.data.dropped) {
+      throw new Error(`Unexpected events: ${events}`);
+    }
+    if (dom.window.location.href !== 'https://shop.example/cart#checkout' || navigated.data.url !== dom.window.location.href ||
+        blocked.success) {
+      throw new Error(`Unexpected navigation: ${dom.window.location.href}`);
+    }
+    console.log('✓ Keys, submissions, hovers, drags and navigations dispatch their events');
+    
+    passed++;
+    console.log('✓ Test 17 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 17 failed: ${error.message}`);
+  }
+  
+  // Test 18: Input event synthesis
+  try {
+    console.log('\nTest 18: Input event synthesis');
+    
+    const dom = new JSDOM(
+      '<!DOCTYPE html><body><button id="save">Save</button>' +
+      '<input id="name" type="text" value="Old"><input id="code" type="text" maxlength="3"></body>'
+    );
+    const document = dom.window.document;
+    Object.assign(global, {
+      window: dom.window,
+      document,
+      navigator: dom.window.navigator,
+      MutationObserver: dom.window.MutationObserver
+    });
+    
+    const events = [];
+    const record = event => events.push(event.clientX !== undefined ? `${event.type}@${event.clientX},${event.clientY}` : event.type);
+    const save = document.getElementById('save');
+    save.getBoundingClientRect = () => ({ left: 10, top: 20, width: 100, height: 40 });
+    ['pointerdown', 'mousedown', 'focus', 'pointerup', 'mouseup', 'click'].forEach(type => save.addEventListener(type, record));
+    
+    // Track the value like a framework that replaces the value property of the field
+    const name = document.getElementById('name');
+    const valueProperty = Object.getOwnPropertyDescriptor(dom.window.HTMLInputElement.prototype, 'value');
+    let trackedValue = name.value;
+    Object.defineProperty(name, 'value', {
+      configurable: true,
+      get() { return valueProperty.get.call(this); },
+      set(value) { trackedValue = value; valueProperty.set.call(this, value); }
+    });
+    const changesSeen = [];
+    name.addEventListener('input', () => changesSeen.push(name.value !== trackedValue));
+    ['keydown', 'keypress', 'beforeinput', 'input', 'keyup', 'change'].forEach(type => name.addEventListener(type, record));
+    
+    const client = new WebMCPClient();
+    await client.initialize({ platform: 'web', optimization: { mutationWindow: 0 } });
+    await client.captureState();
+    
+    await client.executeAction('click', 'id-save');
+    if (events.join() !== 'pointerdown@60,40,mousedown@60,40,focus,pointerup@60,40,mouseup@60,40,click@60,40' ||
+        document.activeElement !== save) {
+      throw new Error(`Unexpected click events: ${events}`);
+    }
+    console.log('✓ Clicks dispatch the pointer, mouse and focus events at the element center');
+    
+    events.length = 0;
+    const typed = await client.executeAction('type', 'id-name', 'Hi');
+    // The old value is deleted before each character is typed
+    const perCharacter = 'keydown,keypress,beforeinput,input,keyup';
+    if (!typed.success || name.value !== 'Hi' ||
+        events.join() !== `beforeinput,input,${perCharacter},${perCharacter},change`) {
+      throw new Error(`Unexpected typing events: ${events}`);
+    }
+    if (changesSeen.length !== 3 || changesSeen.some(seen => !seen)) {
+      throw new Error('Values are not set through the native value setter');
+    }
+    console.log('✓ Typing dispatches keyboard and input events per character through the native value setter');
+    
+    const start = Date.now();
+    await client.executeAction('type', 'id-code', { text: 'ABCD', delay: 20 });
+    const elapsed = Date.now() - start;
+    if (document.getElementById('code').value !== 'ABC' || elapsed < 50) {
+      throw new Error(`Typing delay or maximum length is not applied: ${elapsed}ms`);
+    }
+    
+    // A controlled field that keeps its value rejects the typed text
+    document.getElementById('code').addEventListener('input', event => { valueProperty.set.call(event.target, 'XYZ'); });
+    const rejected = await client.executeAction('type', 'id-code', 'DEF');
+    client.dispose();
+    
+    if (rejected.success || rejected.data.value !== 'XYZ') {
+      throw new Error(`Rejected text is not detected: ${JSON.stringify(rejected)}`);
+    }
+    console.log('✓ Typed values are verified by re-reading the field');
+    
+    passed++;
+    console.log('✓ Test 18 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 18 failed: ${error.message}`);
+  }
+  
+  // Test 19: Actionability checks and action updates
+  try {
+    console.log('\nTest 19: Actionability checks and action updates');
+    
+    const dom = new JSDOM(
+      '<!DOCTYPE html><body><button id="go">Go</button><button id="off" disabled>Off</button>' +
+      '<div><button id="ghost">Ghost</button></div>' +
+      '<button id="far">Far</button><button id="under">Under</button><div id="overlay">Loading</div></body>'
+    );
+    const document = dom.window.document;
+    Object.assign(global, {
+      window: dom.window,
+      document,
+      navigator: dom.window.navigator,
+      MutationObserver: dom.window.MutationObserver
+    });
+    
+    // Lay the page out by hand, with the overlay over the covered button
+    const place = (element, left, top) => {
+      element.getBoundingClientRect = () => ({ left, top, width: 100, height: 40, right: left + 100, bottom: top + 40 });
+    };
+    document.documentElement.getBoundingClientRect = () => ({ left: 0, top: 0, width: 1024, height: 768, right: 1024, bottom: 768 });
+    const positioned = ['overlay', 'go', 'off', 'ghost', 'far', 'under'].map(id => document.getElementById(id));
+    positioned.forEach((element, index) => place(element, 10, 50 * index));
+    place(document.getElementById('overlay'), 10, 250);
+    document.elementFromPoint = (x, y) => positioned.find(element => {
+      const rect = element.getBoundingClientRect();
+      return element.isConnected && x >= rect.left && x < rect.right && y >= rect.top && y < rect.bottom;
+    }) || null;
+    
+    const far = document.getElementById('far');
+    place(far, 10, 2000);
+    far.scrollIntoView = () => place(far, 10, 300);
+    
+    // The page responds to clicks asynchronously
+    document.getElementById('go').addEventListener('click', () => {
+      setTimeout(() => {
+        const done = document.createElement('p');
+        done.id = 'done';
+        done.textContent = 'Done';
+        document.body.appendChild(done);
+      }, 30);
+    });
+    
+    const client = new WebMCPClient();
+    await client.initialize({ platform: 'web', optimization: { mutationWindow: 0 }, actions: { actionabilityTimeout: 100 } });
+    await client.captureState();
+    
+    const clicked = await client.executeAction('click', 'id-go');
+    const added = clicked.data && clicked.data.update && clicked.data.update.added;
+    if (!clicked.success || !added || !added['id-done']) {
+      throw new Error(`The update caused by the action is not attached: ${JSON.stringify(clicked.data)}`);
+    }
+    console.log('✓ Actions wait for the page to settle and return the update they caused');
+    
+    const disabled = await client.executeAction('click', 'id-off');
+    
+    // The button is hidden after the capture
+    document.getElementById('ghost').parentElement.style.display = 'none';
+    const hidden = await client.executeAction('click', 'id-ghost');
+    if (disabled.success || disabled.data.check !== 'enabled' || hidden.success || hidden.data.check !== 'visible') {
+      throw new Error(`Disabled or hidden elements are clicked: ${JSON.stringify([disabled, hidden])}`);
+    }
+    console.log('✓ Disabled and hidden elements are not actionable');
+    
+    const scrolled = await client.executeAction('click', 'id-far');
+    if (!scrolled.success || far.getBoundingClientRect().top !== 300) {
+      throw new Error(`Elements outside the viewport are not scrolled into view: ${scrolled.error}`);
+    }
+    console.log('✓ Elements are scrolled into view before acting');
+    
+    const covered = await client.executeAction('click', 'id-under');
+    if (covered.success || covered.data.check !== 'receivesEvents' || covered.data.coveredBy !== 'id-overlay') {
+      throw new Error(`Covered elements are clicked: ${JSON.stringify(covered)}`);
+    }
+    
+    // Actions wait for the overlay to go away
+    setTimeout(() => document.getElementById('overlay').remove(), 30);
+    const uncovered = await client.executeAction('click', 'id-under');
+    client.dispose();
+    
+    if (!uncovered.success) {
+      throw new Error(`Actions do not wait for elements to become actionable: ${uncovered.error}`);
+    }
+    console.log('✓ Actions wait for covering elements to go away');
+    
+    passed++;
+    console.log('✓ Test 19 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 19 failed: ${error.message}`);
+  }
+  
+  // Test 20: Waiting for conditions
+  try {
+    console.log('\nTest 20: Waiting for conditions');
+    
+    const dom = new JSDOM('<!DOCTYPE html><body><p id="spinner">Loading</p></body>', { url: 'https://example.com/search' });
+    const document = dom.window.document;
+    Object.assign(global, {
+      window: dom.window,
+      document,
+      navigator: dom.window.navigator,
+      MutationObserver: dom.window.MutationObserver
+    });
+    dom.window.fetch = () => new Promise(resolve => setTimeout(() => resolve({ ok: true }), 60));
+    
+    const client = new WebMCPClient();
+    await client.initialize({ platform: 'web', optimization: { mutationWindow: 0 } });
+    await client.captureState();
+    
+    // The page shows its results and removes the spinner asynchronously
+    setTimeout(() => {
+      const results = document.createElement('p');
+      results.id = 'results';
+      results.textContent = 'Found 3 results';
+      document.body.appendChild(results);
+    }, 20);
+    setTimeout(() => document.getElementById('spinner').remove(), 40);
+    
+    const [appeared, text, disappeared] = await Promise.all([
+      client.waitFor({ type: 'elementAppears', query: { selector: '#results' } }),
+      client.waitFor({ type: 'textPresent', text: '3 results' }),
+      client.waitFor({ type: 'elementDisappears', query: { selector: '#spinner' } })
+    ]);
+    if (appeared.elementIds.join() !== 'id-results' || !text.elementIds.includes('id-results') ||
+        disappeared.condition !== 'elementDisappears' || disappeared.version !== client.getCurrentState().version) {
+      throw new Error(`Unexpected wait results: ${JSON.stringify([appeared, text, disappeared])}`);
+    }
+    console.log('✓ Waits for elements and text are met by state updates');
+    
+    setTimeout(() => { dom.window.location.hash = '#page-2'; }, 20);
+    const navigated = await client.waitFor({ type: 'urlChanges', url: 'page-2' });
+    if (navigated.url !== 'https://example.com/search#page-2') {
+      throw new Error(`URL change not reported: ${JSON.stringify(navigated)}`);
+    }
+    
+    dom.window.fetch('/api/results');
+    const idle = await client.waitFor({ type: 'networkIdle', quietTime: 30 });
+    if (idle.elapsed < 80) {
+      throw new Error(`Network was idle while a request was pending: ${idle.elapsed}ms`);
+    }
+    
+    // The DOM changes every 20ms for 100ms
+    const ticker = setInterval(() => { document.getElementById('results').textContent += '.'; }, 20);
+    setTimeout(() => clearInterval(ticker), 100);
+    const quiet = await client.waitFor({ type: 'domQuiet', quietTime: 50 });
+    if (quiet.elapsed < 130) {
+      throw new Error(`DOM was quiet while it changed: ${quiet.elapsed}ms`);
+    }
+    console.log('✓ Waits for URL changes, network idle and a quiet DOM');
+    
+    const timedOut = await client.waitFor({ type: 'elementAppears', query: { selector: '#never' } }, 50).catch(error => error);
+    const malformed = await client.waitFor({ type: 'textPresent' }).catch(error => error);
+    if (timedOut.code !== 'TimeoutError' || malformed.code !== 'ValidationError') {
+      throw new Error(`Unexpected wait errors: ${timedOut.code}, ${malformed.code}`);
+    }
+    console.log('✓ Unmet conditions time out and malformed ones are rejected');
+    
+    const server = new ModelEyesMcpServer('model-eyes', '0.1.0', { client });
+    const mcpClient = await connectMcpClient(server);
+    setTimeout(() => { document.getElementById('results').textContent = 'Done'; }, 20);
+    const toolResult = await mcpClient.callTool({ name: 'wait_for', arguments: { type: 'textPresent', text: 'Done', timeout: 1000 } });
+    const toolTimeout = await mcpClient.callTool({ name: 'wait_for', arguments: { type: 'textPresent', text: 'Never', timeout: 50 } });
+    await server.close();
+    
+    if (toolResult.isError || !JSON.parse(toolResult.content[0].text).elementIds.includes('id-results') ||
+        !toolTimeout.isError || JSON.parse(toolTimeout.content[0].text).error.code !== 'TimeoutError') {
+      throw new Error('wait_for tool did not wait through the client');
+    }
+    console.log('✓ The wait_for tool waits through the client');
+    
+    passed++;
+    console.log('✓ Test 20 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 20 failed: ${error.message}`);
+  }
+  
+  // Test 21: Rendering the UI state as text
+  try {
+    console.log('\nTest 21: Rendering the UI state as text');
+    
+    const bounds = { x: 0, y: 0, width: 100, height: 20 };
+    const state = createSampleState('v1', {
+      form: { id: 'form', type: 'form', text: 'Name Save', bounds, children: ['name', 'save'] },
+      name: {
+        id: 'name',
+        type: 'input',
+        attributes: { type: 'text' },
+        interactable: true,
+        bounds,
+        parent: 'form',
+        control: { value: 'Ada', label: 'Name', required: true }
+      },
+      save: { id: 'save', type: 'button', text: 'Save', interactable: true, bounds, parent: 'form' }
+    });
+    state.focus = 'name';
+    
+    const outline = renderOutline(state).split('\n');
+    if (outline[1] !== '[form] form' ||
+        outline[2] !== "  [name] textbox 'Name' = 'Ada' (focused, required)" ||
+        outline[3] !== "  [save] button 'Save'") {
+      throw new Error(`Unexpected outline: ${outline.join(' | ')}`);
+    }
+    console.log('✓ The outline shows the element tree one line per element');
+    
+    const markdown = renderMarkdown(state);
+    const yaml = renderYaml(state);
+    const table = renderTable(state).split('\n');
+    if (!markdown.startsWith('# Test Page') || !markdown.includes('  - `save` button "Save"') ||
+        !yaml.includes('    children:\n      - id: name\n        role: textbox\n        label: Name\n        value: Ada') ||
+        table.length !== 3 || table[0] !== 'id,role,label,value,states,x,y,width,height' ||
+        table[1] !== 'name,textbox,Name,Ada,focused required,0,0,100,20') {
+      throw new Error('Markdown, YAML or table rendering is wrong');
+    }
+    console.log('✓ Markdown, YAML and table renderings describe the elements');
+    
+    const server = new ModelEyesMcpServer();
+    const client = await connectMcpClient(server);
+    server.setCurrentState(state);
+    
+    const getContext = async args => (await client.callTool({ name: 'get_ui_state', arguments: args })).content;
+    const json = JSON.parse((await getContext({}))[0].text);
+    const [details, text] = await getContext({ format: 'outline' });
+    const { tokenCount, metadata } = JSON.parse(details.text);
+    const invalid = await client.callTool({ name: 'get_ui_state', arguments: { format: 'xml' } });
+    await server.close();
+    
+    if (typeof json.uiState !== 'object' || metadata.format !== 'outline' || !text.text.includes('[save] button') ||
+        tokenCount !== Math.ceil(text.text.length / 4) || tokenCount >= json.tokenCount || !invalid.isError) {
+      throw new Error('get_ui_state did not render the requested format');
+    }
+    console.log(`✓ get_ui_state renders the outline in ${tokenCount} tokens instead of ${json.tokenCount}`);
+    
+    passed++;
+    console.log('✓ Test 21 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 21 failed: ${error.message}`);
+  }
+  
+  // Test 22: Counting tokens with a byte pair encoding
+  try {
+    console.log('\nTest 22: Counting tokens with a byte pair encoding');
+    
+    // Vocabulary of all single bytes plus a few merged tokens
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'model-eyes-tokenizers-'));
+    const tokens = Array.from({ length: 256 }, (_, byte) => Buffer.from([byte]));
+    tokens.push(Buffer.from('ab'), Buffer.from('abab'), Buffer.from('aa'));
+    fs.writeFileSync(
+      path.join(dataDir, 'cl100k_base.tiktoken'),
+      tokens.map((token, rank) => `${token.toString('base64')} ${rank}`).join('\n')
+    );
+    
+    const tokenizer = await loadTokenizer('cl100k_base', dataDir);
+    const encoded = tokenizer.encode('abab aab');
+    if (encoded.join(',') !== '257,32,97,256' || tokenizer.countTokens('abab aab') !== 4) {
+      throw new Error(`Unexpected encoding: ${encoded.join(',')}`);
+    }
+    console.log('✓ Pieces are merged lowest rank first');
+    
+    if (getEncodingForModel('gpt-4o-mini') !== 'o200k_base' || getEncodingForModel('gpt-4') !== 'cl100k_base' ||
+        getEncodingForModel('llama-3') !== undefined) {
+      throw new Error('Models are mapped to the wrong encodings');
+    }
+    console.log('✓ Models are mapped to their encodings');
+    
+    const server = new GenericMCPServer();
+    await server.initialize({ tokenizer });
+    server.processInitialState(createSampleState('v1', {
+      save: { id: 'save', type: 'button', text: 'Save', interactable: true, bounds: { x: 0, y: 0, width: 80, height: 30 } }
+    }));
+    const json = server.prepareContextForModel();
+    const outline = server.prepareContextForModel({ format: 'outline' });
+    if (json.tokenCount !== tokenizer.countTokens(JSON.stringify(json.uiState)) ||
+        outline.tokenCount !== tokenizer.countTokens(outline.uiState) || outline.metadata.tokenizer !== 'cl100k_base') {
+      throw new Error('Context token counts do not come from the tokenizer');
+    }
+    console.log('✓ Context token counts are exact for the configured tokenizer');
+    
+    const missing = await loadTokenizer('o200k_base', dataDir).catch(error => error);
+    if (missing.code !== 'UnsupportedError') {
+      throw new Error('A missing vocabulary was not reported');
+    }
+    console.log('✓ Missing vocabularies are reported');
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    
+    // No vocabulary is installed for the OpenAI server in the test tree
+    const warnings = [];
+    const warn = console.warn;
+    console.warn = message => warnings.push(message);
+    const estimating = new OpenAIMCPServer();
+    try {
+      await estimating.initialize({ modelProvider: { name: 'openai', apiKey: 'test-key', options: { model: 'gpt-4o' } } });
+    } finally {
+      console.warn = warn;
+    }
+    estimating.processInitialState(createSampleState('v1', {}));
+    const estimated = estimating.prepareContextForModel();
+    if (warnings.length !== 1 || !warnings[0].includes('o200k_base') ||
+        estimated.metadata.tokenizer !== undefined || estimated.tokenCount <= 0) {
+      throw new Error('Missing vocabularies did not fall back to estimated token counts with a warning');
+    }
+    console.log('✓ Token counts are estimated with a warning when the vocabulary is missing');
+    
+    passed++;
+    console.log('✓ Test 22 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 22 failed: ${error.message}`);
+  }
+  
+  // Test 23: Packing the UI state into a token budget
+  try {
+    console.log('\nTest 23: Packing the UI state into a token budget');
+    
+    const bounds = y => ({ x: 0, y, width: 100, height: 20 });
+    const elements = {
+      body: { id: 'body', type: 'body', bounds: bounds(0), children: ['nav', 'form'] },
+      nav: { id: 'nav', type: 'nav', bounds: bounds(0), parent: 'body', children: [] },
+      form: { id: 'form', type: 'form', bounds: bounds(400), parent: 'body', children: ['email', 'subscribe', 'cancel'] },
+      email: { id: 'email', type: 'input', attributes: { type: 'email' }, interactable: true, bounds: bounds(420), parent: 'form' },
+      subscribe: { id: 'subscribe', type: 'button', text: 'Subscribe to newsletter', interactable: true, bounds: bounds(2000), parent: 'form' },
+      cancel: { id: 'cancel', type: 'button', text: 'Cancel', interactable: true, bounds: bounds(2000), parent: 'form' }
+    };
+    for (let i = 0; i < 14; i++) {
+      elements[`link-${i}`] = {
+        id: `link-${i}`,
+        type: 'a',
+        text: `Section ${i}`,
+        attributes: { href: `#s${i}` },
+        interactable: true,
+        bounds: bounds(20 * i),
+        parent: 'nav'
+      };
+      elements.nav.children.push(`link-${i}`);
+    }
+    const state = { ...createSampleState('v1', elements), focus: 'email' };
+    
+    const scores = scoreElements(state, { goal: 'subscribe to the newsletter' });
+    if (!(scores.subscribe > scores['link-0'] && scores.email > scores['link-0'] && scores['link-0'] > scores.cancel)) {
+      throw new Error(`Unexpected scores: ${JSON.stringify(scores)}`);
+    }
+    console.log('✓ Elements are scored by goal relevance, focus, viewport and interactability');
+    
+    const server = new GenericMCPServer();
+    server.processInitialState(state);
+    const options = { format: 'outline', maxTokens: 70, goal: 'subscribe to the newsletter' };
+    const packed = server.prepareContextForModel(options);
+    const lines = packed.uiState.split('\n');
+    if (packed.tokenCount > 70 || packed.tokenCount !== Math.ceil(packed.uiState.length / 4) ||
+        !lines.includes("    [subscribe] button 'Subscribe to newsletter'") || !lines.includes('    [email] textbox (focused)') ||
+        !lines.includes('    ...12 more links in nav') || !lines.includes('    ...1 more button in form')) {
+      throw new Error(`Unexpected packed state:\n${packed.uiState}`);
+    }
+    if (!packed.metadata.truncated || packed.metadata.dropped.length !== 13 || !packed.metadata.dropped.includes('cancel')) {
+      throw new Error(`Dropped elements are not reported: ${packed.metadata.dropped}`);
+    }
+    console.log('✓ The budget is filled by score and pruned subtrees are summarized');
+    
+    server.processStateUpdate({
+      timestamp: Date.now(),
+      baseVersion: 'v1',
+      version: 'v2',
+      modified: { 'link-9': { text: 'Section 9 (new)' } }
+    });
+    const afterUpdate = server.prepareContextForModel(options);
+    if (!afterUpdate.uiState.includes('[link-9]') || afterUpdate.metadata.dropped.includes('link-9')) {
+      throw new Error('Recently changed elements are not kept first');
+    }
+    console.log('✓ Recently changed elements are kept first');
+    
+    passed++;
+    console.log('✓ Test 23 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 23 failed: ${error.message}`);
+  }
+  
+  // Test 24: MCP prompts
+  try {
+    console.log('\nTest 24: MCP prompts');
+    
+    const server = new ModelEyesMcpServer();
+    const client = await connectMcpClient(server);
+    
+    const { prompts } = await client.listPrompts();
+    const fillForm = prompts.find(prompt => prompt.name === 'fill_form');
+    const promptNames = prompts.map(prompt => prompt.name).sort().join();
+    if (promptNames !== 'fill_form,find_and_click,summarize_page,verify_element_state' ||
+        fillForm.title !== 'Fill this form' ||
+        !fillForm.arguments.some(argument => argument.name === 'goal' && argument.required) ||
+        !fillForm.arguments.some(argument => argument.name === 'maxTokens' && !argument.required)) {
+      throw new Error('Prompts or their arguments are not listed');
+    }
+    console.log('✓ Prompts are listed with their arguments');
+    
+    const bounds = { x: 0, y: 0, width: 100, height: 20 };
+    server.setCurrentState(createSampleState('v1', {
+      save: { id: 'save', type: 'button', text: 'Save', interactable: true, bounds },
+      cancel: { id: 'cancel', type: 'button', text: 'Cancel', interactable: true, bounds }
+    }));
+    
+    const clicked = await client.getPrompt({
+      name: 'find_and_click',
+      arguments: { target: 'the save button', format: 'outline', includeInvisible: 'false' }
+    });
+    const text = clicked.messages[0].content.text;
+    if (!text.startsWith('Find the element best matching this description and click it: the save button') ||
+        !text.includes('Page: Test Page (https://example.com)') || !text.includes("[save] button 'Save'")) {
+      throw new Error(`Unexpected prompt: ${text}`);
+    }
+    console.log('✓ Prompts embed the current UI state in the requested format');
+    
+    const limited = await client.getPrompt({
+      name: 'summarize_page',
+      arguments: { goal: 'saving', format: 'outline', maxTokens: '20' }
+    });
+    const limitedText = limited.messages[0].content.text;
+    if (!limitedText.includes('Focus on: saving') || !limitedText.includes('[save]') || limitedText.includes('[cancel]')) {
+      throw new Error('maxTokens did not limit the embedded state to the elements of the goal');
+    }
+    console.log('✓ maxTokens is passed to the context as a number');
+    
+    for (const maxTokens of ['many', '0', '1.5']) {
+      try {
+        await client.getPrompt({ name: 'fill_form', arguments: { goal: 'sign up', maxTokens } });
+        throw new Error(`maxTokens ${maxTokens} was accepted`);
+      } catch (error) {
+        if (!error.message.includes('maxTokens must be a positive integer')) {
+          throw error;
+        }
+      }
+    }
+    console.log('✓ Non-numeric maxTokens arguments are rejected');
+    
+    await server.close();
+    
+    passed++;
+    console.log('✓ Test 24 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 24 failed: ${error.message}`);
+  }
+  
+  // Test 25: MCP over Streamable HTTP and SSE
+  try {
+    console.log('\nTest 25: MCP over Streamable HTTP and SSE');
+    
+    const { server, url } = await startHttpServer();
+    const mcpServer = server.getMcpServer();
+    
+    const first = new Client({ name: 'model-eyes-test', version: '0.1.0' });
+    const firstTransport = new StreamableHTTPClientTransport(new URL(`${url}/mcp`));
+    await first.connect(firstTransport);
+    const second = new Client({ name: 'model-eyes-test', version: '0.1.0' });
+    const secondTransport = new StreamableHTTPClientTransport(new URL(`${url}/mcp`));
+    await second.connect(secondTransport);
+    
+    const sessionId = firstTransport.sessionId;
+    if (!sessionId || !secondTransport.sessionId || sessionId === secondTransport.sessionId ||
+        mcpServer.getSessionCount() !== 2) {
+      throw new Error('Initialize requests did not create separate sessions');
+    }
+    const { tools } = await first.listTools();
+    if (firstTransport.sessionId !== sessionId || !tools.some(tool => tool.name === 'get_ui_state')) {
+      throw new Error('Requests did not reuse the session');
+    }
+    console.log('✓ Streamable HTTP sessions are created on initialize and reused');
+    
+    const post = (path, headers, body) => fetch(`${url}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify(body)
+    });
+    const listTools = { jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} };
+    const unknown = await post('/mcp', { 'Mcp-Session-Id': 'missing' }, listTools);
+    const missing = await post('/mcp', {}, listTools);
+    const unknownSse = await post('/messages?sessionId=missing', {}, listTools);
+    const unknownStream = await fetch(`${url}/mcp`, { headers: { 'Mcp-Session-Id': 'missing' } });
+    if (unknown.status !== 404 || (await unknown.json()).error.message !== 'Session missing not found' ||
+        missing.status !== 400 || unknownSse.status !== 404 || unknownStream.status !== 404) {
+      throw new Error('Requests without a known session were not rejected');
+    }
+    console.log('✓ Unknown and missing session IDs are rejected');
+    
+    await firstTransport.terminateSession();
+    await waitFor(() => mcpServer.getSessionCount() === 1);
+    const terminated = await post('/mcp', { 'Mcp-Session-Id': sessionId }, listTools);
+    if (terminated.status !== 404) {
+      throw new Error('Terminated session is still served');
+    }
+    await first.close();
+    console.log('✓ Deleting a session closes its transport');
+    
+    const sseClient = new Client({ name: 'model-eyes-test', version: '0.1.0' });
+    const sseTransport = new SSEClientTransport(new URL(`${url}/sse`));
+    await sseClient.connect(sseTransport);
+    const ssePrompts = await sseClient.listPrompts();
+    if (mcpServer.getSessionCount() !== 2 || ssePrompts.prompts.length === 0) {
+      throw new Error('SSE session was not served');
+    }
+    await sseClient.close();
+    await waitFor(() => mcpServer.getSessionCount() === 1);
+    console.log('✓ SSE sessions are served until their stream closes');
+    
+    await second.close();
+    await server.close();
+    
+    passed++;
+    console.log('✓ Test 25 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 25 failed: ${error.message}`);
+  }
+  
+  // Test 26: Action channel
+  try {
+    console.log('\nTest 26: Action channel');
+    
+    const channel = new ActionChannel();
+    const click = { type: 'click', targetId: 'el-1' };
+    
+    const dispatched = channel.dispatch('client-a', '1', click, 1000);
+    const other = channel.dispatch('client-a', '2', { type: 'focus', targetId: 'el-2' }, 1000);
+    const queued = await channel.next({ tabId: '1' }, 0);
+    if (!queued || queued.action.type !== 'click' || queued.tabId !== '1' || channel.pendingCount() !== 2) {
+      throw new Error('Queued action was not taken by a matching poll');
+    }
+    if (!channel.resolve(queued.id, { success: true }) || !(await dispatched).success || channel.resolve(queued.id, { success: true })) {
+      throw new Error('Action result was not correlated');
+    }
+    const otherQueued = await channel.next({}, 0);
+    channel.resolve(otherQueued.id, { success: false, error: 'Hidden' });
+    if ((await other).error !== 'Hidden' || await channel.next({}, 0) !== null) {
+      throw new Error('Actions of other tabs were not queued separately');
+    }
+    console.log('✓ Actions are queued per tab and resolved by ID');
+    
+    const polled = channel.next({ clientId: 'client-a', tabId: '3' }, 1000);
+    const waited = channel.dispatch('client-a', '3', click, 1000);
+    const delivered = await polled;
+    channel.requeue(delivered);
+    const abortController = new AbortController();
+    await channel.next({ tabId: '4' }, 10, abortController.signal);
+    if (getEventListeners(abortController.signal, 'abort').length !== 0) {
+      throw new Error('Finished poll kept listening to its signal');
+    }
+    const redelivered = await channel.next({ tabId: '3' }, 0);
+    if (!redelivered || redelivered.id !== delivered.id) {
+      throw new Error('Action handed to a closed poll was not delivered again');
+    }
+    channel.resolve(redelivered.id, { success: true });
+    await waited;
+    if (channel.requeue(redelivered)) {
+      throw new Error('Resolved action was queued again');
+    }
+    console.log('✓ Waiting polls receive actions, which are requeued if the poll closed');
+    
+    try {
+      await channel.dispatch('client-a', '1', click, 20);
+      throw new Error('Action without result did not time out');
+    } catch (error) {
+      if (error.code !== 'TimeoutError' || await channel.next({}, 0) !== null || channel.pendingCount() !== 0) {
+        throw error;
+      }
+    }
+    console.log('✓ Actions without a result time out and leave the queue');
+    channel.dispose();
+    
+    const { server, url } = await startHttpServer({ actionTimeout: 2000 });
+    const postJson = (path, body) => fetch(`${url}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Client-Id': 'client-a' },
+      body: JSON.stringify(body)
+    });
+    await postJson('/api/ui-state?tabId=1', createSampleState('v1', {
+      'el-1': { id: 'el-1', type: 'button', text: 'Save', interactable: true, bounds: { x: 0, y: 0, width: 80, height: 30 } }
+    }));
+    
+    const empty = await fetch(`${url}/api/actions/next?clientId=client-a&wait=0`);
+    const executed = postJson('/api/execute-action', { actionType: 'click', elementId: 'el-1', tabId: '1' });
+    const poll = await fetch(`${url}/api/actions/next?clientId=client-a&tabId=1&wait=1000`);
+    const action = await poll.json();
+    const invalid = await postJson(`/api/actions/${action.id}/result?tabId=1`, { success: 'yes' });
+    const otherTab = await postJson(`/api/actions/${action.id}/result?tabId=2`, { success: false });
+    const otherClient = await fetch(`${url}/api/actions/${action.id}/result?tabId=1&clientId=client-b`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: false })
+    });
+    const reported = await postJson(`/api/actions/${action.id}/result?tabId=1`, { success: true });
+    const unknown = await postJson(`/api/actions/${action.id}/result?tabId=1`, { success: true });
+    const response = await (await executed).json();
+    if (empty.status !== 204 || poll.status !== 200 || action.action.type !== 'click' || invalid.status !== 400 ||
+        otherTab.status !== 403 || otherClient.status !== 403 ||
+        reported.status !== 200 || unknown.status !== 404 || !response.success || !response.result.success) {
+      throw new Error('Action was not delivered through the action routes');
+    }
+    console.log('✓ Actions are polled and reported over HTTP by the tab they were queued for');
+    
+    await server.close();
+    
+    passed++;
+    console.log('✓ Test 26 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 26 failed: ${error.message}`);
+  }
+  
+  // Test 27: MCP state per UI session
+  try {
+    console.log('\nTest 27: MCP state per UI session');
+    
+    const { server, url } = await startHttpServer();
+    const postJson = (path, body) => fetch(`${url}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Client-Id': 'client-a' },
+      body: JSON.stringify(body)
+    });
+    const button = text => ({ id: 'el-1', type: 'button', text, interactable: true, bounds: { x: 0, y: 0, width: 80, height: 30 } });
+    
+    await postJson('/api/ui-state?tabId=1', createSampleState('a1', { 'el-1': button('Save') }));
+    await postJson('/api/ui-state?tabId=2', createSampleState('b1', { 'el-1': button('Send') }));
+    
+    const connect = async tabId => {
+      const client = new Client({ name: 'model-eyes-test', version: '0.1.0' });
+      await client.connect(new StreamableHTTPClientTransport(new URL(`${url}/mcp?clientId=client-a&tabId=${tabId}`)));
+      return client;
+    };
+    const tab1 = await connect('1');
+    const tab2 = await connect('2');
+    const latest = new Client({ name: 'model-eyes-test', version: '0.1.0' });
+    await latest.connect(new StreamableHTTPClientTransport(new URL(`${url}/mcp`)));
+    
+    await postJson('/api/ui-state/diff?tabId=1', {
+      baseVersion: 'a1',
+      version: 'a2',
+      timestamp: Date.now(),
+      modified: { 'el-1': { text: 'Saved' } }
+    });
+    await postJson('/api/ui-state?tabId=2', createSampleState('b2', { 'el-1': button('Sent') }));
+    
+    const callJson = async (client, name, args) => {
+      const result = await client.callTool({ name, arguments: args });
+      return { isError: result.isError, data: JSON.parse(result.content[0].text) };
+    };
+    const diff = await callJson(tab1, 'get_state_diff', { baseVersion: 'a1' });
+    const otherDiff = await callJson(tab2, 'get_state_diff', { baseVersion: 'a1' });
+    const latestState = await callJson(latest, 'get_ui_state', {});
+    const versions = (await tab1.listResources()).resources.map(resource => resource.uri).filter(uri => uri.startsWith('ui://state/'));
+    if (diff.data.modified['el-1'].text !== 'Saved' || !otherDiff.isError || latestState.data.version !== 'b2' ||
+        versions.sort().join() !== 'ui://state/a1,ui://state/a2,ui://state/current') {
+      throw new Error('MCP sessions do not see the state and history of their tab');
+    }
+    console.log('✓ MCP sessions see the state and history of their tab, or of the most recent one');
+    
+    const rejected = await postJson('/api/ui-state/diff?tabId=1', {
+      baseVersion: 'a1',
+      version: 'a3',
+      timestamp: Date.now(),
+      modified: { 'el-1': { text: 'Stale' } }
+    });
+    const tab1State = await callJson(tab1, 'get_ui_state', {});
+    if (rejected.status !== 409 || server.mcpServer.getCurrentState('client-a:1') !== server.getSessions().get('client-a:1').getCurrentState() ||
+        tab1State.data.version !== 'a2') {
+      throw new Error('MCP sessions do not read the state of the UI session');
+    }
+    console.log('✓ MCP sessions read the state of the UI session, which rejected updates leave unchanged');
+    
+    const action = postJson('/api/execute-action', { actionType: 'click', elementId: 'el-1', tabId: '2', timeout: 5000 });
+    const wait = postJson('/api/wait-for', { condition: { type: 'textPresent', text: 'Never' }, tabId: '2', timeout: 5000 });
+    await waitFor(() => server.getSessions().get('client-a:2') && server.actionChannel.pendingCount() === 1);
+    const started = Date.now();
+    await fetch(`${url}/api/sessions/client-a:2`, { method: 'DELETE' });
+    const [actionResponse, waitResponse] = await Promise.all([(await action).json(), (await wait).json()]);
+    const removed = await callJson(tab2, 'get_ui_state', {});
+    if (actionResponse.code !== 'AccessError' || waitResponse.code !== 'AccessError' || Date.now() - started > 1000 ||
+        !removed.isError || removed.data.error.code !== 'AccessError') {
+      throw new Error('Ending a session did not cancel its actions, waits and MCP state');
+    }
+    console.log('✓ Ending a session cancels its actions and waits and removes its MCP state');
+    
+    const wsClient = new TestClient();
+    await wsClient.initialize({ platform: 'web' });
+    const wsTransport = await wsClient.connectWebSocket(`${url.replace('http', 'ws')}/ws?clientId=client-a&tabId=3`, { reconnect: false });
+    await waitFor(() => server.getSessions().get('client-a:3'));
+    server.getSessions().get('client-a:3').lastActivity = Date.now() - 60 * 60 * 1000;
+    server.getSessions().expireIdleSessions();
+    await waitFor(() => !wsTransport.isConnected());
+    console.log('✓ Expired sessions close their WebSocket connection');
+    
+    wsClient.dispose();
+    await Promise.all([tab1.close(), tab2.close(), latest.close()]);
+    await server.close();
+    
+    passed++;
+    console.log('✓ Test 27 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 27 failed: ${error.message}`);
+  }
+  
+  // Test 28: Differential updates from the Chrome extension
+  try {
+    console.log('\nTest 28: Differential updates from the Chrome extension');
+    
+    // Load the capture and diff functions of the extension's background script
+    const extension = vm.createContext({
+      chrome: {
+        storage: { sync: { get: () => {} } },
+        runtime: { onMessage: { addListener: () => {} } }
+      },
+      console
+    });
+    vm.runInContext(fs.readFileSync(path.join(__dirname, '../extensions/chrome/background.js'), 'utf8'), extension);
+    
+    const dom = new JSDOM(
+      '<!DOCTYPE html><html><head><title>Form</title></head><body>' +
+      '<form><input id="name"><button id="save">Save</button></form><p>Hello</p>' +
+      '</body></html>',
+      { runScripts: 'outside-only', url: 'https://example.com/form' }
+    );
+    for (const property of ['offsetWidth', 'offsetHeight']) {
+      Object.defineProperty(dom.window.HTMLElement.prototype, property, { get: () => 10 });
+    }
+    const capture = version => {
+      const state = dom.window.eval(`(${extension.captureUIStateInPage.toString()})('full')`);
+      return JSON.parse(JSON.stringify({ ...state, version }));
+    };
+    
+    const first = capture('c1');
+    const buttonId = Object.keys(first.elements).find(id => first.elements[id].type === 'button');
+    dom.window.document.getElementById('save').textContent = 'Saved';
+    const note = dom.window.document.createElement('p');
+    note.textContent = 'Saved just now';
+    dom.window.document.body.appendChild(note);
+    const second = capture('c2');
+    
+    const update = extension.computeStateDiff(first, second);
+    if (Object.keys(update.added ?? {}).length !== 1 || update.removed ||
+        update.modified[buttonId].text !== 'Saved' || Object.keys(second.elements).length !== Object.keys(first.elements).length + 1) {
+      throw new Error('Recaptured elements did not keep their IDs');
+    }
+    console.log('✓ Elements keep their IDs across captures, so diffs only carry changes');
+    
+    const { server, url } = await startHttpServer();
+    const postJson = (path, body) => fetch(`${url}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Client-Id': 'extension' },
+      body: JSON.stringify(body)
+    });
+    await postJson('/api/ui-state?tabId=7', first);
+    const applied = await postJson('/api/ui-state/diff?tabId=7', update);
+    const state = await (await fetch(`${url}/api/ui-state?clientId=extension&tabId=7`)).json();
+    if (applied.status !== 200 || state.version !== 'c2' || state.elements[buttonId].text !== 'Saved' ||
+        Object.keys(state.elements).sort().join() !== Object.keys(second.elements).sort().join()) {
+      throw new Error('Differential update was not applied to the session state');
+    }
+    console.log('✓ The server applies the update to the state of the tab');
+    
+    const third = JSON.parse(JSON.stringify({ ...second, version: 'c3' }));
+    delete third.elements[buttonId].text;
+    const removal = extension.computeStateDiff(second, third);
+    await postJson('/api/ui-state/diff?tabId=7', removal);
+    const removedState = await (await fetch(`${url}/api/ui-state?clientId=extension&tabId=7`)).json();
+    if (removal.modified[buttonId].text !== null || removedState.version !== 'c3' || 'text' in removedState.elements[buttonId]) {
+      throw new Error('Removed element property was kept');
+    }
+    console.log('✓ Properties removed from an element are removed from the state of the tab');
+    
+    const stale = await postJson('/api/ui-state/diff?tabId=7', update);
+    const unknown = await postJson('/api/ui-state/diff?tabId=8', update);
+    const staleBody = await stale.json();
+    if (stale.status !== 409 || !staleBody.resync || staleBody.currentVersion !== 'c3' || unknown.status !== 409) {
+      throw new Error('Updates to another state did not ask for a resync');
+    }
+    console.log('✓ Updates to another version or an unknown tab are rejected with 409 and resync');
+    
+    await server.close();
+    
+    passed++;
+    console.log('✓ Test 28 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 28 failed: ${error.message}`);
+  }
+  
+  // Test 29: Resuming the UI state event stream
+  try {
+    console.log('\nTest 29: Resuming the UI state event stream');
+    
+    const { server, url } = await startHttpServer();
+    const postJson = (path, body) => fetch(`${url}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Client-Id': 'client-a' },
+      body: JSON.stringify(body)
+    });
+    
+    // Read a number of events from an event stream, then close it
+    const readEvents = async (headers, count, afterOpen = async () => {}) => {
+      const abortController = new AbortController();
+      const response = await fetch(`${url}/api/ui-state/stream`, { headers, signal: abortController.signal });
+      await afterOpen();
+      
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let text = '';
+      while (text.split('\n\n').length <= count) {
+        const { value } = await reader.read();
+        text += decoder.decode(value, { stream: true });
+      }
+      abortController.abort();
+      
+      return text.split('\n\n').slice(0, count).map(block => {
+        const fields = Object.fromEntries(block.split('\n').map(line => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)]));
+        return { id: fields.id, type: fields.event, data: JSON.parse(fields.data) };
+      });
+    };
+    
+    await postJson('/api/ui-state?tabId=1', createSampleState('a1', {}));
+    await postJson('/api/ui-state?tabId=2', createSampleState('b1', {}));
+    
+    const events = await readEvents({}, 3, () => postJson('/api/ui-state/diff?tabId=1', {
+      baseVersion: 'a1',
+      version: 'a2',
+      timestamp: Date.now(),
+      added: {}
+    }));
+    const [snapshotA, snapshotB, update] = events;
+    if (snapshotA.type !== 'state' || snapshotB.type !== 'state' || snapshotA.id !== undefined || snapshotB.id !== undefined ||
+        update.type !== 'update' || update.id !== '3' || update.data.update.version !== 'a2') {
+      throw new Error(`Unexpected events: ${JSON.stringify(events)}`);
+    }
+    console.log('✓ Initial snapshots carry no event ID, buffered events do');
+    
+    const [missed] = await readEvents({ 'Last-Event-ID': '2' }, 1);
+    if (missed.id !== '3' || missed.type !== 'update') {
+      throw new Error('Resuming did not replay the missed event');
+    }
+    console.log('✓ Clients resume from the last buffered event they received');
+    
+    await server.close();
+    
+    passed++;
+    console.log('✓ Test 29 passed');
+  } catch (error) {
+    failed++;
+    console.error(`✗ Test 29 failed: ${error.message}`);
+  }
+  
   // Print test results
   console.log(`\nTest results: ${passed} passed, ${failed} failed`);
   
@@ -0,0 +1,198 @@
+/**
+ * Capture benchmark for the web client
+ *
+ * This script captures the UI state of generated jsdom fixtures with
+ * WebMCPClient and records the capture time and element counts of each
+ * fixture, and the time to update the state incrementally after a small DOM
+ * mutation. Run it after building:
+ *
+ *   npm run bench -- [--fixture <name>] [--iterations <n>] [--json <file>]
+ */
+
+const fs = require('fs');
+const { JSDOM } = require('jsdom');
+const { WebMCPClient } = require('../../dist');
+
+/**
+ * Fixtures, each generating the body of a page
+ */
+const fixtures = {
+  // One long list, the worst case for sibling scans
+  'flat-list': () => `<ul>${repeat(10000, i => `<li class="item">Item ${i}</li>`)}</ul>`,
+
+  // Table of rows with links and buttons
+  'data-table': () => `<main><table><tbody>${repeat(1000, i =>
+    `<tr><td>${i}</td><td><a href="/rows/${i}">Row ${i}</a></td><td>Status</td><td><button>Edit</button></td></tr>`
+  )}</tbody></table></main>`,
+
+  // Forms with labelled fields
+  'forms': () => repeat(250, i =>
+    `<form id="form-${i}"><label for="name-${i}">Name</label><input id="name-${i}" type="text">` +
+    `<label>Email <input type="email" placeholder="you@example.com"></label>` +
+    `<select><option>A</option><option>B</option></select><button type="submit">Save</button></form>`
+  ),
+
+  // Deeply nested containers
+  'deep-tree': () => repeat(100, () => `${'<div class="level">'.repeat(40)}<span>Leaf</span>${'</div>'.repeat(40)}`),
+
+  // Large subtrees that are not rendered
+  'hidden-subtrees': () => repeat(20, i =>
+    `<section><h2>Section ${i}</h2><div style="display: none">${repeat(500, j => `<p>Hidden ${j}</p>`)}</div></section>`
+  ) + '<script>/* not captured */</script><template><div>Template content</div></template>'
+};
+
+/**
+ * Repeat a generated fragment
+ *
+ * @param count Number of repetitions
+ * @param fragment Function generating the fragment for an index
+ * @returns The concatenated fragments
+ */
+function repeat(count, fragment) {
+  let html = '';
+  for (let i = 0; i < count; i++) {
+    html += fragment(i);
+  }
+  return html;
+}
+
+/**
+ * Parse the command line arguments
+ *
+ * @returns Benchmark options
+ */
+function parseArgs() {
+  const options = { fixtures: Object.keys(fixtures), iterations: 3, json: null };
+  const args = process.argv.slice(2);
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--fixture':
+        options.fixtures = [args[++i]];
+        break;
+      case '--iterations':
+        options.iterations = parseInt(args[++i], 10);
+        break;
+      case '--json':
+        options.json = args[++i];
+        break;
+      default:
+        throw new Error(`Unknown argument: ${args[i]}`);
+    }
+  }
+
+  for (const name of options.fixtures) {
+    if (!fixtures[name]) {
+      throw new Error(`Unknown fixture: ${name} (available: ${Object.keys(fixtures).join(', ')})`);
+    }
+  }
+  if (!(options.iterations > 0)) {
+    throw new Error('Iterations must be a positive integer');
+  }
+
+  return options;
+}
+
+/**
+ * Expose a jsdom window as the browser globals used by the web client
+ *
+ * @param window jsdom window
+ */
+function installGlobals(window) {
+  Object.assign(global, {
+    window,
+    document: window.document,
+    navigator: window.navigator,
+    MutationObserver: window.MutationObserver,
+    HTMLInputElement: window.HTMLInputElement,
+    HTMLTextAreaElement: window.HTMLTextAreaElement
+  });
+}
+
+/**
+ * Benchmark the capture of a fixture
+ *
+ * @param name Fixture name
+ * @param iterations Number of measured captures
+ * @returns Benchmark result
+ */
+async function runFixture(name, iterations) {
+  const dom = new JSDOM(`<!DOCTYPE html><html><head><title>${name}</title></head><body>${fixtures[name]()}</body></html>`);
+  installGlobals(dom.window);
+
+  const client = new WebMCPClient();
+  await client.initialize({ platform: 'web', optimization: { mutationWindow: 0 } });
+
+  // The first capture identifies every element, later ones re-identify them
+  let start = performance.now();
+  const state = await client.captureState();
+  const firstCapture = performance.now() - start;
+
+  const times = [];
+  for (let i = 0; i < iterations; i++) {
+    start = performance.now();
+    await client.captureState();
+    times.push(performance.now() - start);
+  }
+
+  // Time an incremental update, from the mutation to the notification
+  const updated = new Promise(resolve => client.subscribeToStateChanges(resolve));
+  start = performance.now();
+  const added = dom.window.document.createElement('p');
+  added.textContent = 'Added';
+  dom.window.document.body.appendChild(added);
+  await updated;
+  const mutationUpdate = performance.now() - start;
+
+  const domNodes = dom.window.document.getElementsByTagName('*').length;
+  client.dispose();
+  dom.window.close();
+
+  times.sort((a, b) => a - b);
+  return {
+    fixture: name,
+    domNodes,
+    elements: Object.keys(state.elements).length,
+    firstCaptureMs: round(firstCapture),
+    medianCaptureMs: round(times[Math.floor(times.length / 2)]),
+    minCaptureMs: round(times[0]),
+    maxCaptureMs: round(times[times.length - 1]),
+    mutationUpdateMs: round(mutationUpdate)
+  };
+}
+
+/**
+ * Round a duration to a tenth of a millisecond
+ */
+function round(ms) {
+  return Math.round(ms * 10) / 10;
+}
+
+/**
+ * Run the benchmark
+ */
+async function main() {
+  const options = parseArgs();
+  const results = [];
+
+  for (const name of options.fixtures) {
+    const result = await runFixture(name, options.iterations);
+    results.push(result);
+    console.log(
+      `${name.padEnd(16)} ${String(result.elements).padStart(6)} of ${String(result.domNodes).padStart(6)} nodes  ` +
+      `first ${result.firstCaptureMs}ms  median ${result.medianCaptureMs}ms  ` +
+      `(min ${result.minCaptureMs}ms, max ${result.maxCaptureMs}ms)  update ${result.mutationUpdateMs}ms`
+    );
+  }
+
+  if (options.json) {
+    const report = { timestamp: new Date().toISOString(), node: process.version, iterations: options.iterations, results };
+    fs.writeFileSync(options.json, JSON.stringify(report, null, 2));
+    console.log(`\nResults written to ${options.json}`);
+  }
+}
+
+main().catch(error => {
+  console.error('Error running benchmark:', error);
+  process.exit(1);
+});